@@ -0,0 +1,7 @@
+"use client";
+
+import AgentChat from "@/views/AgentChat";
+
+export default function ChatPage() {
+  return <AgentChat />;
+}
@@ -0,0 +1,53 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  backendFetch,
+  backendUnavailable,
+  getFreshSession,
+  sessionError,
+  setSessionCookie,
+  SESSION_EXPIRES_HEADER,
+} from "@/lib/session";
+
+export const dynamic = "force-dynamic";
+
+// Backend route prefixes the dashboard may call with the session JWT
+const ALLOWED_PREFIXES = ["agents/", "request/", "requests", "webhooks", "chat"];
+
+/**
+ * /api/session/proxy/<path> → backend /api/<path> with Authorization: Bearer <session JWT>.
+ * The JWT is refreshed first when it is close to expiry.
+ */
+async function proxy(req: NextRequest, { params }: { params: Promise<{ path: string[] }> }) {
+  const { path } = await params;
+  // "." and ".." would be resolved by the backend's URL parsing and escape the allowed prefix
+  if (path.some(segment => segment === "" || segment === "." || segment === "..")) {
+    return sessionError(404, "Not found", "NOT_FOUND");
+  }
+  const target = path.map(encodeURIComponent).join("/");
+  if (!ALLOWED_PREFIXES.some(prefix => target === prefix || target.startsWith(prefix))) {
+    return sessionError(404, "Not found", "NOT_FOUND");
+  }
+
+  const { session, error } = await getFreshSession(req);
+  if (error) return error;
+
+  const body = req.method === "GET" || req.method === "HEAD" ? undefined : await req.text();
+  const upstream = await backendFetch(req, `/api/${target}${req.nextUrl.search}`, {
+    method: req.method,
+    headers: { authorization: `Bearer ${session.token}` },
+    body: body || undefined,
+  }).catch(() => null);
+  if (!upstream) return backendUnavailable();
+
+  const res = new NextResponse(upstream.body, {
+    status: upstream.status,
+    headers: { "content-type": upstream.headers.get("content-type") || "application/json" },
+  });
+  const retryAfter = upstream.headers.get("retry-after");
+  if (retryAfter) res.headers.set("retry-after", retryAfter);
+  if (session.refreshed) setSessionCookie(res, session);
+  res.headers.set(SESSION_EXPIRES_HEADER, String(session.expiresAt));
+  return res;
+}
+
+export { proxy as GET, proxy as POST, proxy as PUT, proxy as DELETE };
@@ -0,0 +1,87 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  backendFetch,
+  backendUnavailable,
+  clearSessionCookie,
+  getFreshSession,
+  sessionError,
+  setSessionCookie,
+  toSession,
+  SESSION_COOKIE,
+} from "@/lib/session";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/session — current dashboard session, refreshed if close to expiry.
+ * Response: { authenticated: false } | { authenticated: true, wallet_address, expires_at }
+ */
+export async function GET(req: NextRequest) {
+  const { session, error } = await getFreshSession(req);
+  if (error?.status === 502) return error;
+  if (!session) {
+    const res = NextResponse.json({ authenticated: false });
+    if (req.cookies.has(SESSION_COOKIE)) clearSessionCookie(res);
+    return res;
+  }
+
+  const res = NextResponse.json({
+    authenticated: true,
+    wallet_address: session.claims.wallet_address,
+    expires_at: session.expiresAt,
+  });
+  if (session.refreshed) setSessionCookie(res, session);
+  return res;
+}
+
+/**
+ * POST /api/session — exchange a signed wallet challenge for a session cookie.
+ * Request: { wallet_address, signature, message, chain_id } (SIWE message from POST /api/auth/challenge)
+ * Response: { authenticated: true, wallet_address, expires_at, agent }
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.text();
+
+  const upstream = await backendFetch(req, "/api/auth/verify", { method: "POST", body }).catch(() => null);
+  if (!upstream) return backendUnavailable();
+  const data = await upstream.json().catch(() => ({}));
+  if (!upstream.ok) {
+    return NextResponse.json(data, { status: upstream.status });
+  }
+
+  const session = typeof data.token === "string" ? toSession(data.token) : null;
+  if (!session) {
+    return sessionError(502, "Backend returned an unusable session token", "BAD_GATEWAY");
+  }
+
+  const res = NextResponse.json({
+    authenticated: true,
+    wallet_address: session.claims.wallet_address,
+    expires_at: session.expiresAt,
+    agent: data.agent ?? null,
+  });
+  setSessionCookie(res, session);
+  return res;
+}
+
+/**
+ * DELETE /api/session — sign out: revoke the JWT on the backend and drop the cookie.
+ */
+export async function DELETE(req: NextRequest) {
+  const token = req.cookies.get(SESSION_COOKIE)?.value;
+
+  if (token) {
+    // The backend accepts expired tokens here, so a stale cookie is still revoked
+    const upstream = await backendFetch(req, "/api/auth/logout", {
+      method: "POST",
+      headers: { authorization: `Bearer ${token}` },
+    }).catch(() => null);
+    if (!upstream || (!upstream.ok && upstream.status !== 401)) {
+      console.error("Session revoke failed:", upstream?.status ?? "network error");
+    }
+  }
+
+  const res = NextResponse.json({ success: true });
+  clearSessionCookie(res);
+  return res;
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import Link from "next/link";
+import { ApiExplorer } from "@/components/ApiExplorer";
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL
   ? `${(process.env.NEXT_PUBLIC_API_URL as string).replace(/\/$/, "")}/api`
@@ -37,6 +38,7 @@ const NAV = [
       { id: "key-mgmt", icon: "🔑", text: "Key Management" },
       { id: "wallet-auth", icon: "👛", text: "Dashboard Auth" },
       { id: "endpoints", icon: "📋", text: "All Endpoints" },
+      { id: "explorer", icon: "🧪", text: "API Explorer" },
       { id: "chains", icon: "⛓️", text: "Chains & Tokens" },
       { id: "network", icon: "🌐", text: "Network & Roadmap" },
     ],
@@ -264,6 +266,7 @@ export default function DocsPage() {
             ["Payer has ≥ 4 LCX", "4 LCX fee (2 platform + 2 creator reward). Creator gets full amount."],
             ["Payer has < 4 LCX", "Fee deducted from payment token (50/50 split). Creator gets amount minus fee."],
             ["ETH payments", "Fee converted to ETH equivalent using live price."],
+            ["Custom ERC-20 links (< 4 LCX)", "Fee charged in the network's native token as separate transfers. Creator gets full amount."],
           ]} />
           <P>Fees are LCX-denominated, not USD-based. At current pricing: 2 LCX ≈ $0.08 (at $0.04/LCX). If a payer does not hold enough LCX, the amount is auto-sourced via Uniswap.</P>
           <P>Human payers: use <Code>GET /api/request/:id/fee?payer=0x...</Code> (public, no auth) to get fee breakdown and transfer instructions.</P>
@@ -430,10 +433,12 @@ console.log('Wallet address:', client.address);
 // ── Create a payment link ───────────────────────────────
 const link = await client.createLink({
   amount: '10',
-  network: 'sepolia',      // 'sepolia' | 'ethereum' | 'base'
-  token: 'USDC',           // 'USDC' | 'USDT' | 'ETH' | 'LCX'
+  network: 'sepolia',      // 'sepolia' | 'ethereum' | 'base' | 'polygon' | 'bnb'
+  token: 'USDC',           // 'USDC' | 'USDT' | 'LCX' | native: 'ETH' | 'POL' | 'BNB'
   description: 'Service fee',
 });
+// Any other ERC-20: pass its contract and symbol
+// await client.createLink({ amount: '0.25', network: 'polygon', token: 'WETH', tokenAddress: '0x7ceB...f619' });
 console.log('Link created:', link.linkId);
 
 // ── Pay a link (one call) ───────────────────────────────
@@ -448,7 +453,7 @@ const instructions = await client.getInstructions('REQ-ABC123');
 // ... sign & broadcast yourself ...
 const verification = await client.verifyPayment('REQ-ABC123', '0xTxHash');`}</Pre>
           <SectionH3>Create a Payment Link (cURL)</SectionH3>
-          <P><Code>network</Code> is required. Supported: <Code>sepolia</Code>, <Code>ethereum</Code>, <Code>base</Code>. All requests use HMAC signing.</P>
+          <P><Code>network</Code> is required. Supported: <Code>sepolia</Code>, <Code>ethereum</Code>, <Code>base</Code>, <Code>polygon</Code>, <Code>bnb</Code>. All requests use HMAC signing.</P>
           <Pre>{`curl -X POST ${API_BASE}/create-link \\
   -H "Content-Type: application/json" \\
   -H "x-api-key-id: pk_live_YOUR_KEY_ID" \\
@@ -592,13 +597,19 @@ Authorization: Bearer eyJ...`}</Pre>
             <EP method="DELETE" path="/api/agents/me" desc="Delete agent (soft)" />
           </div>
 
+          <SectionH2 id="explorer">API Explorer</SectionH2>
+          <P>Try the API from this page. Pick an endpoint, fill in the form, and send it. For HMAC endpoints, paste your API key ID and secret: the request is signed in your browser and the secret is held in memory only — it is never sent or saved, and reloading the page clears it.</P>
+          <ApiExplorer defaultBaseUrl={API_BASE.replace("/api", "")} />
+
           <SectionH2 id="chains">Chains &amp; Tokens</SectionH2>
           <DocTable headers={["Chain", "Identifier"]} rows={[
             [<span key="eth">Ethereum Mainnet <Badge color="green">Live</Badge></span>, <Code key="c1">ethereum</Code>],
             [<span key="base">Base Mainnet <Badge color="green">Live</Badge></span>, <Code key="c2">base</Code>],
+            [<span key="pol">Polygon PoS <Badge color="green">Live</Badge></span>, <Code key="c4">polygon</Code>],
+            [<span key="bnb">BNB Smart Chain <Badge color="green">Live</Badge></span>, <Code key="c5">bnb</Code>],
             [<span key="sep">Sepolia Testnet <Badge color="blue">Testnet</Badge></span>, <Code key="c3">sepolia</Code>],
           ]} />
-          <P>Tokens per chain: USDC, USDT, ETH (native), LCX. Query <Code>GET /api/chains</Code> for full details including contract addresses.</P>
+          <P>Ethereum, Base and Sepolia: USDC, USDT, ETH (native), LCX. Polygon: USDC, USDT, POL (native). BNB Smart Chain: USDC, USDT, BNB (native) — its USDC and USDT use 18 decimals. Query <Code>GET /api/chains</Code> for full details including contract addresses.</P>
 
           <SectionH2 id="network">Network &amp; Roadmap</SectionH2>
           <SectionH3>Current</SectionH3>
@@ -3,11 +3,12 @@
 import "@rainbow-me/rainbowkit/styles.css";
 import { getDefaultConfig, RainbowKitProvider } from "@rainbow-me/rainbowkit";
 import { WagmiProvider } from "wagmi";
-import { mainnet, base, sepolia } from "wagmi/chains";
+import { mainnet, base, polygon, bsc, sepolia } from "wagmi/chains";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { WalletSessionProvider } from "@/components/WalletSessionProvider";
 import { Analytics } from "@vercel/analytics/react";
 
 const config = getDefaultConfig({
@@ -15,7 +16,7 @@ const config = getDefaultConfig({
   projectId:
     process.env.NEXT_PUBLIC_WALLET_CONNECT_PROJECT_ID ||
     "a3c4e5f6g7h8i9j0k1l2m3n4o5p6q7r8",
-  chains: [mainnet, base, sepolia],
+  chains: [mainnet, base, polygon, bsc, sepolia],
   ssr: true,
 });
 
@@ -26,11 +27,13 @@ export function Providers({ children }: { children: React.ReactNode }) {
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
         <RainbowKitProvider>
-          <TooltipProvider>
-            {children}
-            <Toaster />
-            <Sonner />
-          </TooltipProvider>
+          <WalletSessionProvider>
+            <TooltipProvider>
+              {children}
+              <Toaster />
+              <Sonner />
+            </TooltipProvider>
+          </WalletSessionProvider>
         </RainbowKitProvider>
       </QueryClientProvider>
       <Analytics />
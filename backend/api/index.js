@@ -10,17 +10,13 @@ const app = express();
 app.set('trust proxy', 1);
 
 // CORS - Restrict to known frontend origins (Security: C2)
-const ALLOWED_ORIGINS = [
-  'https://payagent.co',
-  'https://www.payagent.co',
-  'https://api.payagent.co',
-  'https://payagent.vercel.app',
-  process.env.FRONTEND_URL,
-  'http://localhost:5173',
-  'http://localhost:3000',
-  'http://localhost:8080',
-].filter(Boolean);
-app.use(cors({ origin: ALLOWED_ORIGINS, credentials: true }));
+const { ALLOWED_ORIGINS } = require('../lib/allowedOrigins');
+app.use(cors({
+  origin: ALLOWED_ORIGINS,
+  credentials: true,
+  // Readable by browser clients such as the Docs API explorer
+  exposedHeaders: ['RateLimit-Policy', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After'],
+}));
 
 // Security headers (H7)
 app.use((req, res, next) => {
@@ -66,24 +62,391 @@ const { supabase } = require('../lib/supabase');
 // ============ Chain Registry (single source of truth for chains & tokens) ============
 const {
   getTokenAddress,
+  findTokenByAddress,
   isValidNetwork,
   isNativeToken,
   getCanonicalName,
   getSupportedNetworks,
-  getSupportedNetworkList,
+  getSupportedTokens,
+  isTokenSupported,
+  getChainDetailsList,
   getExplorerUrl,
+  getRouterAddress,
+  getTokenDecimals,
 } = require('../lib/chainRegistry');
 
+/**
+ * Resolve the token of a new link created with an explicit contract address.
+ * A registry contract is normalised to its symbol (tokenAddress null); any
+ * other contract becomes a custom ERC-20 link, with the creator's symbol kept
+ * for display only — payments are built and verified against the contract.
+ * @param {string} network - Canonical network name
+ * @param {string} token - Symbol supplied by the creator
+ * @param {string} tokenAddress - Contract address supplied by the creator
+ * @returns {{token: string, tokenAddress: string|null}|{error: string}}
+ */
+function resolveLinkToken(network, token, tokenAddress) {
+  if (typeof tokenAddress !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(tokenAddress)) {
+    return { error: 'Invalid tokenAddress: expected a 0x-prefixed, 40 hex character contract address' };
+  }
+
+  const registrySymbol = findTokenByAddress(network, tokenAddress);
+  if (registrySymbol) {
+    return { token: registrySymbol, tokenAddress: null };
+  }
+
+  const symbol = typeof token === 'string' ? token.trim() : '';
+  if (!/^[A-Za-z0-9.$_-]{1,16}$/.test(symbol)) {
+    return { error: 'Custom tokens need their symbol in "token" (1-16 letters, digits, ".", "_", "-" or "$")' };
+  }
+  // A look-alike "USDC" contract must not pass for the real one
+  if (isTokenSupported(network, symbol)) {
+    return { error: `${symbol.toUpperCase()} on ${network} is the registry token; omit tokenAddress or use the official contract ${getTokenAddress(network, symbol) || '(native)'}` };
+  }
+
+  return { token: symbol, tokenAddress: tokenAddress.toLowerCase() };
+}
+
+/**
+ * Validate the transaction hashes of an EIP-5792 (wallet_sendCalls) bundle.
+ * A wallet may execute the whole batch as one transaction or as one per call,
+ * so a bundle reports between 1 and 3 hashes (payment, fee, creator reward).
+ * @param {*} txHashes - Value of req.body.txHashes
+ * @returns {string|null} Error message, or null when valid
+ */
+function validateBundleHashes(txHashes) {
+  if (!Array.isArray(txHashes) || txHashes.length === 0 || txHashes.length > 3) {
+    return 'txHashes must be an array of 1 to 3 transaction hashes from one bundle';
+  }
+  if (!txHashes.every(h => typeof h === 'string' && /^0x[a-fA-F0-9]{64}$/.test(h))) {
+    return 'txHashes must contain 0x-prefixed, 64 hex character transaction hashes';
+  }
+  return null;
+}
+
+/**
+ * Reject receivers that can never be right: malformed addresses, the zero
+ * address, and token contracts (a registry token on any network, or the
+ * link's own custom token). Funds sent there are lost. A mixed-case address
+ * whose EIP-55 checksum doesn't match is accepted (the dashboard warns about
+ * it first) and stored through normalizeReceiver.
+ * @param {*} receiver - Receiver address supplied by the creator
+ * @param {string|null} linkTokenAddress - Custom token contract of the link, lowercased
+ * @returns {string|null} Error message, or null when valid
+ */
+function validateReceiver(receiver, linkTokenAddress) {
+  if (typeof receiver !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(receiver)) {
+    return 'Invalid receiver: expected a 0x-prefixed, 40 hex character address';
+  }
+  if (BigInt(receiver) === 0n) {
+    return 'Invalid receiver: the zero address cannot receive payments';
+  }
+  const tokenNetwork = getSupportedNetworks().find(network => findTokenByAddress(network, receiver));
+  if (tokenNetwork) {
+    return `Invalid receiver: ${receiver} is the ${findTokenByAddress(tokenNetwork, receiver)} contract on ${tokenNetwork}`;
+  }
+  if (linkTokenAddress && receiver.toLowerCase() === linkTokenAddress) {
+    return 'Invalid receiver: it is the contract of the requested token';
+  }
+  return null;
+}
+
+/**
+ * Receiver as stored: a mismatched EIP-55 checksum is replaced with the correct
+ * one, other addresses are kept as entered.
+ * @param {string} receiver - Address that passed validateReceiver
+ * @returns {string}
+ */
+function normalizeReceiver(receiver) {
+  return ethers.isAddress(receiver) ? receiver : ethers.getAddress(receiver.toLowerCase());
+}
+
+/**
+ * Validate the ENS name (e.g. alice.eth, alice.base.eth) a link's receiver was
+ * entered as. The frontend resolves it; only the name is checked here.
+ * @param {*} receiverName - Value of req.body.receiverName
+ * @returns {string|null} Error message, or null when valid
+ */
+function validateReceiverName(receiverName) {
+  if (typeof receiverName !== 'string' || receiverName.length > 255 || !/^[^\s.]+(\.[^\s.]+)*\.eth$/i.test(receiverName)) {
+    return 'Invalid receiverName: expected an ENS name such as alice.eth or alice.base.eth';
+  }
+  return null;
+}
+
+// ============ Multi-network links ============
+
+/**
+ * Parse the networks of a new link: one network, a comma-separated list or an
+ * array, each resolved to its canonical name. The first one is the default.
+ * @param {string|string[]} network - Value of req.body.network
+ * @returns {{networks: string[]}|{error: string}}
+ */
+function parseLinkNetworks(network) {
+  const requested = (Array.isArray(network) ? network : String(network || 'sepolia').split(','))
+    .map(n => String(n).trim())
+    .filter(Boolean);
+  if (requested.length === 0) {
+    return { error: 'Missing network. Supported: ' + getSupportedNetworks().join(', ') };
+  }
+
+  const networks = [];
+  for (const name of requested) {
+    const canonical = getCanonicalName(name);
+    if (!canonical) {
+      return { error: `Unsupported network: "${name}". Supported: ${getSupportedNetworks().join(', ')}` };
+    }
+    if (networks.includes(canonical)) {
+      return { error: `Network ${canonical} is listed twice` };
+    }
+    networks.push(canonical);
+  }
+  return { networks };
+}
+
+/**
+ * Networks a link can be paid on, in the creator's order. Stored comma-separated
+ * in payment_requests.network; narrowed to the paid network once verified.
+ * @param {object} request - payment_requests row (snake_case or camelCase)
+ * @returns {string[]}
+ */
+function getLinkNetworks(request) {
+  return String(request.network || 'sepolia').split(',').map(n => n.trim()).filter(Boolean);
+}
+
+/**
+ * The network a payer pays a link on and the receiver there (a per-network
+ * override from `receivers`, or the link's receiver). `network` may be any
+ * alias of one of the link's networks; when omitted, the first one is used.
+ * @param {object} request - payment_requests row (snake_case or camelCase)
+ * @param {string} [network] - Network chosen by the payer
+ * @returns {{network: string, receiver: string}|{error: string}}
+ */
+function selectLinkNetwork(request, network) {
+  const networks = getLinkNetworks(request);
+  const selected = network ? getCanonicalName(String(network)) : networks[0];
+  if (!selected || !networks.includes(selected)) {
+    return { error: `This link can be paid on ${networks.join(', ')}, not "${network}"` };
+  }
+  return { network: selected, receiver: (request.receivers && request.receivers[selected]) || request.receiver };
+}
+
+// ============ Accepted tokens ============
+
+// Tokens that pay each other's amounts 1:1, without a quote
+const STABLECOINS = ['USDC', 'USDT'];
+
+/**
+ * Parse the accepted tokens of a new link: one symbol, a comma-separated list
+ * or an array, uppercased. The first one is the token `amount` is in.
+ * @param {string|string[]} token - Value of req.body.token
+ * @returns {{tokens: string[]}|{error: string}}
+ */
+function parseLinkTokens(token) {
+  const tokens = (Array.isArray(token) ? token : String(token || '').split(','))
+    .map(t => String(t).trim().toUpperCase())
+    .filter(Boolean);
+  if (tokens.length === 0) {
+    return { error: 'Missing required fields: token, amount, receiver' };
+  }
+  const duplicate = tokens.find((t, i) => tokens.indexOf(t) !== i);
+  if (duplicate) {
+    return { error: `Token ${duplicate} is listed twice` };
+  }
+  return { tokens };
+}
+
+/**
+ * Tokens a link accepts, the one its amount is in first. Stored comma-separated
+ * in payment_requests.token; narrowed to the token that settled it once verified.
+ * @param {object} request - payment_requests row (snake_case or camelCase)
+ * @returns {string[]}
+ */
+function getLinkTokens(request) {
+  return String(request.token || 'USDC').split(',').map(t => t.trim()).filter(Boolean);
+}
+
+/**
+ * The token a payer pays a link in: one of its accepted tokens, by default the first.
+ * @param {object} request - payment_requests row (snake_case or camelCase)
+ * @param {string} [token] - Token chosen by the payer
+ * @returns {{token: string}|{error: string}}
+ */
+function selectLinkToken(request, token) {
+  const tokens = getLinkTokens(request);
+  const selected = token ? tokens.find(t => t.toUpperCase() === String(token).trim().toUpperCase()) : tokens[0];
+  if (!selected) {
+    return { error: `This link accepts ${tokens.join(', ')}, not "${token}"` };
+  }
+  return { token: selected };
+}
+
+/**
+ * Whether paying a link in `token` needs a quote: always for fiat-denominated
+ * links, and for a token other than the link's first unless both are stablecoins.
+ * @param {object} request - payment_requests row (snake_case or camelCase)
+ * @param {string} token - Token the payer pays in
+ * @returns {boolean}
+ */
+function needsQuote(request, token) {
+  if (request.currency) return true;
+  const primary = getLinkTokens(request)[0];
+  return token !== primary && !(STABLECOINS.includes(token) && STABLECOINS.includes(primary));
+}
+
+// ============ Price quotes ============
+// A link priced in a fiat `currency`, or paid in another token than the one its
+// amount is in, is paid at a quote that locks the token amount for QUOTE_TTL_MS.
+// Quotes are stored by id (price_quotes) and never changed once issued: the
+// payer passes the quoteId to /fee, /relay and /api/verify, so quotes issued
+// to anyone else later can't move the amount under a payment in flight. A paid
+// link keeps the quote it was paid at in payment_requests.quote.
+
+const QUOTE_TTL_MS = 5 * 60 * 1000;
+// A payment sent just before the quote expired may be verified after it (confirmations, resumes)
+const QUOTE_SETTLEMENT_GRACE_MS = 10 * 60 * 1000;
+// Relative deviation from the quoted amount that verification accepts
+const QUOTE_TOLERANCE = 0.005;
+
+/**
+ * Validate the currency of a new link.
+ * @param {string} [currency] - Fiat currency code; omitted for links priced in the token
+ * @returns {string|null} Error message, or null when valid
+ */
+function validateCurrency(currency) {
+  if (currency === undefined || currency === null) return null;
+  if (typeof currency !== 'string' || !SUPPORTED_FIAT_CURRENCIES.includes(currency.toUpperCase())) {
+    return `Unsupported currency. Supported: ${SUPPORTED_FIAT_CURRENCIES.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Quote the amount of `token` that pays a link on `network` at the current price.
+ * The quote's `currency` is what the link is priced in: its fiat currency, or
+ * its first token (priced through USD).
+ * @param {object} request - payment_requests row (snake_case)
+ * @param {string} network - Network the payer pays on
+ * @param {string} token - Token the payer pays in
+ * @returns {Promise<object>} Quote to store on the link
+ */
+async function createQuote(request, network, token) {
+  const currency = request.currency || getLinkTokens(request)[0];
+  const price = request.currency
+    ? await getFiatPrice(token, currency)
+    : (await getFiatPrice(token, 'USD')) / (await getFiatPrice(currency, 'USD'));
+  const decimals = Math.min(getTokenDecimals(network, token) ?? 18, 8);
+  // Plain decimal string: Number() would print tiny amounts as "3e-8", which parseUnits rejects
+  const amount = (Number(request.amount) / price).toFixed(decimals);
+  const now = Date.now();
+  return {
+    id: 'QUO-' + crypto.randomUUID(),
+    currency,
+    fiatAmount: String(request.amount),
+    token,
+    network,
+    amount: decimals > 0 ? amount.replace(/\.?0+$/, '') : amount,
+    price,
+    tolerance: QUOTE_TOLERANCE,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + QUOTE_TTL_MS).toISOString()
+  };
+}
+
+/**
+ * Look up a quote issued for a link.
+ * @param {object} request - payment_requests row (snake_case or camelCase)
+ * @param {string} [quoteId] - Id returned by POST /api/prices/quote
+ * @returns {Promise<object|null>} The quote, or null if the link has no quote with that id
+ */
+async function getQuote(request, quoteId) {
+  if (typeof quoteId !== 'string' || !quoteId) return null;
+  if (supabase) {
+    const { data, error } = await supabase
+      .from('price_quotes')
+      .select('quote')
+      .eq('id', quoteId)
+      .eq('payment_request_id', request.id)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? data.quote : null;
+  }
+  const stored = memoryStore.quotes[quoteId];
+  return stored && stored.paymentRequestId === request.id ? stored.quote : null;
+}
+
+/**
+ * The quote `quoteId` when it is for `token` on `network` and still valid,
+ * otherwise a newly issued one. Issued quotes are inserted, never updated.
+ * @param {object} request - payment_requests row (snake_case)
+ * @param {string} network - Network the payer pays on
+ * @param {string} token - Token the payer pays in
+ * @param {string} [quoteId] - Quote the payer already holds
+ * @returns {Promise<object>} Quote
+ */
+async function lockQuote(request, network, token, quoteId) {
+  const current = await getQuote(request, quoteId);
+  if (current && current.network === network && current.token === token && Date.parse(current.expiresAt) > Date.now()) {
+    return current;
+  }
+
+  const quote = await createQuote(request, network, token);
+  if (supabase) {
+    const { error } = await supabase
+      .from('price_quotes')
+      .insert({ id: quote.id, payment_request_id: request.id, quote, expires_at: quote.expiresAt });
+    if (error) throw error;
+  } else {
+    memoryStore.quotes[quote.id] = { paymentRequestId: request.id, quote };
+  }
+  return quote;
+}
+
+/**
+ * Amount of `token` a payer sends for a link: its amount, or when the payment
+ * needs a quote (see needsQuote) the amount of the payer's quote `quoteId`.
+ * @param {object} request - payment_requests row (snake_case or camelCase)
+ * @param {string} network - Network the payer pays on
+ * @param {string} token - Token the payer pays in
+ * @param {string} [quoteId] - Quote the payer pays at
+ * @param {number} [graceMs=0] - How long after expiry the quote still counts
+ * @returns {Promise<{amount: string, quote: object|null}|{error: string}>}
+ */
+async function getPayableAmount(request, network, token, quoteId, graceMs = 0) {
+  if (!needsQuote(request, token)) {
+    return { amount: request.amount, quote: null };
+  }
+  if (!quoteId) {
+    return { error: `Paying this link in ${token} needs a price quote. Lock one for ${network} (POST /api/prices/quote) and pass its quoteId` };
+  }
+  const quote = await getQuote(request, quoteId);
+  if (!quote) {
+    return { error: `Unknown quoteId "${quoteId}" for this link. Request a new quote (POST /api/prices/quote)` };
+  }
+  if (quote.network !== network || quote.token !== token) {
+    return { error: `Quote ${quote.id} is for ${quote.token} on ${quote.network}, not ${token} on ${network}` };
+  }
+  if (Date.parse(quote.expiresAt) + graceMs < Date.now()) {
+    return { error: 'This quote has expired. Request a new one (POST /api/prices/quote)' };
+  }
+  return { amount: quote.amount, quote };
+}
+
 // ============ In-memory storage fallback ============
-let memoryStore = { requests: {} };
+let memoryStore = { requests: {}, quotes: {} };
 
 function toCamelCase(obj) {
   if (!obj) return obj;
   return {
     id: obj.id,
     token: obj.token,
+    tokenAddress: obj.token_address || obj.tokenAddress || null,
     amount: obj.amount,
     receiver: obj.receiver,
+    receiverName: obj.receiver_name || obj.receiverName || null,
+    receivers: obj.receivers || null,
+    currency: obj.currency || null,
+    quote: obj.quote || null,
     payer: obj.payer,
     description: obj.description,
     network: obj.network,
@@ -117,13 +480,17 @@ const {
 // ============ Fee system ============
 const { getFeeConfig } = require('../lib/feeConfig');
 const { calculateFee } = require('../lib/feeCalculator');
-const { getLcxPriceUsd, getEthPriceUsd } = require('../lib/lcxPrice');
+const { getLcxPriceUsd, getNativePriceUsd, getFiatPrice, NATIVE_FALLBACK_PRICES_USD, SUPPORTED_FIAT_CURRENCIES } = require('../lib/lcxPrice');
 
 // ============ Webhooks ============
-const { registerWebhook, getWebhooks, updateWebhook, deleteWebhook } = require('../lib/webhooks');
-const { dispatchEvent } = require('../lib/webhookDispatcher');
+const { registerWebhook, getWebhooks, updateWebhook, deleteWebhook, validateWebhookEvents } = require('../lib/webhooks');
+const { dispatchEvent, redeliverEvent } = require('../lib/webhookDispatcher');
+const { MAX_REDELIVERY_EVENTS, getDeliveries, getDelivery, getFailedEvents } = require('../lib/webhookDeliveries');
 const { decryptSecret } = require('../lib/crypto');
 
+// ============ Gasless Relayer (EIP-3009) ============
+const { getRelayerInfo, validateAuthorization, readTokenDecimals, checkAuthorizations, relayAuthorizations } = require('../lib/relayer');
+
 // ============ AI ============
 const { chatWithAgent } = require('../lib/ai/grokClient');
 const { buildSystemPrompt } = require('../lib/ai/systemPrompt');
@@ -141,13 +508,15 @@ const { checkIpAnomaly } = require('../lib/ipMonitor');
 const { getAgentLogs, getAgentIpHistory } = require('../lib/apiLogs');
 
 // ============ Wallet Auth (for browser dashboard) ============
-const { challengeHandler, verifyHandler } = require('../middleware/walletAuth');
+const { challengeHandler, verifyHandler, refreshHandler, logoutHandler } = require('../middleware/walletAuth');
 
 // ============ Public Routes (no auth) ============
 
 // Wallet auth challenge + verify (for browser dashboard login)
 app.post('/api/auth/challenge', sensitiveLimiter, challengeHandler);
 app.post('/api/auth/verify', sensitiveLimiter, verifyHandler);
+app.post('/api/auth/refresh', sensitiveLimiter, refreshHandler);
+app.post('/api/auth/logout', logoutHandler);
 
 // Agent registration (no auth required, with rate limit)
 app.post('/api/agents/register', sensitiveLimiter, async (req, res) => {
@@ -281,8 +650,13 @@ app.get('/api/request/:id', async (req, res) => {
         id: request.id,
         amount: request.amount,
         token: request.token,
+        tokenAddress: request.tokenAddress,
         network: request.network,
         receiver: request.receiver,
+        receiverName: request.receiverName,
+        receivers: request.receivers,
+        currency: request.currency,
+        quote: request.quote,
         description: request.description,
         expiresAt: request.expiresAt,
         createdAt: request.createdAt
@@ -295,10 +669,67 @@ app.get('/api/request/:id', async (req, res) => {
 });
 
 // ============ Public Fee Info (for human payers in browser) ============
+
+/**
+ * Build the transfers a payer sends for a link: payment, platform fee and
+ * creator reward, with the fee quoted for `payer`. Shared by the fee endpoint
+ * and the gasless relay, which must submit exactly these transfers.
+ * @param {object} request - payment_requests row (snake_case)
+ * @param {string} payer - Payer wallet address
+ * @param {{network: string, receiver: string, token: string, quoteId?: string}} selection - From selectLinkNetwork() and selectLinkToken(), plus the payer's quote
+ * @returns {Promise<object>} { paymentNetwork, receiver, paymentToken, amount, quote, creatorWallet, feeInfo, transfers, creatorReceives } or { error }
+ */
+async function buildFeeTransfers(request, payer, { network: paymentNetwork, receiver, token: paymentToken, quoteId }) {
+  // Quoted payments (fiat-priced links, other accepted tokens) pay the locked token amount
+  const payable = await getPayableAmount(request, paymentNetwork, paymentToken, quoteId);
+  if (payable.error) {
+    return { error: payable.error };
+  }
+  const { amount, quote } = payable;
+  const paymentTokenAddress = request.token_address || getTokenAddress(paymentNetwork, paymentToken);
+
+  // Calculate fee for this payer
+  const feeInfo = await calculateFee(payer, paymentNetwork, paymentToken, request.token_address || null);
+
+  // Validate: payment amount must exceed fee when fee is deducted from payment
+  if (feeInfo.feeDeductedFromPayment && Number(amount) <= feeInfo.feeTotal) {
+    return {
+      error: `Payment amount (${amount} ${paymentToken}) must be greater than the fee (${feeInfo.feeTotal} ${feeInfo.feeToken}). Minimum payment: ${(feeInfo.feeTotal + 0.01).toFixed(6)} ${paymentToken}`
+    };
+  }
+
+  const creatorWallet = request.creator_wallet || request.receiver;
+  const feeConfig = await getFeeConfig();
+
+  let transfers;
+  let creatorReceives = amount;
+
+  if (!feeInfo.feeDeductedFromPayment) {
+    // Fee paid separately (LCX, or native for custom tokens) — creator gets full amount
+    const feeTokenAddress = getTokenAddress(paymentNetwork, feeInfo.feeToken);
+    transfers = [
+      { description: 'Payment to creator', token: paymentToken, tokenAddress: paymentTokenAddress, amount, to: receiver },
+      { description: 'Platform fee', token: feeInfo.feeToken, tokenAddress: feeTokenAddress, amount: String(feeInfo.platformShare), to: feeConfig.treasury_wallet },
+      { description: 'Creator reward', token: feeInfo.feeToken, tokenAddress: feeTokenAddress, amount: String(feeInfo.creatorReward), to: creatorWallet }
+    ];
+  } else {
+    // Fee deducted from payment token
+    creatorReceives = Number((Number(amount) - feeInfo.feeTotal).toFixed(8));
+    const feeTokenAddress = isNativeToken(feeInfo.feeToken, paymentNetwork) ? null : getTokenAddress(paymentNetwork, feeInfo.feeToken);
+    transfers = [
+      { description: 'Payment to creator', token: paymentToken, tokenAddress: paymentTokenAddress, amount: String(creatorReceives), to: receiver },
+      { description: 'Platform fee', token: feeInfo.feeToken, tokenAddress: feeTokenAddress || paymentTokenAddress, amount: String(feeInfo.platformShare), to: feeConfig.treasury_wallet },
+      { description: 'Creator reward', token: feeInfo.feeToken, tokenAddress: feeTokenAddress || paymentTokenAddress, amount: String(feeInfo.creatorReward), to: creatorWallet }
+    ];
+  }
+
+  return { paymentNetwork, receiver, paymentToken, amount, quote, creatorWallet, feeInfo, transfers, creatorReceives };
+}
+
 app.get('/api/request/:id/fee', async (req, res) => {
   try {
     const { id } = req.params;
-    const { payer } = req.query;
+    const { payer, network, token, quoteId } = req.query;
 
     if (!payer || !/^0x[a-fA-F0-9]{40}$/.test(payer)) {
       return res.status(400).json({ error: 'Missing or invalid payer wallet address. Use ?payer=0x...' });
@@ -333,57 +764,35 @@ app.get('/api/request/:id/fee', async (req, res) => {
       return res.status(400).json({ error: 'This payment link has expired' });
     }
 
-    const paymentNetwork = request.network || 'sepolia';
-    const paymentToken = (request.token || 'USDC').toUpperCase();
-    const paymentTokenAddress = getTokenAddress(paymentNetwork, paymentToken);
-    const lcxTokenAddress = getTokenAddress(paymentNetwork, 'LCX');
-
-    // Calculate fee for this payer
-    const feeInfo = await calculateFee(payer, paymentNetwork, paymentToken);
-
-    // Validate: payment amount must exceed fee when fee is deducted from payment
-    if (feeInfo.feeDeductedFromPayment && Number(request.amount) <= feeInfo.feeTotal) {
-      return res.status(400).json({
-        error: `Payment amount (${request.amount} ${paymentToken}) must be greater than the fee (${feeInfo.feeTotal} ${feeInfo.feeToken}). Minimum payment: ${(feeInfo.feeTotal + 0.01).toFixed(6)} ${paymentToken}`
-      });
+    const selection = selectLinkNetwork(request, network);
+    if (selection.error) {
+      return res.status(400).json({ error: selection.error });
+    }
+    const tokenChoice = selectLinkToken(request, token);
+    if (tokenChoice.error) {
+      return res.status(400).json({ error: tokenChoice.error });
     }
 
-    const creatorWallet = request.creator_wallet || request.receiver;
-    const feeConfig = await getFeeConfig();
-
-    let transfers;
-    let creatorReceives = request.amount;
-
-    if (feeInfo.feeToken === 'LCX' && !feeInfo.feeDeductedFromPayment) {
-      // Payer has LCX — creator gets full amount, fee in LCX separately
-      transfers = [
-        { description: 'Payment to creator', token: paymentToken, tokenAddress: paymentTokenAddress, amount: request.amount, to: creatorWallet },
-        { description: 'Platform fee', token: 'LCX', tokenAddress: lcxTokenAddress, amount: String(feeInfo.platformShare), to: feeConfig.treasury_wallet },
-        { description: 'Creator reward', token: 'LCX', tokenAddress: lcxTokenAddress, amount: String(feeInfo.creatorReward), to: creatorWallet }
-      ];
-    } else {
-      // Fee deducted from payment token
-      creatorReceives = Number((Number(request.amount) - feeInfo.feeTotal).toFixed(8));
-      const feeTokenAddress = isNativeToken(feeInfo.feeToken, paymentNetwork) ? null : getTokenAddress(paymentNetwork, feeInfo.feeToken);
-      transfers = [
-        { description: 'Payment to creator', token: paymentToken, tokenAddress: paymentTokenAddress, amount: String(creatorReceives), to: creatorWallet },
-        { description: 'Platform fee', token: feeInfo.feeToken, tokenAddress: feeTokenAddress || paymentTokenAddress, amount: String(feeInfo.platformShare), to: feeConfig.treasury_wallet },
-        { description: 'Creator reward', token: feeInfo.feeToken, tokenAddress: feeTokenAddress || paymentTokenAddress, amount: String(feeInfo.creatorReward), to: creatorWallet }
-      ];
+    const built = await buildFeeTransfers(request, payer, { ...selection, token: tokenChoice.token, quoteId });
+    if (built.error) {
+      return res.status(400).json({ error: built.error });
     }
+    const { paymentNetwork, paymentToken, amount, quote, receiver, feeInfo, transfers, creatorReceives } = built;
 
     return res.json({
       success: true,
       payment: {
         token: paymentToken,
-        amount: request.amount,
+        amount,
         network: paymentNetwork,
-        to: creatorWallet,
+        to: receiver,
         description: request.description
       },
+      quote,
       fee: feeInfo,
       transfers,
-      creatorReceives: String(creatorReceives)
+      creatorReceives: String(creatorReceives),
+      relayer: getRelayerInfo()
     });
   } catch (error) {
     console.error('Fee info error:', error);
@@ -391,6 +800,106 @@ app.get('/api/request/:id/fee', async (req, res) => {
   }
 });
 
+// ============ Gasless Relay (EIP-3009, public) ============
+// The payer signs one transferWithAuthorization per transfer of GET /fee; the
+// relayer submits them and pays the gas. Verify with the returned hashes.
+app.post('/api/request/:id/relay', sensitiveLimiter, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { authorizations, network, token, quoteId } = req.body || {};
+
+    if (!getRelayerInfo()) {
+      return res.status(503).json({ error: 'Gasless payments are not enabled on this server' });
+    }
+
+    if (!Array.isArray(authorizations) || authorizations.length === 0 || authorizations.length > 3) {
+      return res.status(400).json({ error: 'authorizations must be an array with one signed authorization per transfer' });
+    }
+    for (const auth of authorizations) {
+      const invalid = validateAuthorization(auth);
+      if (invalid) return res.status(400).json({ error: invalid });
+    }
+    const payer = authorizations[0].from.toLowerCase();
+    if (authorizations.some(auth => auth.from.toLowerCase() !== payer)) {
+      return res.status(400).json({ error: 'All authorizations must come from the same payer' });
+    }
+
+    let request;
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('payment_requests')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code === 'PGRST116') {
+        return res.status(404).json({ error: 'Payment request not found' });
+      }
+      if (error) throw error;
+      request = data;
+    } else {
+      request = memoryStore.requests[id];
+      if (!request) {
+        return res.status(404).json({ error: 'Payment request not found' });
+      }
+    }
+
+    if (request.status === 'PAID') {
+      return res.status(400).json({ error: 'This link is already paid' });
+    }
+    if (request.expires_at && new Date(request.expires_at) < new Date()) {
+      return res.status(400).json({ error: 'This payment link has expired' });
+    }
+
+    const selection = selectLinkNetwork(request, network);
+    if (selection.error) {
+      return res.status(400).json({ error: selection.error });
+    }
+    const tokenChoice = selectLinkToken(request, token);
+    if (tokenChoice.error) {
+      return res.status(400).json({ error: tokenChoice.error });
+    }
+
+    // The relayer only submits the transfers this link asks for, nothing else
+    const built = await buildFeeTransfers(request, payer, { ...selection, token: tokenChoice.token, quoteId });
+    if (built.error) {
+      return res.status(400).json({ error: built.error });
+    }
+    const { paymentNetwork, transfers } = built;
+    if (authorizations.length !== transfers.length) {
+      return res.status(400).json({ error: `Expected ${transfers.length} authorizations (one per transfer), got ${authorizations.length}` });
+    }
+
+    for (const [i, transfer] of transfers.entries()) {
+      const auth = authorizations[i];
+      if (!transfer.tokenAddress || isNativeToken(transfer.token, paymentNetwork)) {
+        return res.status(400).json({ error: `${transfer.description} is paid in ${transfer.token}, which cannot be sent gaslessly` });
+      }
+      if (auth.token.toLowerCase() !== transfer.tokenAddress.toLowerCase() || auth.to.toLowerCase() !== transfer.to.toLowerCase()) {
+        return res.status(400).json({ error: `Authorization ${i + 1} does not match "${transfer.description}" — refresh the fee quote and sign again` });
+      }
+    }
+
+    for (const [i, transfer] of transfers.entries()) {
+      const decimals = getTokenDecimals(paymentNetwork, transfer.token) ?? await readTokenDecimals(paymentNetwork, transfer.tokenAddress);
+      if (BigInt(authorizations[i].value) !== ethers.parseUnits(String(transfer.amount), decimals)) {
+        return res.status(400).json({ error: `Authorization ${i + 1} amount does not match "${transfer.description}" (${transfer.amount} ${transfer.token})` });
+      }
+    }
+
+    const rejected = await checkAuthorizations(paymentNetwork, authorizations);
+    if (rejected) {
+      return res.status(400).json({ error: rejected });
+    }
+
+    const txHashes = await relayAuthorizations(paymentNetwork, authorizations);
+    return res.json({ success: true, network: paymentNetwork, txHashes });
+  } catch (error) {
+    console.error('Relay error:', error);
+    return res.status(500).json({ error: error.message || 'Failed to relay payment' });
+  }
+});
+
 // ============ Authenticated Routes ============
 
 // Agent profile
@@ -590,18 +1099,98 @@ app.get('/api/agents/by-wallet', async (req, res) => {
 // Create payment request (optional auth — works from frontend without key, or from agents with key)
 app.post('/api/create', optionalAuthMiddleware, async (req, res) => {
   try {
-    const { token, amount, receiver, description, network, expiresInDays, creatorWallet } = req.body;
+    const { token, tokenAddress, amount, currency, receiver, receiverName, receivers, description, network, expiresInDays, creatorWallet } = req.body;
 
     if (!token || !amount || !receiver) {
       return res.status(400).json({ error: 'Missing required fields: token, amount, receiver' });
     }
 
-    // Validate network if provided
-    const resolvedNetwork = getCanonicalName(network || 'sepolia');
-    if (!resolvedNetwork) {
-      return res.status(400).json({
-        error: `Unsupported network: "${network}". Supported: ${getSupportedNetworks().join(', ')}`
-      });
+    // One token or several accepted ones (the payer picks one); `amount` is in the first
+    const parsedTokens = parseLinkTokens(token);
+    if (parsedTokens.error) {
+      return res.status(400).json({ error: parsedTokens.error });
+    }
+    const { tokens } = parsedTokens;
+
+    // Optional fiat denomination: `amount` is then in `currency`, converted to the token by a quote at pay time
+    const invalidCurrency = validateCurrency(currency);
+    if (invalidCurrency) {
+      return res.status(400).json({ error: invalidCurrency });
+    }
+    if (currency) {
+      if (!(Number(amount) > 0)) {
+        return res.status(400).json({ error: 'amount must be a positive number' });
+      }
+      if (tokenAddress) {
+        return res.status(400).json({ error: `Links priced in ${currency.toUpperCase()} can't use a custom token: it has no price to quote` });
+      }
+    }
+
+    if (receiverName !== undefined && receiverName !== null) {
+      const invalidName = validateReceiverName(receiverName);
+      if (invalidName) {
+        return res.status(400).json({ error: invalidName });
+      }
+    }
+
+    // One network or several (the payer picks one); defaults to sepolia
+    const parsedNetworks = parseLinkNetworks(network);
+    if (parsedNetworks.error) {
+      return res.status(400).json({ error: parsedNetworks.error });
+    }
+    const { networks } = parsedNetworks;
+
+    let linkToken = tokens.join(',');
+    let linkTokenAddress = null;
+    if (tokenAddress) {
+      // A contract address only exists on one chain
+      if (networks.length > 1) {
+        return res.status(400).json({ error: 'Custom tokens (tokenAddress) can only be requested on one network' });
+      }
+      if (tokens.length > 1) {
+        return res.status(400).json({ error: 'Custom tokens (tokenAddress) can\'t be combined with other accepted tokens' });
+      }
+      // Custom token symbols keep their case (e.g. wstETH)
+      const resolved = resolveLinkToken(networks[0], Array.isArray(token) ? token[0] : token, tokenAddress);
+      if (resolved.error) {
+        return res.status(400).json({ error: resolved.error });
+      }
+      ({ token: linkToken, tokenAddress: linkTokenAddress } = resolved);
+    } else {
+      for (const linkTokenSymbol of tokens) {
+        const unsupported = networks.find(n => !isTokenSupported(n, linkTokenSymbol));
+        if (unsupported) {
+          return res.status(400).json({
+            error: `Unsupported token: "${linkTokenSymbol}" on ${unsupported}. Supported: ${getSupportedTokens(unsupported).join(', ')}, or pass tokenAddress for any ERC-20`
+          });
+        }
+      }
+    }
+
+    const invalidReceiver = validateReceiver(receiver, linkTokenAddress);
+    if (invalidReceiver) {
+      return res.status(400).json({ error: invalidReceiver });
+    }
+
+    // Optional per-network receivers, e.g. { base: '0x...' }; other networks pay `receiver`
+    let linkReceivers = null;
+    if (receivers !== undefined && receivers !== null) {
+      if (typeof receivers !== 'object' || Array.isArray(receivers)) {
+        return res.status(400).json({ error: 'receivers must be an object mapping network to receiver address' });
+      }
+      for (const [name, address] of Object.entries(receivers)) {
+        const receiverNetwork = getCanonicalName(name);
+        if (!receiverNetwork || !networks.includes(receiverNetwork)) {
+          return res.status(400).json({ error: `receivers: "${name}" is not one of this link's networks (${networks.join(', ')})` });
+        }
+        const invalid = validateReceiver(address, linkTokenAddress);
+        if (invalid) {
+          return res.status(400).json({ error: `receivers.${receiverNetwork}: ${invalid}` });
+        }
+        if (address.toLowerCase() !== receiver.toLowerCase()) {
+          linkReceivers = { ...linkReceivers, [receiverNetwork]: normalizeReceiver(address) };
+        }
+      }
     }
 
     const id = 'REQ-' + crypto.randomUUID().split('-')[0].toUpperCase();
@@ -611,12 +1200,18 @@ app.post('/api/create', optionalAuthMiddleware, async (req, res) => {
 
     const request = {
       id,
-      token,
+      token: linkToken,
+      token_address: linkTokenAddress,
       amount: String(amount),
-      receiver,
+      currency: currency ? currency.toUpperCase() : null,
+      quote: null,
+      receiver: normalizeReceiver(receiver),
+      // ENS / Basename the creator typed; receiver holds the address it resolved to
+      receiver_name: receiverName ? receiverName.toLowerCase() : null,
+      receivers: linkReceivers,
       payer: null,
       description: description || '',
-      network: resolvedNetwork,
+      network: networks.join(','),
       status: 'PENDING',
       expires_at: expiresAt,
       tx_hash: null,
@@ -773,7 +1368,7 @@ app.delete('/api/request/:id', optionalAuthMiddleware, async (req, res) => {
 // ============ Create Link (Agent API) ============
 app.post('/api/create-link', authMiddleware, async (req, res) => {
   try {
-    const { amount, description, expiresInDays, receiver, network, token } = req.body;
+    const { amount, description, expiresInDays, receiver, network, token, tokenAddress } = req.body;
     const amountStr = amount != null && amount !== '' ? String(amount).trim() : null;
 
     if (!amountStr || isNaN(Number(amountStr)) || Number(amountStr) <= 0) {
@@ -798,10 +1393,29 @@ app.post('/api/create-link', authMiddleware, async (req, res) => {
       });
     }
 
-    // Resolve token (default USDC)
-    const resolvedToken = (token || 'USDC').toUpperCase();
+    // Resolve token (default USDC, or any ERC-20 by contract address)
+    let resolvedToken = (token || 'USDC').toUpperCase();
+    let resolvedTokenAddress = null;
+    if (tokenAddress) {
+      const resolved = resolveLinkToken(resolvedNetwork, token, tokenAddress);
+      if (resolved.error) {
+        return res.status(400).json({ error: resolved.error });
+      }
+      ({ token: resolvedToken, tokenAddress: resolvedTokenAddress } = resolved);
+    } else if (!isTokenSupported(resolvedNetwork, resolvedToken)) {
+      return res.status(400).json({
+        error: `Unsupported token: "${resolvedToken}" on ${resolvedNetwork}. Supported: ${getSupportedTokens(resolvedNetwork).join(', ')}, or pass tokenAddress for any ERC-20`
+      });
+    }
+
+    if (receiver) {
+      const invalidReceiver = validateReceiver(receiver, resolvedTokenAddress);
+      if (invalidReceiver) {
+        return res.status(400).json({ error: invalidReceiver });
+      }
+    }
 
-    const receiverAddress = receiver || req.agent.wallet_address;
+    const receiverAddress = receiver ? normalizeReceiver(receiver) : req.agent.wallet_address;
     const id = 'REQ-' + crypto.randomUUID().split('-')[0].toUpperCase();
     const expiresAt = expiresInDays
       ? new Date(Date.now() + (parseInt(expiresInDays, 10) * 24 * 60 * 60 * 1000)).toISOString()
@@ -810,6 +1424,7 @@ app.post('/api/create-link', authMiddleware, async (req, res) => {
     const request = {
       id,
       token: resolvedToken,
+      token_address: resolvedTokenAddress,
       amount: amountStr,
       receiver: receiverAddress,
       payer: null,
@@ -829,13 +1444,13 @@ app.post('/api/create-link', authMiddleware, async (req, res) => {
 
       dispatchEvent('payment.created', toCamelCase(data)).catch(err => console.error('Webhook dispatch error:', err));
 
-      return res.json({ success: true, linkId: data.id, link: `/r/${data.id}`, network: resolvedNetwork, token: resolvedToken, amount: amountStr });
+      return res.json({ success: true, linkId: data.id, link: `/r/${data.id}`, network: resolvedNetwork, token: resolvedToken, tokenAddress: resolvedTokenAddress, amount: amountStr });
     }
 
     memoryStore.requests[id] = { ...request, createdAt: Date.now() };
     dispatchEvent('payment.created', toCamelCase(memoryStore.requests[id])).catch(err => console.error('Webhook dispatch error:', err));
 
-    return res.json({ success: true, linkId: id, link: `/r/${id}`, network: resolvedNetwork, token: resolvedToken, amount: amountStr });
+    return res.json({ success: true, linkId: id, link: `/r/${id}`, network: resolvedNetwork, token: resolvedToken, tokenAddress: resolvedTokenAddress, amount: amountStr });
   } catch (err) {
     console.error('Create link error:', err);
     return res.status(500).json({ error: err.message || 'Failed to create link' });
@@ -845,7 +1460,7 @@ app.post('/api/create-link', authMiddleware, async (req, res) => {
 // ============ Pay Link (returns payment instructions + fee breakdown) ============
 app.post('/api/pay-link', authMiddleware, async (req, res) => {
   try {
-    const { linkId } = req.body;
+    const { linkId, network, token, quoteId } = req.body;
     if (!linkId) {
       return res.status(400).json({ error: 'Missing linkId' });
     }
@@ -878,21 +1493,44 @@ app.post('/api/pay-link', authMiddleware, async (req, res) => {
       return res.status(400).json({ error: 'This payment link has expired' });
     }
 
-    // Resolve network and token addresses via chain registry
-    const paymentNetwork = request.network || 'sepolia';
-    const paymentToken = request.token || 'USDC';
-    const paymentTokenAddress = getTokenAddress(paymentNetwork, paymentToken);
-    const lcxTokenAddress = getTokenAddress(paymentNetwork, 'LCX');
+    // Network the agent pays on (one of the link's networks) and the receiver there
+    const selection = selectLinkNetwork(request, network);
+    if (selection.error) {
+      return res.status(400).json({ error: selection.error });
+    }
+    const { network: paymentNetwork, receiver } = selection;
+
+    // Token the agent pays in (one of the link's accepted tokens)
+    const tokenChoice = selectLinkToken(request, token);
+    if (tokenChoice.error) {
+      return res.status(400).json({ error: tokenChoice.error });
+    }
+    const paymentToken = tokenChoice.token;
+
+    // Fiat-priced links and other accepted tokens: lock a quote (or reuse the agent's unexpired one) for the token amount
+    let quote = null;
+    if (needsQuote(request, paymentToken)) {
+      try {
+        quote = await lockQuote(request, paymentNetwork, paymentToken, quoteId);
+      } catch (quoteErr) {
+        console.error('Quote error:', quoteErr);
+        return res.status(503).json({ error: `Couldn't price this link in ${paymentToken} right now, try again shortly` });
+      }
+    }
+    const amount = quote ? quote.amount : request.amount;
+
+    // Resolve token addresses via chain registry
+    const paymentTokenAddress = request.token_address || getTokenAddress(paymentNetwork, paymentToken);
     const usdcTokenAddress = getTokenAddress(paymentNetwork, 'USDC');
 
     // Calculate fee (network-aware — checks LCX balance on the correct chain)
     // Pass paymentToken so fee falls back to the same token if no LCX
-    const feeInfo = await calculateFee(req.agent.wallet_address, paymentNetwork, paymentToken);
+    const feeInfo = await calculateFee(req.agent.wallet_address, paymentNetwork, paymentToken, request.token_address || null);
 
     // Validate: payment amount must exceed fee when fee is deducted from payment
-    if (feeInfo.feeDeductedFromPayment && Number(request.amount) <= feeInfo.feeTotal) {
+    if (feeInfo.feeDeductedFromPayment && Number(amount) <= feeInfo.feeTotal) {
       return res.status(400).json({
-        error: `Payment amount (${request.amount} ${paymentToken}) must be greater than the fee (${feeInfo.feeTotal} ${feeInfo.feeToken}). Minimum payment: ${(feeInfo.feeTotal + 0.01).toFixed(6)} ${paymentToken}`
+        error: `Payment amount (${amount} ${paymentToken}) must be greater than the fee (${feeInfo.feeTotal} ${feeInfo.feeToken}). Minimum payment: ${(feeInfo.feeTotal + 0.01).toFixed(6)} ${paymentToken}`
       });
     }
 
@@ -905,28 +1543,32 @@ app.post('/api/pay-link', authMiddleware, async (req, res) => {
       payment: {
         token: paymentToken,
         tokenAddress: paymentTokenAddress,
-        amount: request.amount,
-        to: creatorWallet,
+        amount,
+        to: receiver,
         network: paymentNetwork,
         description: `Payment for ${linkId}`
       },
+      quote,
       fee: feeInfo,
-      transfers: []
+      transfers: [],
+      // PayAgent router on this network: settle() in one transaction, with a permit instead of approvals
+      router: getRouterAddress(paymentNetwork)
     };
 
-    if (feeInfo.feeToken === 'LCX' && !feeInfo.feeDeductedFromPayment) {
-      // Payer has LCX — creator gets full amount, fee in LCX separately
+    if (!feeInfo.feeDeductedFromPayment) {
+      // Fee paid separately (LCX, or native for custom tokens) — creator gets full amount
+      const feeTokenAddress = getTokenAddress(paymentNetwork, feeInfo.feeToken);
       instructions.transfers = [
-        { description: 'Payment to creator', token: paymentToken, tokenAddress: paymentTokenAddress, amount: request.amount, to: creatorWallet },
-        { description: 'Platform fee', token: 'LCX', tokenAddress: lcxTokenAddress, amount: String(feeInfo.platformShare), to: feeConfig.treasury_wallet },
-        { description: 'Creator reward', token: 'LCX', tokenAddress: lcxTokenAddress, amount: String(feeInfo.creatorReward), to: creatorWallet }
+        { description: 'Payment to creator', token: paymentToken, tokenAddress: paymentTokenAddress, amount, to: receiver },
+        { description: 'Platform fee', token: feeInfo.feeToken, tokenAddress: feeTokenAddress, amount: String(feeInfo.platformShare), to: feeConfig.treasury_wallet },
+        { description: 'Creator reward', token: feeInfo.feeToken, tokenAddress: feeTokenAddress, amount: String(feeInfo.creatorReward), to: creatorWallet }
       ];
     } else {
       // Fee deducted from payment token — creator gets amount minus fee
-      const creatorReceives = Number((Number(request.amount) - feeInfo.feeTotal).toFixed(8));
+      const creatorReceives = Number((Number(amount) - feeInfo.feeTotal).toFixed(8));
       const feeTokenAddress = isNativeToken(feeInfo.feeToken, paymentNetwork) ? null : getTokenAddress(paymentNetwork, feeInfo.feeToken);
       instructions.transfers = [
-        { description: 'Payment to creator', token: paymentToken, tokenAddress: paymentTokenAddress, amount: String(creatorReceives), to: creatorWallet },
+        { description: 'Payment to creator', token: paymentToken, tokenAddress: paymentTokenAddress, amount: String(creatorReceives), to: receiver },
         { description: 'Platform fee', token: feeInfo.feeToken, tokenAddress: feeTokenAddress || paymentTokenAddress, amount: String(feeInfo.platformShare), to: feeConfig.treasury_wallet },
         { description: 'Creator reward', token: feeInfo.feeToken, tokenAddress: feeTokenAddress || paymentTokenAddress, amount: String(feeInfo.creatorReward), to: creatorWallet }
       ];
@@ -947,7 +1589,7 @@ app.post('/api/pay-link', authMiddleware, async (req, res) => {
 });
 
 // ============ Execute Payment — REMOVED (Security: C1) ============
-const { verifyTransaction } = require('../lib/blockchain');
+const { verifyTransaction, verifyRouterPayment } = require('../lib/blockchain');
 
 app.post('/api/execute-payment', (req, res) => {
   return res.status(410).json({
@@ -960,18 +1602,29 @@ app.post('/api/execute-payment', (req, res) => {
 
 app.post('/api/verify', optionalAuthMiddleware, async (req, res) => {
   try {
-    const { requestId, txHash, feeTxHash, creatorRewardTxHash } = req.body;
+    const { requestId, feeTxHash, creatorRewardTxHash, batchId, txHashes } = req.body;
+
+    // A batched (EIP-5792) payment may send its hashes instead of a single txHash;
+    // the payment transfer is then looked for in each of them
+    if (txHashes !== undefined) {
+      const bundleError = validateBundleHashes(txHashes);
+      if (bundleError) return res.status(400).json({ error: bundleError });
+    }
+    if (batchId !== undefined && (typeof batchId !== 'string' || !batchId || batchId.length > 256)) {
+      return res.status(400).json({ error: 'batchId must be a non-empty string of at most 256 characters' });
+    }
 
-    if (!requestId || !txHash) {
+    if (!requestId || (!req.body.txHash && !txHashes)) {
       return res.status(400).json({ error: 'Missing requestId or txHash' });
     }
+    const candidateHashes = [...new Set([req.body.txHash, ...(txHashes || [])].filter(Boolean))];
 
     // Security C4: Early duplicate tx_hash check (before expensive on-chain verification)
     if (supabase) {
       const { data: existingTx } = await supabase
         .from('payment_requests')
         .select('id')
-        .eq('tx_hash', txHash)
+        .in('tx_hash', candidateHashes)
         .limit(1);
       if (existingTx && existingTx.length > 0) {
         return res.status(409).json({ error: 'This transaction hash has already been used for another payment' });
@@ -1002,35 +1655,87 @@ app.post('/api/verify', optionalAuthMiddleware, async (req, res) => {
       return res.status(409).json({ error: 'Payment already processed' });
     }
 
-    const network = getCanonicalName(request.network || 'sepolia') || 'sepolia';
-    const tokenSymbol = (request.token || 'USDC').toUpperCase();
-    const tokenAddress = isNativeToken(tokenSymbol, network) ? null : getTokenAddress(network, tokenSymbol);
+    // Multi-network links are verified on the network the payer chose
+    const selection = selectLinkNetwork(request, req.body.network);
+    if (selection.error) {
+      return res.status(400).json({ error: selection.error });
+    }
+    const { network, receiver } = selection;
+    // ...and in the accepted token the payer chose
+    const tokenChoice = selectLinkToken(request, req.body.token);
+    if (tokenChoice.error) {
+      return res.status(400).json({ error: tokenChoice.error });
+    }
+    const tokenSymbol = tokenChoice.token;
+    const tokenAddress = request.tokenAddress || (isNativeToken(tokenSymbol, network) ? null : getTokenAddress(network, tokenSymbol));
 
-    // When fee is deducted from payment (no LCX), the on-chain transfer is amount - fee
-    let expectedVerifyAmount = request.amount;
-    if (req.body.feeToken && req.body.feeToken !== 'LCX' && req.body.feeTotal != null) {
-      expectedVerifyAmount = String(Number((Number(request.amount) - Number(req.body.feeTotal)).toFixed(8)));
+    // Quoted payments are verified against the quote locked before paying
+    const payable = await getPayableAmount(request, network, tokenSymbol, req.body.quoteId, QUOTE_SETTLEMENT_GRACE_MS);
+    if (payable.error) {
+      return res.status(400).json({ error: payable.error });
+    }
+    const { amount, quote } = payable;
+
+    // When fee is deducted from payment (no LCX), the on-chain transfer is amount - fee.
+    // Custom tokens never have the fee deducted (it is paid in the native token).
+    let expectedVerifyAmount = amount;
+    if (req.body.feeToken && req.body.feeToken !== 'LCX' && !request.tokenAddress && req.body.feeTotal != null) {
+      expectedVerifyAmount = String(Number((Number(amount) - Number(req.body.feeTotal)).toFixed(8)));
     } else if (!req.body.feeToken) {
       // Caller didn't pass fee info — recalculate to check
       try {
         const payerAddr = req.agent ? req.agent.wallet_address : (req.body.payerWallet || null);
         if (payerAddr) {
-          const calcFee = await calculateFee(payerAddr, network, tokenSymbol);
+          const calcFee = await calculateFee(payerAddr, network, tokenSymbol, request.tokenAddress);
           if (calcFee.feeDeductedFromPayment) {
-            expectedVerifyAmount = String(Number((Number(request.amount) - calcFee.feeTotal).toFixed(8)));
+            expectedVerifyAmount = String(Number((Number(amount) - calcFee.feeTotal).toFixed(8)));
           }
         }
       } catch (e) { /* use full amount if fee calc fails */ }
     }
 
-    const verification = await verifyTransaction(
-      txHash,
-      expectedVerifyAmount,
-      tokenAddress,
-      request.receiver,
-      tokenSymbol,
-      network
-    );
+    // A quoted payment may deviate from the quote by its tolerance, in either direction
+    let maxVerifyAmount = null;
+    if (quote) {
+      const slack = Number(amount) * quote.tolerance;
+      maxVerifyAmount = Number(expectedVerifyAmount) + slack;
+      expectedVerifyAmount = String(Number((Number(expectedVerifyAmount) - slack).toFixed(8)));
+    }
+
+    // Payments through the PayAgent router are checked against its PaymentSettled event;
+    // transactions without one are verified as plain transfers
+    const routerAddress = getRouterAddress(network);
+
+    let txHash = candidateHashes[0];
+    let verification;
+    for (const candidate of candidateHashes) {
+      let result = routerAddress
+        ? await verifyRouterPayment(candidate, request.id, expectedVerifyAmount, tokenAddress, receiver, routerAddress, network)
+        : null;
+      if (!result || result.notSettled) {
+        result = await verifyTransaction(
+          candidate,
+          expectedVerifyAmount,
+          tokenAddress,
+          receiver,
+          tokenSymbol,
+          network
+        );
+      }
+      // Report the first failure if no hash in the bundle holds the payment
+      if (!verification || result.valid) verification = result;
+      if (result.valid) {
+        txHash = candidate;
+        break;
+      }
+    }
+
+    if (verification.valid && maxVerifyAmount !== null && Number(verification.amount) > maxVerifyAmount) {
+      verification = {
+        valid: false,
+        error: `Paid ${verification.amount} ${tokenSymbol}, more than the locked quote allows (at most ${Number(maxVerifyAmount.toFixed(8))})`
+      };
+    }
 
     if (!verification.valid) {
       console.error('Payment verification failed:', verification.error, verification.details || '');
@@ -1047,6 +1752,11 @@ app.post('/api/verify', optionalAuthMiddleware, async (req, res) => {
         .from('payment_requests')
         .update({
           status: 'PAID',
+          // A paid link records where and in which token it was paid
+          network,
+          receiver,
+          token: tokenSymbol,
+          quote,
           tx_hash: txHash,
           paid_at: new Date().toISOString(),
           payer_agent_id: req.agent ? req.agent.id : null
@@ -1076,10 +1786,10 @@ app.post('/api/verify', optionalAuthMiddleware, async (req, res) => {
               feeTotal: Number(req.body.feeTotal),
               platformShare: Number(req.body.platformShare || 0),
               creatorReward: Number(req.body.creatorReward || 0),
-              feeDeductedFromPayment: req.body.feeToken !== 'LCX'
+              feeDeductedFromPayment: req.body.feeToken !== 'LCX' && !request.tokenAddress
             };
           } else {
-            feeInfo = await calculateFee(payerWallet, network, tokenSymbol);
+            feeInfo = await calculateFee(payerWallet, network, tokenSymbol, request.tokenAddress);
           }
 
           const feeConfig = await getFeeConfig();
@@ -1098,8 +1808,8 @@ app.post('/api/verify', optionalAuthMiddleware, async (req, res) => {
             platform_share: feeInfo.platformShare,
             creator_reward: feeInfo.creatorReward,
             lcx_price_usd: lcxPrice,
-            payment_amount: request.amount,
-            payment_token: request.token || 'USDC',
+            payment_amount: amount,
+            payment_token: tokenSymbol,
             treasury_wallet: feeConfig.treasury_wallet,
             platform_fee_tx_hash: feeTxHash,
             creator_reward_tx_hash: creatorRewardTxHash || null,
@@ -1126,7 +1836,8 @@ app.post('/api/verify', optionalAuthMiddleware, async (req, res) => {
         success: true,
         status: 'PAID',
         request: paidRequest,
-        verification
+        verification,
+        ...(batchId ? { batchId } : {})
       });
     } else {
       // In-memory fallback with PENDING guard (Security C4)
@@ -1136,12 +1847,16 @@ app.post('/api/verify', optionalAuthMiddleware, async (req, res) => {
       }
 
       // Check for duplicate tx_hash in memory store
-      const existingTxUse = Object.values(memoryStore.requests).find(req => req.tx_hash === txHash);
+      const existingTxUse = Object.values(memoryStore.requests).find(req => candidateHashes.includes(req.tx_hash));
       if (existingTxUse) {
         return res.status(409).json({ error: 'This transaction hash has already been used for another payment' });
       }
 
       r.status = 'PAID';
+      r.network = network;
+      r.receiver = receiver;
+      r.token = tokenSymbol;
+      r.quote = quote;
       r.tx_hash = txHash;
       r.paid_at = new Date().toISOString();
       r.payer_agent_id = req.agent ? req.agent.id : null;
@@ -1153,7 +1868,8 @@ app.post('/api/verify', optionalAuthMiddleware, async (req, res) => {
         success: true,
         status: 'PAID',
         request: paidRequest,
-        verification
+        verification,
+        ...(batchId ? { batchId } : {})
       });
     }
   } catch (error) {
@@ -1167,6 +1883,8 @@ app.post('/api/webhooks', authMiddleware, async (req, res) => {
   try {
     const { url, events } = req.body;
     if (!url) return res.status(400).json({ error: 'Missing webhook url' });
+    const eventsError = events !== undefined ? validateWebhookEvents(events) : null;
+    if (eventsError) return res.status(400).json({ error: eventsError });
     const webhook = await registerWebhook(req.agent.id, url, events || ['payment.paid', 'payment.created']);
     return res.status(201).json({ success: true, webhook });
   } catch (error) {
@@ -1191,7 +1909,10 @@ app.get('/api/webhooks', authMiddleware, async (req, res) => {
 
 app.put('/api/webhooks/:id', authMiddleware, async (req, res) => {
   try {
-    const webhook = await updateWebhook(req.params.id, req.agent.id, req.body);
+    const eventsError = req.body.events !== undefined ? validateWebhookEvents(req.body.events) : null;
+    if (eventsError) return res.status(400).json({ error: eventsError });
+    // Security H5: never return the stored (encrypted) secret
+    const { secret, ...webhook } = await updateWebhook(req.params.id, req.agent.id, req.body);
     return res.json({ success: true, webhook });
   } catch (error) {
     console.error('Webhook update error:', error);
@@ -1233,21 +1954,38 @@ app.post('/api/webhooks/:id/test', authMiddleware, async (req, res) => {
       .update(JSON.stringify(testPayload))
       .digest('hex');
 
-    const response = await fetch(webhook.url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-PayAgent-Event': 'payment.test',
-        'X-PayAgent-Timestamp': String(Date.now()),
-        'X-PayAgent-Signature': `sha256=${signature}`
-      },
-      body: JSON.stringify(testPayload)
-    });
+    const startedAt = Date.now();
+    let response;
+    try {
+      response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-PayAgent-Event': 'payment.test',
+          'X-PayAgent-Timestamp': String(Date.now()),
+          'X-PayAgent-Signature': `sha256=${signature}`,
+          'User-Agent': 'PayAgent-Webhook/1.0'
+        },
+        body: JSON.stringify(testPayload),
+        signal: AbortSignal.timeout(15000)
+      });
+    } catch (err) {
+      return res.status(502).json({
+        error: `Test delivery failed: ${err.name === 'TimeoutError' ? 'timed out after 15s' : err.message}`,
+        code: 'WEBHOOK_DELIVERY_FAILED',
+        durationMs: Date.now() - startedAt
+      });
+    }
+
+    // Echo the start of the receiver's response so it can be inspected from the dashboard
+    const responseBody = (await response.text().catch(() => '')).slice(0, 2000);
 
     return res.json({
       success: true,
       message: 'Test event sent',
-      responseStatus: response.status
+      responseStatus: response.status,
+      responseBody,
+      durationMs: Date.now() - startedAt
     });
   } catch (error) {
     console.error('Webhook test error:', error);
@@ -1255,6 +1993,107 @@ app.post('/api/webhooks/:id/test', authMiddleware, async (req, res) => {
   }
 });
 
+// ============ Webhook Deliveries ============
+
+/**
+ * Parse a since/until query value (epoch ms or ISO 8601).
+ * @returns {Date|null|undefined} undefined when absent, null when invalid
+ */
+function parseTimeParam(value) {
+  if (value === undefined || value === '') return undefined;
+  const date = /^\d+$/.test(String(value)) ? new Date(Number(value)) : new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Resolve the caller's webhook from :id and the since/until range.
+ * Sends the error response itself and returns null on failure.
+ */
+async function resolveWebhookRange(req, res, range) {
+  const webhook = (await getWebhooks(req.agent.id)).find(w => w.id === req.params.id);
+  if (!webhook) {
+    res.status(404).json({ error: 'Webhook not found' });
+    return null;
+  }
+  const since = parseTimeParam(range.since);
+  const until = parseTimeParam(range.until);
+  if (since === null || until === null) {
+    res.status(400).json({ error: 'since and until must be epoch milliseconds or ISO 8601 dates' });
+    return null;
+  }
+  return { webhook, since, until };
+}
+
+// Delivery log: ?status=success|failed&event=payment.paid&since=&until=&limit=&offset=
+app.get('/api/webhooks/:id/deliveries', authMiddleware, async (req, res) => {
+  try {
+    const resolved = await resolveWebhookRange(req, res, req.query);
+    if (!resolved) return;
+
+    const { status, event } = req.query;
+    if (status !== undefined && status !== 'success' && status !== 'failed') {
+      return res.status(400).json({ error: 'status must be success or failed' });
+    }
+    const limit = Math.min(parseInt(req.query.limit) || 50, 100);
+    const offset = parseInt(req.query.offset) || 0;
+
+    const result = await getDeliveries(resolved.webhook.id, {
+      status, event, since: resolved.since, until: resolved.until, limit, offset
+    });
+    return res.json({ success: true, deliveries: result.deliveries, total: result.total, limit, offset });
+  } catch (error) {
+    console.error('Webhook deliveries error:', error);
+    return res.status(500).json({ error: 'Failed to load webhook deliveries' });
+  }
+});
+
+// Redeliver one recorded event (single attempt)
+app.post('/api/webhooks/:id/deliveries/:deliveryId/redeliver', authMiddleware, async (req, res) => {
+  try {
+    const resolved = await resolveWebhookRange(req, res, {});
+    if (!resolved) return;
+
+    const delivery = await getDelivery(resolved.webhook.id, req.params.deliveryId);
+    if (!delivery) return res.status(404).json({ error: 'Delivery not found' });
+
+    const redelivered = await redeliverEvent(resolved.webhook, delivery);
+    return res.json({ success: true, delivery: redelivered });
+  } catch (error) {
+    console.error('Webhook redeliver error:', error);
+    return res.status(500).json({ error: 'Failed to redeliver webhook event' });
+  }
+});
+
+// Redeliver every event in [since, until] that was never delivered successfully
+app.post('/api/webhooks/:id/redeliver', authMiddleware, async (req, res) => {
+  try {
+    const resolved = await resolveWebhookRange(req, res, req.body || {});
+    if (!resolved) return;
+    if (!resolved.since) return res.status(400).json({ error: 'Missing since' });
+
+    const failed = await getFailedEvents(resolved.webhook.id, { since: resolved.since, until: resolved.until });
+
+    // Attempts can take up to 15s each, so run them after responding; progress shows up in the delivery log
+    (async () => {
+      for (const delivery of failed) {
+        await redeliverEvent(resolved.webhook, delivery).catch(err => {
+          console.error(`Webhook ${resolved.webhook.id} redelivery of ${delivery.event_id} failed:`, err.message);
+        });
+      }
+    })();
+
+    return res.status(202).json({
+      success: true,
+      queued: failed.length,
+      event_ids: failed.map(d => d.event_id),
+      limit: MAX_REDELIVERY_EVENTS
+    });
+  } catch (error) {
+    console.error('Webhook bulk redeliver error:', error);
+    return res.status(500).json({ error: 'Failed to redeliver webhook events' });
+  }
+});
+
 // ============ AI Chat ============
 app.post('/api/chat', authMiddleware, async (req, res) => {
   try {
@@ -1288,10 +2127,15 @@ app.post('/api/chat', authMiddleware, async (req, res) => {
 
     // Call Grok
     const aiResponse = await chatWithAgent(messages);
+    const aiContent = typeof aiResponse === 'string' ? aiResponse : JSON.stringify(aiResponse);
 
-    // Save user message and assistant response
+    // Save user message and assistant response. The model sees its raw output as history;
+    // the reply sent back is kept as metadata so the dashboard can re-render it.
     await saveMessage(agent.id, 'user', message);
-    await saveMessage(agent.id, 'assistant', typeof aiResponse === 'string' ? aiResponse : JSON.stringify(aiResponse));
+    const reply = async (body) => {
+      await saveMessage(agent.id, 'assistant', aiContent, body);
+      return res.json(body);
+    };
 
     // Try to parse JSON action from AI response
     let parsedResponse;
@@ -1299,10 +2143,7 @@ app.post('/api/chat', authMiddleware, async (req, res) => {
       parsedResponse = typeof aiResponse === 'string' ? JSON.parse(aiResponse) : aiResponse;
     } catch {
       // AI returned plain text, not JSON action
-      return res.json({
-        message: typeof aiResponse === 'string' ? aiResponse : JSON.stringify(aiResponse),
-        action: null
-      });
+      return reply({ message: aiContent, action: null });
     }
 
     // Gate 3: Validate and route action (Security C2: whitelist to prevent prompt injection)
@@ -1310,7 +2151,7 @@ app.post('/api/chat', authMiddleware, async (req, res) => {
 
     if (parsedResponse.action) {
       if (!ALLOWED_AI_ACTIONS.includes(parsedResponse.action)) {
-        return res.json({
+        return reply({
           message: `Action "${parsedResponse.action}" is not available via chat. Use the dedicated API endpoint instead.`,
           action: null
         });
@@ -1325,13 +2166,13 @@ app.post('/api/chat', authMiddleware, async (req, res) => {
           ? 'select_chain'
           : parsedResponse.action;
 
-        return res.json({
+        return reply({
           message: actionResult.message || parsedResponse.message || 'Action completed',
           action: effectiveAction,
           result: actionResult
         });
       } catch (actionErr) {
-        return res.json({
+        return reply({
           message: `Action failed: ${actionErr.message}`,
           action: parsedResponse.action,
           error: actionErr.message
@@ -1339,7 +2180,7 @@ app.post('/api/chat', authMiddleware, async (req, res) => {
       }
     }
 
-    return res.json({
+    return reply({
       message: parsedResponse.message || JSON.stringify(parsedResponse),
       action: null
     });
@@ -1349,9 +2190,57 @@ app.post('/api/chat', authMiddleware, async (req, res) => {
   }
 });
 
+/**
+ * Chat transcript for the dashboard, oldest first.
+ * Assistant entries carry the structured reply (action + result) when it was recorded;
+ * older entries fall back to the message inside the raw model output.
+ */
+app.get('/api/chat/history', authMiddleware, async (req, res) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 50, 1), 100);
+    const history = await getHistory(req.agent.id, limit);
+
+    const messages = history.map(entry => {
+      let reply = entry.metadata;
+      if (!reply && entry.role === 'assistant') {
+        try {
+          const parsed = JSON.parse(entry.content);
+          reply = { message: parsed.message || entry.content, action: null };
+        } catch {
+          reply = null;
+        }
+      }
+      return {
+        id: entry.id,
+        role: entry.role,
+        message: reply?.message || entry.content,
+        action: reply?.action || null,
+        result: reply?.result || null,
+        error: reply?.error || null,
+        created_at: entry.created_at
+      };
+    });
+
+    return res.json({ success: true, messages });
+  } catch (error) {
+    console.error('Chat history error:', error);
+    return res.status(500).json({ error: 'Failed to load chat history' });
+  }
+});
+
+app.delete('/api/chat/history', authMiddleware, async (req, res) => {
+  try {
+    await clearHistory(req.agent.id);
+    return res.json({ success: true, message: 'Chat history cleared' });
+  } catch (error) {
+    console.error('Clear chat history error:', error);
+    return res.status(500).json({ error: 'Failed to clear chat history' });
+  }
+});
+
 // ============ Supported Chains (public) ============
 app.get('/api/chains', (req, res) => {
-  const chains = getSupportedNetworkList();
+  const chains = getChainDetailsList();
   return res.json({ success: true, chains });
 });
 
@@ -1359,7 +2248,13 @@ app.get('/api/chains', (req, res) => {
 app.get('/api/prices', async (req, res) => {
   try {
     // Single CoinGecko call for all tokens (5-min cache on each)
-    const [lcx, eth] = await Promise.allSettled([getLcxPriceUsd(), getEthPriceUsd()]);
+    const [lcx, eth, pol, bnb] = await Promise.allSettled([
+      getLcxPriceUsd(),
+      getNativePriceUsd('ETH'),
+      getNativePriceUsd('POL'),
+      getNativePriceUsd('BNB'),
+    ]);
+    const native = (result, symbol) => (result.status === 'fulfilled' ? result.value : NATIVE_FALLBACK_PRICES_USD[symbol]);
 
     // Fetch USDC + USDT from CoinGecko in one call
     let usdcPrice = 1, usdtPrice = 1;
@@ -1379,14 +2274,83 @@ app.get('/api/prices', async (req, res) => {
       success: true,
       prices: {
         LCX: lcx.status === 'fulfilled' ? lcx.value : 0.15,
-        ETH: eth.status === 'fulfilled' ? eth.value : 2500,
+        ETH: native(eth, 'ETH'),
+        POL: native(pol, 'POL'),
+        BNB: native(bnb, 'BNB'),
         USDC: usdcPrice,
         USDT: usdtPrice
       }
     });
   } catch (error) {
     console.error('Prices error:', error);
-    return res.json({ success: true, prices: { LCX: 0.15, ETH: 2500, USDC: 1, USDT: 1 } });
+    return res.json({ success: true, prices: { LCX: 0.15, ...NATIVE_FALLBACK_PRICES_USD, USDC: 1, USDT: 1 } });
+  }
+});
+
+// ============ Price Quotes (public) ============
+// Locks the token amount of a fiat-denominated link, or of a link paid in
+// another of its accepted tokens, for QUOTE_TTL_MS. Passing the quoteId the
+// payer already holds returns that quote while it is unexpired and for the same
+// network and token; otherwise a new quote is issued.
+app.post('/api/prices/quote', sensitiveLimiter, async (req, res) => {
+  try {
+    const { requestId, network, token, quoteId } = req.body || {};
+    if (!requestId) {
+      return res.status(400).json({ error: 'Missing requestId' });
+    }
+
+    let request;
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('payment_requests')
+        .select('*')
+        .eq('id', requestId)
+        .single();
+
+      if (error && error.code === 'PGRST116') {
+        return res.status(404).json({ error: 'Payment request not found' });
+      }
+      if (error) throw error;
+      request = data;
+    } else {
+      request = memoryStore.requests[requestId];
+      if (!request) {
+        return res.status(404).json({ error: 'Payment request not found' });
+      }
+    }
+
+    if (request.status !== 'PENDING') {
+      return res.status(409).json({ error: 'This link can no longer be paid' });
+    }
+    if (request.expires_at && new Date(request.expires_at) < new Date()) {
+      return res.status(400).json({ error: 'This payment link has expired' });
+    }
+
+    const tokenChoice = selectLinkToken(request, token);
+    if (tokenChoice.error) {
+      return res.status(400).json({ error: tokenChoice.error });
+    }
+    if (!needsQuote(request, tokenChoice.token)) {
+      return res.status(400).json({ error: `This link is priced in ${getLinkTokens(request)[0]}; paying it in ${tokenChoice.token} needs no quote` });
+    }
+
+    const selection = selectLinkNetwork(request, network);
+    if (selection.error) {
+      return res.status(400).json({ error: selection.error });
+    }
+
+    let quote;
+    try {
+      quote = await lockQuote(request, selection.network, tokenChoice.token, quoteId);
+    } catch (quoteErr) {
+      console.error('Quote error:', quoteErr);
+      return res.status(503).json({ error: `Couldn't price this link in ${tokenChoice.token} right now, try again shortly` });
+    }
+
+    return res.json({ success: true, quote });
+  } catch (error) {
+    console.error('Quote error:', error);
+    return res.status(500).json({ error: 'Failed to quote payment link' });
   }
 });
 
@@ -1534,8 +2498,8 @@ app.get('/api/stats', async (req, res) => {
       supabase.from('fee_transactions').select('fee_total, fee_token').eq('status', 'COLLECTED'),
       supabase.from('payment_requests').select('id', { count: 'exact', head: true }).eq('status', 'PAID').is('creator_agent_id', null),
       supabase.from('payment_requests').select('id', { count: 'exact', head: true }).eq('status', 'PAID').not('creator_agent_id', 'is', null),
-      supabase.from('payment_requests').select('amount, token').eq('status', 'PAID'),
-      supabase.from('payment_requests').select('amount, token').eq('status', 'PAID').not('creator_agent_id', 'is', null)
+      supabase.from('payment_requests').select('amount, token, quote').eq('status', 'PAID'),
+      supabase.from('payment_requests').select('amount, token, quote').eq('status', 'PAID').not('creator_agent_id', 'is', null)
     ]);
 
     // Group fees by token
@@ -1545,18 +2509,18 @@ app.get('/api/stats', async (req, res) => {
       feesByToken[token] = (feesByToken[token] || 0) + Number(f.fee_total || 0);
     });
 
-    // Group ALL payment values by token
+    // Group ALL payment values by token (a quoted payment settled its quote's amount)
     const paymentsByToken = {};
     (allPaidResult.data || []).forEach(p => {
       const token = p.token || 'UNKNOWN';
-      paymentsByToken[token] = (paymentsByToken[token] || 0) + Number(p.amount || 0);
+      paymentsByToken[token] = (paymentsByToken[token] || 0) + Number((p.quote ? p.quote.amount : p.amount) || 0);
     });
 
     // Group AGENT-only payment values by token
     const agentPaymentsByToken = {};
     (agentPaidResult.data || []).forEach(p => {
       const token = p.token || 'UNKNOWN';
-      agentPaymentsByToken[token] = (agentPaymentsByToken[token] || 0) + Number(p.amount || 0);
+      agentPaymentsByToken[token] = (agentPaymentsByToken[token] || 0) + Number((p.quote ? p.quote.amount : p.amount) || 0);
     });
 
     return res.json({
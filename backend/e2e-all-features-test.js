@@ -196,10 +196,10 @@ describe('1. Health & Configuration', () => {
     assert.equal(res.body.status, 'healthy');
   });
 
-  it('GET /api/chains returns 3 supported chains', async () => {
+  it('GET /api/chains returns 5 supported chains', async () => {
     const res = await request('GET', '/api/chains');
     assert.equal(res.status, 200);
-    assert.equal(res.body.chains.length, 3);
+    assert.equal(res.body.chains.length, 5);
     const names = res.body.chains.map(c => c.id || c.name || c);
     assert.ok(names.some(n => n === 'sepolia' || n.includes('sepolia')));
   });
@@ -315,7 +315,7 @@ describe('3. Wallet Auth & JWT', () => {
     });
     assert.equal(res.status, 200);
     assert.ok(res.body.nonce);
-    assert.ok(res.body.nonce.startsWith('Sign this to login to PayAgent:'));
+    assert.ok(res.body.message.includes(`Nonce: ${res.body.nonce}`));
     assert.equal(res.body.expires_in, 300);
   });
 
@@ -353,7 +353,7 @@ describe('3. Wallet Auth & JWT', () => {
     const challengeRes = await request('POST', '/api/auth/challenge', { wallet_address: lowerAddr });
     assert.equal(challengeRes.status, 200);
 
-    const signature = await wallet.signMessage(challengeRes.body.nonce);
+    const signature = await wallet.signMessage(challengeRes.body.message);
     const verifyRes = await request('POST', '/api/auth/verify', {
       wallet_address: lowerAddr, signature,
     });
@@ -377,7 +377,7 @@ describe('3. Wallet Auth & JWT', () => {
     const challengeRes = await request('POST', '/api/auth/challenge', { wallet_address: standaloneWallet.address });
     assert.equal(challengeRes.status, 200);
 
-    const signature = await standaloneWallet.signMessage(challengeRes.body.nonce);
+    const signature = await standaloneWallet.signMessage(challengeRes.body.message);
     const verifyRes = await request('POST', '/api/auth/verify', {
       wallet_address: standaloneWallet.address, signature,
     });
@@ -446,7 +446,7 @@ describe('4. Payment Link Creation', () => {
   });
 
   it('rejects unsupported network', async () => {
-    const res = await request('POST', '/api/create-link', { amount: '10', network: 'polygon' }, agents.creator);
+    const res = await request('POST', '/api/create-link', { amount: '10', network: 'arbitrum' }, agents.creator);
     assert.equal(res.status, 400);
   });
 
@@ -864,7 +864,7 @@ describe('12. Agent Logs & IP History', () => {
     await registerAndActivate('logs_agent', 'logs@e2e.com', lowerAddr, 'sepolia');
 
     const challengeRes = await request('POST', '/api/auth/challenge', { wallet_address: lowerAddr });
-    const signature = await wallet.signMessage(challengeRes.body.nonce);
+    const signature = await wallet.signMessage(challengeRes.body.message);
     const verifyRes = await request('POST', '/api/auth/verify', { wallet_address: lowerAddr, signature });
     logJwt = verifyRes.body.token;
   });
@@ -1029,8 +1029,8 @@ describe('16. Cross-Chain Consistency', () => {
 describe('17. Chain Registry', () => {
   const registry = require('./lib/chainRegistry');
 
-  it('lists exactly 3 supported chains', () => {
-    assert.deepStrictEqual(registry.getSupportedNetworks(), ['sepolia', 'ethereum', 'base']);
+  it('lists exactly 5 supported chains', () => {
+    assert.deepStrictEqual(registry.getSupportedNetworks(), ['sepolia', 'ethereum', 'base', 'polygon', 'bnb']);
   });
 
   it('resolves aliases', () => {
@@ -1040,7 +1040,7 @@ describe('17. Chain Registry', () => {
   });
 
   it('rejects unsupported', () => {
-    assert.equal(registry.resolveNetwork('polygon'), null);
+    assert.equal(registry.resolveNetwork('arbitrum'), null);
     assert.equal(registry.resolveNetwork('solana'), null);
   });
 
@@ -349,7 +349,7 @@ describe('Flow C: Agent Registration & Management', () => {
     assert.equal(challengeRes.status, 200);
     assert.ok(challengeRes.body.nonce);
 
-    const signature = await agentWallet.signMessage(challengeRes.body.nonce);
+    const signature = await agentWallet.signMessage(challengeRes.body.message);
     const verifyRes = await request('POST', '/api/auth/verify', {
       wallet_address: agentAddr, signature,
     });
@@ -457,7 +457,7 @@ describe('Flow D: Agent Deactivation & Deletion', () => {
     deleteCreds = await registerAndActivate('del_agent', 'del@e2e.com', delAddr, 'sepolia');
 
     const challengeRes = await request('POST', '/api/auth/challenge', { wallet_address: delAddr });
-    const signature = await delWallet.signMessage(challengeRes.body.nonce);
+    const signature = await delWallet.signMessage(challengeRes.body.message);
     const verifyRes = await request('POST', '/api/auth/verify', { wallet_address: delAddr, signature });
     deleteJwt = verifyRes.body.token;
   });
@@ -665,7 +665,7 @@ describe('Flow G: Error Recovery & Edge Cases', () => {
 
   it('G9. POST /api/create rejects unsupported network', async () => {
     const res = await request('POST', '/api/create', {
-      token: 'USDC', amount: '10', receiver: HUMAN_WALLET, network: 'polygon',
+      token: 'USDC', amount: '10', receiver: HUMAN_WALLET, network: 'arbitrum',
     });
     assert.equal(res.status, 400);
   });
@@ -512,8 +512,8 @@ async function main() {
 
     // 13b: Sign with creator wallet
     const creatorSigner = new ethers.Wallet(CREATOR_PRIVATE_KEY);
-    const jwtSignature = await creatorSigner.signMessage(challengeData.nonce);
-    ok('Signed nonce with creator wallet (EIP-191)');
+    const jwtSignature = await creatorSigner.signMessage(challengeData.message);
+    ok('Signed SIWE message with creator wallet (EIP-4361)');
 
     // 13c: Verify → get JWT
     const verifyAuthRes = await fetch(`${BASE_URL}/api/auth/verify`, {
@@ -419,7 +419,7 @@ describe('Real Supabase + Sepolia Human Flow E2E', () => {
       assert.equal(res.status, 200, `Expected 200, got ${res.status}: ${JSON.stringify(res.body)}`);
       assert.ok(res.body.success);
       assert.ok(res.body.nonce);
-      assert.ok(res.body.nonce.startsWith('Sign this to login to PayAgent:'));
+      assert.ok(res.body.message.includes(`Nonce: ${res.body.nonce}`));
       console.log(`  Nonce: ${res.body.nonce.slice(0, 50)}...`);
       // Store nonce for next test
       this.nonce = res.body.nonce;
@@ -431,10 +431,10 @@ describe('Real Supabase + Sepolia Human Flow E2E', () => {
         wallet_address: creatorWallet.address,
       });
       assert.equal(challengeRes.status, 200);
-      const nonce = challengeRes.body.nonce;
+      const message = challengeRes.body.message;
 
       // Sign with ethers
-      const signature = await creatorWallet.signMessage(nonce);
+      const signature = await creatorWallet.signMessage(message);
       console.log(`  Signature: ${signature.slice(0, 20)}...`);
 
       const res = await request('POST', '/api/auth/verify', {
@@ -358,8 +358,8 @@ async function main() {
 
     // 13b: Sign with wallet
     const payerSigner = new ethers.Wallet(PAYER_PRIVATE_KEY);
-    const signature = await payerSigner.signMessage(challengeData.nonce);
-    ok(`Signed nonce with wallet (EIP-191)`);
+    const signature = await payerSigner.signMessage(challengeData.message);
+    ok(`Signed SIWE message with wallet (EIP-4361)`);
 
     // 13c: Verify → get JWT
     const verifyAuthRes = await fetch(`${BASE_URL}/api/auth/verify`, {
@@ -15,8 +15,9 @@ const memoryConversations = {};
  * @param {string} agentId - Agent ID
  * @param {string} role - 'user' or 'assistant'
  * @param {string} content - Message content
+ * @param {object} [metadata] - Structured reply shown in the dashboard chat ({ message, action, result, error })
  */
-async function saveMessage(agentId, role, content) {
+async function saveMessage(agentId, role, content, metadata = null) {
   const id = 'msg_' + crypto.randomBytes(12).toString('hex');
 
   if (supabase) {
@@ -25,7 +26,8 @@ async function saveMessage(agentId, role, content) {
         id,
         agent_id: agentId,
         role,
-        content
+        content,
+        metadata
       });
     } catch (err) {
       console.error('Save message error:', err);
@@ -42,6 +44,7 @@ async function saveMessage(agentId, role, content) {
     agent_id: agentId,
     role,
     content,
+    metadata,
     created_at: new Date().toISOString()
   });
 
@@ -56,14 +59,14 @@ async function saveMessage(agentId, role, content) {
  *
  * @param {string} agentId - Agent ID
  * @param {number} limit - Max messages to return (default 10)
- * @returns {Promise<Array<{role: string, content: string}>>}
+ * @returns {Promise<Array<{id: string, role: string, content: string, metadata: object|null, created_at: string}>>}
  */
 async function getHistory(agentId, limit = 10) {
   if (supabase) {
     try {
       const { data, error } = await supabase
         .from('conversations')
-        .select('role, content, created_at')
+        .select('id, role, content, metadata, created_at')
         .eq('agent_id', agentId)
         .order('created_at', { ascending: false })
         .limit(limit);
@@ -81,8 +84,10 @@ async function getHistory(agentId, limit = 10) {
   // Memory fallback
   const messages = memoryConversations[agentId] || [];
   return messages.slice(-limit).map(m => ({
+    id: m.id,
     role: m.role,
     content: m.content,
+    metadata: m.metadata,
     created_at: m.created_at
   }));
 }
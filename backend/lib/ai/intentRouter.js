@@ -7,7 +7,7 @@ const crypto = require('crypto');
 const { updateWalletAddress, getAgentById } = require('../agents');
 const { calculateFee } = require('../feeCalculator');
 const { getFeeConfig } = require('../feeConfig');
-const { getCanonicalName, getSupportedNetworks, getSupportedNetworkList } = require('../chainRegistry');
+const { getCanonicalName, getSupportedNetworks, getSupportedNetworkList, getSupportedTokens, isTokenSupported } = require('../chainRegistry');
 
 /**
  * Route an AI action to the appropriate handler
@@ -95,6 +95,10 @@ async function handleCreateLink(params, agent, supabase, memoryStore) {
     throw new Error(`Unsupported network: "${params.network}". Supported: ${supported}.`);
   }
   const resolvedToken = (params.token || 'USDC').toUpperCase();
+  if (!isTokenSupported(resolvedNetwork, resolvedToken)) {
+    const supported = getSupportedTokens(resolvedNetwork).join(', ');
+    throw new Error(`${resolvedToken} is not available on ${resolvedNetwork}. Supported: ${supported}.`);
+  }
 
   const id = 'REQ-' + crypto.randomUUID().split('-')[0].toUpperCase();
   const request = {
@@ -178,13 +182,14 @@ async function handlePayLink(params, agent, supabase, memoryStore) {
   // Calculate fee (network-aware, token-aware)
   const paymentNetwork = request.network || 'sepolia';
   const paymentToken = (request.token || 'USDC').toUpperCase();
-  const feeInfo = await calculateFee(agent.wallet_address, paymentNetwork, paymentToken);
+  const feeInfo = await calculateFee(agent.wallet_address, paymentNetwork, paymentToken, request.token_address || null);
   const feeConfig = await getFeeConfig();
 
   return {
     linkId,
     amount: request.amount,
     token: request.token,
+    tokenAddress: request.token_address || null,
     network: paymentNetwork,
     receiver: request.receiver,
     fee: feeInfo,
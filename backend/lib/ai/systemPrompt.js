@@ -5,11 +5,13 @@
  * and available actions with their expected JSON schemas.
  */
 
-const { getSupportedNetworkList } = require('../chainRegistry');
+const { getSupportedNetworkList, getSupportedTokens } = require('../chainRegistry');
 
 function buildSystemPrompt(agent) {
   const chains = getSupportedNetworkList();
-  const chainList = chains.map(c => `  - "${c.name}" — ${c.displayName}${c.isTestnet ? ' (testnet)' : ''}`).join('\n');
+  const chainList = chains
+    .map(c => `  - "${c.name}" — ${c.displayName}${c.isTestnet ? ' (testnet)' : ''}. Tokens: ${getSupportedTokens(c.name).join(', ')}`)
+    .join('\n');
   const chainNames = chains.map(c => c.name).join(', ');
 
   return `You are PayAgent AI Assistant — a crypto payment infrastructure assistant.
@@ -25,7 +27,7 @@ You help AI agents create payment links, check payment statuses, and manage thei
 ## Supported Chains
 ${chainList}
 
-Supported tokens per chain: USDC, USDT, ETH (native), LCX
+The last token listed for each chain is its native gas token.
 
 ## Available Actions
 You MUST respond with valid JSON. Choose one of these actions:
@@ -129,7 +131,7 @@ When the request is unclear, ask for clarification.
 9. If the user says "list" or "show" payments, use "list_payments".
 10. If unclear, use "clarify".
 11. Supported chains: ${chainNames}. Reject anything else.
-12. Supported tokens: USDC, USDT, ETH, LCX. Default to USDC if not specified.
+12. Only use a token listed for the chosen chain. Default to USDC if not specified.
 13. Be concise in your messages.`;
 }
 
@@ -0,0 +1,38 @@
+/**
+ * Known frontend origins.
+ *
+ * Used by: CORS (api/index.js) and SIWE domain binding (walletAuth.js)
+ */
+const ALLOWED_ORIGINS = [
+  'https://payagent.co',
+  'https://www.payagent.co',
+  'https://api.payagent.co',
+  'https://payagent.vercel.app',
+  process.env.FRONTEND_URL,
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'http://localhost:8080',
+].filter(Boolean);
+
+/**
+ * Normalize an origin-like string (trailing slashes, paths) to scheme://host[:port].
+ * @returns {string|null} null when it is not a URL
+ */
+function toOrigin(value) {
+  try {
+    return new URL(value).origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a URL belongs to a known frontend origin.
+ * @param {string} value
+ */
+function isAllowedOrigin(value) {
+  const origin = toOrigin(value);
+  return !!origin && ALLOWED_ORIGINS.some(allowed => toOrigin(allowed) === origin);
+}
+
+module.exports = { ALLOWED_ORIGINS, toOrigin, isAllowedOrigin };
@@ -10,6 +10,12 @@ const ERC20_ABI = [
   'function allowance(address owner, address spender) view returns (uint256)'
 ];
 
+// PayAgentRouter (contracts/src/PayAgentRouter.sol) settlement event
+const ROUTER_ABI = [
+  'event PaymentSettled(bytes32 indexed requestId, address indexed payer, (address token, address to, uint256 amount) payment, (address token, address to, uint256 amount) platformFee, (address token, address to, uint256 amount) creatorReward)'
+];
+const routerInterface = new ethers.Interface(ROUTER_ABI);
+
 /**
  * Get RPC provider based on network.
  * Uses the chain registry to resolve the correct RPC URL.
@@ -120,25 +126,28 @@ async function verifyErc20Transfer(txHash, expectedAmount, expectedToken, expect
     const contract = new ethers.Contract(expectedToken, ERC20_ABI, provider);
     const decimals = await contract.decimals();
 
-    // Only consider logs from the expected token contract
-    const tokenLogs = receipt.logs.filter(log => log.address && log.address.toLowerCase() === expectedTokenLower);
-    const transferLog = tokenLogs.find(log => {
-      try {
-        const parsed = contract.interface.parseLog(log);
-        return parsed?.name === 'Transfer';
-      } catch {
-        return false;
-      }
-    });
+    // Only consider Transfer logs from the expected token contract
+    const transferLogs = receipt.logs
+      .filter(log => log.address && log.address.toLowerCase() === expectedTokenLower)
+      .map(log => {
+        try {
+          return contract.interface.parseLog(log);
+        } catch {
+          return null;
+        }
+      })
+      .filter(parsed => parsed?.name === 'Transfer');
 
-    if (!transferLog) {
+    if (transferLogs.length === 0) {
       return { valid: false, error: 'No transfer event found for this token contract' };
     }
 
-    const parsedLog = contract.interface.parseLog(transferLog);
+    // A batched transaction can hold several transfers of the token (e.g. payment + fee);
+    // use the one to the expected receiver
+    const expectedReceiverLower = (expectedReceiver || '').toLowerCase();
+    const parsedLog = transferLogs.find(parsed => (parsed.args.to || '').toLowerCase() === expectedReceiverLower) || transferLogs[0];
     const transferredAmount = ethers.formatUnits(parsedLog.args.value, decimals);
     const transferredTo = (parsedLog.args.to || '').toLowerCase();
-    const expectedReceiverLower = (expectedReceiver || '').toLowerCase();
 
     // Validate amount (allow tiny tolerance for float) and receiver
     const expectedNum = parseFloat(expectedAmount);
@@ -172,6 +181,103 @@ async function verifyErc20Transfer(txHash, expectedAmount, expectedToken, expect
   }
 }
 
+/**
+ * Decode the PaymentSettled events emitted by a PayAgent router in a receipt.
+ * Logs from any other address are ignored, so a look-alike contract can't settle a payment.
+ * @param {object} receipt - Transaction receipt (ethers)
+ * @param {string} routerAddress - Router deployed on the receipt's network
+ * @returns {Array<{requestId: string, payer: string, payment: object, platformFee: object, creatorReward: object}>}
+ *   Legs are { token, to, amount } with lowercase addresses (token is the zero address
+ *   for native legs) and amount as a bigint in base units
+ */
+function decodePaymentSettled(receipt, routerAddress) {
+  const router = (routerAddress || '').toLowerCase();
+  const leg = (l) => ({ token: l.token.toLowerCase(), to: l.to.toLowerCase(), amount: l.amount });
+  const settlements = [];
+  for (const log of receipt.logs || []) {
+    if (!log.address || log.address.toLowerCase() !== router) continue;
+    let parsed;
+    try {
+      parsed = routerInterface.parseLog(log);
+    } catch {
+      continue;
+    }
+    if (parsed?.name !== 'PaymentSettled') continue;
+    settlements.push({
+      requestId: parsed.args.requestId,
+      payer: parsed.args.payer.toLowerCase(),
+      payment: leg(parsed.args.payment),
+      platformFee: leg(parsed.args.platformFee),
+      creatorReward: leg(parsed.args.creatorReward)
+    });
+  }
+  return settlements;
+}
+
+/**
+ * Verify a payment settled through the PayAgent router: the transaction must emit
+ * PaymentSettled for this request id, paying at least `expectedAmount` of the
+ * expected token (null for native) to the receiver.
+ * Resolves with { valid: false, notSettled: true } when the transaction has no
+ * router event, so callers can fall back to verifyTransaction.
+ */
+async function verifyRouterPayment(txHash, requestId, expectedAmount, expectedToken, expectedReceiver, routerAddress, network = 'sepolia') {
+  try {
+    const provider = getProvider(network);
+    const receipt = await provider.getTransactionReceipt(txHash);
+    if (!receipt) {
+      return { valid: false, error: 'Transaction not found' };
+    }
+    if (receipt.status !== 1) {
+      return { valid: false, error: 'Transaction failed' };
+    }
+
+    const settlements = decodePaymentSettled(receipt, routerAddress);
+    if (settlements.length === 0) {
+      return { valid: false, notSettled: true, error: 'No PaymentSettled event from the PayAgent router' };
+    }
+
+    const settlement = settlements.find(s => s.requestId === ethers.id(requestId));
+    if (!settlement) {
+      return { valid: false, error: 'PaymentSettled event is for a different payment request' };
+    }
+
+    const { payment } = settlement;
+    const expectedTokenLower = (expectedToken || ethers.ZeroAddress).toLowerCase();
+    const decimals = expectedToken
+      ? Number(await new ethers.Contract(expectedToken, ERC20_ABI, provider).decimals())
+      : 18;
+    const transferredAmount = ethers.formatUnits(payment.amount, decimals);
+    const amountValid = parseFloat(transferredAmount) >= parseFloat(expectedAmount);
+    const tokenValid = payment.token === expectedTokenLower;
+    const receiverValid = payment.to === (expectedReceiver || '').toLowerCase();
+
+    if (!amountValid || !tokenValid || !receiverValid) {
+      return {
+        valid: false,
+        error: 'Token, amount or receiver mismatch',
+        details: {
+          expected: { token: expectedTokenLower, amount: expectedAmount, receiver: expectedReceiver },
+          actual: { token: payment.token, amount: transferredAmount, receiver: payment.to }
+        }
+      };
+    }
+
+    return {
+      valid: true,
+      txHash,
+      amount: transferredAmount,
+      receiver: payment.to,
+      blockNumber: receipt.blockNumber,
+      tokenType: 'ROUTER',
+      payer: settlement.payer
+    };
+  } catch (error) {
+    console.error('Router verification error:', error);
+    return { valid: false, error: error.message };
+  }
+}
+
 async function getTokenBalance(address, tokenAddress, provider) {
   try {
     const contract = new ethers.Contract(
@@ -196,5 +302,7 @@ module.exports = {
   verifyNativeTransfer,
   verifyEthTransfer,
   verifyErc20Transfer,
+  decodePaymentSettled,
+  verifyRouterPayment,
   getTokenBalance
 };
@@ -20,6 +20,7 @@ const SUPPORTED_CHAINS = {
     rpcFallbackEnvVar: 'NEXT_PUBLIC_ETH_RPC_URL',
     rpcDefault: null,
     explorer: 'https://sepolia.etherscan.io',
+    routerEnvVar: 'SEPOLIA_ROUTER_ADDRESS',
     nativeToken: 'ETH',
     tokens: {
       USDC: '0x3402d41aa8e34e0df605c12109de2f8f4ff33a87',
@@ -44,6 +45,7 @@ const SUPPORTED_CHAINS = {
     rpcFallbackEnvVar: null,
     rpcDefault: null,
     explorer: 'https://etherscan.io',
+    routerEnvVar: 'ETH_MAINNET_ROUTER_ADDRESS',
     nativeToken: 'ETH',
     tokens: {
       USDC: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
@@ -67,6 +69,7 @@ const SUPPORTED_CHAINS = {
     rpcFallbackEnvVar: null,
     rpcDefault: 'https://mainnet.base.org',
     explorer: 'https://basescan.org',
+    routerEnvVar: 'BASE_MAINNET_ROUTER_ADDRESS',
     nativeToken: 'ETH',
     tokens: {
       USDC: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
@@ -80,6 +83,53 @@ const SUPPORTED_CHAINS = {
       ETH: 18,
     },
   },
+
+  polygon: {
+    canonicalName: 'polygon',
+    displayName: 'Polygon PoS',
+    chainId: 137,
+    isTestnet: false,
+    rpcEnvVar: 'POLYGON_RPC_URL',
+    rpcFallbackEnvVar: null,
+    rpcDefault: 'https://polygon-rpc.com',
+    explorer: 'https://polygonscan.com',
+    routerEnvVar: 'POLYGON_ROUTER_ADDRESS',
+    nativeToken: 'POL',
+    tokens: {
+      USDC: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', // native USDC (not bridged USDC.e)
+      USDT: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
+      // LCX is not deployed on Polygon
+    },
+    tokenDecimals: {
+      USDC: 6,
+      USDT: 6,
+      POL: 18,
+    },
+  },
+
+  bnb: {
+    canonicalName: 'bnb',
+    displayName: 'BNB Smart Chain',
+    chainId: 56,
+    isTestnet: false,
+    rpcEnvVar: 'BNB_RPC_URL',
+    rpcFallbackEnvVar: null,
+    rpcDefault: 'https://bsc-dataseed.bnbchain.org',
+    explorer: 'https://bscscan.com',
+    routerEnvVar: 'BNB_ROUTER_ADDRESS',
+    nativeToken: 'BNB',
+    tokens: {
+      USDC: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d',
+      USDT: '0x55d398326f99059fF775485246999027B3197955',
+      // LCX is not deployed on BNB Smart Chain
+    },
+    // Binance-Peg stablecoins use 18 decimals, unlike Ethereum
+    tokenDecimals: {
+      USDC: 18,
+      USDT: 18,
+      BNB: 18,
+    },
+  },
 };
 
 // ============ Aliases ============
@@ -100,6 +150,17 @@ const NETWORK_ALIASES = {
   // Base mainnet
   'base':         'base',
   'base-mainnet': 'base',
+
+  // Polygon PoS
+  'polygon':         'polygon',
+  'polygon-mainnet': 'polygon',
+  'matic':           'polygon',
+
+  // BNB Smart Chain
+  'bnb':         'bnb',
+  'bsc':         'bnb',
+  'bnb-chain':   'bnb',
+  'bsc-mainnet': 'bnb',
 };
 
 // ============ Helpers ============
@@ -165,16 +226,43 @@ function getTokenAddress(network, tokenSymbol) {
 }
 
 /**
- * Get token decimals for a token on a network.
+ * Get the registry symbol of a token contract on a network.
+ * @param {string} network
+ * @param {string} tokenAddress
+ * @returns {string|null} null when the contract is not a registry token
+ */
+function findTokenByAddress(network, tokenAddress) {
+  const config = getChainConfig(network);
+  if (!config || !tokenAddress) return null;
+  const address = tokenAddress.toLowerCase();
+  const match = Object.entries(config.tokens).find(([, a]) => a.toLowerCase() === address);
+  return match ? match[0] : null;
+}
+
+/**
+ * Get token decimals for a registry token on a network.
+ * Custom ERC-20s are not listed; read decimals() from the contract instead.
  * @param {string} network
  * @param {string} tokenSymbol
- * @returns {number}
+ * @returns {number|null} null when the token is not in the registry
  */
 function getTokenDecimals(network, tokenSymbol) {
   const config = getChainConfig(network);
-  if (!config) return 18; // safe default
+  if (!config) return null;
   const symbol = (tokenSymbol || '').toUpperCase();
-  return config.tokenDecimals[symbol] || 18;
+  return config.tokenDecimals[symbol] ?? null;
+}
+
+/**
+ * Get the PayAgent router contract deployed on a network (reads from env).
+ * @param {string} network
+ * @returns {string|null} Lowercase address, or null when no router is configured
+ */
+function getRouterAddress(network) {
+  const config = getChainConfig(network);
+  if (!config || !config.routerEnvVar) return null;
+  const address = (process.env[config.routerEnvVar] || '').trim();
+  return /^0x[a-fA-F0-9]{40}$/.test(address) ? address.toLowerCase() : null;
 }
 
 /**
@@ -208,6 +296,28 @@ function isNativeToken(tokenSymbol, network) {
   return (tokenSymbol || '').toUpperCase() === config.nativeToken;
 }
 
+/**
+ * Get the tokens that can be paid on a network: its ERC-20 contracts
+ * followed by the native token.
+ * @param {string} network
+ * @returns {string[]} Empty when the network is unsupported
+ */
+function getSupportedTokens(network) {
+  const config = getChainConfig(network);
+  if (!config) return [];
+  return [...Object.keys(config.tokens), config.nativeToken];
+}
+
+/**
+ * Check if a token can be paid on a network (ERC-20 contract or native).
+ * @param {string} network
+ * @param {string} tokenSymbol
+ * @returns {boolean}
+ */
+function isTokenSupported(network, tokenSymbol) {
+  return getSupportedTokens(network).includes((tokenSymbol || '').toUpperCase());
+}
+
 /**
  * Get the canonical network name (normalises aliases).
  * @param {string} network
@@ -238,17 +348,43 @@ function getSupportedNetworkList() {
   }));
 }
 
+/**
+ * Get the public chain details served by GET /api/chains.
+ * Everything a client needs to build transfers, without RPC settings.
+ * The frontend registry (src/lib/networks.ts) is hydrated from this.
+ * @returns {Array<{name: string, displayName: string, chainId: number, isTestnet: boolean,
+ *   explorer: string, nativeToken: string, tokens: object, tokenDecimals: object}>}
+ */
+function getChainDetailsList() {
+  return Object.values(SUPPORTED_CHAINS).map(c => ({
+    name: c.canonicalName,
+    displayName: c.displayName,
+    chainId: c.chainId,
+    isTestnet: c.isTestnet,
+    explorer: c.explorer,
+    nativeToken: c.nativeToken,
+    tokens: { ...c.tokens },
+    tokenDecimals: { ...c.tokenDecimals },
+    router: getRouterAddress(c.canonicalName),
+  }));
+}
+
 module.exports = {
   SUPPORTED_CHAINS,
   resolveNetwork,
   getChainConfig,
   getRpcUrl,
   getTokenAddress,
+  findTokenByAddress,
   getTokenDecimals,
+  getRouterAddress,
   getExplorerUrl,
   isValidNetwork,
   isNativeToken,
+  getSupportedTokens,
+  isTokenSupported,
   getCanonicalName,
   getSupportedNetworks,
   getSupportedNetworkList,
+  getChainDetailsList,
 };
@@ -1,7 +1,7 @@
 const { ethers } = require('ethers');
 const { getFeeConfig } = require('./feeConfig');
-const { getLcxPriceUsd, getEthPriceUsd } = require('./lcxPrice');
-const { getRpcUrl, getTokenAddress } = require('./chainRegistry');
+const { getLcxPriceUsd, getNativePriceUsd, NATIVE_FALLBACK_PRICES_USD } = require('./lcxPrice');
+const { getRpcUrl, getTokenAddress, getChainConfig, isNativeToken } = require('./chainRegistry');
 
 const ERC20_BALANCE_ABI = ['function balanceOf(address account) view returns (uint256)'];
 
@@ -12,15 +12,18 @@ const ERC20_BALANCE_ABI = ['function balanceOf(address account) view returns (ui
  * - If >= 4 LCX → fee paid in LCX (2 to platform, 2 to creator)
  * - If < 4 LCX → fee deducted from the primary payment token
  *   - USDC/USDT: fee = lcxFeeAmount * lcxPriceUsd (stablecoins ≈ $1)
- *   - ETH: fee = (lcxFeeAmount * lcxPriceUsd) / ethPriceUsd
+ *   - Native token (ETH, POL, BNB): fee = (lcxFeeAmount * lcxPriceUsd) / nativePriceUsd
  *   - LCX (as payment token, but balance < 4): fee = lcxFeeAmount (same denomination)
+ *   - Custom ERC-20 (no USD price): fee charged in the native token as separate
+ *     transfers, so the creator still gets the full amount
  *
  * @param {string} payerWalletAddress - The payer's wallet address
  * @param {string} [network='sepolia'] - The network to check balance on
- * @param {string} [paymentToken='USDC'] - The primary payment token (USDC, USDT, ETH, LCX)
+ * @param {string} [paymentToken='USDC'] - The primary payment token (USDC, USDT, LCX or the native token)
+ * @param {string|null} [paymentTokenAddress=null] - Contract of a custom (non-registry) payment token
  * @returns {Promise<object>} Fee details
  */
-async function calculateFee(payerWalletAddress, network = 'sepolia', paymentToken = 'USDC') {
+async function calculateFee(payerWalletAddress, network = 'sepolia', paymentToken = 'USDC', paymentTokenAddress = null) {
   const config = await getFeeConfig();
   const rpcUrl = getRpcUrl(network);
   const lcxAddress = getTokenAddress(network, 'LCX');
@@ -67,23 +70,24 @@ async function calculateFee(payerWalletAddress, network = 'sepolia', paymentToke
     lcxPriceUsd = 0.15; // Fallback price
   }
 
+  if (paymentTokenAddress) {
+    // Custom ERC-20: nothing to price it against, so the fee goes in the native token
+    const nativeToken = getChainConfig(network).nativeToken;
+    return {
+      feeToken: nativeToken,
+      ...(await nativeFeeShares(nativeToken, lcxFeeAmount * lcxPriceUsd)),
+      lcxPriceUsd,
+      payerLcxBalance,
+      feeDeductedFromPayment: false
+    };
+  }
+
   const normalizedToken = paymentToken.toUpperCase();
   let feeTotal, platformShare, creatorReward;
 
-  if (normalizedToken === 'ETH') {
-    // ETH is not a stablecoin — convert USD fee to ETH
-    let ethPriceUsd;
-    try {
-      ethPriceUsd = await getEthPriceUsd();
-    } catch (err) {
-      console.error('ETH price unavailable, using fallback $2500:', err.message);
-      ethPriceUsd = 2500; // Conservative fallback
-    }
-
-    const usdFee = lcxFeeAmount * lcxPriceUsd;
-    feeTotal = Number((usdFee / ethPriceUsd).toFixed(8));
-    platformShare = Number((feeTotal / 2).toFixed(8));
-    creatorReward = Number((feeTotal - platformShare).toFixed(8));
+  if (isNativeToken(normalizedToken, network)) {
+    // Native tokens are not stablecoins — convert USD fee to the native token
+    ({ feeTotal, platformShare, creatorReward } = await nativeFeeShares(normalizedToken, lcxFeeAmount * lcxPriceUsd));
   } else if (normalizedToken === 'LCX') {
     // LCX as payment token but payer doesn't have enough separate LCX
     // Fee stays in LCX denomination
@@ -108,4 +112,25 @@ async function calculateFee(payerWalletAddress, network = 'sepolia', paymentToke
   };
 }
 
+/**
+ * Convert a USD fee to a native token amount, split platform / creator.
+ * @param {string} nativeToken - ETH, POL or BNB
+ * @param {number} usdFee
+ * @returns {Promise<{feeTotal: number, platformShare: number, creatorReward: number}>}
+ */
+async function nativeFeeShares(nativeToken, usdFee) {
+  let nativePriceUsd;
+  try {
+    nativePriceUsd = await getNativePriceUsd(nativeToken);
+  } catch (err) {
+    nativePriceUsd = NATIVE_FALLBACK_PRICES_USD[nativeToken];
+    console.error(`${nativeToken} price unavailable, using fallback $${nativePriceUsd}:`, err.message);
+  }
+
+  const feeTotal = Number((usdFee / nativePriceUsd).toFixed(8));
+  const platformShare = Number((feeTotal / 2).toFixed(8));
+  const creatorReward = Number((feeTotal - platformShare).toFixed(8));
+  return { feeTotal, platformShare, creatorReward };
+}
+
 module.exports = { calculateFee };
@@ -1,7 +1,8 @@
 /**
  * Token Price Service
  *
- * Fetches current token prices (LCX, ETH) from CoinGecko with a 5-minute cache.
+ * Fetches current token prices (LCX and native tokens) from CoinGecko with a 5-minute cache.
+ * Fiat prices for link quotes use a 1-minute cache and never fall back to stale prices.
  */
 
 let priceCache = {
@@ -9,13 +10,41 @@ let priceCache = {
   fetchedAt: 0
 };
 
-let ethPriceCache = {
-  price: null,
-  fetchedAt: 0
+// Native token prices, keyed by symbol: { price, fetchedAt }
+const nativePriceCache = {};
+
+// CoinGecko ids of each chain's native token
+const NATIVE_COINGECKO_IDS = {
+  ETH: 'ethereum',
+  POL: 'polygon-ecosystem-token',
+  BNB: 'binancecoin',
+};
+
+// Conservative prices used when CoinGecko is down and nothing is cached
+const NATIVE_FALLBACK_PRICES_USD = {
+  ETH: 2500,
+  POL: 0.25,
+  BNB: 600,
 };
 
 const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
 
+// CoinGecko ids of every token a fiat-denominated link can be paid in
+const TOKEN_COINGECKO_IDS = {
+  ...NATIVE_COINGECKO_IDS,
+  USDC: 'usd-coin',
+  USDT: 'tether',
+  LCX: 'lcx',
+};
+
+// Fiat currencies links can be denominated in (CoinGecko vs_currencies)
+const SUPPORTED_FIAT_CURRENCIES = ['USD', 'EUR', 'GBP', 'CHF', 'CAD', 'AUD', 'JPY'];
+
+// Fiat prices keyed by "SYMBOL:CURRENCY": { price, fetchedAt }
+const fiatPriceCache = {};
+
+const FIAT_CACHE_TTL_MS = 60 * 1000; // 1 minute
+
 /**
  * Get current LCX price in USD
  * @returns {Promise<number>} LCX price in USD
@@ -68,20 +97,27 @@ async function getLcxPriceUsd() {
 }
 
 /**
- * Get current ETH price in USD
- * @returns {Promise<number>} ETH price in USD
+ * Get current price in USD of a chain's native token (ETH, POL, BNB)
+ * @param {string} symbol - Native token symbol
+ * @returns {Promise<number>} Price in USD
  */
-async function getEthPriceUsd() {
+async function getNativePriceUsd(symbol) {
+  const coinId = NATIVE_COINGECKO_IDS[symbol];
+  if (!coinId) {
+    throw new Error(`No price source for native token ${symbol}`);
+  }
+
   const now = Date.now();
+  const cached = nativePriceCache[symbol];
 
   // Return cached price if fresh
-  if (ethPriceCache.price !== null && (now - ethPriceCache.fetchedAt) < CACHE_TTL_MS) {
-    return ethPriceCache.price;
+  if (cached && (now - cached.fetchedAt) < CACHE_TTL_MS) {
+    return cached.price;
   }
 
   try {
     const response = await fetch(
-      'https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd',
+      `https://api.coingecko.com/api/v3/simple/price?ids=${coinId}&vs_currencies=usd`,
       {
         headers: { 'Accept': 'application/json' },
         signal: AbortSignal.timeout(10000)
@@ -94,25 +130,87 @@ async function getEthPriceUsd() {
 
     const data = await response.json();
 
-    if (!data.ethereum || typeof data.ethereum.usd !== 'number') {
-      throw new Error('Invalid CoinGecko response format for ETH');
+    if (!data[coinId] || typeof data[coinId].usd !== 'number') {
+      throw new Error(`Invalid CoinGecko response format for ${symbol}`);
     }
 
-    const price = data.ethereum.usd;
-    ethPriceCache = { price, fetchedAt: now };
+    const price = data[coinId].usd;
+    nativePriceCache[symbol] = { price, fetchedAt: now };
     return price;
   } catch (error) {
-    console.error('ETH price fetch error:', error.message);
+    console.error(`${symbol} price fetch error:`, error.message);
+
+    if (cached) {
+      console.warn(`Using stale ${symbol} price from cache`);
+      return cached.price;
+    }
+
+    throw new Error(`Failed to fetch ${symbol} price and no cached price available`);
+  }
+}
+
+/**
+ * Get the current price of a token in a fiat currency, for link quotes.
+ * Only USD-pegged stablecoins fall back (to $1) when CoinGecko is down.
+ * @param {string} symbol - Token symbol (USDC, USDT, LCX or a native token)
+ * @param {string} currency - Fiat currency code, e.g. 'USD'
+ * @returns {Promise<number>} Price of one token in the currency
+ */
+async function getFiatPrice(symbol, currency) {
+  const coinId = TOKEN_COINGECKO_IDS[symbol];
+  if (!coinId) {
+    throw new Error(`No price source for ${symbol}`);
+  }
+  const vs = currency.toLowerCase();
+  const key = `${symbol}:${currency}`;
+
+  const now = Date.now();
+  const cached = fiatPriceCache[key];
+  if (cached && (now - cached.fetchedAt) < FIAT_CACHE_TTL_MS) {
+    return cached.price;
+  }
 
-    if (ethPriceCache.price !== null) {
-      console.warn('Using stale ETH price from cache');
-      return ethPriceCache.price;
+  try {
+    const response = await fetch(
+      `https://api.coingecko.com/api/v3/simple/price?ids=${coinId}&vs_currencies=${vs}`,
+      {
+        headers: { 'Accept': 'application/json' },
+        signal: AbortSignal.timeout(10000)
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`CoinGecko API returned ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    if (!data[coinId] || typeof data[coinId][vs] !== 'number' || data[coinId][vs] <= 0) {
+      throw new Error(`Invalid CoinGecko response format for ${symbol}/${currency}`);
     }
 
-    throw new Error('Failed to fetch ETH price and no cached price available');
+    const price = data[coinId][vs];
+    fiatPriceCache[key] = { price, fetchedAt: now };
+    return price;
+  } catch (error) {
+    console.error(`${symbol}/${currency} price fetch error:`, error.message);
+
+    // A quote locks the price, so a stale one is not good enough
+    if (currency === 'USD' && (symbol === 'USDC' || symbol === 'USDT')) {
+      return 1;
+    }
+    throw new Error(`Failed to fetch the ${symbol} price in ${currency}`);
   }
 }
 
+/**
+ * Get current ETH price in USD
+ * @returns {Promise<number>} ETH price in USD
+ */
+async function getEthPriceUsd() {
+  return getNativePriceUsd('ETH');
+}
+
 /**
  * Get cached price info (for diagnostics)
  */
@@ -124,13 +222,24 @@ function getPriceCacheInfo() {
       ageMs: priceCache.fetchedAt ? Date.now() - priceCache.fetchedAt : null,
       isStale: priceCache.fetchedAt ? (Date.now() - priceCache.fetchedAt) > CACHE_TTL_MS : true
     },
-    eth: {
-      price: ethPriceCache.price,
-      fetchedAt: ethPriceCache.fetchedAt ? new Date(ethPriceCache.fetchedAt).toISOString() : null,
-      ageMs: ethPriceCache.fetchedAt ? Date.now() - ethPriceCache.fetchedAt : null,
-      isStale: ethPriceCache.fetchedAt ? (Date.now() - ethPriceCache.fetchedAt) > CACHE_TTL_MS : true
-    }
+    ...Object.fromEntries(Object.keys(NATIVE_COINGECKO_IDS).map(symbol => {
+      const cached = nativePriceCache[symbol];
+      return [symbol.toLowerCase(), {
+        price: cached ? cached.price : null,
+        fetchedAt: cached ? new Date(cached.fetchedAt).toISOString() : null,
+        ageMs: cached ? Date.now() - cached.fetchedAt : null,
+        isStale: cached ? (Date.now() - cached.fetchedAt) > CACHE_TTL_MS : true
+      }];
+    }))
   };
 }
 
-module.exports = { getLcxPriceUsd, getEthPriceUsd, getPriceCacheInfo };
+module.exports = {
+  NATIVE_FALLBACK_PRICES_USD,
+  SUPPORTED_FIAT_CURRENCIES,
+  getFiatPrice,
+  getLcxPriceUsd,
+  getEthPriceUsd,
+  getNativePriceUsd,
+  getPriceCacheInfo
+};
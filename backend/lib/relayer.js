@@ -0,0 +1,185 @@
+const { ethers } = require('ethers');
+const { getProvider } = require('./blockchain');
+
+/**
+ * Gasless payment relayer (EIP-3009)
+ *
+ * Payers without native gas sign EIP-712 TransferWithAuthorization messages
+ * (USDC and other FiatToken-style contracts); the relayer wallet submits
+ * transferWithAuthorization and pays the gas. The resulting transactions emit
+ * ordinary Transfer events from the payer, so /api/verify checks them like any
+ * other payment.
+ *
+ * Enabled when RELAYER_PRIVATE_KEY is set. Point the network's RPC env var at
+ * a local anvil fork to run it locally.
+ */
+
+const EIP3009_ABI = [
+  'function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)',
+  'function authorizationState(address authorizer, bytes32 nonce) view returns (bool)',
+  'function name() view returns (string)',
+  'function version() view returns (string)',
+  'function decimals() view returns (uint8)'
+];
+
+const AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' }
+  ]
+};
+
+// One signer per network; NonceManager keeps concurrent relays from reusing a nonce
+const signers = new Map();
+
+/**
+ * Relayer signer for a network, or null when RELAYER_PRIVATE_KEY is not set.
+ * @param {string} network - Canonical network name
+ * @returns {ethers.NonceManager|null}
+ */
+function getRelayer(network) {
+  const key = process.env.RELAYER_PRIVATE_KEY;
+  if (!key) return null;
+  const cacheKey = `${network}:${key}`;
+  if (!signers.has(cacheKey)) {
+    signers.set(cacheKey, new ethers.NonceManager(new ethers.Wallet(key, getProvider(network))));
+  }
+  return signers.get(cacheKey);
+}
+
+/**
+ * Public relayer info (the same wallet relays on every network), or null when
+ * gasless payments are off.
+ * @returns {{address: string}|null}
+ */
+function getRelayerInfo() {
+  const key = process.env.RELAYER_PRIVATE_KEY;
+  if (!key) return null;
+  try {
+    return { address: new ethers.Wallet(key).address };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check the shape of one signed authorization from the request body.
+ * @returns {string|null} Error message, or null when valid
+ */
+function validateAuthorization(auth) {
+  if (!auth || typeof auth !== 'object') return 'Each authorization must be an object';
+  for (const field of ['token', 'from', 'to']) {
+    if (typeof auth[field] !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(auth[field])) {
+      return `Invalid authorization ${field}: expected a 0x-prefixed, 40 hex character address`;
+    }
+  }
+  for (const field of ['value', 'validAfter', 'validBefore']) {
+    if (typeof auth[field] !== 'string' || !/^\d{1,78}$/.test(auth[field])) {
+      return `Invalid authorization ${field}: expected an integer string`;
+    }
+  }
+  if (typeof auth.nonce !== 'string' || !/^0x[a-fA-F0-9]{64}$/.test(auth.nonce)) {
+    return 'Invalid authorization nonce: expected 32 bytes of hex';
+  }
+  if (typeof auth.signature !== 'string' || !/^0x[a-fA-F0-9]{130}$/.test(auth.signature)) {
+    return 'Invalid authorization signature: expected a 65-byte hex signature';
+  }
+  return null;
+}
+
+/**
+ * Read decimals() of a token that is not in the chain registry.
+ * @param {string} network - Canonical network name
+ * @param {string} tokenAddress - ERC-20 contract
+ * @returns {Promise<number>}
+ */
+async function readTokenDecimals(network, tokenAddress) {
+  const token = new ethers.Contract(tokenAddress, EIP3009_ABI, getProvider(network));
+  return Number(await token.decimals());
+}
+
+/**
+ * Verify every authorization off-chain (signer, validity window, unused nonce)
+ * before any of them is submitted, so a bad one can't leave a partial payment.
+ * @param {string} network - Canonical network name
+ * @param {object[]} authorizations - Validated authorizations
+ * @returns {Promise<string|null>} Error message, or null when all can be relayed
+ */
+async function checkAuthorizations(network, authorizations) {
+  const provider = getProvider(network);
+  const { chainId } = await provider.getNetwork();
+  const now = Math.floor(Date.now() / 1000);
+
+  for (const auth of authorizations) {
+    const token = new ethers.Contract(auth.token, EIP3009_ABI, provider);
+    let name, version;
+    try {
+      [name, version] = await Promise.all([token.name(), token.version()]);
+    } catch {
+      return `${auth.token} does not support gasless transfers (EIP-3009)`;
+    }
+
+    const domain = { name, version, chainId, verifyingContract: auth.token };
+    const message = {
+      from: auth.from,
+      to: auth.to,
+      value: auth.value,
+      validAfter: auth.validAfter,
+      validBefore: auth.validBefore,
+      nonce: auth.nonce
+    };
+    let signer;
+    try {
+      signer = ethers.verifyTypedData(domain, AUTHORIZATION_TYPES, message, auth.signature);
+    } catch {
+      return 'Authorization signature could not be decoded';
+    }
+    if (signer.toLowerCase() !== auth.from.toLowerCase()) {
+      return 'Authorization was not signed by the payer';
+    }
+    if (Number(auth.validAfter) > now || Number(auth.validBefore) <= now + 30) {
+      return 'Authorization is not valid now (check validAfter / validBefore)';
+    }
+    if (await token.authorizationState(auth.from, auth.nonce)) {
+      return 'Authorization nonce has already been used';
+    }
+  }
+  return null;
+}
+
+/**
+ * Submit transferWithAuthorization for each authorization, in order.
+ * Resolves once every transaction is broadcast (not mined).
+ * @param {string} network - Canonical network name
+ * @param {object[]} authorizations - Checked authorizations
+ * @returns {Promise<string[]>} Transaction hashes, one per authorization
+ */
+async function relayAuthorizations(network, authorizations) {
+  const relayer = getRelayer(network);
+  if (!relayer) throw new Error('Gasless payments are not enabled');
+
+  const hashes = [];
+  for (const auth of authorizations) {
+    const { v, r, s } = ethers.Signature.from(auth.signature);
+    const token = new ethers.Contract(auth.token, EIP3009_ABI, relayer);
+    const tx = await token.transferWithAuthorization(
+      auth.from, auth.to, auth.value, auth.validAfter, auth.validBefore, auth.nonce, v, r, s
+    );
+    hashes.push(tx.hash);
+  }
+  return hashes;
+}
+
+module.exports = {
+  AUTHORIZATION_TYPES,
+  getRelayer,
+  getRelayerInfo,
+  validateAuthorization,
+  readTokenDecimals,
+  checkAuthorizations,
+  relayAuthorizations
+};
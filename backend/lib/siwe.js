@@ -0,0 +1,132 @@
+const crypto = require('crypto');
+const { ethers } = require('ethers');
+
+/**
+ * Sign-In with Ethereum (EIP-4361) messages for dashboard login.
+ *
+ * The backend builds the full message in POST /api/auth/challenge, so the
+ * wallet shows the user which site they are signing in to, on which chain,
+ * and for how long. POST /api/auth/verify parses the signed message back and
+ * checks it against the stored challenge.
+ *
+ * Spec: https://eips.ethereum.org/EIPS/eip-4361
+ */
+
+const SIWE_VERSION = '1';
+const SIWE_STATEMENT = 'Sign in to the PayAgent dashboard. This request will not trigger a blockchain transaction or cost any gas.';
+
+/** Dashboard scopes granted by a session, listed under Resources */
+const DASHBOARD_SCOPES = [
+  'urn:payagent:scope:agent.manage',
+  'urn:payagent:scope:agent.logs',
+  'urn:payagent:scope:payments.read',
+];
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+// Field order defined by EIP-4361
+const FIELDS = [
+  ['uri', 'URI'],
+  ['version', 'Version'],
+  ['chainId', 'Chain ID'],
+  ['nonce', 'Nonce'],
+  ['issuedAt', 'Issued At'],
+  ['expirationTime', 'Expiration Time'],
+  ['notBefore', 'Not Before'],
+  ['requestId', 'Request ID'],
+];
+
+/**
+ * SIWE nonce: at least 8 alphanumeric characters.
+ * @returns {string}
+ */
+function generateNonce() {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+/**
+ * Build an EIP-4361 message.
+ *
+ * @param {Object} fields
+ * @param {string} fields.domain - RFC 3986 authority (host[:port]) requesting the sign-in
+ * @param {string} fields.address - Wallet address (checksummed in the message)
+ * @param {string} fields.uri
+ * @param {number} fields.chainId
+ * @param {string} fields.nonce
+ * @param {string} fields.issuedAt - ISO 8601
+ * @param {string} [fields.expirationTime] - ISO 8601
+ * @param {string} [fields.statement]
+ * @param {string[]} [fields.resources]
+ * @returns {string}
+ */
+function buildSiweMessage(fields) {
+  const { domain, address, statement, resources } = fields;
+  const lines = [`${domain}${HEADER_SUFFIX}`, ethers.getAddress(address), ''];
+  if (statement) lines.push(statement, '');
+
+  const values = { version: SIWE_VERSION, ...fields };
+  for (const [key, label] of FIELDS) {
+    if (values[key] !== undefined && values[key] !== null) lines.push(`${label}: ${values[key]}`);
+  }
+  if (resources && resources.length > 0) {
+    lines.push('Resources:', ...resources.map(r => `- ${r}`));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Parse an EIP-4361 message.
+ * @param {string} message
+ * @returns {Object|null} Parsed fields (chainId as a number), or null if the message is malformed
+ */
+function parseSiweMessage(message) {
+  if (typeof message !== 'string') return null;
+  const lines = message.split('\n');
+
+  const header = lines[0] || '';
+  if (!header.endsWith(HEADER_SUFFIX)) return null;
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+  const address = lines[1];
+  if (!domain || /\s/.test(domain) || !/^0x[a-fA-F0-9]{40}$/.test(address || '') || lines[2] !== '') return null;
+
+  // Optional statement: either "<statement>\n\n" or a single empty line
+  let i = 3;
+  let statement = null;
+  if (lines[i] === '') {
+    i += 1;
+  } else if (lines[i] !== undefined && !lines[i].startsWith('URI: ')) {
+    statement = lines[i];
+    if (lines[i + 1] !== '') return null;
+    i += 2;
+  }
+
+  const parsed = { domain, address, statement, resources: [] };
+  for (const [key, label] of FIELDS) {
+    const prefix = `${label}: `;
+    if (lines[i] && lines[i].startsWith(prefix)) {
+      parsed[key] = lines[i].slice(prefix.length);
+      i += 1;
+    }
+  }
+  if (lines[i] === 'Resources:') {
+    i += 1;
+    while (lines[i] && lines[i].startsWith('- ')) {
+      parsed.resources.push(lines[i].slice(2));
+      i += 1;
+    }
+  }
+  if (i !== lines.length) return null;
+
+  if (!parsed.uri || parsed.version !== SIWE_VERSION || !parsed.nonce || !parsed.issuedAt) return null;
+  if (!/^[a-zA-Z0-9]{8,}$/.test(parsed.nonce) || !/^\d+$/.test(parsed.chainId || '')) return null;
+  parsed.chainId = Number(parsed.chainId);
+  return parsed;
+}
+
+module.exports = {
+  DASHBOARD_SCOPES,
+  SIWE_STATEMENT,
+  generateNonce,
+  buildSiweMessage,
+  parseSiweMessage,
+};
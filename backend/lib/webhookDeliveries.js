@@ -0,0 +1,214 @@
+const crypto = require('crypto');
+const { supabase } = require('./supabase');
+
+// In-memory fallback
+const memoryDeliveries = [];
+
+// Longest receiver response kept per attempt
+const RESPONSE_SNIPPET_LENGTH = 1000;
+
+// Upper bound for bulk redelivery and failed-event scans
+const MAX_REDELIVERY_EVENTS = 100;
+const MAX_SCAN_ROWS = 1000;
+
+/**
+ * Record one webhook delivery attempt.
+ *
+ * Attempts of the same event share an event_id (the payload id), so
+ * retries and manual redeliveries can be traced back to the original event.
+ *
+ * @returns {Promise<object>} The stored delivery
+ */
+async function recordDelivery({ webhookId, agentId, payload, attempt, statusCode, latencyMs, responseBody, error, redelivery }) {
+  const entry = {
+    id: 'whd_' + crypto.randomBytes(10).toString('hex'),
+    webhook_id: webhookId,
+    agent_id: agentId,
+    event_id: payload.id,
+    event: payload.event,
+    payload,
+    attempt,
+    status_code: statusCode || null,
+    success: !!statusCode && statusCode >= 200 && statusCode < 300,
+    latency_ms: latencyMs ?? null,
+    response_snippet: responseBody ? String(responseBody).slice(0, RESPONSE_SNIPPET_LENGTH) : null,
+    error: error || null,
+    redelivery: !!redelivery
+  };
+
+  if (supabase) {
+    const { data, error: insertError } = await supabase
+      .from('webhook_deliveries')
+      .insert(entry)
+      .select()
+      .single();
+    if (insertError) {
+      // Non-fatal: the delivery itself already happened
+      console.error('Failed to insert webhook_delivery:', insertError.message);
+      return { ...entry, created_at: new Date().toISOString() };
+    }
+    return data;
+  }
+
+  const stored = { ...entry, created_at: new Date().toISOString() };
+  memoryDeliveries.push(stored);
+  // Keep in-memory history bounded
+  if (memoryDeliveries.length > 10000) memoryDeliveries.shift();
+  return stored;
+}
+
+// Newest first; attempts recorded in the same millisecond fall back to attempt order
+function newestFirst(a, b) {
+  return (new Date(b.created_at) - new Date(a.created_at)) || (b.attempt - a.attempt);
+}
+
+function inRange(createdAt, since, until) {
+  const t = new Date(createdAt).getTime();
+  return (!since || t >= since.getTime()) && (!until || t <= until.getTime());
+}
+
+/**
+ * List delivery attempts for a webhook, newest first.
+ *
+ * @param {string} webhookId
+ * @param {object} [filters]
+ * @param {'success'|'failed'} [filters.status]
+ * @param {string} [filters.event]
+ * @param {Date} [filters.since]
+ * @param {Date} [filters.until]
+ * @param {number} [filters.limit]
+ * @param {number} [filters.offset]
+ * @returns {Promise<{ deliveries: object[], total: number }>}
+ */
+async function getDeliveries(webhookId, { status, event, since, until, limit = 50, offset = 0 } = {}) {
+  if (supabase) {
+    let query = supabase
+      .from('webhook_deliveries')
+      .select('*', { count: 'exact' })
+      .eq('webhook_id', webhookId);
+    if (status) query = query.eq('success', status === 'success');
+    if (event) query = query.eq('event', event);
+    if (since) query = query.gte('created_at', since.toISOString());
+    if (until) query = query.lte('created_at', until.toISOString());
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .order('attempt', { ascending: false })
+      .range(offset, offset + limit - 1);
+    if (error) throw error;
+    return { deliveries: data || [], total: count || 0 };
+  }
+
+  const matching = memoryDeliveries
+    .filter(d => d.webhook_id === webhookId)
+    .filter(d => !status || d.success === (status === 'success'))
+    .filter(d => !event || d.event === event)
+    .filter(d => inRange(d.created_at, since, until))
+    .sort(newestFirst);
+  return {
+    deliveries: matching.slice(offset, offset + limit),
+    total: matching.length
+  };
+}
+
+/**
+ * Get a single delivery attempt of a webhook
+ */
+async function getDelivery(webhookId, deliveryId) {
+  if (supabase) {
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('webhook_id', webhookId)
+      .eq('id', deliveryId)
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  }
+
+  return memoryDeliveries.find(d => d.webhook_id === webhookId && d.id === deliveryId) || null;
+}
+
+/**
+ * Events of a webhook with an attempt in [since, until] that were never
+ * delivered successfully. Returns the latest attempt of each such event,
+ * newest first, capped at MAX_REDELIVERY_EVENTS.
+ */
+async function getFailedEvents(webhookId, { since, until } = {}) {
+  let attempts;
+  if (supabase) {
+    let query = supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('webhook_id', webhookId);
+    if (since) query = query.gte('created_at', since.toISOString());
+    if (until) query = query.lte('created_at', until.toISOString());
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('attempt', { ascending: false })
+      .limit(MAX_SCAN_ROWS);
+    if (error) throw error;
+    attempts = data || [];
+  } else {
+    attempts = memoryDeliveries
+      .filter(d => d.webhook_id === webhookId && inRange(d.created_at, since, until))
+      .sort(newestFirst);
+  }
+
+  // Latest attempt per event
+  const latest = new Map();
+  for (const attempt of attempts) {
+    if (!latest.has(attempt.event_id)) latest.set(attempt.event_id, attempt);
+  }
+  const candidates = [...latest.values()].filter(d => !d.success);
+  if (candidates.length === 0) return [];
+
+  // Drop events that succeeded at any point (possibly outside the range)
+  let delivered;
+  if (supabase) {
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('event_id')
+      .eq('webhook_id', webhookId)
+      .eq('success', true)
+      .in('event_id', candidates.map(d => d.event_id));
+    if (error) throw error;
+    delivered = new Set((data || []).map(d => d.event_id));
+  } else {
+    delivered = new Set(
+      memoryDeliveries.filter(d => d.webhook_id === webhookId && d.success).map(d => d.event_id)
+    );
+  }
+
+  return candidates.filter(d => !delivered.has(d.event_id)).slice(0, MAX_REDELIVERY_EVENTS);
+}
+
+/**
+ * Highest attempt number recorded for an event (0 if none)
+ */
+async function getLastAttempt(webhookId, eventId) {
+  if (supabase) {
+    const { data } = await supabase
+      .from('webhook_deliveries')
+      .select('attempt')
+      .eq('webhook_id', webhookId)
+      .eq('event_id', eventId)
+      .order('attempt', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    return data?.attempt || 0;
+  }
+
+  return memoryDeliveries
+    .filter(d => d.webhook_id === webhookId && d.event_id === eventId)
+    .reduce((max, d) => Math.max(max, d.attempt), 0);
+}
+
+module.exports = {
+  MAX_REDELIVERY_EVENTS,
+  recordDelivery,
+  getDeliveries,
+  getDelivery,
+  getFailedEvents,
+  getLastAttempt
+};
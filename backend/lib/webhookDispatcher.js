@@ -2,6 +2,9 @@ const crypto = require('crypto');
 const { getWebhooksForEvent, markWebhookSuccess, markWebhookFailure } = require('./webhooks');
 const { isSafeUrl } = require('./urlSafety');
 const { decryptSecret } = require('./crypto');
+const { recordDelivery, getLastAttempt } = require('./webhookDeliveries');
+
+const BLOCKED_URL_ERROR = 'URL failed safety check';
 
 // Retry delays in ms
 const RETRY_DELAYS = [30000, 300000, 1800000]; // 30s, 5min, 30min
@@ -26,8 +29,9 @@ async function dispatchEvent(eventType, paymentData) {
 
     if (webhooks.length === 0) return;
 
-    // Build payload
+    // Build payload (the id identifies the event across retries and redeliveries)
     const payload = {
+      id: 'evt_' + crypto.randomBytes(12).toString('hex'),
       event: eventType,
       payment: {
         id: paymentData.id,
@@ -61,14 +65,31 @@ async function dispatchEvent(eventType, paymentData) {
 }
 
 /**
- * Deliver a webhook payload to a single endpoint
+ * Send one signed delivery attempt and record it in the delivery log.
+ * Never throws; failures are reported on the returned delivery.
+ *
+ * @param {object} webhook
+ * @param {object} payload
+ * @param {number} attempt - 1-based attempt number for this event
+ * @param {object} [options]
+ * @param {boolean} [options.redelivery] - Manually triggered from the dashboard
+ * @returns {Promise<object>} The recorded delivery
  */
-async function deliverWebhook(webhook, payload, attempt) {
+async function attemptDelivery(webhook, payload, attempt, { redelivery = false } = {}) {
+  const record = (result) => recordDelivery({
+    webhookId: webhook.id,
+    agentId: webhook.agent_id,
+    payload,
+    attempt,
+    redelivery,
+    ...result
+  });
+
   // Security H1: Validate URL before dispatch (catches pre-existing unsafe URLs)
   if (!await isSafeUrl(webhook.url)) {
     console.error(`Webhook ${webhook.id} blocked: URL failed safety check (${webhook.url})`);
     await markWebhookFailure(webhook.id);
-    return;
+    return record({ error: BLOCKED_URL_ERROR });
   }
 
   const timestamp = String(Date.now());
@@ -81,6 +102,7 @@ async function deliverWebhook(webhook, payload, attempt) {
     .update(payloadStr)
     .digest('hex');
 
+  const startedAt = Date.now();
   try {
     const response = await fetch(webhook.url, {
       method: 'POST',
@@ -94,26 +116,59 @@ async function deliverWebhook(webhook, payload, attempt) {
       body: payloadStr,
       signal: AbortSignal.timeout(15000) // 15s timeout
     });
+    const responseBody = await response.text().catch(() => '');
 
-    if (response.ok || (response.status >= 200 && response.status < 300)) {
+    const delivery = await record({
+      statusCode: response.status,
+      latencyMs: Date.now() - startedAt,
+      responseBody,
+      error: response.ok ? null : `HTTP ${response.status}`
+    });
+    if (delivery.success) {
       await markWebhookSuccess(webhook.id);
-      return;
+    } else {
+      await markWebhookFailure(webhook.id);
     }
-
-    throw new Error(`HTTP ${response.status}`);
+    return delivery;
   } catch (error) {
-    console.error(`Webhook ${webhook.id} delivery attempt ${attempt + 1} failed:`, error.message);
     await markWebhookFailure(webhook.id);
+    return record({
+      latencyMs: Date.now() - startedAt,
+      error: error.name === 'TimeoutError' ? 'Timed out after 15s' : error.message
+    });
+  }
+}
 
-    // Retry if attempts remain
-    if (attempt < RETRY_DELAYS.length) {
-      const delay = RETRY_DELAYS[attempt];
-      console.log(`Retrying webhook ${webhook.id} in ${delay / 1000}s (attempt ${attempt + 2})`);
-      setTimeout(() => {
-        deliverWebhook(webhook, payload, attempt + 1).catch(() => {});
-      }, delay);
-    }
+/**
+ * Deliver a webhook payload to a single endpoint, retrying failed attempts
+ */
+async function deliverWebhook(webhook, payload, attempt) {
+  const delivery = await attemptDelivery(webhook, payload, attempt + 1);
+  if (delivery.success || delivery.error === BLOCKED_URL_ERROR) return;
+
+  console.error(`Webhook ${webhook.id} delivery attempt ${attempt + 1} failed:`, delivery.error);
+
+  // Retry if attempts remain
+  if (attempt < RETRY_DELAYS.length) {
+    const delay = RETRY_DELAYS[attempt];
+    console.log(`Retrying webhook ${webhook.id} in ${delay / 1000}s (attempt ${attempt + 2})`);
+    setTimeout(() => {
+      deliverWebhook(webhook, payload, attempt + 1).catch(() => {});
+    }, delay);
   }
 }
 
-module.exports = { dispatchEvent };
+/**
+ * Redeliver a recorded event once (no automatic retries).
+ * The payload is resent unchanged, so receivers can deduplicate on its id.
+ *
+ * @param {object} webhook
+ * @param {object} delivery - Any recorded attempt of the event
+ * @returns {Promise<object>} The new delivery attempt
+ */
+async function redeliverEvent(webhook, delivery) {
+  const attempt = (await getLastAttempt(webhook.id, delivery.event_id)) + 1;
+  return attemptDelivery(webhook, delivery.payload, attempt, { redelivery: true });
+}
+
+module.exports = { dispatchEvent, redeliverEvent };
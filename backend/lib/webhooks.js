@@ -3,9 +3,27 @@ const { supabase } = require('./supabase');
 const { isSafeUrl } = require('./urlSafety');
 const { encryptSecret } = require('./crypto');
 
+// Events an agent can subscribe to (payment.test is sent on demand only)
+const WEBHOOK_EVENTS = ['payment.created', 'payment.paid'];
+
 // In-memory fallback store
 const memoryWebhooks = {};
 
+/**
+ * Validate a webhook event subscription list
+ * @returns {string|null} Error message, or null when valid
+ */
+function validateWebhookEvents(events) {
+  if (!Array.isArray(events) || events.length === 0) {
+    return 'events must be a non-empty array';
+  }
+  const unknown = events.filter(e => !WEBHOOK_EVENTS.includes(e));
+  if (unknown.length > 0) {
+    return `Unknown webhook events: ${unknown.join(', ')}. Supported: ${WEBHOOK_EVENTS.join(', ')}`;
+  }
+  return null;
+}
+
 /**
  * Register a new webhook for an agent
  * Security H1: Validates URL against SSRF before storing
@@ -187,6 +205,8 @@ async function markWebhookFailure(webhookId) {
 }
 
 module.exports = {
+  WEBHOOK_EVENTS,
+  validateWebhookEvents,
   registerWebhook,
   getWebhooks,
   getWebhooksForEvent,
@@ -1,6 +1,7 @@
 const jwt = require('jsonwebtoken');
 const { getAgentByKeyId, getAgentByWallet, touchAgent } = require('../lib/agents');
 const { decryptSecret, computeHmac, buildStringToSign, timingSafeEqual } = require('../lib/crypto');
+const { isSessionRevoked } = require('./walletAuth');
 
 const MAX_TIMESTAMP_DRIFT_SEC = 300; // 5 minutes replay protection window
 
@@ -190,6 +191,24 @@ async function jwtAuth(req, res) {
     return false;
   }
 
+  // Tokens of a signed-out session stay revoked until they expire
+  let revoked;
+  try {
+    revoked = await isSessionRevoked(payload.sid);
+  } catch (err) {
+    console.error('Session revocation lookup failed:', err.message);
+    res.status(500).json({ error: 'Could not check the session. Please try again.' });
+    return false;
+  }
+  if (revoked) {
+    res.status(401).json({
+      error: 'JWT revoked',
+      message: 'This session was signed out. Please sign in again with your wallet.',
+      code: 'JWT_REVOKED'
+    });
+    return false;
+  }
+
   // Always set req.wallet for wallet-based operations
   req.wallet = wallet_address.toLowerCase();
   req.clientIp = getClientIp(req);
@@ -286,7 +305,7 @@ async function optionalAuthMiddleware(req, res, next) {
       if (jwtSecret) {
         try {
           const payload = jwt.verify(token, jwtSecret);
-          if (payload.wallet_address) {
+          if (payload.wallet_address && !(await isSessionRevoked(payload.sid))) {
             req.wallet = payload.wallet_address.toLowerCase();
             const agent = await getAgentByWallet(payload.wallet_address);
             if (agent && !agent.deleted_at && agent.status === 'active') {
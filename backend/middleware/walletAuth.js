@@ -3,13 +3,26 @@ const jwt = require('jsonwebtoken');
 const { ethers } = require('ethers');
 const { getAgentByWallet } = require('../lib/agents');
 const { supabase } = require('../lib/supabase');
+const { SUPPORTED_CHAINS } = require('../lib/chainRegistry');
+const { isAllowedOrigin, toOrigin } = require('../lib/allowedOrigins');
+const {
+  DASHBOARD_SCOPES, SIWE_STATEMENT, generateNonce, buildSiweMessage, parseSiweMessage
+} = require('../lib/siwe');
 
 const NONCE_TTL_SEC = 300; // 5 minutes
 const JWT_EXPIRY = '1h';
 
+// SIWE defaults for clients that don't say where / on which chain they sign in
+const DEFAULT_SIWE_URI = 'https://payagent.co';
+const DEFAULT_SIWE_CHAIN_ID = 1;
+const CLOCK_SKEW_MS = 60 * 1000;
+
 // In-memory nonce store (fallback when Supabase unavailable)
 const memoryNonces = {};
 
+// In-memory revoked session ids (fallback when Supabase unavailable), sid -> expires_at
+const memoryRevokedSessions = {};
+
 /**
  * Cleanup expired nonces (lazy deletion)
  */
@@ -30,15 +43,120 @@ async function cleanupExpiredNonces() {
   }
 }
 
+// ============ Session Tokens ============
+
+/**
+ * Sign a dashboard JWT. The sid claim identifies the login session and is
+ * carried over on refresh, so logout can revoke every token of the session.
+ * @returns {{ token: string, expires_in: number }}
+ */
+function issueSessionToken({ wallet_address, agent_id, sid }) {
+  const jwtPayload = { wallet_address, sid: sid || crypto.randomUUID() };
+  if (agent_id) jwtPayload.agent_id = agent_id;
+
+  const token = jwt.sign(jwtPayload, process.env.JWT_SECRET, { expiresIn: JWT_EXPIRY });
+  return { token, expires_in: 3600 };
+}
+
+/**
+ * Revoke a login session. Kept for one JWT lifetime, after which every token
+ * of the session has expired on its own.
+ * @param {string} sid
+ */
+async function revokeSession(sid) {
+  const expiresAt = new Date(Date.now() + 3600 * 1000).toISOString();
+  if (supabase) {
+    const { error } = await supabase
+      .from('revoked_sessions')
+      .upsert({ sid, expires_at: expiresAt }, { onConflict: 'sid' });
+    if (error) throw error;
+    // Lazy cleanup of entries whose tokens can no longer be replayed
+    supabase.from('revoked_sessions').delete().lt('expires_at', new Date().toISOString()).then(() => {}, () => {});
+  } else {
+    memoryRevokedSessions[sid] = expiresAt;
+    for (const [id, until] of Object.entries(memoryRevokedSessions)) {
+      if (new Date(until) < new Date()) delete memoryRevokedSessions[id];
+    }
+  }
+}
+
+/**
+ * Check whether a login session has been signed out.
+ * Tokens without a sid predate revocation support and are never revoked.
+ * Throws when the lookup fails, so the session is rejected rather than trusted.
+ */
+async function isSessionRevoked(sid) {
+  if (!sid) return false;
+  if (supabase) {
+    const { data, error } = await supabase
+      .from('revoked_sessions')
+      .select('sid')
+      .eq('sid', sid)
+      .maybeSingle();
+    if (error) throw error;
+    return !!data;
+  }
+  return !!memoryRevokedSessions[sid];
+}
+
+/**
+ * Read and verify the Bearer JWT of a request.
+ * Sends the 401 itself and returns null when the token is unusable.
+ */
+async function readBearerToken(req, res, { allowExpired = false } = {}) {
+  const authHeader = req.headers['authorization'];
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    res.status(401).json({ error: 'Authentication required', message: 'Provide Authorization: Bearer <jwt>' });
+    return null;
+  }
+
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    res.status(500).json({ error: 'JWT authentication not configured on server' });
+    return null;
+  }
+
+  let payload;
+  try {
+    payload = jwt.verify(authHeader.substring(7), jwtSecret, { ignoreExpiration: allowExpired });
+  } catch (err) {
+    if (err.name === 'TokenExpiredError') {
+      res.status(401).json({ error: 'JWT expired', code: 'JWT_EXPIRED' });
+    } else {
+      res.status(401).json({ error: 'Invalid JWT token' });
+    }
+    return null;
+  }
+
+  if (!payload.wallet_address) {
+    res.status(401).json({ error: 'Invalid JWT payload' });
+    return null;
+  }
+
+  if (await isSessionRevoked(payload.sid)) {
+    res.status(401).json({ error: 'JWT revoked', code: 'JWT_REVOKED' });
+    return null;
+  }
+
+  return payload;
+}
+
+function isSupportedChainId(chainId) {
+  return Object.values(SUPPORTED_CHAINS).some(c => c.chainId === chainId);
+}
+
 /**
  * POST /api/auth/challenge
  *
- * Request: { wallet_address: "0x..." }
- * Response: { nonce: "Sign this to login to PayAgent: abc123...", expires_in: 300 }
+ * Request: { wallet_address: "0x...", chain_id?: 11155111, uri?: "https://payagent.co" }
+ * Response: { message: "<EIP-4361 message>", nonce: "abc123...", expires_in: 300 }
+ *
+ * uri defaults to the Origin header (or FRONTEND_URL) and must be a known frontend origin;
+ * its host becomes the SIWE domain.
  */
 async function challengeHandler(req, res) {
   try {
-    const { wallet_address } = req.body;
+    const { wallet_address, chain_id, uri } = req.body;
 
     if (!wallet_address || !/^0x[a-fA-F0-9]{40}$/i.test(wallet_address)) {
       return res.status(400).json({ error: 'Invalid or missing wallet_address' });
@@ -46,31 +164,55 @@ async function challengeHandler(req, res) {
 
     const normalizedAddress = wallet_address.toLowerCase();
 
+    const requestOrigin = req.headers.origin ? toOrigin(req.headers.origin) : null;
+    const siweUri = toOrigin(uri || requestOrigin || process.env.FRONTEND_URL || DEFAULT_SIWE_URI);
+    if (!siweUri || !isAllowedOrigin(siweUri) || (requestOrigin && requestOrigin !== siweUri)) {
+      return res.status(400).json({ error: 'uri must be the PayAgent site requesting the sign-in', code: 'SIWE_DOMAIN_MISMATCH' });
+    }
+
+    const chainId = chain_id === undefined || chain_id === null ? DEFAULT_SIWE_CHAIN_ID : Number(chain_id);
+    if (!isSupportedChainId(chainId)) {
+      const supported = Object.values(SUPPORTED_CHAINS).map(c => c.chainId).join(', ');
+      return res.status(400).json({ error: `Unsupported chain_id. Supported: ${supported}`, code: 'SIWE_CHAIN_MISMATCH' });
+    }
+
     // Cleanup expired nonces periodically (lazy)
     cleanupExpiredNonces().catch(() => {});
 
-    // Generate nonce
-    const randomPart = crypto.randomBytes(16).toString('hex');
-    const nonce = `Sign this to login to PayAgent: ${randomPart}`;
-    const expiresAt = new Date(Date.now() + NONCE_TTL_SEC * 1000).toISOString();
+    // Build the SIWE message; the whole message is stored so verify can compare against it
+    const nonce = generateNonce();
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + NONCE_TTL_SEC * 1000).toISOString();
+    const message = buildSiweMessage({
+      domain: new URL(siweUri).host,
+      address: normalizedAddress,
+      statement: SIWE_STATEMENT,
+      uri: siweUri,
+      chainId,
+      nonce,
+      issuedAt: issuedAt.toISOString(),
+      expirationTime: expiresAt,
+      resources: DASHBOARD_SCOPES,
+    });
 
     if (supabase) {
-      // Upsert (one nonce per wallet at a time)
+      // Upsert (one challenge per wallet at a time)
       const { error } = await supabase
         .from('auth_nonces')
         .upsert({
           wallet_address: normalizedAddress,
-          nonce,
+          nonce: message,
           expires_at: expiresAt
         }, { onConflict: 'wallet_address' });
 
       if (error) throw error;
     } else {
-      memoryNonces[normalizedAddress] = { nonce, expires_at: expiresAt };
+      memoryNonces[normalizedAddress] = { nonce: message, expires_at: expiresAt };
     }
 
     return res.json({
       success: true,
+      message,
       nonce,
       expires_in: NONCE_TTL_SEC
     });
@@ -83,12 +225,15 @@ async function challengeHandler(req, res) {
 /**
  * POST /api/auth/verify
  *
- * Request: { wallet_address: "0x...", signature: "0x..." }
+ * Request: { wallet_address: "0x...", signature: "0x...", message?: "<signed SIWE message>", chain_id?: 1 }
  * Response: { token: "eyJ...", expires_in: 3600, agent: { id, username, ... } }
+ *
+ * message defaults to the one issued by the challenge. chain_id is the wallet's
+ * current chain; it must match the chain in the message.
  */
 async function verifyHandler(req, res) {
   try {
-    const { wallet_address, signature } = req.body;
+    const { wallet_address, signature, message, chain_id } = req.body;
 
     if (!wallet_address || !signature) {
       return res.status(400).json({ error: 'Missing wallet_address or signature' });
@@ -127,10 +272,43 @@ async function verifyHandler(req, res) {
       return res.status(400).json({ error: 'Challenge expired. Request a new one.' });
     }
 
-    // Verify EIP-191 signature
+    // Check the signed SIWE message against the pending challenge
+    const expected = parseSiweMessage(nonceEntry.nonce);
+    if (!expected) {
+      // Challenge issued before SIWE was enabled
+      return res.status(400).json({ error: 'Challenge expired. Request a new one.' });
+    }
+
+    const signedMessage = message === undefined ? nonceEntry.nonce : message;
+    const signed = parseSiweMessage(signedMessage);
+    if (!signed) {
+      return res.status(400).json({ error: 'Invalid SIWE message', code: 'SIWE_INVALID_MESSAGE' });
+    }
+    if (signed.nonce !== expected.nonce) {
+      return res.status(401).json({ error: 'Message nonce does not match the pending challenge', code: 'SIWE_NONCE_MISMATCH' });
+    }
+    if (signed.domain !== expected.domain || toOrigin(signed.uri) !== toOrigin(expected.uri)) {
+      return res.status(401).json({ error: 'Message domain does not match the pending challenge', code: 'SIWE_DOMAIN_MISMATCH' });
+    }
+    if (signed.chainId !== expected.chainId || (chain_id !== undefined && Number(chain_id) !== signed.chainId)) {
+      return res.status(401).json({ error: 'Message chain does not match the pending challenge', code: 'SIWE_CHAIN_MISMATCH' });
+    }
+    if (signed.address.toLowerCase() !== normalizedAddress) {
+      return res.status(401).json({ error: 'Message is for a different wallet address' });
+    }
+
+    const now = Date.now();
+    if (Date.parse(signed.issuedAt) > now + CLOCK_SKEW_MS || (signed.notBefore && Date.parse(signed.notBefore) > now + CLOCK_SKEW_MS)) {
+      return res.status(401).json({ error: 'Message is not valid yet' });
+    }
+    if (signed.expirationTime && !(Date.parse(signed.expirationTime) > now)) {
+      return res.status(400).json({ error: 'Challenge expired. Request a new one.' });
+    }
+
+    // Verify EIP-191 signature over the SIWE message
     let recoveredAddress;
     try {
-      recoveredAddress = ethers.verifyMessage(nonceEntry.nonce, signature);
+      recoveredAddress = ethers.verifyMessage(signedMessage, signature);
     } catch (e) {
       return res.status(400).json({ error: 'Invalid signature format' });
     }
@@ -159,15 +337,15 @@ async function verifyHandler(req, res) {
       return res.status(500).json({ error: 'JWT authentication not configured on server' });
     }
 
-    const jwtPayload = { wallet_address: normalizedAddress };
-    if (agent) jwtPayload.agent_id = agent.id;
-
-    const token = jwt.sign(jwtPayload, jwtSecret, { expiresIn: JWT_EXPIRY });
+    const { token, expires_in } = issueSessionToken({
+      wallet_address: normalizedAddress,
+      agent_id: agent ? agent.id : null
+    });
 
     const response = {
       success: true,
       token,
-      expires_in: 3600,
+      expires_in,
       agent: agent ? {
         id: agent.id,
         username: agent.username,
@@ -187,4 +365,56 @@ async function verifyHandler(req, res) {
   }
 }
 
-module.exports = { challengeHandler, verifyHandler };
+/**
+ * POST /api/auth/refresh
+ *
+ * Header: Authorization: Bearer <jwt> (must still be valid)
+ * Response: { token: "eyJ...", expires_in: 3600 }
+ *
+ * The new token keeps the session id, so the old one stays valid until it
+ * expires (concurrent requests don't race) and logout still covers both.
+ */
+async function refreshHandler(req, res) {
+  try {
+    const payload = await readBearerToken(req, res);
+    if (!payload) return;
+
+    const agent = await getAgentByWallet(payload.wallet_address);
+    if (agent && agent.deleted_at) {
+      return res.status(403).json({ error: 'Agent account has been deleted' });
+    }
+
+    const { token, expires_in } = issueSessionToken({
+      wallet_address: payload.wallet_address,
+      agent_id: agent ? agent.id : null,
+      sid: payload.sid
+    });
+
+    return res.json({ success: true, token, expires_in });
+  } catch (error) {
+    console.error('Refresh session error:', error);
+    return res.status(500).json({ error: 'Failed to refresh session' });
+  }
+}
+
+/**
+ * POST /api/auth/logout
+ *
+ * Header: Authorization: Bearer <jwt> (expired tokens are accepted)
+ * Response: { success: true }
+ */
+async function logoutHandler(req, res) {
+  try {
+    const payload = await readBearerToken(req, res, { allowExpired: true });
+    if (!payload) return;
+
+    if (payload.sid) await revokeSession(payload.sid);
+
+    return res.json({ success: true, message: 'Session revoked' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    return res.status(500).json({ error: 'Failed to revoke session' });
+  }
+}
+
+module.exports = { challengeHandler, verifyHandler, refreshHandler, logoutHandler, isSessionRevoked };
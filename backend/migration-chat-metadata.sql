@@ -0,0 +1,5 @@
+-- Migration: Dashboard chat console (GET /api/chat/history)
+-- Run this in Supabase SQL Editor
+
+-- Structured reply (message, action, result, error) stored with assistant messages
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS metadata JSONB;
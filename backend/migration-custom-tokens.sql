@@ -0,0 +1,6 @@
+-- Migration: Arbitrary ERC-20 payment links
+-- Run this in Supabase SQL Editor
+
+-- Contract of a custom (non-registry) token, lowercased. NULL for registry
+-- tokens, which are resolved from lib/chainRegistry.js by symbol.
+ALTER TABLE payment_requests ADD COLUMN IF NOT EXISTS token_address TEXT;
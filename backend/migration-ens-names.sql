@@ -0,0 +1,6 @@
+-- Migration: ENS / Basename receivers
+-- Run this in Supabase SQL Editor
+
+-- Name the creator typed (e.g. alice.eth, alice.base.eth), lowercased. receiver
+-- holds the address it resolved to at creation; NULL for links made with an address.
+ALTER TABLE payment_requests ADD COLUMN IF NOT EXISTS receiver_name TEXT;
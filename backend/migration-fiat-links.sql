@@ -0,0 +1,7 @@
+-- Migration: Fiat-denominated payment links
+-- Run this in Supabase SQL Editor
+
+-- Currency the link's amount is in (e.g. 'USD'). NULL = amount is in the token.
+ALTER TABLE payment_requests ADD COLUMN IF NOT EXISTS currency TEXT;
+-- Latest quote locking the token amount of a fiat link: {id, amount, price, network, expiresAt, ...}
+ALTER TABLE payment_requests ADD COLUMN IF NOT EXISTS quote JSONB;
@@ -0,0 +1,7 @@
+-- Migration: Multi-network payment links
+-- Run this in Supabase SQL Editor
+
+-- payment_requests.network now holds every network a link can be paid on,
+-- comma-separated (first = default); it is narrowed to the paid network on verify.
+-- Per-network receiver overrides, e.g. {"base": "0x..."}. NULL = receiver on every network.
+ALTER TABLE payment_requests ADD COLUMN IF NOT EXISTS receivers JSONB;
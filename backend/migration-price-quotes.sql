@@ -0,0 +1,13 @@
+-- Migration: Price quotes stored by id (POST /api/prices/quote)
+-- Run this in Supabase SQL Editor
+
+-- One row per issued quote; never updated, so a payer's quote can't be replaced by later ones
+CREATE TABLE IF NOT EXISTS price_quotes (
+  id TEXT PRIMARY KEY,                   -- 'QUO-<uuid>'
+  payment_request_id TEXT NOT NULL REFERENCES payment_requests(id) ON DELETE CASCADE,
+  quote JSONB NOT NULL,                  -- {id, currency, fiatAmount, token, network, amount, price, tolerance, createdAt, expiresAt}
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_quotes_request ON price_quotes(payment_request_id);
@@ -0,0 +1,10 @@
+-- Migration: Revocable dashboard sessions (POST /api/auth/refresh, /api/auth/logout)
+-- Run this in Supabase SQL Editor
+
+-- Signed-out session ids (JWT sid claim), kept for one JWT lifetime
+CREATE TABLE IF NOT EXISTS revoked_sessions (
+  sid TEXT PRIMARY KEY,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_revoked_sessions_expires ON revoked_sessions(expires_at);
@@ -0,0 +1,23 @@
+-- Migration: Webhook delivery log (GET /api/webhooks/:id/deliveries, redelivery)
+-- Run this in Supabase SQL Editor
+
+-- One row per delivery attempt; attempts of the same event share event_id
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id TEXT PRIMARY KEY,
+  webhook_id TEXT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  agent_id TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  attempt INTEGER NOT NULL,
+  status_code INTEGER,
+  success BOOLEAN NOT NULL DEFAULT false,
+  latency_ms INTEGER,
+  response_snippet TEXT,
+  error TEXT,
+  redelivery BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_event ON webhook_deliveries(webhook_id, event_id);
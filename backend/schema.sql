@@ -39,12 +39,17 @@ CREATE INDEX IF NOT EXISTS idx_agents_status ON agents(status);
 -- ============ PAYMENT REQUESTS ============
 CREATE TABLE IF NOT EXISTS payment_requests (
   id TEXT PRIMARY KEY,
-  token TEXT NOT NULL,
-  amount TEXT NOT NULL,
+  token TEXT NOT NULL,                   -- comma-separated accepted tokens while pending; the paid token once PAID
+  token_address TEXT,                    -- custom ERC-20 contract (NULL = registry token)
+  amount TEXT NOT NULL,                  -- in the (first) token, or in currency when set
+  currency TEXT,                         -- fiat denomination, e.g. 'USD' (NULL = amount is in the token)
+  quote JSONB,                           -- quote the link was paid at (NULL while pending; quotes live in price_quotes)
   receiver TEXT NOT NULL,
+  receiver_name TEXT,                    -- ENS name receiver was resolved from (NULL = entered as address)
+  receivers JSONB,                       -- per-network receiver overrides (NULL = receiver everywhere)
   payer TEXT,
   description TEXT,
-  network TEXT NOT NULL DEFAULT 'sepolia',
+  network TEXT NOT NULL DEFAULT 'sepolia', -- comma-separated while pending; the paid network once PAID
   status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'PAID', 'EXPIRED', 'CANCELLED')),
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   expires_at TIMESTAMPTZ,
@@ -128,6 +133,7 @@ CREATE TABLE IF NOT EXISTS conversations (
   agent_id TEXT NOT NULL REFERENCES agents(id),
   role TEXT NOT NULL CHECK (role IN ('system', 'user', 'assistant')),
   content TEXT NOT NULL,
+  metadata JSONB,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
@@ -209,6 +215,47 @@ CREATE TABLE IF NOT EXISTS auth_nonces (
   expires_at TIMESTAMPTZ NOT NULL
 );
 
+-- ============ REVOKED SESSIONS (dashboard logout) ============
+CREATE TABLE IF NOT EXISTS revoked_sessions (
+  sid TEXT PRIMARY KEY,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_revoked_sessions_expires ON revoked_sessions(expires_at);
+
+-- ============ WEBHOOK DELIVERIES (per-attempt log, redelivery) ============
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id TEXT PRIMARY KEY,
+  webhook_id TEXT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  agent_id TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  attempt INTEGER NOT NULL,
+  status_code INTEGER,
+  success BOOLEAN NOT NULL DEFAULT false,
+  latency_ms INTEGER,
+  response_snippet TEXT,
+  error TEXT,
+  redelivery BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_event ON webhook_deliveries(webhook_id, event_id);
+
+-- ============ PRICE QUOTES (fiat-priced links, other accepted tokens) ============
+-- One row per issued quote; never updated, so a payer's quote can't be replaced by later ones
+CREATE TABLE IF NOT EXISTS price_quotes (
+  id TEXT PRIMARY KEY,                   -- 'QUO-<uuid>'
+  payment_request_id TEXT NOT NULL REFERENCES payment_requests(id) ON DELETE CASCADE,
+  quote JSONB NOT NULL,                  -- {id, currency, fiatAmount, token, network, amount, price, tolerance, createdAt, expiresAt}
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_quotes_request ON price_quotes(payment_request_id);
+
 -- Insert default fee config (run once)
 INSERT INTO fee_config (id, lcx_fee_amount, lcx_platform_share, lcx_creator_reward, lcx_contract_address, treasury_wallet, price_cache_ttl_sec)
 VALUES (
@@ -28,7 +28,7 @@
  *   19. Rate Limiting
  *   20. Agent Lookup by Wallet
  *   21. HMAC Signature Validation (replay, tamper, missing headers)
- *   22. Wallet Auth (challenge, verify, JWT)
+ *   22. Wallet Auth (challenge, verify, JWT, refresh, logout)
  *
  * Run:  node test.js
  */
@@ -221,9 +221,9 @@ after(async () => {
 // ═══════════════════════════════════════════════════════════════════
 
 describe('Chain Registry', () => {
-  it('lists exactly 3 supported chains', () => {
+  it('lists exactly 5 supported chains', () => {
     const chains = registry.getSupportedNetworks();
-    assert.deepStrictEqual(chains, ['sepolia', 'ethereum', 'base']);
+    assert.deepStrictEqual(chains, ['sepolia', 'ethereum', 'base', 'polygon', 'bnb']);
   });
 
   it('resolves canonical names from aliases', () => {
@@ -237,7 +237,7 @@ describe('Chain Registry', () => {
   });
 
   it('rejects unsupported networks', () => {
-    assert.equal(registry.resolveNetwork('polygon'), null);
+    assert.equal(registry.resolveNetwork('arbitrum'), null);
     assert.equal(registry.resolveNetwork('solana'), null);
     assert.equal(registry.resolveNetwork(''), null);
     assert.equal(registry.resolveNetwork(null), null);
@@ -247,7 +247,7 @@ describe('Chain Registry', () => {
     assert.equal(registry.isValidNetwork('sepolia'), true);
     assert.equal(registry.isValidNetwork('ethereum'), true);
     assert.equal(registry.isValidNetwork('base'), true);
-    assert.equal(registry.isValidNetwork('polygon'), false);
+    assert.equal(registry.isValidNetwork('arbitrum'), false);
   });
 
   describe('Token addresses', () => {
@@ -288,7 +288,7 @@ describe('Chain Registry', () => {
     it('returns configured RPC for sepolia', () => { assert.ok(registry.getRpcUrl('sepolia')); });
     it('returns configured RPC for ethereum', () => { assert.ok(registry.getRpcUrl('ethereum')); });
     it('returns configured RPC for base', () => { assert.ok(registry.getRpcUrl('base')); });
-    it('returns null for unsupported network', () => { assert.equal(registry.getRpcUrl('polygon'), null); });
+    it('returns null for unsupported network', () => { assert.equal(registry.getRpcUrl('arbitrum'), null); });
   });
 
   describe('Chain config', () => {
@@ -321,10 +321,10 @@ describe('Health & Public Endpoints', () => {
     assert.equal(res.body.status, 'healthy');
   });
 
-  it('GET /api/chains returns all 3 chains', async () => {
+  it('GET /api/chains returns all 5 chains', async () => {
     const res = await request('GET', '/api/chains');
     assert.equal(res.status, 200);
-    assert.equal(res.body.chains.length, 3);
+    assert.equal(res.body.chains.length, 5);
   });
 });
 
@@ -517,8 +517,8 @@ describe('Multi-Chain Link Creation', () => {
 // ═══════════════════════════════════════════════════════════════════
 
 describe('Network Validation', () => {
-  it('rejects "polygon"', async () => {
-    const res = await request('POST', '/api/create-link', { amount: '10', network: 'polygon' }, agents.creator);
+  it('rejects "arbitrum"', async () => {
+    const res = await request('POST', '/api/create-link', { amount: '10', network: 'arbitrum' }, agents.creator);
     assert.equal(res.status, 400);
   });
   it('rejects empty string network', async () => {
@@ -965,13 +965,18 @@ describe('HMAC Signature Validation', () => {
 // ═══════════════════════════════════════════════════════════════════
 
 describe('Wallet Auth — Challenge & Verify', () => {
-  it('POST /api/auth/challenge returns a nonce', async () => {
+  it('POST /api/auth/challenge returns a SIWE message', async () => {
     const res = await request('POST', '/api/auth/challenge', {
       wallet_address: agents.creator.wallet,
+      chain_id: 11155111,
     });
     assert.equal(res.status, 200);
     assert.ok(res.body.nonce);
-    assert.ok(res.body.nonce.startsWith('Sign this to login to PayAgent:'));
+    assert.ok(res.body.message.includes(' wants you to sign in with your Ethereum account:\n'));
+    assert.ok(res.body.message.includes(`\nNonce: ${res.body.nonce}\n`));
+    assert.ok(res.body.message.includes('\nChain ID: 11155111\n'));
+    assert.ok(res.body.message.includes('\nExpiration Time: '));
+    assert.ok(res.body.message.includes('\n- urn:payagent:scope:agent.manage'));
     assert.equal(res.body.expires_in, 300);
   });
 
@@ -1027,10 +1032,10 @@ describe('Wallet Auth — Challenge & Verify', () => {
       wallet_address: walletAddress,
     });
     assert.equal(challengeRes.status, 200);
-    const nonce = challengeRes.body.nonce;
+    const message = challengeRes.body.message;
 
     // Sign with ethers
-    const signature = await wallet.signMessage(nonce);
+    const signature = await wallet.signMessage(message);
 
     // Verify and get JWT
     const verifyRes = await request('POST', '/api/auth/verify', {
@@ -1049,6 +1054,122 @@ describe('Wallet Auth — Challenge & Verify', () => {
     assert.equal(meRes.status, 200);
     assert.equal(meRes.body.agent.username, 'jwt_test_agent');
   });
+
+  // Session tests come from their own client IP so they don't eat into the
+  // global rate limit budget shared by the rest of the suite
+  const SESSION_TEST_IP = { 'x-forwarded-for': '203.0.113.22' };
+
+  function sessionRequest(method, path, body, token) {
+    const headers = { ...SESSION_TEST_IP };
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    return rawRequest(method, path, body, headers);
+  }
+
+  async function walletLogin() {
+    const { ethers } = require('ethers');
+    const wallet = ethers.Wallet.createRandom();
+    const walletAddress = wallet.address.toLowerCase();
+    const challengeRes = await sessionRequest('POST', '/api/auth/challenge', { wallet_address: walletAddress });
+    const signature = await wallet.signMessage(challengeRes.body.message);
+    const verifyRes = await sessionRequest('POST', '/api/auth/verify', { wallet_address: walletAddress, signature });
+    assert.equal(verifyRes.status, 200);
+    return verifyRes.body.token;
+  }
+
+  it('POST /api/auth/challenge rejects unknown origins and chains', async () => {
+    const wallet_address = '0x2222222222222222222222222222222222222222';
+    const badOrigin = await sessionRequest('POST', '/api/auth/challenge', { wallet_address, uri: 'https://evil.example' });
+    assert.equal(badOrigin.status, 400);
+    assert.equal(badOrigin.body.code, 'SIWE_DOMAIN_MISMATCH');
+
+    const badChain = await sessionRequest('POST', '/api/auth/challenge', { wallet_address, chain_id: 999 });
+    assert.equal(badChain.status, 400);
+    assert.equal(badChain.body.code, 'SIWE_CHAIN_MISMATCH');
+  });
+
+  it('POST /api/auth/verify rejects a SIWE message for another domain or chain', async () => {
+    const { ethers } = require('ethers');
+    const wallet = ethers.Wallet.createRandom();
+    const walletAddress = wallet.address.toLowerCase();
+    const challengeRes = await sessionRequest('POST', '/api/auth/challenge', { wallet_address: walletAddress, chain_id: 1 });
+    assert.equal(challengeRes.status, 200);
+    const { message } = challengeRes.body;
+    const domain = message.split(' ')[0];
+
+    const phished = message.replace(domain, 'evil.example');
+    const domainRes = await sessionRequest('POST', '/api/auth/verify', {
+      wallet_address: walletAddress,
+      message: phished,
+      signature: await wallet.signMessage(phished),
+    });
+    assert.equal(domainRes.status, 401);
+    assert.equal(domainRes.body.code, 'SIWE_DOMAIN_MISMATCH');
+
+    const otherChain = message.replace('\nChain ID: 1\n', '\nChain ID: 8453\n');
+    const chainRes = await sessionRequest('POST', '/api/auth/verify', {
+      wallet_address: walletAddress,
+      message: otherChain,
+      signature: await wallet.signMessage(otherChain),
+    });
+    assert.equal(chainRes.status, 401);
+    assert.equal(chainRes.body.code, 'SIWE_CHAIN_MISMATCH');
+
+    const walletChainRes = await sessionRequest('POST', '/api/auth/verify', {
+      wallet_address: walletAddress,
+      message,
+      chain_id: 8453,
+      signature: await wallet.signMessage(message),
+    });
+    assert.equal(walletChainRes.status, 401);
+    assert.equal(walletChainRes.body.code, 'SIWE_CHAIN_MISMATCH');
+
+    // The untouched message still signs in
+    const okRes = await sessionRequest('POST', '/api/auth/verify', {
+      wallet_address: walletAddress,
+      message,
+      chain_id: 1,
+      signature: await wallet.signMessage(message),
+    });
+    assert.equal(okRes.status, 200);
+    assert.ok(okRes.body.token);
+  });
+
+  it('POST /api/auth/refresh issues a new JWT for the same session', async () => {
+    const oldToken = await walletLogin();
+
+    const res = await sessionRequest('POST', '/api/auth/refresh', null, oldToken);
+    assert.equal(res.status, 200);
+    assert.ok(res.body.token);
+    assert.equal(res.body.expires_in, 3600);
+
+    // Wallet-only session: auth passes, no agent behind it
+    const newRes = await sessionRequest('GET', '/api/agents/me', null, res.body.token);
+    assert.equal(newRes.status, 404);
+  });
+
+  it('POST /api/auth/logout revokes every token of the session', async () => {
+    const token = await walletLogin();
+    const refreshRes = await sessionRequest('POST', '/api/auth/refresh', null, token);
+    const refreshed = refreshRes.body.token;
+
+    const res = await sessionRequest('POST', '/api/auth/logout', null, refreshed);
+    assert.equal(res.status, 200);
+    assert.equal(res.body.success, true);
+
+    for (const t of [token, refreshed]) {
+      const meRes = await sessionRequest('GET', '/api/agents/me', null, t);
+      assert.equal(meRes.status, 401);
+      assert.equal(meRes.body.code, 'JWT_REVOKED');
+    }
+
+    const replay = await sessionRequest('POST', '/api/auth/refresh', null, token);
+    assert.equal(replay.status, 401);
+  });
+
+  it('POST /api/auth/logout requires a Bearer token', async () => {
+    const res = await sessionRequest('POST', '/api/auth/logout');
+    assert.equal(res.status, 401);
+  });
 });
 
 // ═══════════════════════════════════════════════════════════════════
@@ -1350,3 +1471,1116 @@ describe('Webhook Secret Encryption — H3', () => {
       'Signature from SHA256 hash should NOT match (this was the H3 bug)');
   });
 });
+
+// ═══════════════════════════════════════════════════════════════════
+//  29. WEBHOOK MANAGEMENT — event validation
+// ═══════════════════════════════════════════════════════════════════
+
+describe('Webhook Management — Events', () => {
+  // Own client IP so these calls don't count against the suite's shared rate limit
+  function webhookRequest(method, path, body) {
+    const { timestamp, signature, apiKeyId } = signRequest(
+      method, path, body, agents.creator.apiKeyId, agents.creator.apiSecret
+    );
+    return rawRequest(method, path, body, {
+      'x-forwarded-for': '203.0.113.29',
+      'x-api-key-id': apiKeyId,
+      'x-timestamp': timestamp,
+      'x-signature': signature,
+    });
+  }
+
+  it('POST /api/webhooks rejects unknown events', async () => {
+    const res = await webhookRequest('POST', '/api/webhooks', {
+      url: 'https://example.com/hooks',
+      events: ['payment.paid', 'payment.refunded'],
+    });
+    assert.equal(res.status, 400);
+    assert.ok(res.body.error.includes('payment.refunded'));
+  });
+
+  it('POST /api/webhooks rejects an empty event list', async () => {
+    const res = await webhookRequest('POST', '/api/webhooks', {
+      url: 'https://example.com/hooks',
+      events: [],
+    });
+    assert.equal(res.status, 400);
+  });
+
+  it('PUT /api/webhooks/:id rejects unknown events', async () => {
+    const res = await webhookRequest('PUT', '/api/webhooks/wh_missing', { events: ['payment.test'] });
+    assert.equal(res.status, 400);
+    assert.ok(res.body.error.includes('Supported: payment.created, payment.paid'));
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════
+//  30. WEBHOOK DELIVERY LOG — attempts, filters, failed events
+// ═══════════════════════════════════════════════════════════════════
+
+describe('Webhook Delivery Log', () => {
+  const { recordDelivery, getDeliveries, getFailedEvents, getLastAttempt } = require('./lib/webhookDeliveries');
+  const webhookId = 'wh_test_delivery_log';
+
+  function record(eventId, attempt, statusCode, extra = {}) {
+    return recordDelivery({
+      webhookId,
+      agentId: 'agent_test',
+      payload: { id: eventId, event: extra.event || 'payment.paid', payment: { id: 'REQ-1' } },
+      attempt,
+      statusCode,
+      latencyMs: 12,
+      responseBody: statusCode ? 'x'.repeat(1500) : null,
+      error: statusCode && statusCode < 300 ? null : (statusCode ? `HTTP ${statusCode}` : 'ECONNREFUSED'),
+      ...extra,
+    });
+  }
+
+  before(async () => {
+    await record('evt_ok', 1, 200, { event: 'payment.created' });
+    await record('evt_recovered', 1, 503);
+    await record('evt_recovered', 2, 200);
+    await record('evt_lost', 1, null);
+    await record('evt_lost', 2, 500);
+  });
+
+  it('records each attempt with status, latency and a truncated response', async () => {
+    const { deliveries, total } = await getDeliveries(webhookId);
+    assert.equal(total, 5);
+    const lost = deliveries.find(d => d.event_id === 'evt_lost' && d.attempt === 2);
+    assert.equal(lost.status_code, 500);
+    assert.equal(lost.success, false);
+    assert.equal(lost.latency_ms, 12);
+    assert.equal(lost.response_snippet.length, 1000);
+    assert.equal(await getLastAttempt(webhookId, 'evt_lost'), 2);
+  });
+
+  it('filters by status and event', async () => {
+    const failed = await getDeliveries(webhookId, { status: 'failed' });
+    assert.equal(failed.total, 3);
+    assert.ok(failed.deliveries.every(d => !d.success));
+
+    const created = await getDeliveries(webhookId, { event: 'payment.created' });
+    assert.equal(created.total, 1);
+    assert.equal(created.deliveries[0].event_id, 'evt_ok');
+
+    const future = await getDeliveries(webhookId, { since: new Date(Date.now() + 60000) });
+    assert.equal(future.total, 0);
+  });
+
+  it('getFailedEvents returns only events never delivered', async () => {
+    const failed = await getFailedEvents(webhookId, { since: new Date(Date.now() - 60000) });
+    assert.deepEqual(failed.map(d => d.event_id), ['evt_lost']);
+    assert.equal(failed[0].attempt, 2);
+  });
+
+  it('GET /api/webhooks/:id/deliveries returns 404 for an unknown webhook', async () => {
+    const path = '/api/webhooks/wh_missing/deliveries';
+    const { timestamp, signature, apiKeyId } = signRequest(
+      'GET', path, null, agents.creator.apiKeyId, agents.creator.apiSecret
+    );
+    const res = await rawRequest('GET', path, null, {
+      'x-forwarded-for': '203.0.113.30',
+      'x-api-key-id': apiKeyId,
+      'x-timestamp': timestamp,
+      'x-signature': signature,
+    });
+    assert.equal(res.status, 404);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════
+//  31. AI CHAT HISTORY — dashboard transcript
+// ═══════════════════════════════════════════════════════════════════
+
+describe('AI Chat History', () => {
+  const { saveMessage } = require('./lib/ai/conversationMemory');
+
+  function chatRequest(method, path) {
+    const { timestamp, signature, apiKeyId } = signRequest(
+      method, path, null, agents.creator.apiKeyId, agents.creator.apiSecret
+    );
+    return rawRequest(method, path, null, {
+      'x-forwarded-for': '203.0.113.31',
+      'x-api-key-id': apiKeyId,
+      'x-timestamp': timestamp,
+      'x-signature': signature,
+    });
+  }
+
+  before(async () => {
+    const agentId = agents.creator.agentId;
+    await saveMessage(agentId, 'user', 'Create a 5 USDC link');
+    await saveMessage(agentId, 'assistant', '{"action":"create_link","params":{"amount":"5"}}', {
+      message: 'Which chain would you like to use?',
+      action: 'select_chain',
+      result: { action_required: 'select_chain', chains: [{ name: 'base', displayName: 'Base', isTestnet: false }] },
+    });
+    // Recorded before replies were stored as metadata
+    await saveMessage(agentId, 'assistant', '{"message":"Hello there"}');
+  });
+
+  it('GET /api/chat/history returns structured replies oldest first', async () => {
+    const res = await chatRequest('GET', '/api/chat/history');
+    assert.equal(res.status, 200);
+    const [user, chain, legacy] = res.body.messages.slice(-3);
+    assert.equal(user.role, 'user');
+    assert.equal(user.message, 'Create a 5 USDC link');
+    assert.equal(chain.action, 'select_chain');
+    assert.equal(chain.result.chains[0].name, 'base');
+    assert.equal(legacy.message, 'Hello there');
+    assert.equal(legacy.action, null);
+  });
+
+  it('DELETE /api/chat/history clears the conversation', async () => {
+    const res = await chatRequest('DELETE', '/api/chat/history');
+    assert.equal(res.status, 200);
+    const after = await chatRequest('GET', '/api/chat/history');
+    assert.deepEqual(after.body.messages, []);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════
+//  32. BROWSER HMAC SIGNER — src/lib/hmac.ts conformance
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Transpile a dependency-free module from src/lib with the root project's
+ * TypeScript and load it as CommonJS. Returns null when the frontend
+ * dependencies are not installed.
+ */
+function loadFrontendModule(file) {
+  const fs = require('node:fs');
+  const path = require('node:path');
+  let ts;
+  try {
+    ts = require(require.resolve('typescript', { paths: [path.join(__dirname, '..')] }));
+  } catch {
+    return null;
+  }
+  const source = fs.readFileSync(path.join(__dirname, '..', 'src', 'lib', file), 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+  });
+  const mod = { exports: {} };
+  new Function('module', 'exports', 'require', outputText)(mod, mod.exports, require);
+  return mod.exports;
+}
+
+const frontendSigner = loadFrontendModule('hmac.ts');
+
+describe('Browser HMAC Signer', { skip: !frontendSigner && 'frontend dependencies not installed' }, () => {
+  const credentials = () => ({ apiKeyId: agents.creator.apiKeyId, apiSecret: agents.creator.apiSecret });
+
+  async function signedRequest(method, path, body, signedBody = body) {
+    const headers = await frontendSigner.signRequest(credentials(), {
+      method,
+      path,
+      body: signedBody ? JSON.stringify(signedBody) : '',
+    });
+    return rawRequest(method, path, body, { 'x-forwarded-for': '203.0.113.32', ...headers });
+  }
+
+  it('matches the backend string-to-sign and signature for fixed vectors', async () => {
+    const vectors = [
+      ['GET', '/api/agents/me', ''],
+      ['POST', '/api/create', '{"amount":"10","token":"USDC","network":"base"}'],
+      ['DELETE', '/api/request/REQ-ABC123', ''],
+      ['POST', '/api/chat', '{"message":"Payé 5 € — 🚀"}'],
+    ];
+    for (const [method, path, body] of vectors) {
+      const expected = computeHmac(buildStringToSign('1700000000', method, path, body), 'sk_live_vector_secret');
+      const headers = await frontendSigner.signRequest(
+        { apiKeyId: 'pk_live_vector', apiSecret: 'sk_live_vector_secret' },
+        { method: method.toLowerCase(), path, body, timestamp: 1700000000 }
+      );
+      assert.equal(headers['x-timestamp'], '1700000000');
+      assert.equal(headers['x-signature'], expected, `${method} ${path}`);
+    }
+  });
+
+  it('signs the path without query string or origin', async () => {
+    assert.equal(frontendSigner.canonicalPath('/api/agents/logs?page=2&limit=25'), '/api/agents/logs');
+    assert.equal(frontendSigner.canonicalPath('https://api.payagent.co/api/requests#top'), '/api/requests');
+    assert.equal(frontendSigner.canonicalPath('/api/request/REQ 1'), '/api/request/REQ%201');
+  });
+
+  it('authenticates GET requests against middleware/auth.js', async () => {
+    const res = await signedRequest('GET', '/api/agents/me?include=stats');
+    assert.equal(res.status, 200);
+    assert.equal(res.body.agent.id, agents.creator.agentId);
+  });
+
+  it('authenticates requests with a JSON body', async () => {
+    // Reaching event validation (400) means the signature was accepted
+    const res = await signedRequest('POST', '/api/webhooks', { url: 'https://example.com/hooks', events: ['payment.unknown'] });
+    assert.equal(res.status, 400);
+  });
+
+  it('is rejected when the body differs from the signed body', async () => {
+    const res = await signedRequest('POST', '/api/webhooks',
+      { url: 'https://example.com/hooks', events: ['payment.paid'] },
+      { url: 'https://example.com/other', events: ['payment.paid'] });
+    assert.equal(res.status, 401);
+    assert.equal(res.body.error, 'Invalid signature');
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════
+//  33. FRONTEND NETWORK REGISTRY — src/lib/networks.ts drift check
+// ═══════════════════════════════════════════════════════════════════
+
+const frontendNetworks = loadFrontendModule('networks.ts');
+
+describe('Frontend Network Registry', { skip: !frontendNetworks && 'frontend dependencies not installed' }, () => {
+  it('bundles the same chains, explorers and token contracts as the backend registry', () => {
+    const bundled = frontendNetworks.BUNDLED_NETWORKS;
+    assert.deepEqual(Object.keys(bundled).sort(), registry.getSupportedNetworks().sort());
+    for (const [name, chain] of Object.entries(registry.SUPPORTED_CHAINS)) {
+      const local = bundled[name];
+      assert.equal(local.chainId, chain.chainId, name);
+      assert.equal(local.displayName, chain.displayName, name);
+      assert.equal(local.isTestnet, chain.isTestnet, name);
+      assert.equal(local.explorer, chain.explorer, name);
+      assert.equal(local.nativeToken, chain.nativeToken, name);
+      assert.deepEqual(local.tokenDecimals, chain.tokenDecimals, name);
+    }
+    assert.deepEqual(frontendNetworks.findTokenDrift(bundled, registry.getChainDetailsList()), []);
+  });
+
+  it('accepts exactly the backend network aliases', () => {
+    for (const alias of ['sepolia', 'eth-sepolia', 'mainnet', 'ETH', ' Base-Mainnet ']) {
+      assert.equal(frontendNetworks.resolveNetwork(alias), registry.resolveNetwork(alias), alias);
+    }
+    for (const unknown of ['arbitrum', 'eth testnet', 'base-sepolia', '']) {
+      assert.throws(() => frontendNetworks.resolveNetwork(unknown), { name: 'UnknownNetworkError' }, unknown);
+      assert.equal(registry.resolveNetwork(unknown), null, unknown);
+    }
+  });
+
+  it('reports token contracts that disagree with GET /api/chains', async () => {
+    const res = await rawRequest('GET', '/api/chains', null, { 'x-forwarded-for': '203.0.113.33' });
+    assert.equal(res.status, 200);
+    assert.deepEqual(frontendNetworks.findTokenDrift(frontendNetworks.BUNDLED_NETWORKS, res.body.chains), []);
+
+    const tampered = res.body.chains.map(c => (c.name === 'base'
+      ? { ...c, tokens: { ...c.tokens, USDC: '0x0000000000000000000000000000000000000001', DAI: '0x6B175474E89094C44Da98b954EedeAC495271d0F' } }
+      : c));
+    const drift = frontendNetworks.findTokenDrift(frontendNetworks.BUNDLED_NETWORKS, tampered);
+    assert.deepEqual(drift.map(d => `${d.network}:${d.token}`).sort(), ['base:DAI', 'base:USDC']);
+    assert.equal(drift.find(d => d.token === 'DAI').frontend, null);
+  });
+
+  it('GET /api/chains exposes explorer, native token, contracts and decimals', async () => {
+    const res = await rawRequest('GET', '/api/chains', null, { 'x-forwarded-for': '203.0.113.33' });
+    const base = res.body.chains.find(c => c.name === 'base');
+    assert.equal(base.chainId, 8453);
+    assert.equal(base.explorer, 'https://basescan.org');
+    assert.equal(base.nativeToken, 'ETH');
+    assert.equal(base.tokens.USDC, registry.getTokenAddress('base', 'USDC'));
+    assert.equal(base.tokenDecimals.USDC, 6);
+    assert.equal(base.rpcEnvVar, undefined);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════
+//  34. POLYGON & BNB SMART CHAIN
+// ═══════════════════════════════════════════════════════════════════
+
+describe('Polygon & BNB Smart Chain', () => {
+  const chainLinks = {};
+
+  function signedRequest(method, path, body) {
+    const { timestamp, signature, apiKeyId } = signRequest(
+      method, path, body, agents.creator.apiKeyId, agents.creator.apiSecret
+    );
+    return rawRequest(method, path, body, {
+      'x-forwarded-for': '203.0.113.34',
+      'x-api-key-id': apiKeyId,
+      'x-timestamp': timestamp,
+      'x-signature': signature,
+    });
+  }
+
+  it('resolves aliases and native tokens', () => {
+    assert.equal(registry.resolveNetwork('matic'), 'polygon');
+    assert.equal(registry.resolveNetwork('BSC'), 'bnb');
+    assert.equal(registry.getChainConfig('polygon').chainId, 137);
+    assert.equal(registry.getChainConfig('bnb').chainId, 56);
+    assert.equal(registry.isNativeToken('POL', 'polygon'), true);
+    assert.equal(registry.isNativeToken('BNB', 'bnb'), true);
+    assert.equal(registry.isNativeToken('ETH', 'bnb'), false);
+    assert.equal(registry.getTokenAddress('bnb', 'BNB'), null);
+    assert.ok(registry.getRpcUrl('polygon'));
+    assert.ok(registry.getRpcUrl('bnb'));
+  });
+
+  it('uses 18 decimals for BNB Smart Chain stablecoins', () => {
+    assert.equal(registry.getTokenDecimals('bnb', 'USDC'), 18);
+    assert.equal(registry.getTokenDecimals('bnb', 'USDT'), 18);
+    assert.equal(registry.getTokenDecimals('polygon', 'USDC'), 6);
+  });
+
+  it('lists the tokens payable on each chain', () => {
+    assert.deepEqual(registry.getSupportedTokens('polygon'), ['USDC', 'USDT', 'POL']);
+    assert.deepEqual(registry.getSupportedTokens('bnb'), ['USDC', 'USDT', 'BNB']);
+    assert.equal(registry.isTokenSupported('base', 'lcx'), true);
+    assert.equal(registry.isTokenSupported('polygon', 'LCX'), false);
+    assert.deepEqual(registry.getSupportedTokens('arbitrum'), []);
+  });
+
+  it('creates a USDC link on polygon', async () => {
+    const res = await signedRequest('POST', '/api/create-link', { amount: '12', network: 'matic', token: 'USDC' });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.network, 'polygon');
+    chainLinks.polygon = res.body.linkId;
+  });
+
+  it('creates a native BNB link on bnb', async () => {
+    const res = await signedRequest('POST', '/api/create-link', { amount: '0.5', network: 'bsc', token: 'BNB' });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.network, 'bnb');
+    assert.equal(res.body.token, 'BNB');
+    chainLinks.bnb = res.body.linkId;
+  });
+
+  it('rejects tokens that are not deployed on the chain', async () => {
+    const res = await signedRequest('POST', '/api/create-link', { amount: '10', network: 'bnb', token: 'LCX' });
+    assert.equal(res.status, 400);
+    assert.ok(res.body.error.includes('USDC, USDT, BNB'));
+
+    const pub = await rawRequest('POST', '/api/create', {
+      token: 'ETH', amount: '1', receiver: '0x0000000000000000000000000000000000000003', network: 'polygon',
+    }, { 'x-forwarded-for': '203.0.113.34' });
+    assert.equal(pub.status, 400);
+  });
+
+  it('computes the fee in native BNB with native transfers', async () => {
+    const payer = '0x0000000000000000000000000000000000000002';
+    const res = await rawRequest('GET', `/api/request/${chainLinks.bnb}/fee?payer=${payer}`, null, { 'x-forwarded-for': '203.0.113.34' });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.payment.network, 'bnb');
+    assert.equal(res.body.fee.feeToken, 'BNB');
+    assert.equal(res.body.fee.feeDeductedFromPayment, true);
+    assert.ok(res.body.fee.feeTotal > 0 && res.body.fee.feeTotal < 0.5);
+    assert.equal(res.body.transfers.length, 3);
+    for (const transfer of res.body.transfers) {
+      assert.equal(transfer.token, 'BNB');
+      assert.equal(transfer.tokenAddress, null);
+    }
+  });
+
+  it('pays polygon USDC through the Polygon contract', async () => {
+    const res = await signedRequest('POST', '/api/pay-link', { linkId: chainLinks.polygon });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.instructions.payment.network, 'polygon');
+    assert.equal(res.body.instructions.payment.tokenAddress, registry.getTokenAddress('polygon', 'USDC'));
+    assert.equal(res.body.instructions.fee.feeToken, 'USDC');
+  });
+
+  it('GET /api/prices includes POL and BNB', async () => {
+    const res = await rawRequest('GET', '/api/prices', null, { 'x-forwarded-for': '203.0.113.34' });
+    assert.equal(res.status, 200);
+    assert.equal(typeof res.body.prices.POL, 'number');
+    assert.equal(typeof res.body.prices.BNB, 'number');
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════
+//  35. CUSTOM ERC-20 TOKENS
+// ═══════════════════════════════════════════════════════════════════
+
+describe('Custom ERC-20 Tokens', () => {
+  // WETH on Polygon — not in the registry
+  const WETH = '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619';
+  const customLinks = {};
+
+  function signedRequest(method, path, body) {
+    const { timestamp, signature, apiKeyId } = signRequest(
+      method, path, body, agents.creator.apiKeyId, agents.creator.apiSecret
+    );
+    return rawRequest(method, path, body, {
+      'x-forwarded-for': '203.0.113.35',
+      'x-api-key-id': apiKeyId,
+      'x-timestamp': timestamp,
+      'x-signature': signature,
+    });
+  }
+
+  it('finds registry tokens by contract address', () => {
+    assert.equal(registry.findTokenByAddress('polygon', registry.getTokenAddress('polygon', 'USDC').toLowerCase()), 'USDC');
+    assert.equal(registry.findTokenByAddress('polygon', WETH), null);
+    assert.equal(registry.findTokenByAddress('arbitrum', WETH), null);
+  });
+
+  it('has no decimals fallback for tokens outside the registry', () => {
+    assert.equal(registry.getTokenDecimals('polygon', 'WETH'), null);
+    assert.equal(registry.getTokenDecimals('arbitrum', 'USDC'), null);
+    assert.equal(registry.getTokenDecimals('base', 'USDC'), 6);
+  });
+
+  it('creates a link for any ERC-20 by contract address', async () => {
+    const res = await signedRequest('POST', '/api/create-link', {
+      amount: '0.25', network: 'polygon', token: 'WETH', tokenAddress: WETH,
+    });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.token, 'WETH');
+    assert.equal(res.body.tokenAddress, WETH.toLowerCase());
+    customLinks.weth = res.body.linkId;
+
+    const view = await rawRequest('GET', `/api/request/${res.body.linkId}`, null, { 'x-forwarded-for': '203.0.113.35' });
+    assert.equal(view.status, 402);
+    assert.equal(view.body.payment.tokenAddress, WETH.toLowerCase());
+  });
+
+  it('normalises a registry contract to its symbol', async () => {
+    const usdc = registry.getTokenAddress('polygon', 'USDC');
+    const res = await signedRequest('POST', '/api/create-link', {
+      amount: '5', network: 'polygon', token: 'anything', tokenAddress: usdc.toLowerCase(),
+    });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.token, 'USDC');
+    assert.equal(res.body.tokenAddress, null);
+  });
+
+  it('rejects malformed addresses, missing symbols and look-alike registry symbols', async () => {
+    const bad = await signedRequest('POST', '/api/create-link', { amount: '1', network: 'polygon', token: 'WETH', tokenAddress: '0x1234' });
+    assert.equal(bad.status, 400);
+    assert.ok(bad.body.error.includes('tokenAddress'));
+
+    const noSymbol = await signedRequest('POST', '/api/create-link', { amount: '1', network: 'polygon', tokenAddress: WETH });
+    assert.equal(noSymbol.status, 400);
+
+    const spoof = await signedRequest('POST', '/api/create-link', { amount: '1', network: 'polygon', token: 'usdc', tokenAddress: WETH });
+    assert.equal(spoof.status, 400);
+    assert.ok(spoof.body.error.includes(registry.getTokenAddress('polygon', 'USDC')));
+
+    const native = await rawRequest('POST', '/api/create', {
+      token: 'POL', tokenAddress: WETH, amount: '1', receiver: '0x0000000000000000000000000000000000000003', network: 'polygon',
+    }, { 'x-forwarded-for': '203.0.113.35' });
+    assert.equal(native.status, 400);
+  });
+
+  it('accepts custom tokens on the public create endpoint', async () => {
+    const res = await rawRequest('POST', '/api/create', {
+      token: 'WETH', tokenAddress: WETH, amount: '1', receiver: '0x0000000000000000000000000000000000000003', network: 'polygon',
+    }, { 'x-forwarded-for': '203.0.113.35' });
+    assert.equal(res.status, 201);
+    const view = await rawRequest('GET', `/api/request/${res.body.request.id}`, null, { 'x-forwarded-for': '203.0.113.35' });
+    assert.equal(view.body.payment.token, 'WETH');
+    assert.equal(view.body.payment.tokenAddress, WETH.toLowerCase());
+  });
+
+  it('charges the fee in the native token, paid on top of the full amount', async () => {
+    const payer = '0x0000000000000000000000000000000000000002';
+    const res = await rawRequest('GET', `/api/request/${customLinks.weth}/fee?payer=${payer}`, null, { 'x-forwarded-for': '203.0.113.35' });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.fee.feeToken, 'POL');
+    assert.equal(res.body.fee.feeDeductedFromPayment, false);
+    assert.equal(res.body.creatorReceives, '0.25');
+
+    const [payment, platformFee, creatorReward] = res.body.transfers;
+    assert.equal(payment.tokenAddress, WETH.toLowerCase());
+    assert.equal(payment.amount, '0.25');
+    assert.equal(platformFee.token, 'POL');
+    assert.equal(platformFee.tokenAddress, null);
+    assert.equal(creatorReward.tokenAddress, null);
+  });
+
+  it('returns the custom contract in pay-link instructions', async () => {
+    const res = await signedRequest('POST', '/api/pay-link', { linkId: customLinks.weth });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.instructions.payment.tokenAddress, WETH.toLowerCase());
+    assert.equal(res.body.instructions.fee.feeToken, 'POL');
+    assert.equal(res.body.instructions.feeDeductedFromPayment, undefined);
+    assert.equal(res.body.instructions.transfers[0].amount, '0.25');
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════
+//  36. BATCHED PAYMENT VERIFICATION (EIP-5792)
+// ═══════════════════════════════════════════════════════════════════
+
+describe('Batched Payment Verification', () => {
+  const hash = (n) => '0x' + n.toString(16).padStart(64, '0');
+  const headers = { 'x-forwarded-for': '203.0.113.36' };
+
+  it('rejects txHashes that are not 1 to 3 hashes', async () => {
+    const empty = await rawRequest('POST', '/api/verify', { requestId: 'REQ-DOESNOTEXIST', txHashes: [] }, headers);
+    assert.equal(empty.status, 400);
+    assert.ok(empty.body.error.includes('txHashes'));
+
+    const tooMany = await rawRequest('POST', '/api/verify', {
+      requestId: 'REQ-DOESNOTEXIST', txHashes: [hash(1), hash(2), hash(3), hash(4)],
+    }, headers);
+    assert.equal(tooMany.status, 400);
+
+    const notArray = await rawRequest('POST', '/api/verify', { requestId: 'REQ-DOESNOTEXIST', txHashes: hash(1) }, headers);
+    assert.equal(notArray.status, 400);
+  });
+
+  it('rejects malformed hashes and batch ids', async () => {
+    const badHash = await rawRequest('POST', '/api/verify', { requestId: 'REQ-DOESNOTEXIST', txHashes: ['0xfake'] }, headers);
+    assert.equal(badHash.status, 400);
+    assert.ok(badHash.body.error.includes('64 hex'));
+
+    const badBatch = await rawRequest('POST', '/api/verify', {
+      requestId: 'REQ-DOESNOTEXIST', txHashes: [hash(1)], batchId: 'x'.repeat(257),
+    }, headers);
+    assert.equal(badBatch.status, 400);
+    assert.ok(badBatch.body.error.includes('batchId'));
+  });
+
+  it('accepts a bundle in place of txHash', async () => {
+    const res = await rawRequest('POST', '/api/verify', {
+      requestId: 'REQ-DOESNOTEXIST', txHashes: [hash(1), hash(2)], batchId: '0xbatch',
+    }, headers);
+    assert.equal(res.status, 404);
+  });
+
+  it('still requires a txHash or a bundle', async () => {
+    const res = await rawRequest('POST', '/api/verify', { requestId: 'REQ-DOESNOTEXIST', batchId: '0xbatch' }, headers);
+    assert.equal(res.status, 400);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════
+//  37. PAYAGENT ROUTER
+// ═══════════════════════════════════════════════════════════════════
+
+describe('PayAgent Router', () => {
+  const { ethers } = require('ethers');
+  const { decodePaymentSettled } = require('./lib/blockchain');
+  const ROUTER = '0x00000000000000000000000000000000000000Aa';
+  const routerInterface = new ethers.Interface([
+    'event PaymentSettled(bytes32 indexed requestId, address indexed payer, (address token, address to, uint256 amount) payment, (address token, address to, uint256 amount) platformFee, (address token, address to, uint256 amount) creatorReward)',
+  ]);
+
+  function settledLog(address, requestId, payment) {
+    const fee = [ethers.ZeroAddress, '0x0000000000000000000000000000000000000002', 5n];
+    const { topics, data } = routerInterface.encodeEventLog('PaymentSettled', [
+      ethers.id(requestId), '0x0000000000000000000000000000000000000001', payment, fee, fee,
+    ]);
+    return { address, topics, data };
+  }
+
+  after(() => {
+    delete process.env.SEPOLIA_ROUTER_ADDRESS;
+  });
+
+  it('reads router addresses from env, per network', () => {
+    assert.equal(registry.getRouterAddress('sepolia'), null);
+    process.env.SEPOLIA_ROUTER_ADDRESS = ROUTER;
+    assert.equal(registry.getRouterAddress('eth-sepolia'), ROUTER.toLowerCase());
+    assert.equal(registry.getRouterAddress('base'), null);
+    process.env.SEPOLIA_ROUTER_ADDRESS = '0x1234';
+    assert.equal(registry.getRouterAddress('sepolia'), null);
+  });
+
+  it('exposes the router in GET /api/chains', async () => {
+    process.env.SEPOLIA_ROUTER_ADDRESS = ROUTER;
+    const res = await rawRequest('GET', '/api/chains', null, { 'x-forwarded-for': '203.0.113.37' });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.chains.find(c => c.name === 'sepolia').router, ROUTER.toLowerCase());
+    assert.equal(res.body.chains.find(c => c.name === 'base').router, null);
+  });
+
+  it('includes the router in pay-link instructions for permit settlement', async () => {
+    delete process.env.SEPOLIA_ROUTER_ADDRESS;
+    const without = await request('POST', '/api/pay-link', { linkId: links.sepolia }, agents.payer);
+    assert.equal(without.status, 200);
+    assert.equal(without.body.instructions.router, null);
+
+    process.env.SEPOLIA_ROUTER_ADDRESS = ROUTER;
+    const res = await request('POST', '/api/pay-link', { linkId: links.sepolia }, agents.payer);
+    assert.equal(res.status, 200);
+    assert.equal(res.body.instructions.router, ROUTER.toLowerCase());
+  });
+
+  it('decodes PaymentSettled events from the router only', () => {
+    const usdc = registry.getTokenAddress('sepolia', 'USDC');
+    const receiver = '0x0000000000000000000000000000000000000003';
+    const receipt = {
+      logs: [
+        settledLog('0x00000000000000000000000000000000000000bb', 'REQ-SPOOF', [usdc, receiver, 1n]),
+        settledLog(ROUTER.toLowerCase(), 'REQ-ROUTED', [usdc, receiver, 2500000n]),
+      ],
+    };
+
+    const settlements = decodePaymentSettled(receipt, ROUTER);
+    assert.equal(settlements.length, 1);
+    const [settlement] = settlements;
+    assert.equal(settlement.requestId, ethers.id('REQ-ROUTED'));
+    assert.equal(settlement.payer, '0x0000000000000000000000000000000000000001');
+    assert.deepEqual(settlement.payment, { token: usdc.toLowerCase(), to: receiver, amount: 2500000n });
+    assert.equal(settlement.platformFee.token, ethers.ZeroAddress);
+    assert.equal(settlement.creatorReward.amount, 5n);
+  });
+
+  it('ignores receipts without router events', () => {
+    assert.deepEqual(decodePaymentSettled({ logs: [] }, ROUTER), []);
+    assert.deepEqual(decodePaymentSettled({ logs: [{ address: ROUTER, topics: [ethers.id('Other()')], data: '0x' }] }, ROUTER), []);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════
+//  38. GASLESS RELAY (EIP-3009)
+// ═══════════════════════════════════════════════════════════════════
+
+describe('Gasless Relay', () => {
+  // anvil / hardhat dev account #0 — public key material, test only
+  const RELAYER_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+  const RELAYER_ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+  const payer = '0x0000000000000000000000000000000000000002';
+  const headers = { 'x-forwarded-for': '203.0.113.38' };
+
+  const authorization = (overrides = {}) => ({
+    token: registry.getTokenAddress('sepolia', 'USDC'),
+    from: payer,
+    to: '0x0000000000000000000000000000000000000003',
+    value: '1000000',
+    validAfter: '0',
+    validBefore: String(Math.floor(Date.now() / 1000) + 3600),
+    nonce: '0x' + '11'.repeat(32),
+    signature: '0x' + 'ab'.repeat(65),
+    ...overrides,
+  });
+
+  after(() => {
+    delete process.env.RELAYER_PRIVATE_KEY;
+  });
+
+  it('is off without RELAYER_PRIVATE_KEY', async () => {
+    const fee = await rawRequest('GET', `/api/request/${links.sepolia}/fee?payer=${payer}`, null, headers);
+    assert.equal(fee.status, 200);
+    assert.equal(fee.body.relayer, null);
+
+    const res = await rawRequest('POST', `/api/request/${links.sepolia}/relay`, { authorizations: [authorization()] }, headers);
+    assert.equal(res.status, 503);
+  });
+
+  it('advertises the relayer in the fee quote', async () => {
+    process.env.RELAYER_PRIVATE_KEY = RELAYER_KEY;
+    const fee = await rawRequest('GET', `/api/request/${links.sepolia}/fee?payer=${payer}`, null, headers);
+    assert.equal(fee.status, 200);
+    assert.deepEqual(fee.body.relayer, { address: RELAYER_ADDRESS });
+  });
+
+  it('rejects malformed authorizations', async () => {
+    process.env.RELAYER_PRIVATE_KEY = RELAYER_KEY;
+    const empty = await rawRequest('POST', `/api/request/${links.sepolia}/relay`, { authorizations: [] }, headers);
+    assert.equal(empty.status, 400);
+
+    const badNonce = await rawRequest('POST', `/api/request/${links.sepolia}/relay`, { authorizations: [authorization({ nonce: '0x12' })] }, headers);
+    assert.equal(badNonce.status, 400);
+    assert.ok(badNonce.body.error.includes('nonce'));
+
+    const badValue = await rawRequest('POST', `/api/request/${links.sepolia}/relay`, { authorizations: [authorization({ value: '1.5' })] }, headers);
+    assert.equal(badValue.status, 400);
+    assert.ok(badValue.body.error.includes('value'));
+
+    const mixedPayers = await rawRequest('POST', `/api/request/${links.sepolia}/relay`, {
+      authorizations: [authorization(), authorization({ from: '0x0000000000000000000000000000000000000009' })],
+    }, headers);
+    assert.equal(mixedPayers.status, 400);
+    assert.ok(mixedPayers.body.error.includes('same payer'));
+  });
+
+  it('returns 404 for an unknown link', async () => {
+    process.env.RELAYER_PRIVATE_KEY = RELAYER_KEY;
+    const res = await rawRequest('POST', '/api/request/REQ-DOESNOTEXIST/relay', { authorizations: [authorization()] }, headers);
+    assert.equal(res.status, 404);
+  });
+
+  it('only relays the transfers of the fee quote', async () => {
+    process.env.RELAYER_PRIVATE_KEY = RELAYER_KEY;
+    const fee = await rawRequest('GET', `/api/request/${links.sepolia}/fee?payer=${payer}`, null, headers);
+    // Only the payment leg is checked here; the treasury wallet is not set in tests
+    const authorizations = fee.body.transfers.map(t => authorization({ token: t.tokenAddress }));
+
+    const wrongCount = await rawRequest('POST', `/api/request/${links.sepolia}/relay`, { authorizations: authorizations.slice(0, 1) }, headers);
+    assert.equal(wrongCount.status, 400);
+    assert.ok(wrongCount.body.error.includes(`Expected ${fee.body.transfers.length}`));
+
+    authorizations[0].to = '0x00000000000000000000000000000000000000ee';
+    const redirected = await rawRequest('POST', `/api/request/${links.sepolia}/relay`, { authorizations }, headers);
+    assert.equal(redirected.status, 400);
+    assert.ok(redirected.body.error.includes('does not match'));
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════
+//  39. ENS RECEIVER NAMES
+// ═══════════════════════════════════════════════════════════════════
+
+describe('ENS Receiver Names', () => {
+  const headers = { 'x-forwarded-for': '203.0.113.39' };
+  const receiver = '0x0000000000000000000000000000000000000003';
+
+  it('stores the name a receiver was resolved from', async () => {
+    const res = await rawRequest('POST', '/api/create', {
+      token: 'USDC', amount: '2', receiver, receiverName: 'Alice.base.eth', network: 'sepolia',
+    }, headers);
+    assert.equal(res.status, 201);
+
+    const view = await rawRequest('GET', `/api/request/${res.body.request.id}`, null, headers);
+    assert.equal(view.status, 402);
+    assert.equal(view.body.payment.receiver, receiver);
+    assert.equal(view.body.payment.receiverName, 'alice.base.eth');
+  });
+
+  it('has no name for links created with an address', async () => {
+    const view = await rawRequest('GET', `/api/request/${links.sepolia}`, null, headers);
+    assert.equal(view.body.payment.receiverName, null);
+  });
+
+  it('rejects anything that is not an ENS name', async () => {
+    for (const receiverName of ['alice', 'alice.com', 'al ice.eth', '.eth', 42]) {
+      const res = await rawRequest('POST', '/api/create', {
+        token: 'USDC', amount: '2', receiver, receiverName, network: 'sepolia',
+      }, headers);
+      assert.equal(res.status, 400, String(receiverName));
+      assert.ok(res.body.error.includes('receiverName'));
+    }
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════
+//  40. RECEIVER SAFETY CHECKS
+// ═══════════════════════════════════════════════════════════════════
+
+describe('Receiver Safety Checks', () => {
+  const headers = { 'x-forwarded-for': '203.0.113.40' };
+  const createLink = (receiver, extra = {}) =>
+    rawRequest('POST', '/api/create', { token: 'USDC', amount: '1', receiver, network: 'sepolia', ...extra }, headers);
+
+  it('accepts checksummed and unchecksummed addresses', async () => {
+    const checksummed = await createLink('0x52908400098527886E0F7030069857D2E4169EE7');
+    assert.equal(checksummed.status, 201);
+    const lowercase = await createLink('0x52908400098527886e0f7030069857d2e4169ee7');
+    assert.equal(lowercase.status, 201);
+  });
+
+  it('rejects malformed addresses', async () => {
+    const short = await createLink('0x1234');
+    assert.equal(short.status, 400);
+    assert.ok(short.body.error.includes('40 hex'));
+  });
+
+  it('stores checksum mismatches with the correct checksum', async () => {
+    // The dashboard warns about the mismatch; once confirmed, the link is created
+    const typo = await createLink('0x52908400098527886E0F7030069857D2E4169Ee7');
+    assert.equal(typo.status, 201);
+    const view = await rawRequest('GET', `/api/request/${typo.body.request.id}`, null, headers);
+    assert.equal(view.body.payment.receiver, '0x52908400098527886E0F7030069857D2E4169EE7');
+  });
+
+  it('rejects the zero address and token contracts', async () => {
+    const zero = await createLink('0x0000000000000000000000000000000000000000');
+    assert.equal(zero.status, 400);
+    assert.ok(zero.body.error.includes('zero address'));
+
+    // A registry token on another network is still not a wallet
+    const token = await createLink(registry.getTokenAddress('base', 'USDC'));
+    assert.equal(token.status, 400);
+    assert.ok(token.body.error.includes('USDC contract on base'));
+  });
+
+  it('checks agent receiver overrides too', async () => {
+    const { timestamp, signature, apiKeyId } = signRequest(
+      'POST', '/api/create-link', { amount: '1', network: 'sepolia', receiver: '0x0000000000000000000000000000000000000000' },
+      agents.creator.apiKeyId, agents.creator.apiSecret
+    );
+    const res = await rawRequest('POST', '/api/create-link', { amount: '1', network: 'sepolia', receiver: '0x0000000000000000000000000000000000000000' }, {
+      ...headers,
+      'x-api-key-id': apiKeyId,
+      'x-timestamp': timestamp,
+      'x-signature': signature,
+    });
+    assert.equal(res.status, 400);
+    assert.ok(res.body.error.includes('receiver'));
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════
+//  41. MULTI-NETWORK LINKS
+// ═══════════════════════════════════════════════════════════════════
+
+describe('Multi-Network Links', () => {
+  const headers = { 'x-forwarded-for': '203.0.113.41' };
+  const receiver = '0x0000000000000000000000000000000000000003';
+  const baseReceiver = '0x00000000000000000000000000000000000000b5';
+  const payer = '0x0000000000000000000000000000000000000002';
+  let linkId;
+
+  it('creates a link payable on several networks with a per-network receiver', async () => {
+    const res = await rawRequest('POST', '/api/create', {
+      token: 'USDC', amount: '5', receiver, network: ['sepolia', 'base'], receivers: { base: baseReceiver },
+    }, headers);
+    assert.equal(res.status, 201);
+    linkId = res.body.request.id;
+
+    const view = await rawRequest('GET', `/api/request/${linkId}`, null, headers);
+    assert.equal(view.status, 402);
+    assert.equal(view.body.payment.network, 'sepolia,base');
+    assert.deepEqual(view.body.payment.receivers, { base: baseReceiver });
+  });
+
+  it('quotes the network the payer picked, paying its receiver', async () => {
+    const first = await rawRequest('GET', `/api/request/${linkId}/fee?payer=${payer}`, null, headers);
+    assert.equal(first.status, 200);
+    assert.equal(first.body.payment.network, 'sepolia');
+    assert.equal(first.body.transfers[0].to, receiver);
+    assert.equal(first.body.transfers[0].tokenAddress, registry.getTokenAddress('sepolia', 'USDC'));
+
+    const base = await rawRequest('GET', `/api/request/${linkId}/fee?payer=${payer}&network=base`, null, headers);
+    assert.equal(base.status, 200);
+    assert.equal(base.body.payment.network, 'base');
+    assert.equal(base.body.payment.to, baseReceiver);
+    assert.equal(base.body.transfers[0].to, baseReceiver);
+    assert.equal(base.body.transfers[0].tokenAddress, registry.getTokenAddress('base', 'USDC'));
+  });
+
+  it('builds agent pay-link instructions for the chosen network', async () => {
+    const res = await request('POST', '/api/pay-link', { linkId, network: 'base' }, agents.payer);
+    assert.equal(res.status, 200);
+    assert.equal(res.body.instructions.payment.network, 'base');
+    assert.equal(res.body.instructions.payment.to, baseReceiver);
+    assert.equal(res.body.instructions.transfers[0].to, baseReceiver);
+  });
+
+  it('rejects networks the link does not offer', async () => {
+    const fee = await rawRequest('GET', `/api/request/${linkId}/fee?payer=${payer}&network=polygon`, null, headers);
+    assert.equal(fee.status, 400);
+    assert.ok(fee.body.error.includes('sepolia, base'));
+
+    const verify = await rawRequest('POST', '/api/verify', { requestId: linkId, txHash: '0x' + 'ab'.repeat(32), network: 'polygon' }, headers);
+    assert.equal(verify.status, 400);
+    assert.ok(verify.body.error.includes('sepolia, base'));
+  });
+
+  it('validates networks, tokens and receivers when creating', async () => {
+    const create = (body) => rawRequest('POST', '/api/create', { token: 'USDC', amount: '5', receiver, ...body }, headers);
+
+    const duplicate = await create({ network: 'sepolia,sepolia' });
+    assert.equal(duplicate.status, 400);
+
+    const unsupportedToken = await create({ token: 'LCX', network: 'ethereum,polygon' });
+    assert.equal(unsupportedToken.status, 400);
+    assert.ok(unsupportedToken.body.error.includes('polygon'));
+
+    const customToken = await create({
+      token: 'WETH', tokenAddress: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619', network: 'polygon,base',
+    });
+    assert.equal(customToken.status, 400);
+    assert.ok(customToken.body.error.includes('one network'));
+
+    const strayReceiver = await create({ network: 'sepolia', receivers: { base: baseReceiver } });
+    assert.equal(strayReceiver.status, 400);
+    assert.ok(strayReceiver.body.error.includes('base'));
+
+    const zeroReceiver = await create({ network: 'sepolia,base', receivers: { base: '0x0000000000000000000000000000000000000000' } });
+    assert.equal(zeroReceiver.status, 400);
+    assert.ok(zeroReceiver.body.error.includes('receivers.base'));
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════
+//  42. FIAT-DENOMINATED LINKS
+// ═══════════════════════════════════════════════════════════════════
+
+describe('Fiat-Denominated Links', () => {
+  const headers = { 'x-forwarded-for': '203.0.113.42' };
+  const receiver = '0x0000000000000000000000000000000000000003';
+  const payer = '0x0000000000000000000000000000000000000002';
+  let linkId;
+  let quote;
+
+  it('creates a link priced in USD', async () => {
+    const res = await rawRequest('POST', '/api/create', {
+      token: 'USDC', amount: '10', currency: 'usd', receiver, network: ['sepolia', 'base'],
+    }, headers);
+    assert.equal(res.status, 201);
+    linkId = res.body.request.id;
+
+    const view = await rawRequest('GET', `/api/request/${linkId}`, null, headers);
+    assert.equal(view.status, 402);
+    assert.equal(view.body.payment.currency, 'USD');
+    assert.equal(view.body.payment.amount, '10');
+    assert.equal(view.body.payment.quote, null);
+  });
+
+  it('requires a quote before quoting fees', async () => {
+    const res = await rawRequest('GET', `/api/request/${linkId}/fee?payer=${payer}`, null, headers);
+    assert.equal(res.status, 400);
+    assert.ok(res.body.error.includes('/api/prices/quote'));
+  });
+
+  it('locks a time-limited quote and returns it again while it is valid', async () => {
+    const res = await rawRequest('POST', '/api/prices/quote', { requestId: linkId, network: 'sepolia' }, headers);
+    assert.equal(res.status, 200);
+    quote = res.body.quote;
+    assert.equal(quote.currency, 'USD');
+    assert.equal(quote.fiatAmount, '10');
+    assert.equal(quote.token, 'USDC');
+    assert.equal(quote.network, 'sepolia');
+    assert.ok(Number(quote.amount) > 9 && Number(quote.amount) < 11, `USDC amount ${quote.amount} is about 10`);
+    assert.ok(quote.tolerance > 0 && quote.tolerance < 0.05);
+    assert.ok(Date.parse(quote.expiresAt) > Date.now());
+
+    const again = await rawRequest('POST', '/api/prices/quote', { requestId: linkId, network: 'sepolia', quoteId: quote.id }, headers);
+    assert.equal(again.status, 200);
+    assert.equal(again.body.quote.id, quote.id);
+  });
+
+  it('keeps issued quotes when others quote the link', async () => {
+    const other = await rawRequest('POST', '/api/prices/quote', { requestId: linkId, network: 'base' }, headers);
+    assert.equal(other.status, 200);
+    assert.notEqual(other.body.quote.id, quote.id);
+
+    const res = await rawRequest('GET', `/api/request/${linkId}/fee?payer=${payer}&network=sepolia&quoteId=${quote.id}`, null, headers);
+    assert.equal(res.status, 200);
+    assert.equal(res.body.quote.id, quote.id);
+  });
+
+  it('builds the transfers from the quoted token amount', async () => {
+    const res = await rawRequest('GET', `/api/request/${linkId}/fee?payer=${payer}&network=sepolia&quoteId=${quote.id}`, null, headers);
+    assert.equal(res.status, 200);
+    assert.equal(res.body.payment.amount, quote.amount);
+    assert.equal(res.body.quote.id, quote.id);
+
+    const noQuoteId = await rawRequest('GET', `/api/request/${linkId}/fee?payer=${payer}&network=sepolia`, null, headers);
+    assert.equal(noQuoteId.status, 400);
+    assert.ok(noQuoteId.body.error.includes('quoteId'));
+
+    const other = await rawRequest('GET', `/api/request/${linkId}/fee?payer=${payer}&network=base&quoteId=${quote.id}`, null, headers);
+    assert.equal(other.status, 400);
+  });
+
+  it('only verifies against a quote for the paid network', async () => {
+    const res = await rawRequest('POST', '/api/verify', { requestId: linkId, txHash: '0x' + 'cd'.repeat(32), network: 'base' }, headers);
+    assert.equal(res.status, 400);
+    assert.ok(res.body.error.includes('quote'));
+
+    const mismatch = await rawRequest('POST', '/api/verify', { requestId: linkId, txHash: '0x' + 'cd'.repeat(32), network: 'base', quoteId: quote.id }, headers);
+    assert.equal(mismatch.status, 400);
+    assert.ok(mismatch.body.error.includes('sepolia'));
+
+    const unknown = await rawRequest('POST', '/api/verify', { requestId: linkId, txHash: '0x' + 'cd'.repeat(32), network: 'sepolia', quoteId: 'QUO-missing' }, headers);
+    assert.equal(unknown.status, 400);
+    assert.ok(unknown.body.error.includes('Unknown quoteId'));
+  });
+
+  it('quotes tiny amounts as plain decimals', async () => {
+    const { ethers } = require('ethers');
+    const created = await rawRequest('POST', '/api/create', {
+      token: 'ETH', amount: '0.0001', currency: 'USD', receiver, network: 'sepolia',
+    }, headers);
+    assert.equal(created.status, 201);
+
+    // Price the quote at ETH = $2500 without reaching CoinGecko
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async (url, options) => (String(url).includes('api.coingecko.com')
+      ? { ok: true, status: 200, json: async () => ({ ethereum: { usd: 2500 } }) }
+      : originalFetch(url, options));
+    let res;
+    try {
+      res = await rawRequest('POST', '/api/prices/quote', { requestId: created.body.request.id, network: 'sepolia' }, headers);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.quote.amount, '0.00000004');
+    assert.equal(ethers.parseUnits(res.body.quote.amount, 18), 40000000000n);
+  });
+
+  it('validates currencies and quote requests', async () => {
+    const unsupported = await rawRequest('POST', '/api/create', { token: 'USDC', amount: '10', currency: 'XYZ', receiver, network: 'sepolia' }, headers);
+    assert.equal(unsupported.status, 400);
+    assert.ok(unsupported.body.error.includes('USD'));
+
+    const customToken = await rawRequest('POST', '/api/create', {
+      token: 'WETH', tokenAddress: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619', amount: '10', currency: 'USD', receiver, network: 'polygon',
+    }, headers);
+    assert.equal(customToken.status, 400);
+
+    const tokenLink = await rawRequest('POST', '/api/create', { token: 'USDC', amount: '10', receiver, network: 'sepolia' }, headers);
+    const noQuote = await rawRequest('POST', '/api/prices/quote', { requestId: tokenLink.body.request.id }, headers);
+    assert.equal(noQuote.status, 400);
+    assert.ok(noQuote.body.error.includes('needs no quote'));
+
+    const missing = await rawRequest('POST', '/api/prices/quote', { requestId: 'REQ-MISSING' }, headers);
+    assert.equal(missing.status, 404);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════
+//  43. ACCEPTED TOKENS
+// ═══════════════════════════════════════════════════════════════════
+
+describe('Accepted Tokens', () => {
+  const headers = { 'x-forwarded-for': '203.0.113.43' };
+  const receiver = '0x0000000000000000000000000000000000000003';
+  const payer = '0x0000000000000000000000000000000000000002';
+  let linkId;
+
+  it('creates a link accepting several tokens', async () => {
+    const res = await rawRequest('POST', '/api/create', {
+      token: ['usdc', 'USDT', 'ETH'], amount: '10', receiver, network: 'sepolia',
+    }, headers);
+    assert.equal(res.status, 201);
+    linkId = res.body.request.id;
+
+    const view = await rawRequest('GET', `/api/request/${linkId}`, null, headers);
+    assert.equal(view.status, 402);
+    assert.equal(view.body.payment.token, 'USDC,USDT,ETH');
+    assert.equal(view.body.payment.amount, '10');
+  });
+
+  it('pays stablecoins 1:1 without a quote', async () => {
+    const res = await rawRequest('GET', `/api/request/${linkId}/fee?payer=${payer}&token=usdt`, null, headers);
+    assert.equal(res.status, 200);
+    assert.equal(res.body.payment.amount, '10');
+    assert.equal(res.body.quote, null);
+    assert.equal(res.body.payment.token, 'USDT');
+
+    const quote = await rawRequest('POST', '/api/prices/quote', { requestId: linkId, token: 'USDT' }, headers);
+    assert.equal(quote.status, 400);
+    assert.ok(quote.body.error.includes('needs no quote'));
+  });
+
+  it('requires a quote for other tokens', async () => {
+    const fee = await rawRequest('GET', `/api/request/${linkId}/fee?payer=${payer}&token=ETH`, null, headers);
+    assert.equal(fee.status, 400);
+    assert.ok(fee.body.error.includes('/api/prices/quote'));
+
+    const verify = await rawRequest('POST', '/api/verify', { requestId: linkId, txHash: '0x' + 'ce'.repeat(32), token: 'ETH' }, headers);
+    assert.equal(verify.status, 400);
+    assert.ok(verify.body.error.includes('quote'));
+  });
+
+  it('rejects tokens the link does not accept', async () => {
+    const fee = await rawRequest('GET', `/api/request/${linkId}/fee?payer=${payer}&token=LCX`, null, headers);
+    assert.equal(fee.status, 400);
+    assert.ok(fee.body.error.includes('USDC, USDT, ETH'));
+
+    const verify = await rawRequest('POST', '/api/verify', { requestId: linkId, txHash: '0x' + 'cf'.repeat(32), token: 'DAI' }, headers);
+    assert.equal(verify.status, 400);
+  });
+
+  it('validates accepted token lists', async () => {
+    const duplicate = await rawRequest('POST', '/api/create', { token: 'USDC,usdc', amount: '10', receiver, network: 'sepolia' }, headers);
+    assert.equal(duplicate.status, 400);
+    assert.ok(duplicate.body.error.includes('twice'));
+
+    const unsupported = await rawRequest('POST', '/api/create', { token: ['USDC', 'DOGE'], amount: '10', receiver, network: 'sepolia' }, headers);
+    assert.equal(unsupported.status, 400);
+    assert.ok(unsupported.body.error.includes('DOGE'));
+
+    const customToken = await rawRequest('POST', '/api/create', {
+      token: ['WETH', 'USDC'], tokenAddress: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619', amount: '10', receiver, network: 'polygon',
+    }, headers);
+    assert.equal(customToken.status, 400);
+  });
+});
@@ -0,0 +1,199 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+interface IERC20 {
+    function transfer(address to, uint256 amount) external returns (bool);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
+interface IERC20Permit {
+    function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) external;
+}
+
+/// Uniswap Permit2 signature transfers (same address on every chain)
+interface IPermit2 {
+    struct TokenPermissions {
+        address token;
+        uint256 amount;
+    }
+
+    struct PermitTransferFrom {
+        TokenPermissions permitted;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    struct SignatureTransferDetails {
+        address to;
+        uint256 requestedAmount;
+    }
+
+    function permitTransferFrom(
+        PermitTransferFrom calldata permit,
+        SignatureTransferDetails calldata transferDetails,
+        address owner,
+        bytes calldata signature
+    ) external;
+}
+
+/**
+ * @title PayAgentRouter
+ * @notice Settles a PayAgent payment (principal, platform share and creator
+ *         reward) in one call and emits PaymentSettled, so a payment can be
+ *         verified from a single event instead of several unrelated transfers.
+ * @dev Holds no funds and has no owner. ERC-20 legs are pulled from the payer
+ *      with transferFrom (the payer approves this contract first, or signs an
+ *      EIP-2612 permit or a Permit2 transfer for the total); native legs are
+ *      paid out of msg.value, which must match their sum exactly.
+ */
+contract PayAgentRouter {
+    IPermit2 public constant PERMIT2 = IPermit2(0x000000000022D473030F116dDEE9F6B43aC78BA3);
+
+    /// One transfer of a payment. token is address(0) for the native token.
+    struct Leg {
+        address token;
+        address to;
+        uint256 amount;
+    }
+
+    /// requestId is keccak256 of the PayAgent link id (e.g. "REQ-ABC123")
+    event PaymentSettled(
+        bytes32 indexed requestId,
+        address indexed payer,
+        Leg payment,
+        Leg platformFee,
+        Leg creatorReward
+    );
+
+    error EmptyPayment();
+    error NativeValueMismatch(uint256 expected, uint256 received);
+    error TransferFailed(address token, address to, uint256 amount);
+    /// Permit flows cover one token: every ERC-20 leg must use it
+    error MixedPermitTokens(address first, address second);
+    error NothingToPermit();
+
+    /**
+     * @notice Pay a link: move every leg from msg.sender, then emit PaymentSettled.
+     * @dev Legs with a zero amount are skipped (e.g. no creator reward).
+     */
+    function settle(
+        bytes32 requestId,
+        Leg calldata payment,
+        Leg calldata platformFee,
+        Leg calldata creatorReward
+    ) external payable {
+        _checkLegs(payment, platformFee, creatorReward);
+
+        _pay(payment, msg.sender);
+        _pay(platformFee, msg.sender);
+        _pay(creatorReward, msg.sender);
+
+        emit PaymentSettled(requestId, msg.sender, payment, platformFee, creatorReward);
+    }
+
+    /**
+     * @notice settle() with an EIP-2612 permit for the ERC-20 total instead of a prior approval.
+     * @dev The permit is tried, not required: if it was already used (e.g. front-run), the
+     *      allowance it set still lets the transfers through.
+     */
+    function settleWithPermit(
+        bytes32 requestId,
+        Leg calldata payment,
+        Leg calldata platformFee,
+        Leg calldata creatorReward,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external payable {
+        _checkLegs(payment, platformFee, creatorReward);
+        (address token, uint256 total) = _permitTotal(payment, platformFee, creatorReward);
+
+        try IERC20Permit(token).permit(msg.sender, address(this), total, deadline, v, r, s) {} catch {}
+
+        _pay(payment, msg.sender);
+        _pay(platformFee, msg.sender);
+        _pay(creatorReward, msg.sender);
+
+        emit PaymentSettled(requestId, msg.sender, payment, platformFee, creatorReward);
+    }
+
+    /**
+     * @notice settle() with a Permit2 PermitTransferFrom signed for this router and the ERC-20 total.
+     * @dev Permit2 moves the total here, then each leg is paid out. The payer must have
+     *      approved Permit2 for the token once.
+     */
+    function settleWithPermit2(
+        bytes32 requestId,
+        Leg calldata payment,
+        Leg calldata platformFee,
+        Leg calldata creatorReward,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external payable {
+        _checkLegs(payment, platformFee, creatorReward);
+        (address token, uint256 total) = _permitTotal(payment, platformFee, creatorReward);
+
+        PERMIT2.permitTransferFrom(
+            IPermit2.PermitTransferFrom(IPermit2.TokenPermissions(token, total), nonce, deadline),
+            IPermit2.SignatureTransferDetails(address(this), total),
+            msg.sender,
+            signature
+        );
+
+        _pay(payment, address(this));
+        _pay(platformFee, address(this));
+        _pay(creatorReward, address(this));
+
+        emit PaymentSettled(requestId, msg.sender, payment, platformFee, creatorReward);
+    }
+
+    function _checkLegs(Leg calldata payment, Leg calldata platformFee, Leg calldata creatorReward) private view {
+        if (payment.amount == 0 || payment.to == address(0)) revert EmptyPayment();
+
+        uint256 nativeTotal = _nativeAmount(payment) + _nativeAmount(platformFee) + _nativeAmount(creatorReward);
+        if (msg.value != nativeTotal) revert NativeValueMismatch(nativeTotal, msg.value);
+    }
+
+    /// The single ERC-20 of the legs and the amount to permit
+    function _permitTotal(
+        Leg calldata payment,
+        Leg calldata platformFee,
+        Leg calldata creatorReward
+    ) private pure returns (address token, uint256 total) {
+        Leg[3] memory legs = [payment, platformFee, creatorReward];
+        for (uint256 i = 0; i < legs.length; i++) {
+            if (legs[i].token == address(0) || legs[i].amount == 0) continue;
+            if (token == address(0)) token = legs[i].token;
+            else if (legs[i].token != token) revert MixedPermitTokens(token, legs[i].token);
+            total += legs[i].amount;
+        }
+        if (token == address(0)) revert NothingToPermit();
+    }
+
+    function _nativeAmount(Leg calldata leg) private pure returns (uint256) {
+        return leg.token == address(0) ? leg.amount : 0;
+    }
+
+    /// Pay one leg; ERC-20s come from `from` (the payer) or, after Permit2, from this contract
+    function _pay(Leg calldata leg, address from) private {
+        if (leg.amount == 0) return;
+        if (leg.to == address(0)) revert TransferFailed(leg.token, leg.to, leg.amount);
+
+        bool ok;
+        if (leg.token == address(0)) {
+            (ok, ) = leg.to.call{value: leg.amount}("");
+        } else {
+            bytes memory data;
+            (ok, data) = leg.token.call(
+                from == address(this)
+                    ? abi.encodeCall(IERC20.transfer, (leg.to, leg.amount))
+                    : abi.encodeCall(IERC20.transferFrom, (from, leg.to, leg.amount))
+            );
+            // Tokens like USDT return nothing; an address without code would "succeed" silently
+            ok = ok && (data.length == 0 || abi.decode(data, (bool))) && leg.token.code.length > 0;
+        }
+        if (!ok) revert TransferFailed(leg.token, leg.to, leg.amount);
+    }
+}
@@ -0,0 +1,296 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Test} from "forge-std/Test.sol";
+import {PayAgentRouter} from "../src/PayAgentRouter.sol";
+import {MockERC20, NoReturnERC20, FalseERC20, RejectingReceiver, MockPermit2} from "./mocks/Tokens.sol";
+
+contract PayAgentRouterTest is Test {
+    PayAgentRouter router;
+    MockERC20 usdc;
+
+    uint256 constant PAYER_KEY = 0xA11CE;
+    address payer;
+    address receiver = makeAddr("receiver");
+    address platform = makeAddr("platform");
+    address creator = makeAddr("creator");
+    bytes32 requestId = keccak256("REQ-TEST01");
+
+    function setUp() public {
+        router = new PayAgentRouter();
+        usdc = new MockERC20("USD Coin");
+        payer = vm.addr(PAYER_KEY);
+        usdc.mint(payer, 1_000e6);
+        vm.deal(payer, 10 ether);
+        vm.etch(address(router.PERMIT2()), address(new MockPermit2()).code);
+    }
+
+    function _leg(address token, address to, uint256 amount) internal pure returns (PayAgentRouter.Leg memory) {
+        return PayAgentRouter.Leg(token, to, amount);
+    }
+
+    function _noLeg() internal pure returns (PayAgentRouter.Leg memory) {
+        return PayAgentRouter.Leg(address(0), address(0), 0);
+    }
+
+    function _signPermit(uint256 value, uint256 deadline) internal view returns (uint8 v, bytes32 r, bytes32 s) {
+        bytes32 structHash =
+            keccak256(abi.encode(usdc.PERMIT_TYPEHASH(), payer, address(router), value, usdc.nonces(payer), deadline));
+        return vm.sign(PAYER_KEY, keccak256(abi.encodePacked("\x19\x01", usdc.DOMAIN_SEPARATOR(), structHash)));
+    }
+
+    // ============ settle ============
+
+    function test_SettlesErc20Legs() public {
+        vm.startPrank(payer);
+        usdc.approve(address(router), 110e6);
+        router.settle(
+            requestId, _leg(address(usdc), receiver, 100e6), _leg(address(usdc), platform, 8e6), _leg(address(usdc), creator, 2e6)
+        );
+        vm.stopPrank();
+
+        assertEq(usdc.balanceOf(receiver), 100e6);
+        assertEq(usdc.balanceOf(platform), 8e6);
+        assertEq(usdc.balanceOf(creator), 2e6);
+        assertEq(usdc.balanceOf(payer), 890e6);
+        assertEq(usdc.balanceOf(address(router)), 0);
+    }
+
+    function test_SettlesNativeLegsAndSkipsEmptyOnes() public {
+        vm.prank(payer);
+        router.settle{value: 1.1 ether}(
+            requestId, _leg(address(0), receiver, 1 ether), _leg(address(0), platform, 0.1 ether), _noLeg()
+        );
+
+        assertEq(receiver.balance, 1 ether);
+        assertEq(platform.balance, 0.1 ether);
+        assertEq(address(router).balance, 0);
+    }
+
+    function test_SettlesMixedNativeAndErc20Legs() public {
+        vm.startPrank(payer);
+        usdc.approve(address(router), 5e6);
+        router.settle{value: 1 ether}(
+            requestId, _leg(address(0), receiver, 1 ether), _leg(address(usdc), platform, 5e6), _noLeg()
+        );
+        vm.stopPrank();
+
+        assertEq(receiver.balance, 1 ether);
+        assertEq(usdc.balanceOf(platform), 5e6);
+    }
+
+    function test_AcceptsTokensThatReturnNothing() public {
+        NoReturnERC20 usdt = new NoReturnERC20();
+        usdt.mint(payer, 100e6);
+        vm.startPrank(payer);
+        usdt.approve(address(router), 100e6);
+        router.settle(requestId, _leg(address(usdt), receiver, 100e6), _noLeg(), _noLeg());
+        vm.stopPrank();
+
+        assertEq(usdt.balanceOf(receiver), 100e6);
+    }
+
+    function test_EmitsPaymentSettled() public {
+        PayAgentRouter.Leg memory payment = _leg(address(usdc), receiver, 100e6);
+        PayAgentRouter.Leg memory platformFee = _leg(address(usdc), platform, 8e6);
+        PayAgentRouter.Leg memory creatorReward = _leg(address(usdc), creator, 2e6);
+
+        vm.startPrank(payer);
+        usdc.approve(address(router), 110e6);
+        vm.expectEmit(true, true, false, true, address(router));
+        emit PayAgentRouter.PaymentSettled(requestId, payer, payment, platformFee, creatorReward);
+        router.settle(requestId, payment, platformFee, creatorReward);
+        vm.stopPrank();
+    }
+
+    // ============ settle: rejections ============
+
+    function test_RevertsWhenMsgValueIsShort() public {
+        vm.prank(payer);
+        vm.expectRevert(abi.encodeWithSelector(PayAgentRouter.NativeValueMismatch.selector, 1.1 ether, 1 ether));
+        router.settle{value: 1 ether}(
+            requestId, _leg(address(0), receiver, 1 ether), _leg(address(0), platform, 0.1 ether), _noLeg()
+        );
+    }
+
+    function test_RevertsOnMsgValueWithErc20OnlyLegs() public {
+        vm.startPrank(payer);
+        usdc.approve(address(router), 100e6);
+        vm.expectRevert(abi.encodeWithSelector(PayAgentRouter.NativeValueMismatch.selector, 0, 1 wei));
+        router.settle{value: 1 wei}(requestId, _leg(address(usdc), receiver, 100e6), _noLeg(), _noLeg());
+        vm.stopPrank();
+    }
+
+    function test_RevertsOnEmptyPayment() public {
+        vm.prank(payer);
+        vm.expectRevert(PayAgentRouter.EmptyPayment.selector);
+        router.settle(requestId, _leg(address(usdc), receiver, 0), _noLeg(), _noLeg());
+
+        vm.prank(payer);
+        vm.expectRevert(PayAgentRouter.EmptyPayment.selector);
+        router.settle(requestId, _leg(address(usdc), address(0), 100e6), _noLeg(), _noLeg());
+    }
+
+    function test_RevertsWithoutAllowance() public {
+        vm.prank(payer);
+        vm.expectRevert(
+            abi.encodeWithSelector(PayAgentRouter.TransferFailed.selector, address(usdc), receiver, 100e6)
+        );
+        router.settle(requestId, _leg(address(usdc), receiver, 100e6), _noLeg(), _noLeg());
+    }
+
+    function test_RevertsWhenTokenReturnsFalse() public {
+        address token = address(new FalseERC20());
+        vm.prank(payer);
+        vm.expectRevert(abi.encodeWithSelector(PayAgentRouter.TransferFailed.selector, token, receiver, 100e6));
+        router.settle(requestId, _leg(token, receiver, 100e6), _noLeg(), _noLeg());
+    }
+
+    function test_RevertsWhenTokenHasNoCode() public {
+        address token = makeAddr("not-a-token");
+        vm.prank(payer);
+        vm.expectRevert(abi.encodeWithSelector(PayAgentRouter.TransferFailed.selector, token, receiver, 100e6));
+        router.settle(requestId, _leg(token, receiver, 100e6), _noLeg(), _noLeg());
+    }
+
+    function test_RevertsWhenNativeReceiverRejects() public {
+        address rejecting = address(new RejectingReceiver());
+        vm.prank(payer);
+        vm.expectRevert(abi.encodeWithSelector(PayAgentRouter.TransferFailed.selector, address(0), rejecting, 1 ether));
+        router.settle{value: 1 ether}(requestId, _leg(address(0), rejecting, 1 ether), _noLeg(), _noLeg());
+    }
+
+    function test_RevertsOnFeeLegWithoutReceiver() public {
+        vm.startPrank(payer);
+        usdc.approve(address(router), 110e6);
+        vm.expectRevert(abi.encodeWithSelector(PayAgentRouter.TransferFailed.selector, address(usdc), address(0), 10e6));
+        router.settle(requestId, _leg(address(usdc), receiver, 100e6), _leg(address(usdc), address(0), 10e6), _noLeg());
+        vm.stopPrank();
+    }
+
+    // ============ settleWithPermit ============
+
+    function test_SettlesWithPermit() public {
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(110e6, deadline);
+
+        vm.prank(payer);
+        router.settleWithPermit(
+            requestId,
+            _leg(address(usdc), receiver, 100e6),
+            _leg(address(usdc), platform, 8e6),
+            _leg(address(usdc), creator, 2e6),
+            deadline,
+            v,
+            r,
+            s
+        );
+
+        assertEq(usdc.balanceOf(receiver), 100e6);
+        assertEq(usdc.balanceOf(platform), 8e6);
+        assertEq(usdc.balanceOf(creator), 2e6);
+        assertEq(usdc.allowance(payer, address(router)), 0);
+    }
+
+    function test_SettleWithPermitFallsBackToAnExistingAllowance() public {
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(100e6, deadline);
+        // The permit was already submitted (e.g. front-run): the allowance it set still pays
+        usdc.permit(payer, address(router), 100e6, deadline, v, r, s);
+
+        vm.prank(payer);
+        router.settleWithPermit(requestId, _leg(address(usdc), receiver, 100e6), _noLeg(), _noLeg(), deadline, v, r, s);
+
+        assertEq(usdc.balanceOf(receiver), 100e6);
+    }
+
+    function test_SettleWithPermitRevertsOnBadSignatureWithoutAllowance() public {
+        uint256 deadline = block.timestamp + 1 hours;
+        // Signed for a smaller total than the legs pull
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(50e6, deadline);
+
+        vm.prank(payer);
+        vm.expectRevert(
+            abi.encodeWithSelector(PayAgentRouter.TransferFailed.selector, address(usdc), receiver, 100e6)
+        );
+        router.settleWithPermit(requestId, _leg(address(usdc), receiver, 100e6), _noLeg(), _noLeg(), deadline, v, r, s);
+    }
+
+    function test_SettleWithPermitRejectsMixedTokens() public {
+        MockERC20 other = new MockERC20("Other");
+        vm.prank(payer);
+        vm.expectRevert(
+            abi.encodeWithSelector(PayAgentRouter.MixedPermitTokens.selector, address(usdc), address(other))
+        );
+        router.settleWithPermit(
+            requestId, _leg(address(usdc), receiver, 100e6), _leg(address(other), platform, 8e6), _noLeg(), 0, 0, 0, 0
+        );
+    }
+
+    function test_SettleWithPermitRejectsNativeOnlyLegs() public {
+        vm.prank(payer);
+        vm.expectRevert(PayAgentRouter.NothingToPermit.selector);
+        router.settleWithPermit{value: 1 ether}(
+            requestId, _leg(address(0), receiver, 1 ether), _noLeg(), _noLeg(), 0, 0, 0, 0
+        );
+    }
+
+    function test_SettleWithPermitChecksMsgValue() public {
+        vm.prank(payer);
+        vm.expectRevert(abi.encodeWithSelector(PayAgentRouter.NativeValueMismatch.selector, 1 ether, 0));
+        router.settleWithPermit(
+            requestId, _leg(address(0), receiver, 1 ether), _leg(address(usdc), platform, 8e6), _noLeg(), 0, 0, 0, 0
+        );
+    }
+
+    // ============ settleWithPermit2 ============
+
+    function test_SettlesWithPermit2() public {
+        uint256 nonce = 7;
+        PayAgentRouter.Leg memory payment = _leg(address(usdc), receiver, 100e6);
+        PayAgentRouter.Leg memory platformFee = _leg(address(usdc), platform, 8e6);
+        PayAgentRouter.Leg memory creatorReward = _leg(address(usdc), creator, 2e6);
+
+        vm.startPrank(payer);
+        usdc.approve(address(router.PERMIT2()), type(uint256).max);
+        vm.expectEmit(true, true, false, true, address(router));
+        emit PayAgentRouter.PaymentSettled(requestId, payer, payment, platformFee, creatorReward);
+        router.settleWithPermit2(
+            requestId, payment, platformFee, creatorReward, nonce, block.timestamp + 1 hours, abi.encode(payer, nonce)
+        );
+        vm.stopPrank();
+
+        assertEq(usdc.balanceOf(receiver), 100e6);
+        assertEq(usdc.balanceOf(platform), 8e6);
+        assertEq(usdc.balanceOf(creator), 2e6);
+        assertEq(usdc.balanceOf(address(router)), 0);
+    }
+
+    function test_SettleWithPermit2RevertsWhenPermit2Rejects() public {
+        vm.startPrank(payer);
+        usdc.approve(address(router.PERMIT2()), type(uint256).max);
+        vm.expectRevert("INVALID_SIGNER");
+        router.settleWithPermit2(
+            requestId, _leg(address(usdc), receiver, 100e6), _noLeg(), _noLeg(), 1, block.timestamp + 1 hours, hex"00"
+        );
+        vm.stopPrank();
+    }
+
+    function test_SettleWithPermit2PaysNativeLegsFromMsgValue() public {
+        vm.startPrank(payer);
+        usdc.approve(address(router.PERMIT2()), type(uint256).max);
+        router.settleWithPermit2{value: 0.1 ether}(
+            requestId,
+            _leg(address(usdc), receiver, 100e6),
+            _leg(address(0), platform, 0.1 ether),
+            _noLeg(),
+            1,
+            block.timestamp + 1 hours,
+            abi.encode(payer, uint256(1))
+        );
+        vm.stopPrank();
+
+        assertEq(usdc.balanceOf(receiver), 100e6);
+        assertEq(platform.balance, 0.1 ether);
+    }
+}
@@ -0,0 +1,127 @@
+/**
+ * PayAgent Router deployment
+ *
+ * Usage:
+ *   cd contracts && forge build && cd ..
+ *   RPC_URL=... DEPLOYER_PRIVATE_KEY=0x... node --experimental-strip-types scripts/deploy-router.ts
+ *
+ * Deploys contracts/src/PayAgentRouter.sol from its Foundry artifact and prints
+ * the address to set as <NETWORK>_ROUTER_ADDRESS on the backend.
+ *
+ * Against a local anvil / hardhat node (chain id 31337) RPC_URL and the key
+ * default to the node's first dev account, and the script also settles a small
+ * native payment through the new router and checks the PaymentSettled event.
+ */
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import {
+  createPublicClient,
+  createWalletClient,
+  defineChain,
+  http,
+  keccak256,
+  parseEther,
+  parseEventLogs,
+  toHex,
+  zeroAddress,
+  type Abi,
+  type Hex,
+  type PrivateKeyAccount,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { viemParams } from '../src/lib/viemParams.ts';
+
+const LOCAL_CHAIN_ID = 31337;
+// First account of anvil and hardhat node (public, never use on a real network)
+const LOCAL_DEV_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+const ARTIFACT = resolve(process.cwd(), 'contracts/out/PayAgentRouter.sol/PayAgentRouter.json');
+
+function loadArtifact(): { abi: Abi; bytecode: Hex } {
+  let artifact;
+  try {
+    artifact = JSON.parse(readFileSync(ARTIFACT, 'utf8'));
+  } catch {
+    throw new Error(`Router artifact not found at ${ARTIFACT}. Run "forge build" in contracts/ first.`);
+  }
+  return { abi: artifact.abi, bytecode: artifact.bytecode.object };
+}
+
+function clientsFor(rpcUrl: string, chainId: number, account: PrivateKeyAccount) {
+  const chain = defineChain({
+    id: chainId,
+    name: `chain-${chainId}`,
+    nativeCurrency: { name: 'Native', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: [rpcUrl] } },
+  });
+  return {
+    publicClient: createPublicClient({ chain, transport: http(rpcUrl) }),
+    walletClient: createWalletClient({ account, chain, transport: http(rpcUrl) }),
+  };
+}
+
+async function smokeTest(rpcUrl: string, chainId: number, account: PrivateKeyAccount, abi: Abi, router: Hex) {
+  const { publicClient, walletClient } = clientsFor(rpcUrl, chainId, account);
+
+  const leg = (to: Hex, amount: string) => ({ token: zeroAddress, to, amount: parseEther(amount) });
+  const payment = leg('0x0000000000000000000000000000000000000a01', '0.01');
+  const platformFee = leg('0x0000000000000000000000000000000000000a02', '0.002');
+  const creatorReward = leg('0x0000000000000000000000000000000000000a03', '0.001');
+  const requestId = keccak256(toHex('REQ-SMOKETEST'));
+
+  const hash = await walletClient.writeContract({
+    account,
+    chain: walletClient.chain,
+    address: router,
+    abi,
+    functionName: 'settle',
+    args: [requestId, payment, platformFee, creatorReward],
+    value: payment.amount + platformFee.amount + creatorReward.amount,
+  });
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  const [settled] = parseEventLogs({ abi, logs: receipt.logs, eventName: 'PaymentSettled' }) as unknown as {
+    args: { requestId: Hex; payer: Hex; payment: { amount: bigint } };
+  }[];
+
+  if (receipt.status !== 'success' || !settled || settled.args.requestId !== requestId || settled.args.payment.amount !== payment.amount) {
+    throw new Error(`Smoke test failed: settle transaction ${hash} did not emit the expected PaymentSettled event`);
+  }
+  console.log(`Smoke test passed: PaymentSettled emitted in ${hash}`);
+}
+
+async function main() {
+  const rpcUrl = process.env.RPC_URL || 'http://127.0.0.1:8545';
+  const chainId = await createPublicClient({ transport: http(rpcUrl) }).getChainId();
+  const local = chainId === LOCAL_CHAIN_ID;
+
+  const key = (process.env.DEPLOYER_PRIVATE_KEY || (local ? LOCAL_DEV_KEY : '')) as Hex;
+  if (!key) {
+    throw new Error(`DEPLOYER_PRIVATE_KEY is required on chain ${chainId}`);
+  }
+
+  const { abi, bytecode } = loadArtifact();
+  const account = privateKeyToAccount(key);
+  const { publicClient, walletClient } = clientsFor(rpcUrl, chainId, account);
+
+  console.log(`Deploying PayAgentRouter to chain ${chainId} from ${account.address}...`);
+  const hash = await walletClient.deployContract(viemParams({ account, chain: walletClient.chain, abi, bytecode }));
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== 'success' || !receipt.contractAddress) {
+    throw new Error(`Deployment transaction ${hash} failed`);
+  }
+
+  const router = receipt.contractAddress;
+  console.log(`PayAgentRouter deployed at ${router} (tx ${hash})`);
+
+  if (local) {
+    await smokeTest(rpcUrl, chainId, account, abi, router);
+  } else {
+    console.log('Set <NETWORK>_ROUTER_ADDRESS on the backend (e.g. SEPOLIA_ROUTER_ADDRESS) to enable it.');
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -23,13 +23,31 @@ const { ethers } = require('ethers');
 const crypto = require('crypto');
 const { TOKEN_DECIMALS, DEFAULT_RPC_URLS, CHAINS } = require('./constants');
 
-// Minimal ERC-20 ABI for transfers
+// Minimal ERC-20 ABI for transfers, plus the reads behind EIP-2612 / Permit2 signatures
 const ERC20_ABI = [
   'function transfer(address to, uint256 amount) returns (bool)',
   'function balanceOf(address account) view returns (uint256)',
   'function decimals() view returns (uint8)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function name() view returns (string)',
+  'function nonces(address owner) view returns (uint256)',
+  'function version() view returns (string)',
+  'function DOMAIN_SEPARATOR() view returns (bytes32)',
 ];
 
+// PayAgentRouter (contracts/src/PayAgentRouter.sol) settlement with a signed approval
+const ROUTER_LEG = '(address token, address to, uint256 amount)';
+const ROUTER_ABI = [
+  `function settleWithPermit(bytes32 requestId, ${ROUTER_LEG} payment, ${ROUTER_LEG} platformFee, ${ROUTER_LEG} creatorReward, uint256 deadline, uint8 v, bytes32 r, bytes32 s) payable`,
+  `function settleWithPermit2(bytes32 requestId, ${ROUTER_LEG} payment, ${ROUTER_LEG} platformFee, ${ROUTER_LEG} creatorReward, uint256 nonce, uint256 deadline, bytes signature) payable`,
+];
+
+// Uniswap Permit2, deployed at the same address on every chain
+const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
+// A signed permit only has to survive until the settle transaction is mined
+const PERMIT_TTL_SECONDS = 30 * 60;
+
 class PayAgentClient {
   /**
    * Create a new PayAgentClient.
@@ -39,7 +57,7 @@ class PayAgentClient {
    * @param {string} options.apiSecret - Your PayAgent API secret (sk_live_...) — used for HMAC signing, never transmitted
    * @param {string} options.privateKey - Your wallet private key
    * @param {string} [options.baseUrl='https://api.payagent.co'] - PayAgent API base URL
-   * @param {string|Object} [options.rpcUrl] - Custom RPC URL(s). String for all chains, or { sepolia: '...', ethereum: '...', base: '...' }
+   * @param {string|Object} [options.rpcUrl] - Custom RPC URL(s). String for all chains, or { sepolia: '...', ethereum: '...', base: '...', polygon: '...', bnb: '...' }
    *
    * @deprecated options.apiKey - Use apiKeyId + apiSecret instead (backward compat removed in v0.2.0)
    */
@@ -69,14 +87,24 @@ class PayAgentClient {
   /**
    * Pay a link in one call: fetch instructions, sign locally, broadcast, verify.
    *
+   * When the network has a PayAgent router and every ERC-20 transfer uses one
+   * token, the wallet signs a single EIP-2612 permit (or a Permit2 transfer,
+   * if it has approved Permit2 for the token) covering principal plus fees and
+   * the router pulls the exact amounts in one transaction. Otherwise each
+   * transfer is sent from the wallet.
+   *
    * @param {string} linkId - The payment link ID (e.g. 'REQ-ABC123')
-   * @returns {Promise<Object>} { transactions, verification, status }
+   * @param {Object} [options]
+   * @param {boolean} [options.permit=true] - Set false to always send one transfer per recipient
+   * @param {string} [options.network] - Network to pay on, for links offered on several (default: the link's first)
+   * @param {string} [options.token] - Token to pay in, for links accepting several (default: the link's first)
+   * @returns {Promise<Object>} { transactions, verification, status, method }
    */
-  async payLink(linkId) {
+  async payLink(linkId, { permit = true, network: preferredNetwork, token: preferredToken } = {}) {
     if (!linkId) throw new Error('linkId is required');
 
     // 1. Fetch payment instructions from the API
-    const instructionsRes = await this.getInstructions(linkId);
+    const instructionsRes = await this.getInstructions(linkId, { network: preferredNetwork, token: preferredToken });
     if (!instructionsRes.success) {
       throw new Error(instructionsRes.error || 'Failed to fetch payment instructions');
     }
@@ -88,6 +116,9 @@ class PayAgentClient {
 
     const { instructions } = instructionsRes;
     const network = instructions.payment.network;
+    // Verified in the token, and at the quote (if any), the instructions were built for
+    const paymentToken = preferredToken ? instructions.payment.token : undefined;
+    const quoteId = instructions.quote ? instructions.quote.id : undefined;
     const transfers = instructions.transfers;
 
     if (!transfers || transfers.length === 0) {
@@ -98,21 +129,39 @@ class PayAgentClient {
     const provider = this._getProvider(network);
     const wallet = this._wallet.connect(provider);
 
-    // 3. Sign and broadcast each transfer locally
+    // 3a. One router transaction authorized by a signed permit, when possible
+    if (permit && instructions.router) {
+      const settled = await this._settleWithPermit(wallet, linkId, network, instructions.router, transfers);
+      if (settled) {
+        const verification = await this.verifyPayment(linkId, settled.txHash, settled.txHash, settled.txHash, { network, token: paymentToken, quoteId });
+        return {
+          success: true,
+          linkId,
+          payer: this._wallet.address,
+          network,
+          method: settled.method,
+          transactions: settled.transactions,
+          verification,
+          status: verification.status || 'PAID',
+        };
+      }
+    }
+
+    // 3b. Otherwise sign and broadcast each transfer locally
     const results = [];
     for (const transfer of transfers) {
       const { token, tokenAddress, amount, to, description } = transfer;
       const isNative = this._isNativeToken(token, network);
-      const decimals = this._getDecimals(token);
 
       let tx;
       if (isNative || !tokenAddress) {
-        // Native ETH transfer
-        const value = ethers.parseUnits(amount, decimals);
+        // Native transfer (ETH, POL, BNB)
+        const value = ethers.parseUnits(amount, this._getDecimals(token, network));
         tx = await wallet.sendTransaction({ to, value });
       } else {
-        // ERC-20 transfer
+        // ERC-20 transfer — scale with the contract's own decimals (links can use any ERC-20)
         const contract = new ethers.Contract(tokenAddress, ERC20_ABI, wallet);
+        const decimals = await contract.decimals();
         const parsedAmount = ethers.parseUnits(amount, decimals);
         tx = await contract.transfer(to, parsedAmount);
       }
@@ -134,13 +183,14 @@ class PayAgentClient {
     const feeTxHash = results[1]?.txHash || null;
     const rewardTxHash = results[2]?.txHash || null;
 
-    const verification = await this.verifyPayment(linkId, paymentTxHash, feeTxHash, rewardTxHash);
+    const verification = await this.verifyPayment(linkId, paymentTxHash, feeTxHash, rewardTxHash, { network, token: paymentToken, quoteId });
 
     return {
       success: true,
       linkId,
       payer: this._wallet.address,
       network,
+      method: 'transfers',
       transactions: results,
       verification,
       status: verification.status || 'PAID',
@@ -152,11 +202,17 @@ class PayAgentClient {
    * Use this for manual control over the signing/broadcast process.
    *
    * @param {string} linkId - The payment link ID
+   * @param {Object} [options]
+   * @param {string} [options.network] - Network to pay on, for links offered on several
+   * @param {string} [options.token] - Token to pay in, for links accepting several
    * @returns {Promise<Object>} Raw API response with instructions
    */
-  async getInstructions(linkId) {
+  async getInstructions(linkId, { network, token } = {}) {
     if (!linkId) throw new Error('linkId is required');
-    return this._fetch('POST', '/api/pay-link', { linkId });
+    const body = { linkId };
+    if (network) body.network = network;
+    if (token) body.token = token;
+    return this._fetch('POST', '/api/pay-link', body);
   }
 
   /**
@@ -166,15 +222,22 @@ class PayAgentClient {
    * @param {string} txHash - Main payment transaction hash
    * @param {string} [feeTxHash] - Platform fee transaction hash
    * @param {string} [creatorRewardTxHash] - Creator reward transaction hash
+   * @param {Object} [options]
+   * @param {string} [options.network] - Network the link was paid on, for links offered on several
+   * @param {string} [options.token] - Token the link was paid in, for links accepting several
+   * @param {string} [options.quoteId] - Quote the payment was built from (instructions.quote.id), for quoted payments
    * @returns {Promise<Object>} Verification result
    */
-  async verifyPayment(requestId, txHash, feeTxHash, creatorRewardTxHash) {
+  async verifyPayment(requestId, txHash, feeTxHash, creatorRewardTxHash, { network, token, quoteId } = {}) {
     if (!requestId) throw new Error('requestId is required');
     if (!txHash) throw new Error('txHash is required');
 
     const body = { requestId, txHash };
     if (feeTxHash) body.feeTxHash = feeTxHash;
     if (creatorRewardTxHash) body.creatorRewardTxHash = creatorRewardTxHash;
+    if (network) body.network = network;
+    if (token) body.token = token;
+    if (quoteId) body.quoteId = quoteId;
 
     return this._fetch('POST', '/api/verify', body);
   }
@@ -184,17 +247,20 @@ class PayAgentClient {
    *
    * @param {Object} params
    * @param {string} params.amount - Payment amount
-   * @param {string} params.network - Chain: 'sepolia', 'ethereum', or 'base'
-   * @param {string} [params.token='USDC'] - Token: 'USDC', 'USDT', 'ETH', 'LCX'
+   * @param {string} params.network - Chain: 'sepolia', 'ethereum', 'base', 'polygon', or 'bnb'
+   * @param {string} [params.token='USDC'] - Token: 'USDC', 'USDT', 'LCX', or the chain's native token (ETH, POL, BNB).
+   *   With tokenAddress, the custom token's symbol.
+   * @param {string} [params.tokenAddress] - Contract of any ERC-20 on the network
    * @param {string} [params.description] - Payment description
-   * @returns {Promise<Object>} { success, linkId, link, network, token, amount }
+   * @returns {Promise<Object>} { success, linkId, link, network, token, tokenAddress, amount }
    */
-  async createLink({ amount, network, token, description } = {}) {
+  async createLink({ amount, network, token, tokenAddress, description } = {}) {
     if (!amount) throw new Error('amount is required');
     if (!network) throw new Error('network is required');
 
     const body = { amount, network };
     if (token) body.token = token;
+    if (tokenAddress) body.tokenAddress = tokenAddress;
     if (description) body.description = description;
 
     return this._fetch('POST', '/api/create-link', body);
@@ -221,6 +287,166 @@ class PayAgentClient {
 
   // ─── Private Helpers ──────────────────────────────────────────────
 
+  /**
+   * Pay through the router with settleWithPermit / settleWithPermit2.
+   * Resolves null when the transfers can't go that way (native-only, mixed
+   * tokens, no permit support and no Permit2 allowance) or the settlement
+   * reverts, so payLink falls back to plain transfers.
+   * @private
+   */
+  async _settleWithPermit(wallet, linkId, network, router, transfers) {
+    if (transfers.length !== 3) return null;
+
+    const decimalsByToken = {};
+    for (const { token, tokenAddress } of transfers) {
+      if (this._isNativeToken(token, network) || !tokenAddress) continue;
+      const key = tokenAddress.toLowerCase();
+      if (decimalsByToken[key] === undefined) {
+        decimalsByToken[key] = await new ethers.Contract(tokenAddress, ERC20_ABI, wallet).decimals();
+      }
+    }
+    const { legs, value, token, total } = this._buildRouterLegs(transfers, network, decimalsByToken);
+    if (!token) return null;
+
+    const erc20 = new ethers.Contract(token, ERC20_ABI, wallet);
+    const { chainId } = await wallet.provider.getNetwork();
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_TTL_SECONDS);
+    const routerContract = new ethers.Contract(router, ROUTER_ABI, wallet);
+    const requestId = ethers.id(linkId);
+
+    let method;
+    let receipt;
+    try {
+      let tx;
+      const domain = await this._readPermitDomain(erc20, chainId, token);
+      if (domain) {
+        method = 'permit';
+        const nonce = await erc20.nonces(wallet.address);
+        const { v, r, s } = await this._signRouterPermit('permit', domain, {
+          owner: wallet.address, spender: router, value: total, nonce, deadline,
+        });
+        tx = await routerContract.settleWithPermit(requestId, ...legs, deadline, v, r, s, { value });
+      } else if ((await erc20.allowance(wallet.address, PERMIT2_ADDRESS)) >= total) {
+        method = 'permit2';
+        // Permit2 nonces are unordered: any unused value works
+        const nonce = BigInt(ethers.hexlify(ethers.randomBytes(31)));
+        const { signature } = await this._signRouterPermit('permit2', { name: 'Permit2', chainId, verifyingContract: PERMIT2_ADDRESS }, {
+          permitted: { token, amount: total }, spender: router, nonce, deadline,
+        });
+        tx = await routerContract.settleWithPermit2(requestId, ...legs, nonce, deadline, signature, { value });
+      } else {
+        return null;
+      }
+      receipt = await tx.wait();
+    } catch (err) {
+      // A reverted settlement moved nothing (e.g. the token rejected the permit). Other errors may have
+      // broadcast a transaction, so they are rethrown rather than falling back to plain transfers
+      if (ethers.isError(err, 'CALL_EXCEPTION')) return null;
+      throw err;
+    }
+
+    return {
+      method,
+      txHash: receipt.hash,
+      transactions: transfers.map(({ description, token: symbol, amount, to }) => ({
+        description,
+        txHash: receipt.hash,
+        token: symbol,
+        amount,
+        to,
+        blockNumber: receipt.blockNumber,
+        status: receipt.status === 1 ? 'confirmed' : 'failed',
+      })),
+    };
+  }
+
+  /**
+   * Router legs for the transfers, with the msg.value of the native ones and
+   * the single ERC-20 (token, total) a permit must cover. token is null when
+   * there is no ERC-20 leg or more than one ERC-20 is involved.
+   * @private
+   */
+  _buildRouterLegs(transfers, network, decimalsByToken) {
+    let value = 0n;
+    let total = 0n;
+    const tokens = new Set();
+    const legs = transfers.map(({ token, tokenAddress, amount, to }) => {
+      if (this._isNativeToken(token, network) || !tokenAddress) {
+        const wei = ethers.parseUnits(amount, this._getDecimals(token, network));
+        value += wei;
+        return { token: ethers.ZeroAddress, to, amount: wei };
+      }
+      const address = tokenAddress.toLowerCase();
+      const units = ethers.parseUnits(amount, decimalsByToken[address]);
+      tokens.add(address);
+      total += units;
+      return { token: address, to, amount: units };
+    });
+    const token = tokens.size === 1 ? [...tokens][0] : null;
+    return { legs, value, token, total };
+  }
+
+  /**
+   * EIP-712 domain of an EIP-2612 token, or null when it has no permit or the
+   * domain rebuilt from name()/version() doesn't match its DOMAIN_SEPARATOR().
+   * @private
+   */
+  async _readPermitDomain(erc20, chainId, verifyingContract) {
+    let name;
+    let separator;
+    try {
+      [name, separator] = await Promise.all([
+        erc20.name(),
+        erc20.DOMAIN_SEPARATOR(),
+        erc20.nonces(this._wallet.address),
+      ]);
+    } catch {
+      return null;
+    }
+    // Most permit tokens expose version(); without it, try the common "1" and "2"
+    const versions = await erc20.version().then(version => [version], () => ['1', '2']);
+    for (const version of versions) {
+      const domain = { name, version, chainId, verifyingContract };
+      if (ethers.TypedDataEncoder.hashDomain(domain) === separator) return domain;
+    }
+    return null;
+  }
+
+  /**
+   * Sign an EIP-2612 Permit ('permit') or a Permit2 PermitTransferFrom ('permit2').
+   * @private
+   */
+  async _signRouterPermit(kind, domain, message) {
+    if (kind === 'permit') {
+      const types = {
+        Permit: [
+          { name: 'owner', type: 'address' },
+          { name: 'spender', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+        ],
+      };
+      const signature = await this._wallet.signTypedData(domain, types, message);
+      const { v, r, s } = ethers.Signature.from(signature);
+      return { signature, v, r, s };
+    }
+
+    const types = {
+      PermitTransferFrom: [
+        { name: 'permitted', type: 'TokenPermissions' },
+        { name: 'spender', type: 'address' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+      ],
+      TokenPermissions: [
+        { name: 'token', type: 'address' },
+        { name: 'amount', type: 'uint256' },
+      ],
+    };
+    return { signature: await this._wallet.signTypedData(domain, types, message) };
+  }
+
   /**
    * Compute HMAC-SHA256 signature for a request.
    *
@@ -309,7 +535,7 @@ class PayAgentClient {
   }
 
   /**
-   * Check if a token is the native token (ETH) on the given network.
+   * Check if a token is the native token (ETH, POL, BNB) on the given network.
    * @private
    */
   _isNativeToken(tokenSymbol, network) {
@@ -319,11 +545,13 @@ class PayAgentClient {
   }
 
   /**
-   * Get token decimals.
+   * Get token decimals, honouring per-chain overrides (e.g. 18-decimal USDC on BNB Smart Chain).
    * @private
    */
-  _getDecimals(tokenSymbol) {
+  _getDecimals(tokenSymbol, network) {
     const symbol = (tokenSymbol || '').toUpperCase();
+    const chainDecimals = CHAINS[network] && CHAINS[network].tokenDecimals;
+    if (chainDecimals && chainDecimals[symbol] !== undefined) return chainDecimals[symbol];
     return TOKEN_DECIMALS[symbol] || 18;
   }
 }
@@ -41,6 +41,33 @@ const CHAINS = {
       LCX:  '0xd7468c14ae76C3Fc308aEAdC223D5D1F71d3c171',
     },
   },
+  polygon: {
+    name: 'polygon',
+    displayName: 'Polygon PoS',
+    chainId: 137,
+    isTestnet: false,
+    nativeToken: 'POL',
+    tokens: {
+      USDC: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+      USDT: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
+    },
+  },
+  bnb: {
+    name: 'bnb',
+    displayName: 'BNB Smart Chain',
+    chainId: 56,
+    isTestnet: false,
+    nativeToken: 'BNB',
+    tokens: {
+      USDC: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d',
+      USDT: '0x55d398326f99059fF775485246999027B3197955',
+    },
+    // Binance-Peg stablecoins use 18 decimals
+    tokenDecimals: {
+      USDC: 18,
+      USDT: 18,
+    },
+  },
 };
 
 const TOKEN_DECIMALS = {
@@ -48,12 +75,16 @@ const TOKEN_DECIMALS = {
   USDT: 6,
   LCX: 18,
   ETH: 18,
+  POL: 18,
+  BNB: 18,
 };
 
 const DEFAULT_RPC_URLS = {
   sepolia: 'https://rpc.sepolia.org',
   ethereum: 'https://eth.llamarpc.com',
   base: 'https://mainnet.base.org',
+  polygon: 'https://polygon-rpc.com',
+  bnb: 'https://bsc-dataseed.bnbchain.org',
 };
 
 module.exports = { CHAINS, TOKEN_DECIMALS, DEFAULT_RPC_URLS };
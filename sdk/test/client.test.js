@@ -151,6 +151,53 @@ describe('PayAgentClient', () => {
       assert.equal(body.linkId, 'REQ-TEST1');
     });
 
+    it('sends the chosen network for multi-network links', async () => {
+      fetchResponses['/api/pay-link'] = {
+        body: { success: true, instructions: { payment: { network: 'base' }, transfers: [] } },
+      };
+      fetchResponses['/api/verify'] = {
+        body: { success: true, status: 'PAID' },
+      };
+
+      const client = new PayAgentClient({
+        apiKeyId: 'pk_live_test',
+        apiSecret: 'sk_live_test',
+        privateKey: '0x0000000000000000000000000000000000000000000000000000000000000001',
+      });
+
+      await client.getInstructions('REQ-TEST1', { network: 'base' });
+      await client.verifyPayment('REQ-TEST1', '0xTxHash1', null, null, { network: 'base' });
+
+      const payLink = JSON.parse(fetchCalls.find(c => c.url.includes('/api/pay-link')).options.body);
+      assert.equal(payLink.network, 'base');
+      const verify = JSON.parse(fetchCalls.find(c => c.url.includes('/api/verify')).options.body);
+      assert.equal(verify.network, 'base');
+    });
+
+    it('sends the chosen token for links accepting several', async () => {
+      fetchResponses['/api/pay-link'] = {
+        body: { success: true, instructions: { payment: { network: 'sepolia', token: 'USDT' }, transfers: [] } },
+      };
+      fetchResponses['/api/verify'] = {
+        body: { success: true, status: 'PAID' },
+      };
+
+      const client = new PayAgentClient({
+        apiKeyId: 'pk_live_test',
+        apiSecret: 'sk_live_test',
+        privateKey: '0x0000000000000000000000000000000000000000000000000000000000000001',
+      });
+
+      await client.getInstructions('REQ-TEST1', { token: 'USDT' });
+      await client.verifyPayment('REQ-TEST1', '0xTxHash1', null, null, { token: 'USDT', quoteId: 'QUO-1' });
+
+      const payLink = JSON.parse(fetchCalls.find(c => c.url.includes('/api/pay-link')).options.body);
+      assert.equal(payLink.token, 'USDT');
+      const verify = JSON.parse(fetchCalls.find(c => c.url.includes('/api/verify')).options.body);
+      assert.equal(verify.token, 'USDT');
+      assert.equal(verify.quoteId, 'QUO-1');
+    });
+
     it('sends API key in x-api-key header', async () => {
       fetchResponses['/api/pay-link'] = {
         body: { success: true, instructions: { payment: {}, transfers: [] } },
@@ -250,6 +297,31 @@ describe('PayAgentClient', () => {
       assert.equal(body.network, 'sepolia');
       assert.equal(body.token, 'USDC');
       assert.equal(body.description, 'Test payment');
+      assert.equal(body.tokenAddress, undefined);
+    });
+
+    it('passes tokenAddress for custom ERC-20 links', async () => {
+      fetchResponses['/api/create-link'] = {
+        body: { success: true, linkId: 'REQ-WETH1', token: 'WETH', tokenAddress: '0x7ceb23fd6bc0add59e62ac25578270cff1b9f619' },
+      };
+
+      const client = new PayAgentClient({
+        apiKeyId: 'pk_live_test',
+        apiSecret: 'sk_live_test',
+        privateKey: '0x0000000000000000000000000000000000000000000000000000000000000001',
+      });
+
+      await client.createLink({
+        amount: '0.25',
+        network: 'polygon',
+        token: 'WETH',
+        tokenAddress: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619',
+      });
+
+      const call = fetchCalls.find(c => c.url.includes('/api/create-link'));
+      const body = JSON.parse(call.options.body);
+      assert.equal(body.token, 'WETH');
+      assert.equal(body.tokenAddress, '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619');
     });
 
     it('requires amount', async () => {
@@ -508,6 +580,163 @@ describe('PayAgentClient', () => {
     });
   });
 
+  // ── Permit payments (router settlement helpers) ───────────────
+
+  describe('permit payments', () => {
+    const { ethers } = require('ethers');
+    const USDC = '0x3402d41aa8e34e0df605c12109de2f8f4ff33a87';
+    const LCX = '0x98d99c88d31c27c5a591fe7f023f9db0b37e4b3b';
+    const to = '0x0000000000000000000000000000000000000003';
+    const newClient = () => new PayAgentClient({
+      apiKeyId: 'pk_live_test',
+      apiSecret: 'sk_live_test',
+      privateKey: '0x0000000000000000000000000000000000000000000000000000000000000001',
+    });
+
+    it('covers principal and fees with one permit total when they share a token', () => {
+      const { legs, value, token, total } = newClient()._buildRouterLegs([
+        { token: 'USDC', tokenAddress: USDC, amount: '9.4', to },
+        { token: 'USDC', tokenAddress: USDC, amount: '0.3', to },
+        { token: 'USDC', tokenAddress: USDC, amount: '0.3', to },
+      ], 'sepolia', { [USDC]: 6n });
+
+      assert.equal(token, USDC);
+      assert.equal(total, 10000000n);
+      assert.equal(value, 0n);
+      assert.deepEqual(legs[0], { token: USDC, to, amount: 9400000n });
+    });
+
+    it('has no permit token for mixed ERC-20s and sends native legs as value', () => {
+      const mixed = newClient()._buildRouterLegs([
+        { token: 'USDC', tokenAddress: USDC, amount: '10', to },
+        { token: 'LCX', tokenAddress: LCX, amount: '2', to },
+        { token: 'LCX', tokenAddress: LCX, amount: '2', to },
+      ], 'sepolia', { [USDC]: 6n, [LCX]: 18n });
+      assert.equal(mixed.token, null);
+
+      const nativeFee = newClient()._buildRouterLegs([
+        { token: 'MYT', tokenAddress: USDC, amount: '10', to },
+        { token: 'ETH', tokenAddress: null, amount: '0.001', to },
+        { token: 'ETH', tokenAddress: null, amount: '0.001', to },
+      ], 'sepolia', { [USDC]: 18n });
+      assert.equal(nativeFee.token, USDC);
+      assert.equal(nativeFee.value, ethers.parseEther('0.002'));
+      assert.equal(nativeFee.legs[1].token, ethers.ZeroAddress);
+    });
+
+    it('signs Permit2 transfers for the router from the wallet', async () => {
+      const client = newClient();
+      const domain = { name: 'Permit2', chainId: 11155111, verifyingContract: '0x000000000022D473030F116dDEE9F6B43aC78BA3' };
+      const message = {
+        permitted: { token: USDC, amount: 10000000n },
+        spender: '0x00000000000000000000000000000000000000aa',
+        nonce: 7n,
+        deadline: 1900000000n,
+      };
+      const { signature } = await client._signRouterPermit('permit2', domain, message);
+
+      const types = {
+        PermitTransferFrom: [
+          { name: 'permitted', type: 'TokenPermissions' },
+          { name: 'spender', type: 'address' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+        ],
+        TokenPermissions: [
+          { name: 'token', type: 'address' },
+          { name: 'amount', type: 'uint256' },
+        ],
+      };
+      assert.equal(ethers.verifyTypedData(domain, types, message, signature), client.address);
+    });
+
+    it('returns v, r, s for EIP-2612 permits', async () => {
+      const client = newClient();
+      const { v, r, s } = await client._signRouterPermit('permit', {
+        name: 'USDC', version: '2', chainId: 11155111, verifyingContract: USDC,
+      }, { owner: client.address, spender: to, value: 1n, nonce: 0n, deadline: 1900000000n });
+      assert.ok(v === 27 || v === 28);
+      assert.match(r, /^0x[0-9a-f]{64}$/);
+      assert.match(s, /^0x[0-9a-f]{64}$/);
+    });
+
+    const chainId = 11155111n;
+    const separatorFor = (version, name = 'USD Coin') =>
+      ethers.TypedDataEncoder.hashDomain({ name, version, chainId, verifyingContract: USDC });
+    // Token contract double: version undefined means it has no version()
+    const permitToken = ({ name = 'USD Coin', version, separator }) => ({
+      name: async () => name,
+      nonces: async () => 0n,
+      version: async () => {
+        if (version === undefined) throw new Error('missing version()');
+        return version;
+      },
+      DOMAIN_SEPARATOR: async () => separator,
+    });
+
+    it('signs permits only for a domain matching DOMAIN_SEPARATOR()', async () => {
+      const client = newClient();
+      const domain = await client._readPermitDomain(permitToken({ version: '2', separator: separatorFor('2') }), chainId, USDC);
+      assert.deepEqual(domain, { name: 'USD Coin', version: '2', chainId, verifyingContract: USDC });
+
+      // version() disagrees with the separator (e.g. a proxy upgraded the domain)
+      assert.equal(await client._readPermitDomain(permitToken({ version: '1', separator: separatorFor('2') }), chainId, USDC), null);
+      // The token signs under another name
+      assert.equal(await client._readPermitDomain(permitToken({ version: '2', separator: separatorFor('2', 'USDC') }), chainId, USDC), null);
+    });
+
+    it('tries versions "1" and "2" for permit tokens without version()', async () => {
+      const client = newClient();
+      const v1 = await client._readPermitDomain(permitToken({ separator: separatorFor('1') }), chainId, USDC);
+      assert.equal(v1.version, '1');
+      const v2 = await client._readPermitDomain(permitToken({ separator: separatorFor('2') }), chainId, USDC);
+      assert.equal(v2.version, '2');
+      assert.equal(await client._readPermitDomain(permitToken({ separator: separatorFor('3') }), chainId, USDC), null);
+    });
+
+    it('falls back to transfers when the permit settlement reverts', async () => {
+      const client = newClient();
+      const router = '0x00000000000000000000000000000000000000aa';
+      const token = new ethers.Interface([
+        'function decimals() view returns (uint8)',
+        'function name() view returns (string)',
+        'function nonces(address owner) view returns (uint256)',
+        'function version() view returns (string)',
+        'function DOMAIN_SEPARATOR() view returns (bytes32)',
+      ]);
+      const results = { decimals: [6], name: ['USD Coin'], nonces: [0n], version: ['2'], DOMAIN_SEPARATOR: [separatorFor('2')] };
+      const sent = [];
+      let sendError;
+      // Wallet double: answers the token's view calls and fails every transaction with sendError
+      const wallet = {
+        address: client.address,
+        provider: { getNetwork: async () => ({ chainId }) },
+        call: async ({ data }) => {
+          const { name } = token.parseTransaction({ data });
+          return token.encodeFunctionResult(name, results[name]);
+        },
+        sendTransaction: async (tx) => {
+          sent.push(tx);
+          throw sendError;
+        },
+      };
+      const transfers = [
+        { token: 'USDC', tokenAddress: USDC, amount: '9.4', to },
+        { token: 'USDC', tokenAddress: USDC, amount: '0.3', to },
+        { token: 'USDC', tokenAddress: USDC, amount: '0.3', to },
+      ];
+
+      sendError = ethers.makeError('execution reverted', 'CALL_EXCEPTION', { action: 'sendTransaction', data: '0x', reason: null, transaction: {}, invocation: null, revert: null });
+      assert.equal(await client._settleWithPermit(wallet, 'REQ-PERMIT1', 'sepolia', router, transfers), null);
+      assert.equal(sent.length, 1);
+      assert.equal(sent[0].to.toLowerCase(), router);
+
+      // Anything but a revert may have reached the chain: no second payment
+      sendError = new Error('socket hang up');
+      await assert.rejects(client._settleWithPermit(wallet, 'REQ-PERMIT1', 'sepolia', router, transfers), /socket hang up/);
+    });
+  });
+
   // ── Error handling ────────────────────────────────────────────
 
   describe('error handling', () => {
@@ -566,6 +795,24 @@ describe('PayAgentClient', () => {
       assert.equal(CHAINS.sepolia.chainId, 11155111);
       assert.equal(CHAINS.ethereum.chainId, 1);
       assert.equal(CHAINS.base.chainId, 8453);
+      assert.equal(CHAINS.polygon.chainId, 137);
+      assert.equal(CHAINS.bnb.chainId, 56);
+      assert.equal(CHAINS.polygon.nativeToken, 'POL');
+      assert.equal(CHAINS.bnb.nativeToken, 'BNB');
+    });
+
+    it('uses per-chain decimals for BNB Smart Chain stablecoins', () => {
+      const client = new PayAgentClient({
+        apiKeyId: 'pk_live_test',
+        apiSecret: 'sk_live_test',
+        privateKey: '0x0000000000000000000000000000000000000000000000000000000000000001',
+      });
+      assert.equal(client._getDecimals('USDC', 'bnb'), 18);
+      assert.equal(client._getDecimals('USDT', 'bnb'), 18);
+      assert.equal(client._getDecimals('USDC', 'polygon'), 6);
+      assert.equal(client._getDecimals('BNB', 'bnb'), 18);
+      assert.equal(client._isNativeToken('BNB', 'bnb'), true);
+      assert.equal(client._isNativeToken('ETH', 'polygon'), false);
     });
 
     it('exports TOKEN_DECIMALS', () => {
@@ -218,7 +218,7 @@ describe('4. createLink()', () => {
 
   it('rejects unsupported network', async () => {
     await assert.rejects(
-      () => client.createLink({ amount: '10', network: 'polygon' }),
+      () => client.createLink({ amount: '10', network: 'arbitrum' }),
       (err) => err.status === 400
     );
   });
@@ -0,0 +1,40 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useEnsIdentity } from "@/hooks/use-ens";
+import { cn } from "@/lib/utils";
+
+interface AddressIdentityProps {
+  address: string;
+  /** Show the full address under the name instead of a shortened one */
+  full?: boolean;
+  className?: string;
+}
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * An address with its primary ENS / Basename and avatar, when it has one.
+ * Falls back to the plain (shortened) address.
+ */
+export function AddressIdentity({ address, full = false, className }: AddressIdentityProps) {
+  const { data: identity } = useEnsIdentity(address);
+  const shown = full ? address : shortenAddress(address);
+
+  return (
+    <div className={cn("flex items-center gap-2 min-w-0", className)} title={address}>
+      <Avatar className="h-5 w-5 shrink-0">
+        {identity?.avatar && <AvatarImage src={identity.avatar} alt={identity.name ?? address} />}
+        <AvatarFallback className="bg-blue-50 text-[8px] text-blue-600">
+          {(identity?.name ?? address.slice(2)).slice(0, 2).toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+      {identity?.name ? (
+        <div className="min-w-0">
+          <p className="text-xs font-medium text-foreground truncate">{identity.name}</p>
+          <p className="text-[10px] font-mono text-muted-foreground break-all">{shown}</p>
+        </div>
+      ) : (
+        <span className="text-xs font-mono text-muted-foreground break-all">{shown}</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Webhook as WebhookIcon, Plus, Pencil, Trash2, Send, Loader2, Copy, Check, AlertTriangle, X, History
+} from "lucide-react";
+import {
+  getWebhooks, createWebhook, updateWebhook, deleteWebhook, testWebhook,
+  WEBHOOK_EVENTS, type Webhook, type WebhookEvent, type WebhookTestResult
+} from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { useWalletSession } from "@/hooks/use-wallet-session";
+import { WebhookDeliveryLog } from "@/components/WebhookDeliveryLog";
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  'payment.created': 'Payment link created',
+  'payment.paid': 'Payment completed',
+};
+
+const formatDate = (timestamp: number | null) => {
+  if (!timestamp) return 'Never';
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const responseColor = (status: number) => {
+  if (status < 300) return 'bg-emerald-100 text-emerald-700';
+  if (status < 500) return 'bg-yellow-100 text-yellow-700';
+  return 'bg-red-100 text-red-700';
+};
+
+type TestOutcome = { result: WebhookTestResult } | { error: string };
+
+interface WebhookFormState {
+  /** null while creating */
+  id: string | null;
+  url: string;
+  events: WebhookEvent[];
+}
+
+/**
+ * Webhooks section of the Agents dashboard: create, edit, enable/disable,
+ * delete, send test events and browse delivery history. Requires a signed-in
+ * wallet session.
+ */
+export function AgentWebhooks() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { withSession } = useWalletSession();
+
+  const [form, setForm] = useState<WebhookFormState | null>(null);
+  const [newSecret, setNewSecret] = useState<{ webhookId: string; secret: string } | null>(null);
+  const [secretCopied, setSecretCopied] = useState(false);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [testOutcomes, setTestOutcomes] = useState<Record<string, TestOutcome>>({});
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+
+  const { data: webhooks, isLoading, isError } = useQuery<Webhook[]>({
+    queryKey: ['webhooks'],
+    queryFn: ({ signal }) => withSession(() => getWebhooks(signal)),
+    staleTime: 10000,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+
+  const saveMutation = useMutation({
+    mutationFn: async (state: WebhookFormState) => {
+      if (state.id) {
+        await withSession(() => updateWebhook(state.id!, { url: state.url, events: state.events }));
+        return null;
+      }
+      return withSession(() => createWebhook(state.url, state.events));
+    },
+    onSuccess: (created) => {
+      if (created) {
+        setNewSecret({ webhookId: created.id, secret: created.secret });
+        setSecretCopied(false);
+        toast({ title: 'Webhook created', description: 'Save the signing secret now — it is shown once.' });
+      } else {
+        toast({ title: 'Webhook updated' });
+      }
+      setForm(null);
+      invalidate();
+    },
+    onError: (err: Error) => {
+      toast({ title: 'Failed to save webhook', description: err.message, variant: 'destructive' });
+    }
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, active }: { id: string; active: boolean }) => withSession(() => updateWebhook(id, { active })),
+    onSuccess: (webhook) => {
+      toast({ title: webhook.active ? 'Webhook enabled' : 'Webhook disabled' });
+      invalidate();
+    },
+    onError: (err: Error) => {
+      toast({ title: 'Failed to update webhook', description: err.message, variant: 'destructive' });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => withSession(() => deleteWebhook(id)),
+    onSuccess: (_data, id) => {
+      toast({ title: 'Webhook deleted' });
+      setConfirmDeleteId(null);
+      if (newSecret?.webhookId === id) setNewSecret(null);
+      invalidate();
+    },
+    onError: (err: Error) => {
+      toast({ title: 'Failed to delete webhook', description: err.message, variant: 'destructive' });
+    }
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (id: string) => withSession(() => testWebhook(id)),
+    onSuccess: (result, id) => {
+      setTestOutcomes(prev => ({ ...prev, [id]: { result } }));
+      invalidate();
+    },
+    onError: (err: Error, id) => {
+      setTestOutcomes(prev => ({ ...prev, [id]: { error: err.message } }));
+    }
+  });
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      events: checked ? [...form.events, event] : form.events.filter(e => e !== event),
+    });
+  };
+
+  const copySecret = (secret: string) => {
+    navigator.clipboard.writeText(secret);
+    setSecretCopied(true);
+    setTimeout(() => setSecretCopied(false), 2000);
+  };
+
+  const formValid = !!form && /^https:\/\/\S+$/.test(form.url.trim()) && form.events.length > 0;
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium flex items-center gap-2"><WebhookIcon className="h-4 w-4" /> Webhooks</h4>
+        {!form && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1 h-7 text-xs"
+            onClick={() => setForm({ id: null, url: '', events: [...WEBHOOK_EVENTS] })}
+          >
+            <Plus className="h-3 w-3" /> Add Webhook
+          </Button>
+        )}
+      </div>
+
+      {newSecret && (
+        <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-emerald-700 font-medium">Webhook signing secret (save now — shown once):</p>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setNewSecret(null)}>
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+          <div className="flex items-center gap-2">
+            <code className="text-xs bg-white px-2 py-1 rounded border flex-1 break-all">{newSecret.secret}</code>
+            <Button variant="ghost" size="sm" onClick={() => copySecret(newSecret.secret)}>
+              {secretCopied ? <Check className="h-4 w-4 text-emerald-600" /> : <Copy className="h-4 w-4" />}
+            </Button>
+          </div>
+          <p className="text-[10px] text-emerald-700">
+            Verify deliveries with HMAC-SHA256 of the raw body against the <code>X-PayAgent-Signature</code> header.
+          </p>
+        </div>
+      )}
+
+      {form && (
+        <div className="rounded-lg border border-border p-3 space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="webhook-url" className="text-xs">Endpoint URL</Label>
+            <Input
+              id="webhook-url"
+              placeholder="https://example.com/payagent/webhook"
+              value={form.url}
+              onChange={(e) => setForm({ ...form, url: e.target.value })}
+              className="h-8 text-sm font-mono"
+            />
+            <p className="text-[10px] text-muted-foreground">Must be HTTPS and publicly reachable.</p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs font-medium">Events</p>
+            <div className="flex flex-wrap gap-4">
+              {WEBHOOK_EVENTS.map(event => (
+                <div key={event} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`webhook-event-${event}`}
+                    checked={form.events.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                  />
+                  <Label htmlFor={`webhook-event-${event}`} className="text-xs font-normal">
+                    <code>{event}</code> <span className="text-muted-foreground">— {EVENT_LABELS[event]}</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              disabled={!formValid || saveMutation.isPending}
+              onClick={() => saveMutation.mutate({ ...form, url: form.url.trim() })}
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+              {form.id ? 'Save Changes' : 'Create Webhook'}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setForm(null)}>Cancel</Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" /> Loading webhooks...
+        </div>
+      ) : isError ? (
+        <p className="text-xs text-red-600">Failed to load webhooks.</p>
+      ) : !webhooks || webhooks.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No webhooks yet. Add one to get notified when your payment links are created or paid.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {webhooks.map(webhook => {
+            const outcome = testOutcomes[webhook.id];
+            const testing = testMutation.isPending && testMutation.variables === webhook.id;
+            return (
+              <div key={webhook.id} className="rounded-lg border border-border p-3 space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-sm font-mono break-all">{webhook.url}</p>
+                    <div className="flex flex-wrap items-center gap-1">
+                      {webhook.events.map(event => (
+                        <Badge key={event} variant="secondary" className="text-[10px]">{event}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-[10px] text-muted-foreground">
+                      Last success: {formatDate(webhook.last_success_at)}
+                      {webhook.failure_count > 0 && (
+                        <span className="text-red-600"> · {webhook.failure_count} failed deliveries (last {formatDate(webhook.last_failure_at)})</span>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Label htmlFor={`webhook-active-${webhook.id}`} className="text-xs text-muted-foreground">
+                      {webhook.active ? 'Enabled' : 'Disabled'}
+                    </Label>
+                    <Switch
+                      id={`webhook-active-${webhook.id}`}
+                      checked={webhook.active}
+                      disabled={toggleMutation.isPending && toggleMutation.variables?.id === webhook.id}
+                      onCheckedChange={(active) => toggleMutation.mutate({ id: webhook.id, active })}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-1 h-7 text-xs"
+                    disabled={testing}
+                    onClick={() => testMutation.mutate(webhook.id)}
+                  >
+                    {testing ? <Loader2 className="h-3 w-3 animate-spin" /> : <Send className="h-3 w-3" />}
+                    Send Test
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-1 h-7 text-xs"
+                    onClick={() => setForm({
+                      id: webhook.id,
+                      url: webhook.url,
+                      events: WEBHOOK_EVENTS.filter(e => webhook.events.includes(e)),
+                    })}
+                  >
+                    <Pencil className="h-3 w-3" /> Edit
+                  </Button>
+                  <Button
+                    variant={openLogId === webhook.id ? 'secondary' : 'outline'}
+                    size="sm"
+                    className="gap-1 h-7 text-xs"
+                    onClick={() => setOpenLogId(openLogId === webhook.id ? null : webhook.id)}
+                  >
+                    <History className="h-3 w-3" /> Deliveries
+                  </Button>
+                  {confirmDeleteId !== webhook.id ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1 h-7 text-xs text-red-600 hover:text-red-700"
+                      onClick={() => setConfirmDeleteId(webhook.id)}
+                    >
+                      <Trash2 className="h-3 w-3" /> Delete
+                    </Button>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-red-600 flex items-center gap-1"><AlertTriangle className="h-3 w-3" /> Delete this webhook?</span>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        className="h-7 text-xs"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate(webhook.id)}
+                      >
+                        {deleteMutation.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Yes, Delete'}
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setConfirmDeleteId(null)}>Cancel</Button>
+                    </div>
+                  )}
+                </div>
+
+                {outcome && (
+                  'error' in outcome ? (
+                    <div className="bg-red-50 border border-red-200 rounded p-2 text-xs text-red-700">
+                      {outcome.error}
+                    </div>
+                  ) : (
+                    <div className="bg-gray-50 border border-border rounded p-2 space-y-1">
+                      <div className="flex items-center gap-2 text-xs">
+                        <span className="text-muted-foreground">Test delivery:</span>
+                        <Badge className={`${responseColor(outcome.result.responseStatus)} border-0 text-[10px]`}>
+                          HTTP {outcome.result.responseStatus}
+                        </Badge>
+                        {outcome.result.durationMs !== null && (
+                          <span className="text-muted-foreground">{outcome.result.durationMs} ms</span>
+                        )}
+                      </div>
+                      {outcome.result.responseBody && (
+                        <pre className="text-[10px] font-mono whitespace-pre-wrap break-all max-h-40 overflow-auto">
+                          {outcome.result.responseBody}
+                        </pre>
+                      )}
+                    </div>
+                  )
+                )}
+
+                {openLogId === webhook.id && <WebhookDeliveryLog webhookId={webhook.id} />}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import { useMemo, useState } from "react";
+import {
+  EXPLORER_ENDPOINTS, buildExplorerRequest, explorerHeaders, missingFields, toCurl, toSdk,
+  type ExplorerEndpoint, type ExplorerValues
+} from "@/lib/apiExplorer";
+
+interface ExplorerResponse {
+  status: number;
+  statusText: string;
+  durationMs: number;
+  headers: [string, string][];
+  body: string;
+}
+
+const inputCls = "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm font-mono text-gray-800 focus:outline-none focus:border-blue-500";
+const labelCls = "block text-xs font-semibold text-gray-500 mb-1";
+
+const methodColor = (method: string) => (method === "POST" ? "text-green-600" : "text-blue-600");
+
+const statusColor = (status: number) => {
+  if (status < 300) return "bg-emerald-50 text-emerald-700";
+  if (status < 500) return "bg-amber-50 text-amber-700";
+  return "bg-red-50 text-red-700";
+};
+
+const authLabel = (endpoint: ExplorerEndpoint) =>
+  endpoint.auth === "hmac" ? "HMAC" : endpoint.auth === "optional-hmac" ? "HMAC optional" : "Public";
+
+const prettyBody = (text: string) => {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * "Try it" console for the Docs page. Requests are signed in the browser with
+ * src/lib/hmac.ts; the API secret is held in component state only and is never
+ * stored or included in copied snippets.
+ */
+export function ApiExplorer({ defaultBaseUrl }: { defaultBaseUrl: string }) {
+  const [baseUrl, setBaseUrl] = useState(defaultBaseUrl);
+  const [endpointId, setEndpointId] = useState(EXPLORER_ENDPOINTS[0].id);
+  const [values, setValues] = useState<ExplorerValues>({});
+  const [apiKeyId, setApiKeyId] = useState("");
+  const [apiSecret, setApiSecret] = useState("");
+  const [snippetTab, setSnippetTab] = useState<"curl" | "sdk">("curl");
+  const [sending, setSending] = useState(false);
+  const [response, setResponse] = useState<ExplorerResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const endpoint = EXPLORER_ENDPOINTS.find(e => e.id === endpointId) ?? EXPLORER_ENDPOINTS[0];
+  const request = useMemo(() => buildExplorerRequest(endpoint, values), [endpoint, values]);
+  const missing = missingFields(endpoint, values);
+  const credentials = apiKeyId.trim() && apiSecret.trim()
+    ? { apiKeyId: apiKeyId.trim(), apiSecret: apiSecret.trim() }
+    : null;
+  const needsCredentials = endpoint.auth === "hmac" && !credentials;
+
+  const curlPreview = toCurl(endpoint, request, baseUrl);
+  const sdkSnippet = toSdk(endpoint, request, baseUrl, apiKeyId.trim() || undefined);
+
+  const selectEndpoint = (id: string) => {
+    setEndpointId(id);
+    setValues({});
+    setResponse(null);
+    setError(null);
+  };
+
+  const send = async () => {
+    setSending(true);
+    setResponse(null);
+    setError(null);
+    try {
+      const headers = await explorerHeaders(endpoint, request, credentials);
+      const startedAt = performance.now();
+      const res = await fetch(`${baseUrl.replace(/\/$/, "")}${request.url}`, {
+        method: request.method,
+        headers,
+        body: request.bodyText || undefined,
+      });
+      const text = await res.text();
+      setResponse({
+        status: res.status,
+        statusText: res.statusText,
+        durationMs: Math.round(performance.now() - startedAt),
+        headers: Array.from(res.headers.entries()),
+        body: prettyBody(text),
+      });
+    } catch (err) {
+      setError(`${(err as Error).message}. Check the base URL, and that it allows requests from this origin (CORS).`);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const copy = async (kind: "curl" | "sdk") => {
+    let text = sdkSnippet ?? "";
+    if (kind === "curl") {
+      // Embed a fresh signature so the command runs as-is for the next 5 minutes
+      const headers = credentials ? await explorerHeaders(endpoint, request, credentials) : {};
+      text = toCurl(endpoint, request, baseUrl, headers);
+    }
+    await navigator.clipboard.writeText(text);
+    setCopied(kind);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  return (
+    <div className="border border-slate-200 rounded-[10px] my-6 overflow-hidden">
+      {/* Endpoint + base URL */}
+      <div className="bg-slate-50 border-b border-slate-200 p-4 grid grid-cols-2 gap-3 max-[600px]:grid-cols-1">
+        <div>
+          <label className={labelCls} htmlFor="explorer-endpoint">Endpoint</label>
+          <select
+            id="explorer-endpoint"
+            className={inputCls}
+            value={endpointId}
+            onChange={(e) => selectEndpoint(e.target.value)}
+          >
+            {EXPLORER_ENDPOINTS.map(e => (
+              <option key={e.id} value={e.id}>{e.method} {e.path}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelCls} htmlFor="explorer-base-url">Base URL</label>
+          <input id="explorer-base-url" className={inputCls} value={baseUrl} onChange={(e) => setBaseUrl(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="flex items-baseline gap-3 text-xs font-mono">
+          <span className={`${methodColor(endpoint.method)} font-bold`}>{endpoint.method}</span>
+          <span className="text-gray-500 break-all">{endpoint.path}</span>
+          <span className="ml-auto shrink-0 font-sans text-[11px] font-bold uppercase tracking-[0.8px] text-gray-400">{authLabel(endpoint)}</span>
+        </div>
+        <p className="text-sm text-gray-600">{endpoint.summary}</p>
+
+        {/* Credentials */}
+        {endpoint.auth !== "none" && (
+          <div className="grid grid-cols-2 gap-3 max-[600px]:grid-cols-1">
+            <div>
+              <label className={labelCls} htmlFor="explorer-key-id">API key ID</label>
+              <input
+                id="explorer-key-id"
+                className={inputCls}
+                placeholder="pk_live_..."
+                autoComplete="off"
+                value={apiKeyId}
+                onChange={(e) => setApiKeyId(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className={labelCls} htmlFor="explorer-secret">API secret</label>
+              <input
+                id="explorer-secret"
+                type="password"
+                className={inputCls}
+                placeholder="sk_live_..."
+                autoComplete="off"
+                value={apiSecret}
+                onChange={(e) => setApiSecret(e.target.value)}
+              />
+            </div>
+            <p className="col-span-2 max-[600px]:col-span-1 text-[12px] text-gray-400">
+              Kept in memory on this page only. Requests are signed locally; the secret is never sent.
+            </p>
+          </div>
+        )}
+
+        {/* Generated form */}
+        {endpoint.fields.length > 0 && (
+          <div className="grid grid-cols-2 gap-3 max-[600px]:grid-cols-1">
+            {endpoint.fields.map(field => (
+              <div key={field.name}>
+                <label className={labelCls} htmlFor={`explorer-${field.name}`}>
+                  {field.name}
+                  {field.required && <span className="text-red-500"> *</span>}
+                  <span className="font-normal text-gray-400"> · {field.in}</span>
+                </label>
+                {field.type === "select" ? (
+                  <select
+                    id={`explorer-${field.name}`}
+                    className={inputCls}
+                    value={values[field.name] ?? ""}
+                    onChange={(e) => setValues({ ...values, [field.name]: e.target.value })}
+                  >
+                    <option value="">{field.required ? "Select..." : "(default)"}</option>
+                    {field.options?.map(option => <option key={option} value={option}>{option}</option>)}
+                  </select>
+                ) : (
+                  <input
+                    id={`explorer-${field.name}`}
+                    className={inputCls}
+                    type={field.type === "number" ? "number" : "text"}
+                    placeholder={field.placeholder}
+                    value={values[field.name] ?? ""}
+                    onChange={(e) => setValues({ ...values, [field.name]: e.target.value })}
+                  />
+                )}
+                {field.description && <p className="text-[11px] text-gray-400 mt-1">{field.description}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          <button
+            className="rounded-md bg-blue-600 text-white text-sm font-semibold px-4 py-2 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={sending || missing.length > 0 || needsCredentials}
+            onClick={send}
+          >
+            {sending ? "Sending..." : "Send request"}
+          </button>
+          {missing.length > 0 ? (
+            <span className="text-xs text-gray-400">Required: {missing.join(", ")}</span>
+          ) : needsCredentials ? (
+            <span className="text-xs text-gray-400">Enter your API key ID and secret to sign this request</span>
+          ) : null}
+        </div>
+
+        {/* Response */}
+        {error && <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>}
+        {response && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-3 text-xs">
+              <span className={`font-bold rounded px-2 py-0.5 ${statusColor(response.status)}`}>
+                {response.status} {response.statusText}
+              </span>
+              <span className="text-gray-400">{response.durationMs} ms</span>
+            </div>
+            <details className="text-xs">
+              <summary className="cursor-pointer text-gray-500 font-semibold">Response headers ({response.headers.length})</summary>
+              <div className="mt-2 font-mono text-[12px] text-gray-600 space-y-0.5">
+                {response.headers.map(([name, value]) => (
+                  <div key={name} className="break-all"><span className="text-gray-400">{name}:</span> {value}</div>
+                ))}
+              </div>
+            </details>
+            <pre className="bg-slate-900 text-slate-200 rounded-lg px-5 py-4 overflow-x-auto font-mono text-[12px] leading-[1.6] max-h-96">
+              {response.body || "(empty body)"}
+            </pre>
+          </div>
+        )}
+
+        {/* Snippets */}
+        <div>
+          <div className="flex items-center gap-1 border-b border-slate-200">
+            {(["curl", "sdk"] as const).map(tab => (
+              <button
+                key={tab}
+                className={`px-3 py-1.5 text-xs font-semibold border-b-2 -mb-px ${
+                  snippetTab === tab ? "border-blue-600 text-blue-600" : "border-transparent text-gray-500 hover:text-blue-600"
+                }`}
+                onClick={() => setSnippetTab(tab)}
+              >
+                {tab === "curl" ? "cURL" : "SDK"}
+              </button>
+            ))}
+            <button
+              className="ml-auto text-xs font-semibold text-blue-600 hover:underline disabled:text-gray-300 disabled:no-underline"
+              disabled={snippetTab === "sdk" && !sdkSnippet}
+              onClick={() => copy(snippetTab)}
+            >
+              {copied === snippetTab ? "Copied!" : snippetTab === "curl" ? "Copy as cURL" : "Copy as SDK"}
+            </button>
+          </div>
+          {snippetTab === "curl" ? (
+            <>
+              <pre className="bg-slate-900 text-slate-200 rounded-lg px-5 py-4 mt-3 overflow-x-auto font-mono text-[12px] leading-[1.6]">{curlPreview}</pre>
+              {credentials && endpoint.auth !== "none" && (
+                <p className="text-[12px] text-gray-400">The copied command carries a fresh signature, valid for 5 minutes.</p>
+              )}
+            </>
+          ) : sdkSnippet ? (
+            <pre className="bg-slate-900 text-slate-200 rounded-lg px-5 py-4 mt-3 overflow-x-auto font-mono text-[12px] leading-[1.6]">{sdkSnippet}</pre>
+          ) : (
+            <p className="text-sm text-gray-500 mt-3">The SDK has no method for this endpoint yet — use the cURL snippet or sign the request yourself.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { MdSpaceDashboard } from "react-icons/md";
-import { IoLink, IoLogOut } from "react-icons/io5";
+import { IoLink, IoLogOut, IoChatbubbles } from "react-icons/io5";
 import { FaMoneyBill, FaRobot, FaGift } from "react-icons/fa";
 import { NavLink } from "@/components/NavLink";
 import { ConnectButton } from '@rainbow-me/rainbowkit';
@@ -21,6 +21,7 @@ const menuItems = [
   { title: "Transactions", url: "/transactions", icon: FaMoneyBill },
   { title: "Rewards", url: "/rewards", icon: FaGift },
   { title: "Agents", url: "/agents", icon: FaRobot },
+  { title: "Chat", url: "/chat", icon: IoChatbubbles },
 ];
 
 export function AppSidebar() {
@@ -11,6 +11,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { 
   Copy, 
   Loader2, 
@@ -19,11 +21,21 @@ import {
   Check,
   ArrowRight,
   ArrowLeft,
-  X
+  Coins,
+  X,
+  AlertCircle,
+  AlertTriangle
 } from "lucide-react";
 import { toast } from "sonner";
-import { createPaymentLink } from "@/lib/api";
+import { isAddress } from "viem";
+import { createPaymentLink, formatFiat, FIAT_CURRENCIES } from "@/lib/api";
 import { useAccount } from "wagmi";
+import { getNetwork, supportsToken } from "@/lib/networks";
+import { useNetworks } from "@/hooks/use-networks";
+import { useTokenMetadata } from "@/hooks/use-token-metadata";
+import { useEnsAddress } from "@/hooks/use-ens";
+import { useReceiverChecks } from "@/hooks/use-receiver-check";
+import { isEnsName } from "@/lib/ens";
 
 interface CreateLinkModalProps {
   open: boolean;
@@ -46,38 +58,74 @@ const TOKENS = [
   { symbol: "USDT", name: "Tether" },
   { symbol: "ETH", name: "Ethereum" },
   { symbol: "LCX", name: "LCX Token" },
+  { symbol: "POL", name: "Polygon" },
+  { symbol: "BNB", name: "BNB" },
 ];
 
-const NETWORKS = [
-  { name: "Ethereum Mainnet", short: "Ethereum", id: "ethereum" },
-  { name: "Base", short: "Base", id: "base" },
-  { name: "Sepolia (ETH Testnet)", short: "Sepolia", id: "sepolia" },
-];
+// Any ERC-20, picked by contract address on the network step
+const CUSTOM_TOKEN = "CUSTOM";
 
-// Map display name → canonical backend ID
-const NETWORK_ID_MAP: Record<string, string> = Object.fromEntries(
-  NETWORKS.map(n => [n.name, n.id])
-);
+// "Currency" option for amounts in token units
+const TOKEN_UNITS = "TOKEN";
 
-const TOKEN_NETWORK_SUPPORT: Record<string, string[]> = {
-  "USDC": ["Ethereum Mainnet", "Base", "Sepolia (ETH Testnet)"],
-  "USDT": ["Ethereum Mainnet", "Base", "Sepolia (ETH Testnet)"],
-  "ETH": ["Ethereum Mainnet", "Base", "Sepolia (ETH Testnet)"],
-  "LCX": ["Ethereum Mainnet", "Base", "Sepolia (ETH Testnet)"],
-};
+// Symbols the backend accepts for custom tokens
+const CUSTOM_SYMBOL_PATTERN = /^[A-Za-z0-9.$_-]{1,16}$/;
 
 export function CreateLinkModal({ open, onOpenChange, onCreateLink }: CreateLinkModalProps) {
   const [step, setStep] = useState<Step>("amount-token");
   const [amount, setAmount] = useState("");
-  const [selectedToken, setSelectedToken] = useState("");
-  const [selectedNetwork, setSelectedNetwork] = useState("");
+  // Fiat currency the amount is in; empty for token units. Converted at pay time by a locked quote
+  const [currency, setCurrency] = useState("");
+  // Tokens the payer can choose from, the one the amount is in first; a custom token is the only one
+  const [selectedTokens, setSelectedTokens] = useState<string[]>([]);
+  // Networks the payer can choose from; custom tokens live on a single network
+  const [selectedNetworks, setSelectedNetworks] = useState<string[]>([]);
+  const [customTokenAddress, setCustomTokenAddress] = useState("");
   const [expiresInDays, setExpiresInDays] = useState("");
   const [address, setAddress] = useState("");
+  // Optional per-network receivers on multi-network links; empty means "Receive to"
+  const [separateReceivers, setSeparateReceivers] = useState(false);
+  const [networkReceivers, setNetworkReceivers] = useState<Record<string, string>>({});
+  // Creator confirmed the receiver warnings (checksum, contract, not their wallet)
+  const [receiverConfirmed, setReceiverConfirmed] = useState(false);
   const [description, setDescription] = useState("");
   const [generatedLink, setGeneratedLink] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   
   const { address: walletAddress } = useAccount();
+  const networks = useNetworks();
+
+  const selectedToken = selectedTokens[0] ?? "";
+  const isCustomToken = selectedToken === CUSTOM_TOKEN;
+  const selectedNetwork = selectedNetworks[0] ?? "";
+  const customToken = useTokenMetadata(
+    isCustomToken ? selectedNetwork : null,
+    isCustomToken ? customTokenAddress.trim() : null
+  );
+  // "Receive to" takes an address or an ENS / Basename, resolved now and stored as an address
+  const receiverIsName = isEnsName(address);
+  const receiverName = useEnsAddress(receiverIsName ? address : null);
+  const tokenLabel = isCustomToken
+    ? customToken.data?.verifiedSymbol ?? customToken.data?.symbol ?? ""
+    : selectedToken;
+  const otherTokens = isCustomToken ? [] : selectedTokens.slice(1);
+  const amountLabel = currency
+    ? `${formatFiat(amount || 0, currency)} in ${[tokenLabel || "tokens", ...otherTokens].join(", ")}`
+    : `${amount} ${tokenLabel || "tokens"}${otherTokens.length > 0 ? ` (or ${otherTokens.join(", ")})` : ""}`;
+  const supportsTokens = (network: Parameters<typeof supportsToken>[0]) =>
+    selectedTokens.every((token) => supportsToken(network, token));
+  const receiver = receiverIsName ? receiverName.data : address.trim();
+  const multiNetwork = selectedNetworks.length > 1;
+  const receiverFor = (network: string) =>
+    (separateReceivers && networkReceivers[network]?.trim()) || receiver;
+  const receiverCheck = useReceiverChecks(
+    step === "details" ? selectedNetworks.map((network) => ({ network, receiver: receiverFor(network) })) : [],
+    walletAddress,
+    [tokenLabel, ...otherTokens].join(", "),
+    isCustomToken ? customToken.data?.address : null
+  );
+  const receiverErrors = receiverCheck.data?.errors ?? [];
+  const receiverWarnings = receiverCheck.data?.warnings ?? [];
 
   useEffect(() => {
     if (step === "details" && walletAddress && !address) {
@@ -90,18 +138,33 @@ export function CreateLinkModal({ open, onOpenChange, onCreateLink }: CreateLink
       toast.error("Please enter amount and select a token");
       return;
     }
-    const supportedNetworks = TOKEN_NETWORK_SUPPORT[selectedToken] || [];
-    if (selectedNetwork && !supportedNetworks.includes(selectedNetwork)) {
-      setSelectedNetwork("");
+    if (currency && isCustomToken) {
+      toast.error(`Custom tokens have no price, so they can't be requested in ${currency}`);
+      return;
     }
+    setSelectedNetworks((current) =>
+      isCustomToken
+        ? current.slice(0, 1)
+        : current.filter((network) => supportsTokens(getNetwork(network)))
+    );
     setStep("network");
   };
 
   const handleContinueToExpiration = () => {
-    if (!selectedNetwork) {
+    if (selectedNetworks.length === 0) {
       toast.error("Please select a network");
       return;
     }
+    if (isCustomToken) {
+      if (!customToken.data) {
+        toast.error("Enter the address of an ERC-20 token on this network");
+        return;
+      }
+      if (!CUSTOM_SYMBOL_PATTERN.test(tokenLabel)) {
+        toast.error("This token has no usable symbol, so it can't be requested");
+        return;
+      }
+    }
     setStep("expiration");
   };
 
@@ -119,17 +182,42 @@ export function CreateLinkModal({ open, onOpenChange, onCreateLink }: CreateLink
       return;
     }
 
+    if (receiverIsName && !receiverName.data) {
+      toast.error(receiverName.isFetching ? "Still resolving the name" : `${address.trim()} does not resolve to an address`);
+      return;
+    }
+    if (!receiverCheck.data) {
+      toast.error(receiverCheck.isError ? "Couldn't check the receiver address, try again" : "Still checking the receiver address");
+      return;
+    }
+    if (receiverErrors.length > 0) {
+      toast.error(receiverErrors[0]);
+      return;
+    }
+    if (receiverWarnings.length > 0 && !receiverConfirmed) {
+      toast.error("Confirm the receiver address before creating the link");
+      return;
+    }
+
     setIsLoading(true);
 
-    try {
-      // Map display name to canonical backend ID (e.g. "Sepolia (ETH Testnet)" → "sepolia")
-      const canonicalNetwork = NETWORK_ID_MAP[selectedNetwork] || selectedNetwork.toLowerCase();
+    // Only receivers that differ from "Receive to" are stored per network
+    const overrides = Object.fromEntries(
+      selectedNetworks
+        .map((network) => [network, receiverFor(network)])
+        .filter(([, networkReceiver]) => networkReceiver.toLowerCase() !== receiver.toLowerCase())
+    );
 
+    try {
       const result = await createPaymentLink({
-        token: selectedToken,
+        token: [tokenLabel, ...otherTokens],
+        tokenAddress: isCustomToken ? customToken.data?.address : undefined,
         amount,
-        receiver: address,
-        network: canonicalNetwork,
+        currency: currency || undefined,
+        receiver,
+        receiverName: receiverIsName ? address.trim() : undefined,
+        network: selectedNetworks,
+        receivers: multiNetwork && Object.keys(overrides).length > 0 ? overrides : undefined,
         expiresInDays: parseInt(expiresInDays),
         description,
         creatorWallet: walletAddress,
@@ -140,11 +228,11 @@ export function CreateLinkModal({ open, onOpenChange, onCreateLink }: CreateLink
 
       if (onCreateLink) {
         onCreateLink({
-          address,
+          address: receiver,
           description,
           amount,
-          token: selectedToken,
-          network: canonicalNetwork,
+          token: [tokenLabel, ...otherTokens].join(","),
+          network: selectedNetworks.join(","),
           expiresInDays: parseInt(expiresInDays),
           link: frontendUrl,
         });
@@ -174,10 +262,15 @@ export function CreateLinkModal({ open, onOpenChange, onCreateLink }: CreateLink
   const handleClose = () => {
     setStep("amount-token");
     setAmount("");
-    setSelectedToken("");
-    setSelectedNetwork("");
+    setCurrency("");
+    setSelectedTokens([]);
+    setSelectedNetworks([]);
+    setCustomTokenAddress("");
     setExpiresInDays("");
     setAddress("");
+    setSeparateReceivers(false);
+    setNetworkReceivers({});
+    setReceiverConfirmed(false);
     setDescription("");
     setGeneratedLink("");
     onOpenChange(false);
@@ -222,24 +315,47 @@ export function CreateLinkModal({ open, onOpenChange, onCreateLink }: CreateLink
                     }}
                     className="h-11 text-lg font-semibold flex-1 rounded-lg [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
                   />
+                  <Select value={currency || TOKEN_UNITS} onValueChange={(v) => setCurrency(v === TOKEN_UNITS ? "" : v)}>
+                    <SelectTrigger className="h-11 w-[96px] rounded-lg text-sm"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={TOKEN_UNITS}>Token</SelectItem>
+                      {FIAT_CURRENCIES.map((code) => <SelectItem key={code} value={code}>{code}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
                   {selectedToken && (
                     <div className="h-11 px-4 bg-blue-50 text-blue-700 rounded-lg flex items-center">
-                      <span className="font-medium text-sm">{selectedToken}</span>
+                      <span className="font-medium text-sm">{isCustomToken ? "Custom" : selectedToken}</span>
                     </div>
                   )}
                 </div>
+                {currency && (
+                  <p className="text-xs text-muted-foreground">
+                    The payer pays the token equivalent, at a price quote locked for a few minutes
+                  </p>
+                )}
               </div>
 
               <div className="space-y-2">
-                <Label className="text-sm">Token</Label>
+                <Label className="text-sm">{currency ? "Paid in" : "Token"}</Label>
+                <p className="text-xs text-muted-foreground">
+                  {currency
+                    ? "Pick one or more; the payer chooses which one to pay in"
+                    : "Pick one or more; the amount is in the first, others are paid at its price"}
+                </p>
                 <div className="grid grid-cols-2 gap-2">
                   {TOKENS.map((token) => (
                     <button
                       key={token.symbol}
                       type="button"
-                      onClick={() => setSelectedToken(token.symbol)}
+                      onClick={() =>
+                        setSelectedTokens((current) =>
+                          current.includes(token.symbol)
+                            ? current.filter((symbol) => symbol !== token.symbol)
+                            : [...current.filter((symbol) => symbol !== CUSTOM_TOKEN), token.symbol]
+                        )
+                      }
                       className={`flex items-center gap-3 p-3 rounded-lg border transition-colors ${
-                        selectedToken === token.symbol
+                        selectedTokens.includes(token.symbol)
                           ? "border-blue-600 bg-blue-50"
                           : "border-border hover:border-blue-300"
                       }`}
@@ -260,6 +376,23 @@ export function CreateLinkModal({ open, onOpenChange, onCreateLink }: CreateLink
                       </div>
                     </button>
                   ))}
+                  <button
+                    type="button"
+                    onClick={() => setSelectedTokens(isCustomToken ? [] : [CUSTOM_TOKEN])}
+                    className={`flex items-center gap-3 p-3 rounded-lg border transition-colors ${
+                      isCustomToken
+                        ? "border-blue-600 bg-blue-50"
+                        : "border-border hover:border-blue-300"
+                    }`}
+                  >
+                    <div className="w-8 h-8 rounded-md bg-slate-100 flex items-center justify-center">
+                      <Coins className="w-4 h-4 text-muted-foreground" />
+                    </div>
+                    <div className="text-left">
+                      <p className="font-medium text-sm">Custom</p>
+                      <p className="text-[10px] text-muted-foreground">Any ERC-20</p>
+                    </div>
+                  </button>
                 </div>
               </div>
             </div>
@@ -270,16 +403,18 @@ export function CreateLinkModal({ open, onOpenChange, onCreateLink }: CreateLink
             <div className="space-y-5">
               <div className="bg-blue-50 rounded-lg p-3 flex items-center justify-between">
                 <span className="text-sm text-muted-foreground">Amount</span>
-                <span className="font-semibold text-blue-700">{amount} {selectedToken}</span>
+                <span className="font-semibold text-blue-700">{amountLabel}</span>
               </div>
 
               <div className="space-y-2">
-                <Label className="text-sm">Network</Label>
+                <Label className="text-sm">{isCustomToken ? "Network" : "Networks"}</Label>
+                {!isCustomToken && (
+                  <p className="text-xs text-muted-foreground">Pick one or more; the payer chooses which one to pay on</p>
+                )}
                 <div className="space-y-2">
-                  {NETWORKS.map((network) => {
-                    const isSelected = selectedNetwork === network.name;
-                    const supportedNetworks = TOKEN_NETWORK_SUPPORT[selectedToken] || [];
-                    const isDisabled = !supportedNetworks.includes(network.name);
+                  {networks.map((network) => {
+                    const isSelected = selectedNetworks.includes(network.name);
+                    const isDisabled = !isCustomToken && !supportsTokens(network);
                     
                     return (
                       <button
@@ -288,8 +423,12 @@ export function CreateLinkModal({ open, onOpenChange, onCreateLink }: CreateLink
                         disabled={isDisabled}
                         onClick={() => {
                           if (isDisabled) return;
-                          setSelectedNetwork(
-                            isSelected ? "" : network.name
+                          setSelectedNetworks((current) =>
+                            isSelected
+                              ? current.filter((name) => name !== network.name)
+                              : isCustomToken
+                              ? [network.name]
+                              : [...current, network.name]
                           );
                         }}
                         className={`w-full flex items-center justify-between p-4 rounded-lg border transition-colors ${
@@ -301,7 +440,7 @@ export function CreateLinkModal({ open, onOpenChange, onCreateLink }: CreateLink
                         }`}
                       >
                         <span className={`font-medium text-sm ${isDisabled ? "text-muted-foreground" : ""}`}>
-                          {network.name}
+                          {network.displayName}
                         </span>
                         <div className={`w-5 h-5 rounded-full border-2 flex items-center justify-center ${
                           isSelected ? "border-blue-600 bg-blue-600" : "border-slate-300"
@@ -313,6 +452,43 @@ export function CreateLinkModal({ open, onOpenChange, onCreateLink }: CreateLink
                   })}
                 </div>
               </div>
+
+              {isCustomToken && (
+                <div className="space-y-2">
+                  <Label htmlFor="token-address" className="text-sm">Token contract</Label>
+                  <Input
+                    id="token-address"
+                    placeholder="0x..."
+                    value={customTokenAddress}
+                    disabled={!selectedNetwork}
+                    onChange={(e) => setCustomTokenAddress(e.target.value)}
+                    className="font-mono text-sm h-11 rounded-lg"
+                  />
+                  {!selectedNetwork ? (
+                    <p className="text-xs text-muted-foreground">Select the network the token is deployed on</p>
+                  ) : customTokenAddress.trim() && !isAddress(customTokenAddress.trim()) ? (
+                    <p className="text-xs text-red-600">Enter a 0x contract address</p>
+                  ) : customToken.isFetching ? (
+                    <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      Reading token contract...
+                    </p>
+                  ) : customToken.isError ? (
+                    <p className="text-xs text-red-600">Not an ERC-20 token on {getNetwork(selectedNetwork).displayName}</p>
+                  ) : customToken.data ? (
+                    <div className="text-xs space-y-0.5">
+                      <p className="font-medium">
+                        {customToken.data.name ?? "Unnamed token"} ({customToken.data.symbol ?? "no symbol"}) · {customToken.data.decimals} decimals
+                      </p>
+                      {customToken.data.verifiedSymbol ? (
+                        <p className="text-emerald-600">Verified token</p>
+                      ) : (
+                        <p className="text-amber-600">Unknown token: payers will be asked to double-check the contract</p>
+                      )}
+                    </div>
+                  ) : null}
+                </div>
+              )}
             </div>
           )}
 
@@ -321,7 +497,7 @@ export function CreateLinkModal({ open, onOpenChange, onCreateLink }: CreateLink
             <div className="space-y-5">
               <div className="bg-blue-50 rounded-lg p-3 flex items-center justify-between">
                 <span className="text-sm text-muted-foreground">Amount</span>
-                <span className="font-semibold text-blue-700">{amount} {selectedToken}</span>
+                <span className="font-semibold text-blue-700">{amountLabel}</span>
               </div>
 
               <div className="space-y-2">
@@ -361,8 +537,10 @@ export function CreateLinkModal({ open, onOpenChange, onCreateLink }: CreateLink
                   <span className="text-xs text-muted-foreground">Amount</span>
                   <span className="text-xs text-muted-foreground">{expiresInDays === "1" ? "24h" : `${expiresInDays} days`}</span>
                 </div>
-                <p className="text-2xl font-heading font-bold text-blue-700">{amount} {selectedToken}</p>
-                <p className="text-xs text-muted-foreground mt-1">{selectedNetwork}</p>
+                <p className="text-2xl font-heading font-bold text-blue-700">{amountLabel}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {selectedNetworks.map((network) => getNetwork(network).displayName).join(", ")}
+                </p>
               </div>
 
               <div className="space-y-2">
@@ -372,11 +550,82 @@ export function CreateLinkModal({ open, onOpenChange, onCreateLink }: CreateLink
                 </Label>
                 <Input
                   id="address"
-                  placeholder="0x..."
+                  placeholder="0x... or name.eth"
                   value={address}
-                  onChange={(e) => setAddress(e.target.value)}
+                  onChange={(e) => {
+                    setAddress(e.target.value);
+                    setReceiverConfirmed(false);
+                  }}
                   className="font-mono text-sm h-11 rounded-lg"
                 />
+                {receiverIsName && (
+                  <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                    {receiverName.isFetching ? (
+                      <>
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                        Resolving...
+                      </>
+                    ) : receiverName.data ? (
+                      <span className="font-mono break-all">{receiverName.data}</span>
+                    ) : (
+                      <span className="text-destructive">This name does not resolve to an address</span>
+                    )}
+                  </p>
+                )}
+                {multiNetwork && (
+                  <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer pt-1">
+                    <Checkbox
+                      checked={separateReceivers}
+                      onCheckedChange={(checked) => {
+                        setSeparateReceivers(checked === true);
+                        setReceiverConfirmed(false);
+                      }}
+                    />
+                    Different address per network
+                  </label>
+                )}
+                {multiNetwork && separateReceivers && (
+                  <div className="space-y-2">
+                    {selectedNetworks.map((network) => (
+                      <div key={network} className="flex items-center gap-2">
+                        <span className="w-24 shrink-0 text-xs text-muted-foreground">{getNetwork(network).displayName}</span>
+                        <Input
+                          placeholder={receiver || "0x..."}
+                          value={networkReceivers[network] ?? ""}
+                          onChange={(e) => {
+                            setNetworkReceivers((current) => ({ ...current, [network]: e.target.value }));
+                            setReceiverConfirmed(false);
+                          }}
+                          className="font-mono text-xs h-9 rounded-lg"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {receiverErrors.map((error) => (
+                  <div key={error} className="flex items-start gap-2 bg-red-50 p-2.5 rounded-lg border border-red-200">
+                    <AlertCircle className="h-3.5 w-3.5 text-red-500 mt-0.5 shrink-0" />
+                    <p className="text-xs text-red-700">{error}</p>
+                  </div>
+                ))}
+                {receiverErrors.length === 0 && receiverWarnings.length > 0 && (
+                  <div className="bg-amber-50 p-2.5 rounded-lg border border-amber-200 space-y-2">
+                    {receiverWarnings.map((warning) => (
+                      <div key={warning} className="flex items-start gap-2">
+                        <AlertTriangle className="h-3.5 w-3.5 text-amber-600 mt-0.5 shrink-0" />
+                        <p className="text-xs text-amber-800">{warning}</p>
+                      </div>
+                    ))}
+                    <label className="flex items-center gap-2 text-xs font-medium text-amber-900 cursor-pointer">
+                      <Checkbox
+                        checked={receiverConfirmed}
+                        onCheckedChange={(checked) => setReceiverConfirmed(checked === true)}
+                        className="border-amber-600 data-[state=checked]:bg-amber-600"
+                      />
+                      I've checked this address
+                    </label>
+                  </div>
+                )}
               </div>
 
               <div className="space-y-2">
@@ -403,7 +652,7 @@ export function CreateLinkModal({ open, onOpenChange, onCreateLink }: CreateLink
                   <Check className="h-7 w-7 text-emerald-600" />
                 </div>
                 <p className="text-sm text-muted-foreground">
-                  Share this link to receive {amount} {selectedToken}
+                  Share this link to receive {amountLabel}
                 </p>
               </div>
 
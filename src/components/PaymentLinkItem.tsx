@@ -21,19 +21,27 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { deletePaymentRequest } from "@/lib/api";
+import { deletePaymentRequest, formatLinkAmount, type PriceQuote } from "@/lib/api";
+import { AddressIdentity } from "@/components/AddressIdentity";
 
 interface PaymentLinkItemProps {
   id: string;
   title: string;
   amount: string;
+  /** Comma-separated accepted tokens while pending */
   token: string;
+  /** Fiat currency `amount` is in, for fiat-denominated links */
+  currency?: string | null;
+  /** Quote a paid link was paid at */
+  quote?: PriceQuote | null;
   status: 'PENDING' | 'PAID' | 'EXPIRED' | 'CANCELLED';
   link: string;
+  /** Wallet the link pays out to */
+  receiver?: string;
   onDelete?: () => void;
 }
 
-export function PaymentLinkItem({ id, amount, token, status, link, onDelete }: PaymentLinkItemProps) {
+export function PaymentLinkItem({ id, amount, token, currency, quote, status, link, receiver, onDelete }: PaymentLinkItemProps) {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const router = useRouter();
@@ -110,9 +118,10 @@ export function PaymentLinkItem({ id, amount, token, status, link, onDelete }: P
           </div>
           <div>
             <div className="flex items-center gap-2">
-              <p className="text-sm font-semibold text-foreground">{amount} {token}</p>
+              <p className="text-sm font-semibold text-foreground">{formatLinkAmount({ amount, token, currency, quote, status })}</p>
               {getStatusBadge()}
             </div>
+            {receiver && <AddressIdentity address={receiver} className="mt-1" />}
           </div>
         </div>
         <div className="flex items-center gap-1 opacity-60 group-hover:opacity-100 transition-opacity">
@@ -156,7 +165,7 @@ export function PaymentLinkItem({ id, amount, token, status, link, onDelete }: P
           <AlertDialogHeader>
             <AlertDialogTitle className="font-heading">Remove Payment Link?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete the {amount} {token} payment link.
+              This will permanently delete the {formatLinkAmount({ amount, token, currency, quote, status })} payment link.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -1,4 +1,5 @@
 import { ArrowUpRight, ArrowDownLeft, Clock, CheckCircle2, XCircle } from "lucide-react";
+import { AddressIdentity } from "@/components/AddressIdentity";
 
 interface TransactionItemProps {
   type: "sent" | "received";
@@ -6,6 +7,8 @@ interface TransactionItemProps {
   amount: string;
   description: string;
   date: string;
+  /** Receiver of a sent payment or payer of a received one */
+  counterparty?: string | null;
 }
 
 const statusConfig = {
@@ -26,7 +29,7 @@ const statusConfig = {
   },
 };
 
-export function TransactionItem({ type, status, amount, description, date }: TransactionItemProps) {
+export function TransactionItem({ type, status, amount, description, date, counterparty }: TransactionItemProps) {
   const StatusIcon = statusConfig[status].icon;
   const TypeIcon = type === "sent" ? ArrowUpRight : ArrowDownLeft;
 
@@ -39,6 +42,7 @@ export function TransactionItem({ type, status, amount, description, date }: Tra
         <div>
           <p className="text-sm font-medium text-foreground">{description}</p>
           <p className="text-xs text-muted-foreground">{date}</p>
+          {counterparty && <AddressIdentity address={counterparty} className="mt-1" />}
         </div>
       </div>
       <div className="flex items-center gap-3">
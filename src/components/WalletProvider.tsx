@@ -1,14 +1,14 @@
 import '@rainbow-me/rainbowkit/styles.css';
 import { getDefaultConfig, RainbowKitProvider } from '@rainbow-me/rainbowkit';
 import { WagmiProvider } from 'wagmi';
-import { mainnet, base, sepolia } from 'wagmi/chains';
+import { mainnet, base, polygon, bsc, sepolia } from 'wagmi/chains';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ReactNode } from 'react';
 
 const config = getDefaultConfig({
   appName: 'Payme - Your Simple Payment Hub',
   projectId: process.env.NEXT_PUBLIC_WALLET_CONNECT_PROJECT_ID || 'a3c4e5f6g7h8i9j0k1l2m3n4o5p6q7r8',
-  chains: [mainnet, base, sepolia],
+  chains: [mainnet, base, polygon, bsc, sepolia],
   ssr: true,
 });
 
@@ -0,0 +1,177 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAccount, useAccountEffect, useSignMessage } from "wagmi";
+import {
+  walletLogin, restoreSession, logout, clearJwt, isSessionExpired,
+  getAgentByWallet, type WalletLoginAgent
+} from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { WalletSessionContext, type WalletSessionContextValue, type WalletSessionStatus } from "@/hooks/use-wallet-session";
+
+/**
+ * Dashboard session shared by every view that calls the authenticated API.
+ *
+ * - Resumes the session cookie for the connected wallet
+ * - Signs out when the wallet disconnects or switches to a different address
+ * - Keeps tabs in sync through a BroadcastChannel
+ * - `withSession` re-authenticates once when a request fails with an expired session
+ */
+
+type SessionMessage =
+  | { type: 'signed-in'; wallet_address: string }
+  | { type: 'signed-out' };
+
+const SESSION_CHANNEL = 'payagent-session';
+
+export function WalletSessionProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { address, chainId } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const walletAddress = address ? address.toLowerCase() : null;
+
+  const [status, setStatus] = useState<WalletSessionStatus>('disconnected');
+  const [agent, setAgent] = useState<WalletLoginAgent | null>(null);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const reauthRef = useRef<Promise<void> | null>(null);
+
+  const broadcast = useCallback((message: SessionMessage) => {
+    channelRef.current?.postMessage(message);
+  }, []);
+
+  const signOut = useCallback(async () => {
+    setStatus(current => (current === 'disconnected' ? current : 'signed-out'));
+    setAgent(null);
+    try {
+      await logout();
+    } catch {
+      // Cookie is dropped client-side regardless; revocation is best effort
+    }
+    broadcast({ type: 'signed-out' });
+  }, [broadcast]);
+
+  // Pick up the session cookie for the connected wallet; a session held by another address is revoked
+  const resume = useCallback(async (wallet: string, signal?: AbortSignal) => {
+    setStatus('restoring');
+    try {
+      const session = await restoreSession(signal);
+      if (signal?.aborted) return;
+      if (session.authenticated && session.wallet_address !== wallet) {
+        await signOut();
+        return;
+      }
+      if (!session.authenticated) {
+        setStatus('signed-out');
+        setAgent(null);
+        return;
+      }
+      setStatus('signed-in');
+      setAgent(await getAgentByWallet(wallet, signal).catch(() => null));
+    } catch {
+      if (!signal?.aborted) setStatus('signed-out');
+    }
+  }, [signOut]);
+
+  useEffect(() => {
+    if (!walletAddress) {
+      setStatus('disconnected');
+      setAgent(null);
+      return;
+    }
+    const controller = new AbortController();
+    resume(walletAddress, controller.signal);
+    return () => controller.abort();
+  }, [walletAddress, resume]);
+
+  // Revoke session on wallet disconnect (not on the initial not-yet-reconnected render)
+  useAccountEffect({
+    onDisconnect() {
+      signOut();
+    },
+  });
+
+  // Follow sign-in / sign-out from other tabs (they share the session cookie)
+  useEffect(() => {
+    if (typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(SESSION_CHANNEL);
+    channelRef.current = channel;
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const channel = channelRef.current;
+    if (!channel) return;
+    const onMessage = (event: MessageEvent<SessionMessage>) => {
+      const message = event.data;
+      if (message.type === 'signed-in' && message.wallet_address === walletAddress) {
+        resume(walletAddress);
+        queryClient.invalidateQueries({ queryKey: ['agentByWallet'] });
+        return;
+      }
+      // Signed out elsewhere, or the shared cookie now belongs to another wallet
+      clearJwt();
+      setAgent(null);
+      setStatus(current => (current === 'disconnected' ? current : 'signed-out'));
+    };
+    channel.addEventListener('message', onMessage);
+    return () => channel.removeEventListener('message', onMessage);
+  }, [walletAddress, resume, queryClient]);
+
+  const authenticate = useCallback(async () => {
+    if (!walletAddress) throw new Error('Connect your wallet first.');
+    setStatus('signing-in');
+    try {
+      const loggedIn = await walletLogin(
+        walletAddress,
+        (message: string) => signMessageAsync({ account: walletAddress as `0x${string}`, message }),
+        chainId
+      );
+      setAgent(loggedIn);
+      setStatus('signed-in');
+      broadcast({ type: 'signed-in', wallet_address: walletAddress });
+      queryClient.invalidateQueries({ queryKey: ['agentByWallet'] });
+    } catch (err) {
+      setStatus('signed-out');
+      throw err;
+    }
+  }, [walletAddress, chainId, signMessageAsync, broadcast, queryClient]);
+
+  const signIn = useCallback(async () => {
+    try {
+      await authenticate();
+      toast({ title: 'Signed in', description: 'Dashboard authenticated via wallet signature.' });
+      return true;
+    } catch (err) {
+      toast({ title: 'Login failed', description: (err as Error).message || 'Unknown error', variant: 'destructive' });
+      return false;
+    }
+  }, [authenticate, toast]);
+
+  const withSession = useCallback(async <T,>(request: () => Promise<T>): Promise<T> => {
+    try {
+      return await request();
+    } catch (err) {
+      if (!isSessionExpired(err)) throw err;
+
+      // Concurrent failures share one signature prompt
+      if (!reauthRef.current) {
+        toast({ title: 'Session expired', description: 'Sign the message in your wallet to continue.' });
+        reauthRef.current = authenticate().finally(() => { reauthRef.current = null; });
+      }
+      await reauthRef.current;
+      return request();
+    }
+  }, [authenticate, toast]);
+
+  const value = useMemo<WalletSessionContextValue>(
+    () => ({ status, walletAddress, agent, signIn, signOut, withSession }),
+    [status, walletAddress, agent, signIn, signOut, withSession]
+  );
+
+  return <WalletSessionContext.Provider value={value}>{children}</WalletSessionContext.Provider>;
+}
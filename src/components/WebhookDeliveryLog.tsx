@@ -0,0 +1,256 @@
+import { Fragment, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronLeft, ChevronRight, Loader2, RefreshCw, RotateCcw } from "lucide-react";
+import {
+  getWebhookDeliveries, redeliverWebhookDelivery, redeliverFailedWebhookDeliveries,
+  WEBHOOK_EVENTS, type WebhookDeliveriesResponse, type WebhookDeliveryFilters
+} from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { useWalletSession } from "@/hooks/use-wallet-session";
+
+const RANGES = {
+  '1h': { label: 'Last hour', ms: 60 * 60 * 1000 },
+  '24h': { label: 'Last 24 hours', ms: 24 * 60 * 60 * 1000 },
+  '7d': { label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  '30d': { label: 'Last 30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+} as const;
+
+type RangeKey = keyof typeof RANGES;
+type StatusFilter = 'all' | 'success' | 'failed';
+
+const formatDate = (timestamp: number) => {
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+};
+
+const statusColor = (success: boolean, code: number | null) => {
+  if (success) return 'bg-emerald-100 text-emerald-700';
+  if (!code) return 'bg-gray-100 text-gray-700';
+  if (code < 500) return 'bg-yellow-100 text-yellow-700';
+  return 'bg-red-100 text-red-700';
+};
+
+/**
+ * Delivery attempts of one webhook, with filters and redelivery of a single
+ * event or of every failed event in the selected time range.
+ */
+export function WebhookDeliveryLog({ webhookId }: { webhookId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { withSession } = useWalletSession();
+
+  const [status, setStatus] = useState<StatusFilter>('all');
+  const [event, setEvent] = useState<string>('all');
+  const [range, setRange] = useState<RangeKey>('24h');
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const limit = 20;
+
+  // Range start is fixed per filter change so paging stays stable
+  const [since, setSince] = useState(() => Date.now() - RANGES['24h'].ms);
+
+  const filters: WebhookDeliveryFilters = {
+    status: status === 'all' ? undefined : status,
+    event: event === 'all' ? undefined : event,
+    since,
+    limit,
+    offset: (page - 1) * limit,
+  };
+
+  const { data, isLoading, isError, isFetching, refetch } = useQuery<WebhookDeliveriesResponse>({
+    queryKey: ['webhookDeliveries', webhookId, filters],
+    queryFn: ({ signal }) => withSession(() => getWebhookDeliveries(webhookId, filters, signal)),
+    staleTime: 5000,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['webhookDeliveries', webhookId] });
+    queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+  };
+
+  const redeliverMutation = useMutation({
+    mutationFn: (deliveryId: string) => withSession(() => redeliverWebhookDelivery(webhookId, deliveryId)),
+    onSuccess: (delivery) => {
+      toast({
+        title: delivery.success ? 'Event redelivered' : 'Redelivery failed',
+        description: delivery.success
+          ? `Receiver answered HTTP ${delivery.status_code}.`
+          : delivery.error || `Receiver answered HTTP ${delivery.status_code}.`,
+        variant: delivery.success ? undefined : 'destructive',
+      });
+      invalidate();
+    },
+    onError: (err: Error) => {
+      toast({ title: 'Failed to redeliver', description: err.message, variant: 'destructive' });
+    }
+  });
+
+  const bulkMutation = useMutation({
+    mutationFn: () => withSession(() => redeliverFailedWebhookDeliveries(webhookId, { since, until: Date.now() })),
+    onSuccess: (result) => {
+      toast({
+        title: result.queued > 0 ? 'Redelivery started' : 'Nothing to redeliver',
+        description: result.queued > 0
+          ? `${result.queued} failed event${result.queued === 1 ? '' : 's'} queued${result.queued >= result.limit ? ` (limit ${result.limit})` : ''}. Refresh to see the results.`
+          : `No undelivered events in the ${RANGES[range].label.toLowerCase()}.`,
+      });
+      // Attempts run in the background; give the first ones a moment before refreshing
+      setTimeout(invalidate, 3000);
+    },
+    onError: (err: Error) => {
+      toast({ title: 'Failed to redeliver', description: err.message, variant: 'destructive' });
+    }
+  });
+
+  const changeRange = (value: RangeKey) => {
+    setRange(value);
+    setSince(Date.now() - RANGES[value].ms);
+    setPage(1);
+  };
+
+  const totalPages = data ? Math.ceil(data.total / limit) : 0;
+
+  return (
+    <div className="rounded border border-border p-2 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={status} onValueChange={(v) => { setStatus(v as StatusFilter); setPage(1); }}>
+          <SelectTrigger className="h-7 w-[120px] text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            <SelectItem value="success">Delivered</SelectItem>
+            <SelectItem value="failed">Failed</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={event} onValueChange={(v) => { setEvent(v); setPage(1); }}>
+          <SelectTrigger className="h-7 w-[150px] text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All events</SelectItem>
+            {WEBHOOK_EVENTS.map(e => <SelectItem key={e} value={e}>{e}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={range} onValueChange={(v) => changeRange(v as RangeKey)}>
+          <SelectTrigger className="h-7 w-[130px] text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {(Object.keys(RANGES) as RangeKey[]).map(key => (
+              <SelectItem key={key} value={key}>{RANGES[key].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={isFetching} onClick={() => refetch()}>
+          <RefreshCw className={`h-3 w-3 ${isFetching ? 'animate-spin' : ''}`} />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1 h-7 text-xs ml-auto"
+          disabled={bulkMutation.isPending}
+          onClick={() => bulkMutation.mutate()}
+        >
+          {bulkMutation.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3" />}
+          Redeliver all failed
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground py-4 justify-center">
+          <Loader2 className="h-3 w-3 animate-spin" /> Loading deliveries...
+        </div>
+      ) : isError ? (
+        <p className="text-xs text-red-600 py-2 text-center">Failed to load deliveries.</p>
+      ) : !data || data.deliveries.length === 0 ? (
+        <p className="text-xs text-muted-foreground py-2 text-center">No delivery attempts match these filters.</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs">Time</TableHead>
+                  <TableHead className="text-xs">Event</TableHead>
+                  <TableHead className="text-xs">Attempt</TableHead>
+                  <TableHead className="text-xs">Status</TableHead>
+                  <TableHead className="text-xs">Latency</TableHead>
+                  <TableHead className="text-xs" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.deliveries.map(delivery => (
+                  <Fragment key={delivery.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                    >
+                      <TableCell className="text-xs whitespace-nowrap">{formatDate(delivery.created_at)}</TableCell>
+                      <TableCell>
+                        <code className="text-xs">{delivery.event}</code>
+                        <p className="text-[10px] text-muted-foreground font-mono">{delivery.event_id}</p>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        #{delivery.attempt}{delivery.redelivery && <span className="text-muted-foreground"> (manual)</span>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={`${statusColor(delivery.success, delivery.status_code)} border-0 text-[10px]`}>
+                          {delivery.status_code ?? 'No response'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {delivery.latency_ms !== null ? `${delivery.latency_ms} ms` : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="gap-1 h-6 text-xs"
+                          disabled={redeliverMutation.isPending && redeliverMutation.variables === delivery.id}
+                          onClick={(e) => { e.stopPropagation(); redeliverMutation.mutate(delivery.id); }}
+                        >
+                          {redeliverMutation.isPending && redeliverMutation.variables === delivery.id
+                            ? <Loader2 className="h-3 w-3 animate-spin" />
+                            : <RotateCcw className="h-3 w-3" />}
+                          Redeliver
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                    {expandedId === delivery.id && (
+                      <TableRow className="hover:bg-transparent">
+                        <TableCell colSpan={6} className="bg-gray-50 space-y-1">
+                          {delivery.error && <p className="text-xs text-red-600">{delivery.error}</p>}
+                          <pre className="text-[10px] font-mono whitespace-pre-wrap break-all max-h-40 overflow-auto">
+                            {delivery.response_snippet || 'Empty response body'}
+                          </pre>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>Page {page} of {totalPages} · {data.total} attempts</span>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={page <= 1} onClick={() => setPage(p => p - 1)}>
+                  <ChevronLeft className="h-3 w-3" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={page >= totalPages} onClick={() => setPage(p => p + 1)}>
+                  <ChevronRight className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
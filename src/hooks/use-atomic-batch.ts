@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAccount, useConfig } from "wagmi";
+import { findNetworkName, getNetwork } from "@/lib/networks";
+import { supportsAtomicBatch } from "@/lib/batchPayment";
+
+/**
+ * Whether the connected wallet can send a payment's transfers as one atomic
+ * EIP-5792 batch on a network. false while unknown or for wallets without support.
+ */
+export function useAtomicBatch(network: string | null | undefined) {
+  const config = useConfig();
+  const { address, connector } = useAccount();
+  const name = findNetworkName(network);
+  const chainId = name ? getNetwork(name).chainId : undefined;
+
+  const query = useQuery<boolean>({
+    queryKey: ["atomic-batch", chainId, address?.toLowerCase(), connector?.uid],
+    queryFn: () => supportsAtomicBatch(config, address, chainId),
+    enabled: !!address && !!chainId,
+    staleTime: 60_000,
+    retry: false,
+  });
+  return query.data === true;
+}
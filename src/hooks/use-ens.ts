@@ -0,0 +1,40 @@
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import { mainnet } from "wagmi/chains";
+import { isAddress } from "viem";
+import { isEnsName, lookupEnsIdentity, resolveEnsAddress, type EnsIdentity } from "@/lib/ens";
+import type { HexAddress } from "@/lib/networks";
+
+/**
+ * Primary ENS / Basename and avatar of an address (see lib/ens).
+ * Idle until a valid address is known.
+ */
+export function useEnsIdentity(address: string | null | undefined) {
+  const client = usePublicClient({ chainId: mainnet.id });
+  const valid = !!address && isAddress(address);
+
+  return useQuery<EnsIdentity>({
+    queryKey: ["ens-identity", address?.toLowerCase()],
+    queryFn: () => lookupEnsIdentity(client, address as HexAddress),
+    enabled: !!client && valid,
+    staleTime: 10 * 60_000,
+    retry: 1,
+  });
+}
+
+/**
+ * Address an ENS name currently resolves to; null when it doesn't resolve.
+ * Idle until `name` looks like an ENS name.
+ */
+export function useEnsAddress(name: string | null | undefined) {
+  const client = usePublicClient({ chainId: mainnet.id });
+  const trimmed = name?.trim().toLowerCase();
+
+  return useQuery<HexAddress | null>({
+    queryKey: ["ens-address", trimmed],
+    queryFn: () => resolveEnsAddress(client, trimmed),
+    enabled: !!client && !!trimmed && isEnsName(trimmed),
+    staleTime: 60_000,
+    retry: 1,
+  });
+}
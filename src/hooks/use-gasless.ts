@@ -0,0 +1,25 @@
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import { findNetworkName, getNetwork } from "@/lib/networks";
+import { supportsGaslessTransfers } from "@/lib/gasless";
+import type { FeeInfoResponse } from "@/lib/api";
+
+/**
+ * Whether a fee quote can be paid without gas: the server runs a relayer and
+ * every transfer's token supports EIP-3009. false while unknown.
+ */
+export function useGasless(network: string | null | undefined, feeInfo: FeeInfoResponse | null | undefined) {
+  const name = findNetworkName(network);
+  const chainId = name ? getNetwork(name).chainId : undefined;
+  const client = usePublicClient({ chainId });
+  const transfers = feeInfo?.transfers;
+
+  const query = useQuery<boolean>({
+    queryKey: ["gasless", chainId, transfers],
+    queryFn: () => supportsGaslessTransfers(client, name, transfers),
+    enabled: !!client && !!chainId && !!feeInfo?.relayer && !!transfers?.length,
+    staleTime: 5 * 60_000,
+    retry: false,
+  });
+  return query.data === true;
+}
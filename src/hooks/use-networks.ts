@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { getChains } from "@/lib/api";
+import { hydrateNetworks, listNetworks, type NetworkConfig } from "@/lib/networks";
+
+/**
+ * Supported networks, hydrated once per session from GET /api/chains.
+ * Returns the bundled registry until the request succeeds (or if it fails).
+ */
+export function useNetworks(): NetworkConfig[] {
+  const { data } = useQuery<NetworkConfig[]>({
+    queryKey: ["chains"],
+    queryFn: async ({ signal }) => {
+      hydrateNetworks(await getChains(signal));
+      return listNetworks();
+    },
+    staleTime: Infinity,
+  });
+  return data ?? listNetworks();
+}
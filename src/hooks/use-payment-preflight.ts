@@ -0,0 +1,27 @@
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import { findNetworkName, getNetwork, type HexAddress } from "@/lib/networks";
+import { runPreflight, type PreflightOptions, type PreflightResult, type PreflightTransfer } from "@/lib/preflight";
+
+/**
+ * Balance and gas check for a payer's transfer sequence (see lib/preflight).
+ * Re-runs every 15s so topping up the wallet unblocks the Pay button.
+ */
+export function usePaymentPreflight(
+  network: string | null | undefined,
+  payer: string | null | undefined,
+  transfers: PreflightTransfer[] | null | undefined,
+  options: PreflightOptions = {}
+) {
+  const name = findNetworkName(network);
+  const chainId = name ? getNetwork(name).chainId : undefined;
+  const client = usePublicClient({ chainId });
+
+  return useQuery<PreflightResult>({
+    queryKey: ["preflight", chainId, payer?.toLowerCase(), transfers, !!options.gasless],
+    queryFn: () => runPreflight(client, name, payer as HexAddress, transfers, options),
+    enabled: !!client && !!chainId && !!payer && !!transfers?.length,
+    refetchInterval: 15_000,
+    retry: 1,
+  });
+}
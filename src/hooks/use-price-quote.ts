@@ -0,0 +1,25 @@
+import { useQuery } from "@tanstack/react-query";
+import { linkNeedsQuote, requestQuote, type PaymentRequest, type PriceQuote } from "@/lib/api";
+
+/**
+ * Locked quote for paying a link in `token` on `network` (POST /api/prices/quote),
+ * requoted once it expires. `hold` keeps the current quote while a payment
+ * built from it is in flight. Idle when the token pays the link's amount as is.
+ */
+export function usePriceQuote(
+  request: Pick<PaymentRequest, "id" | "token" | "currency" | "status"> | null | undefined,
+  network: string | null | undefined,
+  token: string | null | undefined,
+  hold = false
+) {
+  return useQuery<PriceQuote>({
+    queryKey: ["price-quote", request?.id, network, token],
+    queryFn: () => requestQuote(request.id, network, token),
+    enabled: !!request && request.status === "PENDING" && !!network && !!token && linkNeedsQuote(request, token),
+    staleTime: Infinity,
+    // Just after expiry, so the backend issues a new quote instead of returning this one
+    refetchInterval: (query) =>
+      !hold && query.state.data ? Math.max(query.state.data.expiresAt - Date.now() + 1000, 1000) : false,
+    retry: 1,
+  });
+}
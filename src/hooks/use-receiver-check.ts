@@ -0,0 +1,59 @@
+import { useQuery } from "@tanstack/react-query";
+import { useConfig } from "wagmi";
+import { getPublicClient } from "wagmi/actions";
+import { findNetworkName, getNetwork } from "@/lib/networks";
+import { checkReceiver, type ReceiverCheck } from "@/lib/receiverCheck";
+
+export interface ReceiverEntry {
+  network: string;
+  receiver: string | null | undefined;
+}
+
+/**
+ * Safety checks on a new link's receivers (see lib/receiverCheck), including
+ * contract detection on each of the link's networks. When networks pay
+ * different receivers, messages are prefixed with the network they concern.
+ * Idle until every network has a receiver.
+ */
+export function useReceiverChecks(
+  entries: ReceiverEntry[],
+  creatorWallet: string | null | undefined,
+  token: string,
+  tokenAddress?: string | null
+) {
+  const config = useConfig();
+  const resolved = entries.map((entry) => ({ name: findNetworkName(entry.network), receiver: entry.receiver }));
+  const ready = resolved.length > 0 && resolved.every((entry) => entry.name && entry.receiver);
+  const separate = new Set(resolved.map((entry) => entry.receiver?.toLowerCase())).size > 1;
+
+  return useQuery<ReceiverCheck>({
+    queryKey: [
+      "receiver-check",
+      resolved.map((entry) => `${entry.name}:${entry.receiver}`),
+      creatorWallet?.toLowerCase(),
+      token,
+      tokenAddress?.toLowerCase(),
+    ],
+    queryFn: async () => {
+      const checks = await Promise.all(
+        resolved.map(async ({ name, receiver }) => {
+          const client = getPublicClient(config, { chainId: getNetwork(name).chainId });
+          const check = await checkReceiver(client, name, receiver, creatorWallet, token, tokenAddress);
+          const prefix = separate ? `${getNetwork(name).displayName}: ` : "";
+          return {
+            errors: check.errors.map((message) => prefix + message),
+            warnings: check.warnings.map((message) => prefix + message),
+          };
+        })
+      );
+      // The same receiver on several networks repeats the network-independent messages
+      return {
+        errors: [...new Set(checks.flatMap((check) => check.errors))],
+        warnings: [...new Set(checks.flatMap((check) => check.warnings))],
+      };
+    },
+    enabled: ready,
+    staleTime: 60_000,
+    retry: 1,
+  });
+}
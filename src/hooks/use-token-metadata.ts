@@ -0,0 +1,32 @@
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import { isAddress } from "viem";
+import { findNetworkName, findTokenSymbol, getNetwork } from "@/lib/networks";
+import { readTokenMetadata, type TokenMetadata } from "@/lib/tokenMetadata";
+
+export interface TokenCheck extends TokenMetadata {
+  /** Registry symbol when the contract is one of the network's known ("verified") tokens */
+  verifiedSymbol: string | null;
+}
+
+/**
+ * On-chain decimals, symbol and name of an ERC-20 on a network, and whether
+ * it is a registry token. Idle until both the network and a valid address are known.
+ */
+export function useTokenMetadata(network: string | null | undefined, address: string | null | undefined) {
+  const name = findNetworkName(network);
+  const chainId = name ? getNetwork(name).chainId : undefined;
+  const client = usePublicClient({ chainId });
+  const valid = !!address && isAddress(address);
+
+  return useQuery<TokenCheck>({
+    queryKey: ["token-metadata", chainId, address?.toLowerCase()],
+    queryFn: async () => {
+      const metadata = await readTokenMetadata(client, chainId, address);
+      return { ...metadata, verifiedSymbol: findTokenSymbol(getNetwork(name), address) };
+    },
+    enabled: !!client && !!chainId && valid,
+    staleTime: Infinity,
+    retry: 1,
+  });
+}
@@ -0,0 +1,30 @@
+import { createContext, useContext } from "react";
+import type { WalletLoginAgent } from "@/lib/api";
+
+/** Dashboard session state, provided by WalletSessionProvider */
+
+export type WalletSessionStatus = 'disconnected' | 'restoring' | 'signed-out' | 'signing-in' | 'signed-in';
+
+export interface WalletSessionContextValue {
+  status: WalletSessionStatus;
+  /** Connected wallet, lowercase */
+  walletAddress: string | null;
+  /** Agent registered to the session wallet, if any */
+  agent: WalletLoginAgent | null;
+  /** Prompt the wallet for a signature and start a session. Resolves false on failure. */
+  signIn: () => Promise<boolean>;
+  /** Revoke the session in every tab */
+  signOut: () => Promise<void>;
+  /** Run an authenticated request, re-authenticating and retrying once if the session expired */
+  withSession: <T>(request: () => Promise<T>) => Promise<T>;
+}
+
+export const WalletSessionContext = createContext<WalletSessionContextValue | null>(null);
+
+export function useWalletSession() {
+  const context = useContext(WalletSessionContext);
+  if (!context) {
+    throw new Error("useWalletSession must be used within a WalletSessionProvider.");
+  }
+  return context;
+}
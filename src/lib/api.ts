@@ -1,12 +1,60 @@
+import { z } from 'zod';
+import {
+  paymentResponseSchema,
+  createPaymentLinkResponseSchema,
+  verifyPaymentResponseSchema,
+  feeInfoResponseSchema,
+  relayPaymentResponseSchema,
+  priceQuoteResponseSchema,
+  getAllPaymentsResponseSchema,
+  deletePaymentResponseSchema,
+  platformStatsSchema,
+  agentSummarySchema,
+  rewardsResponseSchema,
+  tokenPricesSchema,
+  chainsResponseSchema,
+  agentLogsResponseSchema,
+  ipHistoryEntrySchema,
+  agentProfileSchema,
+  rotateApiKeyResponseSchema,
+  sessionStatusSchema,
+  webhookListResponseSchema,
+  webhookResponseSchema,
+  createWebhookResponseSchema,
+  webhookTestResponseSchema,
+  webhookDeliveriesResponseSchema,
+  webhookRedeliverResponseSchema,
+  webhookBulkRedeliverResponseSchema,
+  chatReplySchema,
+  chatHistoryResponseSchema,
+} from './schemas';
+import type { ChainDetails } from './networks';
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
 
+// Response types below are the canonical shapes produced by ./schemas:
+// timestamps in epoch ms, lowercase addresses, canonical network ids.
+
 export interface PaymentRequest {
   id: string;
+  /** Comma-separated accepted tokens while pending (`amount` is in the first); the token that settled the link once PAID */
   token: string;
+  /** Contract of a custom ERC-20; null for registry tokens */
+  tokenAddress: string | null;
+  /** In the (first) token, or in `currency` for fiat-denominated links */
   amount: string;
+  /** Fiat currency the link is priced in (e.g. 'USD'); null when priced in the token */
+  currency: string | null;
+  /** Quote a paid link was paid at; null while pending (each payer locks their own, see requestQuote) */
+  quote: PriceQuote | null;
   receiver: string;
+  /** ENS name the creator entered; `receiver` is the address it resolved to at creation */
+  receiverName: string | null;
+  /** Receivers that differ per network on a multi-network link; others pay `receiver` */
+  receivers: Record<string, string> | null;
   payer: string | null;
   description: string;
+  /** Comma-separated while a multi-network link is pending; the paid network once PAID */
   network: string;
   status: 'PENDING' | 'PAID' | 'EXPIRED' | 'CANCELLED';
   createdAt: number;
@@ -20,30 +68,111 @@ export interface PaymentRequest {
   isPaid?: boolean;
 }
 
+/**
+ * Token amount of a link on one network, locked until `expiresAt`.
+ * Verification accepts payments within `tolerance` of `amount`.
+ */
+export interface PriceQuote {
+  id: string;
+  /** What the link is priced in: its fiat currency, or its first token */
+  currency: string;
+  /** The link's amount, in `currency` */
+  fiatAmount: string;
+  token: string;
+  network: string;
+  amount: string;
+  /** Price of one token in `currency` */
+  price: number;
+  tolerance: number;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/** Networks a link can be paid on, in the creator's order (first = default) */
+export function linkNetworks(request: Pick<PaymentRequest, 'network'>): string[] {
+  return request.network.split(',').map(n => n.trim()).filter(Boolean);
+}
+
+/** Tokens a link accepts, in the creator's order (first = the one `amount` is in) */
+export function linkTokens(request: Pick<PaymentRequest, 'token'>): string[] {
+  return request.token.split(',').map(t => t.trim()).filter(Boolean);
+}
+
+// Tokens that pay each other's amounts 1:1 (mirrors the backend)
+const STABLECOINS = ['USDC', 'USDT'];
+
+/**
+ * Whether paying a link in `token` takes a locked quote: always for
+ * fiat-denominated links, and for a token other than the link's first unless
+ * both are stablecoins.
+ */
+export function linkNeedsQuote(request: Pick<PaymentRequest, 'token' | 'currency'>, token: string): boolean {
+  if (request.currency) return true;
+  const primary = linkTokens(request)[0];
+  return token !== primary && !(STABLECOINS.includes(token) && STABLECOINS.includes(primary));
+}
+
+/** Address a link pays out to on one of its networks */
+export function linkReceiver(request: Pick<PaymentRequest, 'receiver' | 'receivers'>, network: string): string {
+  return request.receivers?.[network] ?? request.receiver;
+}
+
+/**
+ * Token amount a link is paid in: its amount, or the amount of the quote a paid
+ * link was paid at. Null for fiat-denominated links that aren't paid yet.
+ */
+export function linkTokenAmount(request: Pick<PaymentRequest, 'amount' | 'currency' | 'quote' | 'status'>): string | null {
+  if (request.status === 'PAID' && request.quote) return request.quote.amount;
+  return request.currency ? null : request.amount;
+}
+
+/** What a payer pays a link with: network, accepted token and, for quoted payments, their quote */
+export interface PaymentSelection {
+  network?: string;
+  token?: string;
+  /** Quote returned by requestQuote; required when the payment is quoted */
+  quoteId?: string;
+}
+
+/**
+ * A link's amount for display: "10 USDC", "10 USDC (or USDT, ETH)" when it
+ * accepts several tokens, or "$10.00 in USDC" for fiat-denominated links.
+ * Paid links show what they were paid.
+ */
+export function formatLinkAmount(
+  request: Pick<PaymentRequest, 'amount' | 'token' | 'currency'> & Partial<Pick<PaymentRequest, 'quote' | 'status'>>
+): string {
+  const [primary, ...others] = linkTokens(request);
+  if (request.currency) return `${formatFiat(request.amount, request.currency)} in ${[primary, ...others].join(', ')}`;
+  if (request.status === 'PAID' && request.quote) return `${request.quote.amount} ${primary}`;
+  return others.length > 0 ? `${request.amount} ${primary} (or ${others.join(', ')})` : `${request.amount} ${primary}`;
+}
+
+/**
+ * Result of GET /api/request/:id. Unpaid requests come back as an x402
+ * `payment` block (402), which is rebuilt into a PENDING PaymentRequest.
+ */
 export interface PaymentResponse {
-  success: boolean;
-  status?: string;
-  request?: PaymentRequest;
-  error?: string;
-  payment?: {
-    id: string;
-    amount: string;
-    token: string;
-    network: string;
-    receiver: string;
-    description: string;
-    instructions: string;
-    expiresAt?: string | number;
-    createdAt?: string | number;
-  };
+  status: 'PAID' | 'PENDING';
+  request: PaymentRequest;
 }
 
 export interface CreatePaymentLinkData {
-  token: string;
+  /** One token, or several for the payer to choose from (first = the one `amount` is in) */
+  token: string | string[];
+  /** Any ERC-20 on the network; `token` is then its (only) symbol, for display */
+  tokenAddress?: string;
   amount: string;
+  /** Fiat currency `amount` is in; the payer pays its token equivalent at a locked quote */
+  currency?: string;
   receiver: string;
+  /** ENS name `receiver` was resolved from, kept to spot later changes */
+  receiverName?: string;
+  /** Per-network receivers that differ from `receiver` */
+  receivers?: Record<string, string>;
   description?: string;
-  network: string;
+  /** One network, or several for the payer to choose from (first = default) */
+  network: string | string[];
   expiresInDays: number;
   creatorWallet?: string;
 }
@@ -58,7 +187,18 @@ export interface CreatePaymentLinkResponse {
 
 export interface VerifyPaymentData {
   requestId: string;
-  txHash: string;
+  /** Network the payer chose on a multi-network link (default: its first) */
+  network?: string;
+  /** Token the payer chose on a link accepting several (default: its first) */
+  token?: string;
+  /** Quote the payment was built from, for quoted payments */
+  quoteId?: string;
+  /** Payment transfer hash; optional when txHashes is given */
+  txHash?: string;
+  /** All transaction hashes of an EIP-5792 bundle; the backend finds the payment among them */
+  txHashes?: string[];
+  /** Wallet bundle id from wallet_sendCalls */
+  batchId?: string;
   feeTxHash?: string;
   creatorRewardTxHash?: string;
   payerWallet?: string;
@@ -79,6 +219,7 @@ export interface VerifyPaymentResponse {
     receiver: string;
     blockNumber: number;
   };
+  batchId?: string;
 }
 
 export interface FeeTransfer {
@@ -93,7 +234,6 @@ export interface FeeInfoResponse {
   success: boolean;
   alreadyPaid?: boolean;
   message?: string;
-  error?: string;
   payment?: {
     token: string;
     amount: string;
@@ -101,6 +241,8 @@ export interface FeeInfoResponse {
     to: string;
     description: string;
   };
+  /** Quote the amounts come from, for fiat-denominated links and other accepted tokens */
+  quote?: PriceQuote | null;
   fee?: {
     feeToken: string;
     feeTotal: number;
@@ -112,6 +254,27 @@ export interface FeeInfoResponse {
   };
   transfers?: FeeTransfer[];
   creatorReceives?: string;
+  /** Wallet that submits gasless (EIP-3009) payments; null when the server has no relayer */
+  relayer?: { address: string } | null;
+}
+
+/** A signed EIP-3009 transferWithAuthorization, integers as decimal strings */
+export interface TransferAuthorization {
+  token: string;
+  from: string;
+  to: string;
+  value: string;
+  validAfter: string;
+  validBefore: string;
+  nonce: string;
+  signature: string;
+}
+
+export interface RelayPaymentResponse {
+  success: boolean;
+  network: string;
+  /** One relayed transaction per authorization, in order */
+  txHashes: string[];
 }
 
 export interface GetAllPaymentsResponse {
@@ -126,99 +289,433 @@ export interface DeletePaymentResponse {
   id: string;
 }
 
-// ============ JWT Session Management ============
+// ============ Errors ============
+
+export interface ApiErrorOptions {
+  status: number;
+  code: string;
+  retryable?: boolean;
+  retryAfterMs?: number;
+  details?: unknown;
+}
+
+/**
+ * Error thrown by every PayAgent API call.
+ *
+ * `status` is the HTTP status (0 when no response arrived), `code` is the
+ * backend error code (e.g. JWT_EXPIRED) or a client-side one (NETWORK_ERROR,
+ * TIMEOUT, ABORTED, NOT_AUTHENTICATED, INVALID_RESPONSE), and `retryable` tells the caller
+ * whether repeating the same request may succeed.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+  readonly details?: unknown;
+
+  constructor(message: string, options: ApiErrorOptions) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status;
+    this.code = options.code;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+    this.details = options.details;
+  }
+
+  /** The backend could not be reached (offline, DNS, CORS, timeout) */
+  get isNetworkError(): boolean {
+    return this.status === 0 && this.code !== 'ABORTED';
+  }
+
+  get isNotFound(): boolean {
+    return this.status === 404;
+  }
+
+  /** The dashboard session is missing, expired or rejected — sign in again */
+  get isSessionExpired(): boolean {
+    return ['JWT_EXPIRED', 'JWT_INVALID', 'JWT_REVOKED', 'NOT_AUTHENTICATED'].includes(this.code);
+  }
+}
+
+export function isSessionExpired(err: unknown): boolean {
+  return err instanceof ApiError && err.isSessionExpired;
+}
+
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+function codeForStatus(status: number): string {
+  switch (status) {
+    case 400: return 'BAD_REQUEST';
+    case 401: return 'UNAUTHORIZED';
+    case 403: return 'FORBIDDEN';
+    case 404: return 'NOT_FOUND';
+    case 408: return 'TIMEOUT';
+    case 409: return 'CONFLICT';
+    case 410: return 'GONE';
+    case 429: return 'RATE_LIMITED';
+    default: return status >= 500 ? 'SERVER_ERROR' : `HTTP_${status}`;
+  }
+}
+
+function abortedError(): ApiError {
+  return new ApiError('Request aborted', { status: 0, code: 'ABORTED' });
+}
+
+/**
+ * Build an ApiError from a non-2xx response.
+ * The backend replies with { error, message?, code?, details? }.
+ */
+function errorFromResponse(response: Response, data: unknown, authenticated: boolean): ApiError {
+  const body = (data && typeof data === 'object' ? data : {}) as {
+    error?: string; message?: string; code?: unknown; details?: unknown; retryAfterMs?: unknown;
+  };
+  const status = response.status;
+
+  let code = typeof body.code === 'string' ? body.code : codeForStatus(status);
+  // 401 on a request that carried a JWT means the session was rejected
+  if (status === 401 && authenticated && code === 'UNAUTHORIZED') code = 'JWT_INVALID';
+
+  const retryAfterHeader = Number(response.headers.get('retry-after'));
+  const retryAfterMs = Number.isFinite(retryAfterHeader) && retryAfterHeader > 0
+    ? retryAfterHeader * 1000
+    : typeof body.retryAfterMs === 'number' ? body.retryAfterMs : undefined;
+
+  return new ApiError(body.error || body.message || `Request failed with status ${status}`, {
+    status,
+    code,
+    retryable: RETRYABLE_STATUSES.includes(status),
+    retryAfterMs,
+    details: body.details ?? data,
+  });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortedError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
 
-let _jwtToken: string | null = null;
-let _jwtExpiresAt: number | null = null;
+// ============ API Client ============
+
+export interface ApiClientOptions {
+  baseUrl?: string;
+  /** Same-origin Next.js session routes (default /api/session) */
+  sessionUrl?: string;
+  /** Per-attempt timeout in ms (default 15s) */
+  timeoutMs?: number;
+  /** Extra attempts for retryable failures of GET requests (default 2) */
+  retries?: number;
+  /** Base delay for exponential backoff in ms (default 500) */
+  retryDelayMs?: number;
+  /** Upper bound for a single backoff delay in ms (default 8s) */
+  maxRetryDelayMs?: number;
+  fetch?: typeof fetch;
+}
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: unknown;
+  query?: Record<string, string | number | undefined>;
+  /** 'jwt' requires a dashboard session, 'optional-jwt' uses it when present */
+  auth?: 'none' | 'jwt' | 'optional-jwt';
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  /** Override the retry count (non-GET requests default to 0) */
+  retries?: number;
+  /** Non-2xx statuses whose body is a valid result (e.g. 402 Payment Required) */
+  acceptStatus?: number[];
+  /** Validates and normalizes the response body (see ./schemas) */
+  schema?: z.ZodTypeAny;
+}
+
+// Set by the session proxy (app/api/session/proxy) after every call
+const SESSION_EXPIRES_HEADER = 'x-session-expires-at';
 
 /**
- * Store JWT token in memory (never in localStorage for security)
+ * PayAgent API client.
+ *
+ * Owns the transport (timeouts, abort signals, retry with backoff, error
+ * mapping) and tracks the dashboard session. The session JWT itself lives in
+ * an httpOnly cookie: authenticated calls go through the same-origin session
+ * proxy, and only the expiry is known here. Endpoint helpers below all go
+ * through the shared `api` instance.
  */
-function setJwt(token: string, expiresIn: number) {
-  _jwtToken = token;
-  _jwtExpiresAt = Date.now() + expiresIn * 1000;
+export class PayAgentApi {
+  readonly baseUrl: string;
+  readonly sessionUrl: string;
+  private readonly timeoutMs: number;
+  private readonly retries: number;
+  private readonly retryDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly fetchImpl: typeof fetch;
+
+  private sessionExpiresAt: number | null = null;
+
+  constructor(options: ApiClientOptions = {}) {
+    this.baseUrl = (options.baseUrl || API_BASE_URL).replace(/\/$/, '');
+    this.sessionUrl = (options.sessionUrl || '/api/session').replace(/\/$/, '');
+    this.timeoutMs = options.timeoutMs ?? 15000;
+    this.retries = options.retries ?? 2;
+    this.retryDelayMs = options.retryDelayMs ?? 500;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 8000;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  /** @param expiresAt - Session expiry in epoch ms */
+  setSession(expiresAt: number) {
+    this.sessionExpiresAt = expiresAt;
+  }
+
+  clearSession() {
+    this.sessionExpiresAt = null;
+  }
+
+  hasValidSession(): boolean {
+    if (!this.sessionExpiresAt) return false;
+    // Add 30-second buffer to prevent edge-case expiry during request
+    return Date.now() < (this.sessionExpiresAt - 30000);
+  }
+
+  /**
+   * Send a request to the PayAgent backend and return the parsed JSON body.
+   * Authenticated requests are routed through the session proxy.
+   * Throws ApiError on any failure; retryable failures of GET requests are
+   * retried with exponential backoff unless `retries` says otherwise.
+   */
+  async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    const auth = options.auth ?? 'none';
+    const viaSession = auth !== 'none' && this.hasValidSession();
+    if (auth === 'jwt' && !viaSession) {
+      throw new ApiError('Not authenticated. Call walletLogin() first.', { status: 401, code: 'NOT_AUTHENTICATED' });
+    }
+
+    const url = viaSession
+      ? this.buildUrl(`${this.sessionUrl}/proxy`, path.replace(/^\/api/, ''), options.query)
+      : this.buildUrl(this.baseUrl, path, options.query);
+    return this.withRetries<T>(url, options, viaSession);
+  }
+
+  /** Call the same-origin session routes (app/api/session/*) */
+  async session<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    return this.withRetries<T>(this.buildUrl(this.sessionUrl, path, options.query), options, true);
+  }
+
+  private async withRetries<T>(url: string, options: RequestOptions, viaSession: boolean): Promise<T> {
+    const method = options.method ?? 'GET';
+    const retries = options.retries ?? (method === 'GET' ? this.retries : 0);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(url, method, options, viaSession);
+      } catch (err) {
+        if (!(err instanceof ApiError) || !err.retryable || attempt >= retries) throw err;
+        const delay = this.backoffDelay(attempt, err);
+        if (delay === null) throw err;
+        await sleep(delay, options.signal);
+      }
+    }
+  }
+
+  private buildUrl(base: string, path: string, query?: RequestOptions['query']): string {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query || {})) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    const qs = params.toString();
+    return `${base}${path}${qs ? `?${qs}` : ''}`;
+  }
+
+  /** Full-jitter exponential backoff; null when Retry-After exceeds the cap */
+  private backoffDelay(attempt: number, err: ApiError): number | null {
+    if (err.retryAfterMs !== undefined) {
+      return err.retryAfterMs <= this.maxRetryDelayMs ? err.retryAfterMs : null;
+    }
+    const ceiling = Math.min(this.maxRetryDelayMs, this.retryDelayMs * 2 ** attempt);
+    return ceiling / 2 + Math.random() * (ceiling / 2);
+  }
+
+  private async send<T>(url: string, method: string, options: RequestOptions, viaSession: boolean): Promise<T> {
+    const headers: Record<string, string> = {};
+    if (options.body !== undefined) headers['Content-Type'] = 'application/json';
+
+    if (options.signal?.aborted) throw abortedError();
+
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    let response: Response;
+    let data: unknown;
+    try {
+      response = await this.fetchImpl(url, {
+        method,
+        headers,
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        credentials: viaSession ? 'same-origin' : undefined,
+        signal: controller.signal,
+      });
+      const text = await response.text();
+      try {
+        data = text ? JSON.parse(text) : null;
+      } catch {
+        data = text;
+      }
+    } catch (err) {
+      if (timedOut) {
+        throw new ApiError(`Request timed out after ${timeoutMs}ms`, { status: 0, code: 'TIMEOUT', retryable: true });
+      }
+      if (options.signal?.aborted) throw abortedError();
+      throw new ApiError('Unable to reach the PayAgent API', {
+        status: 0,
+        code: 'NETWORK_ERROR',
+        retryable: true,
+        details: err,
+      });
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (viaSession) {
+      // The proxy refreshes the JWT server-side; track the new expiry
+      const expiresAt = Number(response.headers.get(SESSION_EXPIRES_HEADER));
+      if (expiresAt > 0) this.sessionExpiresAt = expiresAt;
+    }
+
+    if (response.ok || options.acceptStatus?.includes(response.status)) {
+      if (!options.schema) return data as T;
+      const parsed = options.schema.safeParse(data);
+      if (!parsed.success) {
+        throw new ApiError('Unexpected response from the PayAgent API', {
+          status: response.status,
+          code: 'INVALID_RESPONSE',
+          details: parsed.error.issues,
+        });
+      }
+      return parsed.data as T;
+    }
+
+    const error = errorFromResponse(response, data, viaSession);
+    if (viaSession && error.isSessionExpired) this.clearSession();
+    throw error;
+  }
+}
+
+/** Shared client used by all endpoint helpers */
+export const api = new PayAgentApi();
+
+// ============ Dashboard Session ============
+
+export type WalletLoginAgent = Pick<
+  AgentProfile,
+  'id' | 'username' | 'email' | 'wallet_address' | 'status' | 'verification_status' | 'x_username' | 'api_key_expires_at'
+>;
+
+export interface SessionStatus {
+  authenticated: boolean;
+  wallet_address?: string;
+  /** Epoch ms */
+  expires_at?: number;
+  agent?: WalletLoginAgent | null;
 }
 
 /**
- * Clear JWT session
+ * Forget the session locally (e.g. after the backend rejected it).
+ * Use logout() to also revoke it server-side.
  */
 export function clearJwt() {
-  _jwtToken = null;
-  _jwtExpiresAt = null;
+  api.clearSession();
 }
 
 /**
- * Check if JWT is valid (exists and not expired)
+ * Check if the dashboard session is known and not expired
  */
 export function isJwtValid(): boolean {
-  if (!_jwtToken || !_jwtExpiresAt) return false;
-  // Add 30-second buffer to prevent edge-case expiry during request
-  return Date.now() < (_jwtExpiresAt - 30000);
+  return api.hasValidSession();
 }
 
 /**
- * Get JWT auth headers for dashboard API calls
+ * Pick up an existing session cookie (after a reload or in a new tab).
+ * Returns the session status; the session is cleared locally if there is none.
  */
-function getJwtHeaders(): Record<string, string> {
-  if (!_jwtToken) {
-    throw new Error('Not authenticated. Call walletLogin() first.');
+export async function restoreSession(signal?: AbortSignal): Promise<SessionStatus> {
+  const status = await api.session<SessionStatus>('', { signal, schema: sessionStatusSchema });
+  if (status.authenticated && status.expires_at) {
+    api.setSession(status.expires_at);
+  } else {
+    api.clearSession();
   }
-  return {
-    'Content-Type': 'application/json',
-    'Authorization': `Bearer ${_jwtToken}`,
-  };
+  return status;
 }
 
 /**
- * Login to dashboard using wallet signature (EIP-191).
+ * Sign out: revoke the session on the backend and drop the cookie.
+ */
+export async function logout(): Promise<void> {
+  try {
+    await api.session('', { method: 'DELETE' });
+  } finally {
+    api.clearSession();
+  }
+}
+
+/**
+ * Login to dashboard with Sign-In with Ethereum (EIP-4361).
  *
- * 1. Fetches a nonce challenge from the server
+ * 1. Fetches a SIWE message bound to this site and chain from the server
  * 2. Signs it using the provided signMessage function (from wagmi)
- * 3. Sends the signature to verify and receive a JWT
+ * 3. Exchanges the signature for an httpOnly session cookie
  *
  * @param walletAddress - The connected wallet address
  * @param signMessage - A function that signs a message string (e.g. wagmi's signMessage)
+ * @param chainId - The wallet's current chain id
  * @returns Agent profile data
  */
 export async function walletLogin(
   walletAddress: string,
-  signMessage: (message: string) => Promise<string>
-): Promise<AgentProfile | null> {
-  // Step 1: Get challenge nonce
-  const challengeRes = await fetch(`${API_BASE_URL}/api/auth/challenge`, {
+  signMessage: (message: string) => Promise<string>,
+  chainId?: number
+): Promise<WalletLoginAgent | null> {
+  // Step 1: Get the SIWE message for this origin
+  const { message } = await api.request<{ message: string }>('/api/auth/challenge', {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ wallet_address: walletAddress }),
+    body: {
+      wallet_address: walletAddress,
+      chain_id: chainId,
+      uri: typeof window !== 'undefined' ? window.location.origin : undefined,
+    },
+    schema: z.object({ message: z.string() }),
   });
 
-  if (!challengeRes.ok) {
-    const err = await challengeRes.json();
-    throw new Error(err.error || 'Failed to get login challenge');
-  }
-
-  const { nonce } = await challengeRes.json();
+  // Step 2: Sign the message with the wallet
+  const signature = await signMessage(message);
 
-  // Step 2: Sign the nonce with the wallet
-  const signature = await signMessage(nonce);
-
-  // Step 3: Verify signature and get JWT
-  const verifyRes = await fetch(`${API_BASE_URL}/api/auth/verify`, {
+  // Step 3: Verify signature; the JWT is stored in the session cookie
+  const status = await api.session<SessionStatus>('', {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ wallet_address: walletAddress, signature }),
+    body: { wallet_address: walletAddress, signature, message, chain_id: chainId },
+    schema: sessionStatusSchema,
   });
+  api.setSession(status.expires_at!);
 
-  if (!verifyRes.ok) {
-    const err = await verifyRes.json();
-    throw new Error(err.error || 'Wallet verification failed');
-  }
-
-  const { token, expires_in, agent } = await verifyRes.json();
-
-  // Store JWT in memory
-  setJwt(token, expires_in);
-
-  return agent || null;
+  return status.agent ?? null;
 }
 
 // ============ Public API Functions (no auth) ============
@@ -227,96 +724,78 @@ export async function walletLogin(
  * Fetch payment request details from backend
  * Returns 402 if payment is pending, 200 if paid
  */
-export async function getPaymentRequest(requestId: string): Promise<PaymentResponse> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/request/${requestId}`);
-    
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new Error('Payment request not found');
-      }
-      if (response.status === 410) {
-        throw new Error('Payment request expired');
-      }
-    }
-
-    const data = await response.json();
-    return data;
-  } catch (error) {
-    console.error('Error fetching payment request:', error);
-    throw error;
-  }
+export async function getPaymentRequest(requestId: string, signal?: AbortSignal): Promise<PaymentResponse> {
+  return api.request<PaymentResponse>(`/api/request/${encodeURIComponent(requestId)}`, {
+    signal,
+    acceptStatus: [402],
+    schema: paymentResponseSchema,
+  });
 }
 
 /**
  * Fetch fee info for a payment request (public, no auth)
  * Returns fee breakdown and transfer instructions for human payers
  */
-export async function getFeeInfo(requestId: string, payerAddress: string): Promise<FeeInfoResponse> {
-  try {
-    const response = await fetch(
-      `${API_BASE_URL}/api/request/${requestId}/fee?payer=${encodeURIComponent(payerAddress)}`
-    );
-
-    const data = await response.json();
+export async function getFeeInfo(
+  requestId: string,
+  payerAddress: string,
+  { network, token, quoteId }: PaymentSelection = {},
+  signal?: AbortSignal
+): Promise<FeeInfoResponse> {
+  return api.request<FeeInfoResponse>(`/api/request/${encodeURIComponent(requestId)}/fee`, {
+    query: { payer: payerAddress, network, token, quoteId },
+    signal,
+    schema: feeInfoResponseSchema,
+  });
+}
 
-    if (!response.ok) {
-      throw new Error(data.error || 'Failed to get fee info');
-    }
+/**
+ * Lock the amount of `token` (default: the link's first) that pays a
+ * fiat-denominated link, or a link in another of its accepted tokens, on
+ * `network` (public, no auth). Each call issues a new quote; pass its id to
+ * getFeeInfo, relayPayment and verifyPayment.
+ */
+export async function requestQuote(requestId: string, network: string, token?: string): Promise<PriceQuote> {
+  const data = await api.request<{ quote: PriceQuote }>('/api/prices/quote', {
+    method: 'POST',
+    body: { requestId, network, token },
+    schema: priceQuoteResponseSchema,
+  });
+  return data.quote;
+}
 
-    return data;
-  } catch (error) {
-    console.error('Error fetching fee info:', error);
-    throw error;
-  }
+/**
+ * Submit signed authorizations (one per fee transfer) to the gasless relayer.
+ * Resolves once the transactions are broadcast; track and verify the hashes.
+ */
+export async function relayPayment(
+  requestId: string,
+  authorizations: TransferAuthorization[],
+  { network, token, quoteId }: PaymentSelection = {}
+): Promise<RelayPaymentResponse> {
+  return api.request<RelayPaymentResponse>(`/api/request/${encodeURIComponent(requestId)}/relay`, {
+    method: 'POST',
+    body: { authorizations, network, token, quoteId },
+    schema: relayPaymentResponseSchema,
+  });
 }
 
 /**
  * Create a new payment request
  */
 export async function createPaymentLink(data: CreatePaymentLinkData): Promise<CreatePaymentLinkResponse> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/create`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to create payment link');
-    }
-
-    const result = await response.json();
-    return result;
-  } catch (error) {
-    console.error('Error creating payment link:', error);
-    throw error;
-  }
+  return api.request<CreatePaymentLinkResponse>('/api/create', { method: 'POST', body: data, schema: createPaymentLinkResponseSchema });
 }
 
 /**
  * Get all payment requests (optionally filtered by wallet)
  */
-export async function getAllPaymentRequests(walletAddress?: string): Promise<GetAllPaymentsResponse> {
-  try {
-    const url = walletAddress 
-      ? `${API_BASE_URL}/api/requests?wallet=${walletAddress}`
-      : `${API_BASE_URL}/api/requests`;
-      
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch payment requests');
-    }
-
-    const result = await response.json();
-    return result;
-  } catch (error) {
-    console.error('Error fetching payment requests:', error);
-    throw error;
-  }
+export async function getAllPaymentRequests(walletAddress?: string, signal?: AbortSignal): Promise<GetAllPaymentsResponse> {
+  return api.request<GetAllPaymentsResponse>('/api/requests', {
+    query: { wallet: walletAddress },
+    signal,
+    schema: getAllPaymentsResponseSchema,
+  });
 }
 
 /**
@@ -325,63 +804,20 @@ export async function getAllPaymentRequests(walletAddress?: string): Promise<Get
  * Agents: use HMAC auth (handled separately).
  */
 export async function deletePaymentRequest(requestId: string, walletAddress?: string): Promise<DeletePaymentResponse> {
-  try {
-    const params = walletAddress ? `?wallet=${walletAddress}` : '';
-    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-
-    // Use JWT if available (e.g. agent dashboard), otherwise rely on wallet param
-    if (isJwtValid()) {
-      headers['Authorization'] = `Bearer ${_jwtToken}`;
-    }
-
-    const response = await fetch(`${API_BASE_URL}/api/request/${requestId}${params}`, {
-      method: 'DELETE',
-      headers,
-    });
-
-    if (!response.ok) {
-      const data = await response.json().catch(() => ({}));
-      if (response.status === 403) {
-        throw new Error(data.error || 'Only the creator can delete this payment request');
-      }
-      if (response.status === 404) {
-        throw new Error('Payment request not found');
-      }
-      throw new Error(data.error || 'Failed to delete payment request');
-    }
-
-    const result = await response.json();
-    return result;
-  } catch (error) {
-    console.error('Error deleting payment request:', error);
-    throw error;
-  }
+  // Use JWT if available (e.g. agent dashboard), otherwise rely on wallet param
+  return api.request<DeletePaymentResponse>(`/api/request/${encodeURIComponent(requestId)}`, {
+    method: 'DELETE',
+    query: { wallet: walletAddress },
+    auth: 'optional-jwt',
+    schema: deletePaymentResponseSchema,
+  });
 }
 
 /**
  * Verify a payment transaction on blockchain
  */
 export async function verifyPayment(data: VerifyPaymentData): Promise<VerifyPaymentResponse> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/verify`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Payment verification failed');
-    }
-
-    const result = await response.json();
-    return result;
-  } catch (error) {
-    console.error('Error verifying payment:', error);
-    throw error;
-  }
+  return api.request<VerifyPaymentResponse>('/api/verify', { method: 'POST', body: data, schema: verifyPaymentResponseSchema });
 }
 
 /**
@@ -405,33 +841,29 @@ export interface AgentSummary {
   status: string;
   verification_status: string;
   x_username: string | null;
-  created_at: string;
+  created_at: number;
   total_payments_sent: number;
   total_payments_received: number;
 }
 
-export async function getAgentsList(): Promise<AgentSummary[]> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/agents/list`);
-    if (!response.ok) throw new Error('Failed to fetch agents list');
-    const data = await response.json();
-    return data.agents || [];
-  } catch (error) {
-    console.error('Error fetching agents list:', error);
-    return [];
-  }
+export async function getAgentsList(signal?: AbortSignal): Promise<AgentSummary[]> {
+  const data = await api.request<{ agents: AgentSummary[] }>('/api/agents/list', {
+    signal,
+    schema: z.object({ agents: z.array(agentSummarySchema).default([]) }),
+  });
+  return data.agents;
 }
 
-export async function getPlatformStats(): Promise<PlatformStats> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/stats`);
-    if (!response.ok) throw new Error('Failed to fetch stats');
-    const result = await response.json();
-    return result.stats;
-  } catch (error) {
-    console.error('Error fetching platform stats:', error);
-    return { totalAgents: 0, totalPayments: 0, feesByToken: {}, paymentsByToken: {}, agentPaymentsByToken: {}, humanPayments: 0, agentPayments: 0 };
-  }
+export async function getPlatformStats(signal?: AbortSignal): Promise<PlatformStats> {
+  const result = await api.request<{ stats: PlatformStats }>('/api/stats', { signal, schema: z.object({ stats: platformStatsSchema }) });
+  return result.stats;
+}
+
+// ============ Supported Chains (public) ============
+
+export async function getChains(signal?: AbortSignal): Promise<ChainDetails[]> {
+  const data = await api.request<{ chains: ChainDetails[] }>('/api/chains', { signal, schema: chainsResponseSchema });
+  return data.chains;
 }
 
 // ============ Rewards API (public, by wallet) ============
@@ -449,7 +881,7 @@ export interface RewardEntry {
   creatorRewardTxHash: string | null;
   network?: string;
   description?: string;
-  createdAt: string;
+  createdAt: number;
 }
 
 export interface RewardsResponse {
@@ -466,21 +898,8 @@ export interface RewardsResponse {
   };
 }
 
-export async function getRewards(walletAddress: string): Promise<RewardsResponse> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/rewards?wallet=${encodeURIComponent(walletAddress)}`);
-    if (!response.ok) {
-      throw new Error('Failed to fetch rewards');
-    }
-    return await response.json();
-  } catch (error) {
-    console.error('Error fetching rewards:', error);
-    return {
-      success: false,
-      rewards: { human: [], agent: [] },
-      totals: { humanRewardsCount: 0, agentRewardsCount: 0, humanRewardsTotal: 0, agentRewardsTotal: 0 }
-    };
-  }
+export async function getRewards(walletAddress: string, signal?: AbortSignal): Promise<RewardsResponse> {
+  return api.request<RewardsResponse>('/api/rewards', { query: { wallet: walletAddress }, signal, schema: rewardsResponseSchema });
 }
 
 // ============ Token Prices (public, cached) ============
@@ -488,20 +907,15 @@ export async function getRewards(walletAddress: string): Promise<RewardsResponse
 export interface TokenPrices {
   LCX: number;
   ETH: number;
+  POL: number;
+  BNB: number;
   USDC: number;
   USDT: number;
 }
 
-export async function getPrices(): Promise<TokenPrices> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/prices`);
-    if (!response.ok) throw new Error('Failed to fetch prices');
-    const data = await response.json();
-    return data.prices as TokenPrices;
-  } catch {
-    // Sensible fallbacks
-    return { LCX: 0.15, ETH: 2500, USDC: 1, USDT: 1 };
-  }
+export async function getPrices(signal?: AbortSignal): Promise<TokenPrices> {
+  const data = await api.request<{ prices: TokenPrices }>('/api/prices', { signal, schema: z.object({ prices: tokenPricesSchema }) });
+  return data.prices;
 }
 
 /**
@@ -513,6 +927,23 @@ export function toUsd(amount: number, token: string, prices: TokenPrices): numbe
   return amount * price;
 }
 
+/** Fiat currencies links can be priced in (mirrors the backend) */
+export const FIAT_CURRENCIES = ['USD', 'EUR', 'GBP', 'CHF', 'CAD', 'AUD', 'JPY'];
+
+/**
+ * Format an amount in a fiat currency, e.g. "€12.50"
+ */
+export function formatFiat(value: number | string, currency: string): string {
+  return Number(value).toLocaleString('en-US', { style: 'currency', currency });
+}
+
+/**
+ * Format an amount in a quote's currency: a fiat currency ("€12.50") or a token ("12.5 USDC")
+ */
+export function formatQuoteValue(value: number | string, currency: string): string {
+  return FIAT_CURRENCIES.includes(currency) ? formatFiat(value, currency) : `${Number(value)} ${currency}`;
+}
+
 /**
  * Format a number as USD string, e.g. "$1,234.56"
  */
@@ -527,69 +958,39 @@ export function formatUsd(value: number): string {
  * Rotate (regenerate) API key for authenticated agent.
  * Returns the new api_key_id + api_secret (shown once).
  */
-export async function rotateApiKey(): Promise<{ api_key_id: string; api_secret: string; expires_at: string }> {
-  const response = await fetch(`${API_BASE_URL}/api/agents/rotate-key`, {
-    method: 'POST',
-    headers: getJwtHeaders(),
-  });
-
-  if (!response.ok) {
-    const err = await response.json();
-    if (err.code === 'JWT_EXPIRED') throw new Error('SESSION_EXPIRED');
-    throw new Error(err.error || 'Failed to rotate API key');
-  }
+export interface RotateApiKeyResponse {
+  api_key_id: string;
+  api_secret: string;
+  expires_at: number;
+}
 
-  const result = await response.json();
-  return { api_key_id: result.api_key_id, api_secret: result.api_secret, expires_at: result.expires_at };
+export async function rotateApiKey(): Promise<RotateApiKeyResponse> {
+  return api.request<RotateApiKeyResponse>('/api/agents/rotate-key', { method: 'POST', auth: 'jwt', schema: rotateApiKeyResponseSchema });
 }
 
 /**
  * Deactivate agent
  */
 export async function deactivateAgent(): Promise<void> {
-  const response = await fetch(`${API_BASE_URL}/api/agents/deactivate`, {
-    method: 'POST',
-    headers: getJwtHeaders(),
-  });
-
-  if (!response.ok) {
-    const err = await response.json();
-    if (err.code === 'JWT_EXPIRED') throw new Error('SESSION_EXPIRED');
-    throw new Error(err.error || 'Failed to deactivate agent');
-  }
+  await api.request('/api/agents/deactivate', { method: 'POST', auth: 'jwt' });
 }
 
 /**
  * Delete agent (soft delete)
  */
 export async function deleteAgent(): Promise<void> {
-  const response = await fetch(`${API_BASE_URL}/api/agents/me`, {
-    method: 'DELETE',
-    headers: getJwtHeaders(),
-  });
-
-  if (!response.ok) {
-    const err = await response.json();
-    if (err.code === 'JWT_EXPIRED') throw new Error('SESSION_EXPIRED');
-    throw new Error(err.error || 'Failed to delete agent');
-  }
+  await api.request('/api/agents/me', { method: 'DELETE', auth: 'jwt' });
 }
 
 /**
  * Get agent profile via JWT
  */
-export async function getAgentProfile(): Promise<AgentProfile> {
-  const response = await fetch(`${API_BASE_URL}/api/agents/me`, {
-    headers: getJwtHeaders(),
+export async function getAgentProfile(signal?: AbortSignal): Promise<AgentProfile> {
+  const result = await api.request<{ agent: AgentProfile }>('/api/agents/me', {
+    auth: 'jwt',
+    signal,
+    schema: z.object({ agent: agentProfileSchema }),
   });
-
-  if (!response.ok) {
-    const err = await response.json();
-    if (err.code === 'JWT_EXPIRED') throw new Error('SESSION_EXPIRED');
-    throw new Error(err.error || 'Failed to get agent profile');
-  }
-
-  const result = await response.json();
   return result.agent;
 }
 
@@ -606,7 +1007,7 @@ export interface ApiLogEntry {
   status_code: number | null;
   response_time_ms: number | null;
   error: string | null;
-  created_at: string;
+  created_at: number;
 }
 
 export interface AgentLogsResponse {
@@ -617,19 +1018,14 @@ export interface AgentLogsResponse {
   offset: number;
 }
 
-export async function getAgentLogs(page = 1, limit = 50): Promise<AgentLogsResponse> {
+export async function getAgentLogs(page = 1, limit = 50, signal?: AbortSignal): Promise<AgentLogsResponse> {
   const offset = (page - 1) * limit;
-  const response = await fetch(`${API_BASE_URL}/api/agents/logs?limit=${limit}&offset=${offset}`, {
-    headers: getJwtHeaders(),
+  return api.request<AgentLogsResponse>('/api/agents/logs', {
+    query: { limit, offset },
+    auth: 'jwt',
+    signal,
+    schema: agentLogsResponseSchema,
   });
-
-  if (!response.ok) {
-    const err = await response.json();
-    if (err.code === 'JWT_EXPIRED') throw new Error('SESSION_EXPIRED');
-    throw new Error(err.error || 'Failed to get agent logs');
-  }
-
-  return response.json();
 }
 
 /**
@@ -639,25 +1035,248 @@ export interface IpHistoryEntry {
   id: string;
   agent_id: string;
   ip_address: string;
-  first_seen_at: string;
-  last_seen_at: string;
+  first_seen_at: number;
+  last_seen_at: number;
   request_count: number;
   is_vpn: boolean;
 }
 
-export async function getAgentIpHistory(): Promise<IpHistoryEntry[]> {
-  const response = await fetch(`${API_BASE_URL}/api/agents/ip-history`, {
-    headers: getJwtHeaders(),
+export async function getAgentIpHistory(signal?: AbortSignal): Promise<IpHistoryEntry[]> {
+  const result = await api.request<{ ip_history: IpHistoryEntry[] }>('/api/agents/ip-history', {
+    auth: 'jwt',
+    signal,
+    schema: z.object({ ip_history: z.array(ipHistoryEntrySchema) }),
   });
+  return result.ip_history;
+}
 
-  if (!response.ok) {
-    const err = await response.json();
-    if (err.code === 'JWT_EXPIRED') throw new Error('SESSION_EXPIRED');
-    throw new Error(err.error || 'Failed to get IP history');
-  }
+// ============ Webhooks API (JWT auth) ============
 
-  const result = await response.json();
-  return result.ip_history;
+// Mirrors WEBHOOK_EVENTS in backend/lib/webhooks.js
+export const WEBHOOK_EVENTS = ['payment.created', 'payment.paid'] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export interface Webhook {
+  id: string;
+  agent_id: string;
+  url: string;
+  events: string[];
+  active: boolean;
+  failure_count: number;
+  last_failure_at: number | null;
+  last_success_at: number | null;
+  created_at: number;
+}
+
+/** Returned once, on creation: the raw secret used to sign deliveries */
+export interface CreatedWebhook extends Webhook {
+  secret: string;
+}
+
+export type WebhookUpdate = Partial<Pick<Webhook, 'url' | 'events' | 'active'>>;
+
+export interface WebhookTestResult {
+  success: boolean;
+  message: string;
+  /** HTTP status returned by the receiver */
+  responseStatus: number;
+  /** First 2000 characters of the receiver's response body */
+  responseBody: string;
+  durationMs: number | null;
+}
+
+export async function getWebhooks(signal?: AbortSignal): Promise<Webhook[]> {
+  const result = await api.request<{ webhooks: Webhook[] }>('/api/webhooks', {
+    auth: 'jwt',
+    signal,
+    schema: webhookListResponseSchema,
+  });
+  return result.webhooks;
+}
+
+export async function createWebhook(url: string, events: WebhookEvent[]): Promise<CreatedWebhook> {
+  const result = await api.request<{ webhook: CreatedWebhook }>('/api/webhooks', {
+    method: 'POST',
+    body: { url, events },
+    auth: 'jwt',
+    schema: createWebhookResponseSchema,
+  });
+  return result.webhook;
+}
+
+export async function updateWebhook(webhookId: string, updates: WebhookUpdate): Promise<Webhook> {
+  const result = await api.request<{ webhook: Webhook }>(`/api/webhooks/${encodeURIComponent(webhookId)}`, {
+    method: 'PUT',
+    body: updates,
+    auth: 'jwt',
+    schema: webhookResponseSchema,
+  });
+  return result.webhook;
+}
+
+export async function deleteWebhook(webhookId: string): Promise<void> {
+  await api.request(`/api/webhooks/${encodeURIComponent(webhookId)}`, { method: 'DELETE', auth: 'jwt' });
+}
+
+/**
+ * Send a signed payment.test event to the webhook URL.
+ * Resolves with the receiver's response; rejects when it could not be reached.
+ */
+export async function testWebhook(webhookId: string): Promise<WebhookTestResult> {
+  return api.request<WebhookTestResult>(`/api/webhooks/${encodeURIComponent(webhookId)}/test`, {
+    method: 'POST',
+    auth: 'jwt',
+    schema: webhookTestResponseSchema,
+  });
+}
+
+/** One delivery attempt; retries and redeliveries of an event share event_id */
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  event_id: string;
+  event: string;
+  /** 1-based, counted per event */
+  attempt: number;
+  status_code: number | null;
+  success: boolean;
+  latency_ms: number | null;
+  /** First 1000 characters of the receiver's response */
+  response_snippet: string | null;
+  error: string | null;
+  /** Triggered manually from the dashboard */
+  redelivery: boolean;
+  created_at: number;
+}
+
+export interface WebhookDeliveriesResponse {
+  success: boolean;
+  deliveries: WebhookDelivery[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface WebhookDeliveryFilters {
+  status?: 'success' | 'failed';
+  event?: string;
+  /** Epoch ms */
+  since?: number;
+  /** Epoch ms */
+  until?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface WebhookBulkRedeliverResponse {
+  success: boolean;
+  /** Failed events queued for redelivery (at most `limit`) */
+  queued: number;
+  event_ids: string[];
+  limit: number;
+}
+
+export async function getWebhookDeliveries(
+  webhookId: string,
+  filters: WebhookDeliveryFilters = {},
+  signal?: AbortSignal
+): Promise<WebhookDeliveriesResponse> {
+  return api.request<WebhookDeliveriesResponse>(`/api/webhooks/${encodeURIComponent(webhookId)}/deliveries`, {
+    query: { ...filters },
+    auth: 'jwt',
+    signal,
+    schema: webhookDeliveriesResponseSchema,
+  });
+}
+
+/**
+ * Resend one recorded event (single attempt). Resolves with the new attempt.
+ */
+export async function redeliverWebhookDelivery(webhookId: string, deliveryId: string): Promise<WebhookDelivery> {
+  const result = await api.request<{ delivery: WebhookDelivery }>(
+    `/api/webhooks/${encodeURIComponent(webhookId)}/deliveries/${encodeURIComponent(deliveryId)}/redeliver`,
+    { method: 'POST', auth: 'jwt', schema: webhookRedeliverResponseSchema }
+  );
+  return result.delivery;
+}
+
+/**
+ * Queue every event in [since, until] that was never delivered successfully.
+ * Attempts run in the background and show up in the delivery log.
+ */
+export async function redeliverFailedWebhookDeliveries(
+  webhookId: string,
+  range: { since: number; until?: number }
+): Promise<WebhookBulkRedeliverResponse> {
+  return api.request<WebhookBulkRedeliverResponse>(`/api/webhooks/${encodeURIComponent(webhookId)}/redeliver`, {
+    method: 'POST',
+    body: range,
+    auth: 'jwt',
+    schema: webhookBulkRedeliverResponseSchema,
+  });
+}
+
+// ============ AI Chat API (JWT auth) ============
+
+/** Structured reply from POST /api/chat */
+export interface ChatReply {
+  message: string;
+  /** Routed intent (create_link, select_chain, list_payments, ...) or a gate such as provide_wallet */
+  action: string | null;
+  /** Intent router output; shape depends on the action */
+  result: Record<string, unknown> | null;
+  error: string | null;
+}
+
+export interface ChatMessage extends ChatReply {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  created_at: number;
+}
+
+/** `result` of a select_chain reply */
+export interface ChatChainSelection {
+  action_required: 'select_chain';
+  chains: { name: string; displayName: string; isTestnet: boolean }[];
+  pending: { amount: string | null; token: string; description: string };
+}
+
+/** `result` of a create_link reply */
+export interface ChatCreatedLink {
+  linkId: string;
+  /** Relative path, e.g. /r/REQ-1A2B3C4D */
+  link: string;
+  amount: string;
+  token: string;
+  network: string;
+}
+
+export async function getChatHistory(signal?: AbortSignal): Promise<ChatMessage[]> {
+  const result = await api.request<{ messages: ChatMessage[] }>('/api/chat/history', {
+    auth: 'jwt',
+    signal,
+    schema: chatHistoryResponseSchema,
+  });
+  return result.messages;
+}
+
+/**
+ * Send one message to the chat agent. Model calls can be slow, so the
+ * timeout is longer than for other requests.
+ */
+export async function sendChatMessage(message: string): Promise<ChatReply> {
+  return api.request<ChatReply>('/api/chat', {
+    method: 'POST',
+    body: { message },
+    auth: 'jwt',
+    timeoutMs: 60000,
+    schema: chatReplySchema,
+  });
+}
+
+export async function clearChatHistory(): Promise<void> {
+  await api.request('/api/chat/history', { method: 'DELETE', auth: 'jwt' });
 }
 
 /**
@@ -670,21 +1289,21 @@ export interface AgentProfile {
   wallet_address: string | null;
   chain: string;
   status: string;
-  created_at: string;
+  created_at: number;
   verification_status: string;
   x_username: string | null;
-  api_key_expires_at: string | null;
+  api_key_expires_at: number | null;
   total_payments_sent: number;
   total_payments_received: number;
   total_fees_paid: number;
-  deleted_at: string | null;
+  deleted_at: number | null;
 }
 
-export async function getAgentByWallet(walletAddress: string): Promise<AgentProfile | null> {
-  const response = await fetch(`${API_BASE_URL}/api/agents/by-wallet?wallet=${walletAddress}`);
-  if (!response.ok) {
-    return null;
-  }
-  const result = await response.json();
-  return result.agent || null;
+export async function getAgentByWallet(walletAddress: string, signal?: AbortSignal): Promise<AgentProfile | null> {
+  const result = await api.request<{ agent: AgentProfile | null }>('/api/agents/by-wallet', {
+    query: { wallet: walletAddress },
+    signal,
+    schema: z.object({ agent: agentProfileSchema.nullable() }),
+  });
+  return result.agent;
 }
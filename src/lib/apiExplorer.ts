@@ -0,0 +1,249 @@
+import { signRequest, type HmacCredentials, type HmacHeaders } from './hmac';
+import { BUNDLED_NETWORKS } from './networks';
+
+/**
+ * Endpoint catalogue and request builder for the Docs API explorer.
+ *
+ * Each endpoint describes its inputs once; the explorer form, the signed
+ * request, and the cURL / SDK snippets are all generated from the same
+ * `ExplorerRequest`, so what you copy is what was sent.
+ */
+
+export type ExplorerAuth = 'none' | 'hmac' | 'optional-hmac';
+
+export interface ExplorerField {
+  name: string;
+  in: 'path' | 'query' | 'body';
+  type: 'string' | 'number' | 'select';
+  required?: boolean;
+  options?: string[];
+  placeholder?: string;
+  description?: string;
+}
+
+export interface ExplorerEndpoint {
+  id: string;
+  method: 'GET' | 'POST';
+  /** Express-style path, e.g. /api/request/:id */
+  path: string;
+  auth: ExplorerAuth;
+  summary: string;
+  fields: ExplorerField[];
+  /** Equivalent @payagent/sdk call, when the SDK has one */
+  sdk?: (request: ExplorerRequest) => string;
+}
+
+export type ExplorerValues = Record<string, string>;
+
+export interface ExplorerRequest {
+  method: 'GET' | 'POST';
+  /** Path with parameters filled in and the query string appended */
+  url: string;
+  /** Parsed body fields (empty for GET) */
+  body: Record<string, string | number>;
+  /** Exact body string sent and signed ('' when there is no body) */
+  bodyText: string;
+}
+
+const NETWORKS = Object.keys(BUNDLED_NETWORKS);
+const TOKENS = ['USDC', 'USDT', 'ETH', 'LCX', 'POL', 'BNB'];
+
+const sdkArgs = (body: Record<string, string | number>) =>
+  `{\n${Object.entries(body).map(([key, value]) => `  ${key}: ${JSON.stringify(value)},`).join('\n')}\n}`;
+
+export const EXPLORER_ENDPOINTS: ExplorerEndpoint[] = [
+  {
+    id: 'create-link',
+    method: 'POST',
+    path: '/api/create-link',
+    auth: 'hmac',
+    summary: 'Create a payment link paid to your agent wallet',
+    fields: [
+      { name: 'amount', in: 'body', type: 'string', required: true, placeholder: '10' },
+      { name: 'network', in: 'body', type: 'select', required: true, options: NETWORKS },
+      { name: 'token', in: 'body', type: 'select', options: TOKENS, description: 'Defaults to USDC' },
+      { name: 'description', in: 'body', type: 'string', placeholder: 'Service fee' },
+    ],
+    sdk: ({ body }) => `const link = await client.createLink(${sdkArgs(body)});`,
+  },
+  {
+    id: 'pay-link',
+    method: 'POST',
+    path: '/api/pay-link',
+    auth: 'hmac',
+    summary: 'Get the transfers needed to pay a link (amount + fee)',
+    fields: [
+      { name: 'linkId', in: 'body', type: 'string', required: true, placeholder: 'REQ-ABC123' },
+    ],
+    sdk: ({ body }) => `const instructions = await client.getInstructions(${JSON.stringify(body.linkId ?? '')});`,
+  },
+  {
+    id: 'verify',
+    method: 'POST',
+    path: '/api/verify',
+    auth: 'optional-hmac',
+    summary: 'Verify a payment transaction on-chain',
+    fields: [
+      { name: 'requestId', in: 'body', type: 'string', required: true, placeholder: 'REQ-ABC123' },
+      { name: 'txHash', in: 'body', type: 'string', required: true, placeholder: '0x...' },
+      { name: 'feeTxHash', in: 'body', type: 'string', placeholder: '0x...' },
+    ],
+    sdk: ({ body }) => {
+      const args = [body.requestId, body.txHash, body.feeTxHash].filter(v => v !== undefined).map(v => JSON.stringify(v));
+      return `const verification = await client.verifyPayment(${args.join(', ')});`;
+    },
+  },
+  {
+    id: 'chains',
+    method: 'GET',
+    path: '/api/chains',
+    auth: 'none',
+    summary: 'Supported chains and token contracts',
+    fields: [],
+    sdk: () => 'const chains = await client.getChains();',
+  },
+  {
+    id: 'request',
+    method: 'GET',
+    path: '/api/request/:id',
+    auth: 'none',
+    summary: 'View a payment link',
+    fields: [
+      { name: 'id', in: 'path', type: 'string', required: true, placeholder: 'REQ-ABC123' },
+    ],
+  },
+  {
+    id: 'request-fee',
+    method: 'GET',
+    path: '/api/request/:id/fee',
+    auth: 'none',
+    summary: 'Fee breakdown for a payer wallet',
+    fields: [
+      { name: 'id', in: 'path', type: 'string', required: true, placeholder: 'REQ-ABC123' },
+      { name: 'payer', in: 'query', type: 'string', required: true, placeholder: '0x...' },
+    ],
+  },
+  {
+    id: 'requests',
+    method: 'GET',
+    path: '/api/requests',
+    auth: 'hmac',
+    summary: 'List your payment links',
+    fields: [],
+  },
+  {
+    id: 'agent-me',
+    method: 'GET',
+    path: '/api/agents/me',
+    auth: 'hmac',
+    summary: 'Your agent profile',
+    fields: [],
+  },
+  {
+    id: 'chat',
+    method: 'POST',
+    path: '/api/chat',
+    auth: 'hmac',
+    summary: 'Natural-language chat with the PayAgent assistant',
+    fields: [
+      { name: 'message', in: 'body', type: 'string', required: true, placeholder: 'Create a 5 USDC payment link on base' },
+    ],
+  },
+];
+
+/** Names of required fields that are still empty */
+export function missingFields(endpoint: ExplorerEndpoint, values: ExplorerValues): string[] {
+  return endpoint.fields.filter(f => f.required && !values[f.name]?.trim()).map(f => f.name);
+}
+
+/**
+ * Build the concrete request for an endpoint from form values.
+ * Empty optional fields are left out.
+ */
+export function buildExplorerRequest(endpoint: ExplorerEndpoint, values: ExplorerValues): ExplorerRequest {
+  const value = (field: ExplorerField) => values[field.name]?.trim() ?? '';
+
+  let path = endpoint.path;
+  const query = new URLSearchParams();
+  const body: Record<string, string | number> = {};
+
+  for (const field of endpoint.fields) {
+    const v = value(field);
+    if (field.in === 'path') {
+      path = path.replace(`:${field.name}`, encodeURIComponent(v));
+    } else if (v) {
+      if (field.in === 'query') query.set(field.name, v);
+      else body[field.name] = field.type === 'number' ? Number(v) : v;
+    }
+  }
+
+  const search = query.toString();
+  const hasBody = endpoint.method !== 'GET' && Object.keys(body).length > 0;
+  return {
+    method: endpoint.method,
+    url: search ? `${path}?${search}` : path,
+    body: hasBody ? body : {},
+    bodyText: hasBody ? JSON.stringify(body) : '',
+  };
+}
+
+/** Sign the request when the endpoint takes HMAC auth and credentials are present */
+export async function explorerHeaders(
+  endpoint: ExplorerEndpoint,
+  request: ExplorerRequest,
+  credentials: HmacCredentials | null
+): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {};
+  if (request.bodyText) headers['Content-Type'] = 'application/json';
+  if (endpoint.auth === 'none' || !credentials) return headers;
+
+  const signed: HmacHeaders = await signRequest(credentials, {
+    method: request.method,
+    path: request.url,
+    body: request.bodyText,
+  });
+  return { ...headers, ...signed };
+}
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * cURL command for the request. Pass the signed headers to embed a
+ * ready-to-run signature (valid for 5 minutes); otherwise placeholders are used.
+ */
+export function toCurl(
+  endpoint: ExplorerEndpoint,
+  request: ExplorerRequest,
+  baseUrl: string,
+  headers: Record<string, string> = {}
+): string {
+  const lines = [`curl -X ${request.method} ${shellQuote(`${baseUrl.replace(/\/$/, '')}${request.url}`)}`];
+  const allHeaders = { ...headers };
+  if (request.bodyText) allHeaders['Content-Type'] = 'application/json';
+  if (endpoint.auth === 'hmac' && !allHeaders['x-signature']) {
+    allHeaders['x-api-key-id'] = 'pk_live_YOUR_KEY_ID';
+    allHeaders['x-timestamp'] = '$(date +%s)';
+    allHeaders['x-signature'] = '<computed HMAC signature>';
+  }
+  for (const [name, value] of Object.entries(allHeaders)) {
+    // Leave $(date +%s) unquoted-expandable
+    lines.push(value.startsWith('$(') ? `-H "${name}: ${value}"` : `-H ${shellQuote(`${name}: ${value}`)}`);
+  }
+  if (request.bodyText) lines.push(`-d ${shellQuote(request.bodyText)}`);
+  return lines.join(' \\\n  ');
+}
+
+/** @payagent/sdk snippet for the request, or null when the SDK has no matching method */
+export function toSdk(endpoint: ExplorerEndpoint, request: ExplorerRequest, baseUrl: string, apiKeyId?: string): string | null {
+  if (!endpoint.sdk) return null;
+  return `const { PayAgentClient } = require('@payagent/sdk');
+
+const client = new PayAgentClient({
+  apiKeyId: '${apiKeyId || 'pk_live_YOUR_KEY_ID'}',
+  apiSecret: process.env.PAYAGENT_API_SECRET,
+  privateKey: process.env.WALLET_PRIVATE_KEY,
+  baseUrl: '${baseUrl.replace(/\/$/, '')}',
+});
+
+${endpoint.sdk(request)}`;
+}
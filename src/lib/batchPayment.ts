@@ -0,0 +1,95 @@
+import type { Config } from 'wagmi';
+import { getCapabilities, sendCalls, waitForCallsStatus } from 'wagmi/actions';
+import { encodeFunctionData, parseEther, parseUnits, WaitForCallsStatusTimeoutError, type TransactionReceipt } from 'viem';
+import { ERC20_ABI, getTokenAddress, isNativeToken } from './contracts';
+import type { FeeTransfer } from './api';
+import type { HexAddress } from './networks';
+import { TransferFailedError } from './txTracking';
+
+/**
+ * Atomic batched payments via EIP-5792 (wallet_sendCalls).
+ *
+ * Wallets that can execute calls atomically (smart accounts, EIP-7702
+ * upgraded EOAs) get every transfer of a payment in a single prompt, and
+ * either all of them land or none do. Other wallets use the sequential path.
+ */
+
+// Same window as a single transfer in lib/txTracking
+const BATCH_TIMEOUT_MS = 10 * 60 * 1000;
+
+type BatchCall = { to: HexAddress; value?: bigint; data?: `0x${string}` };
+
+// wagmi's per-chain typing of `calls` recurses too deep for a runtime-built list
+const sendBatch = sendCalls as unknown as (
+  config: Config,
+  parameters: { chainId: number; calls: BatchCall[]; forceAtomic: boolean }
+) => Promise<{ id: string }>;
+
+/** Whether the connected wallet can batch calls atomically on `chainId` */
+export async function supportsAtomicBatch(config: Config, account: HexAddress, chainId: number): Promise<boolean> {
+  try {
+    const capabilities = await getCapabilities(config, { account, chainId });
+    const status = capabilities?.atomic?.status;
+    return status === 'supported' || status === 'ready';
+  } catch {
+    // Wallets without EIP-5792 reject wallet_getCapabilities
+    return false;
+  }
+}
+
+/**
+ * Whether a transfer list can go through a batch. The payment itself must be
+ * an ERC-20 transfer: /api/verify checks native payments against the
+ * transaction's own value and recipient, which a batched call doesn't carry.
+ */
+export function canBatchTransfers(transfers: FeeTransfer[], network: string): boolean {
+  return transfers.length > 1 && !isNativeToken(transfers[0].token, network);
+}
+
+/** Submit every transfer as one atomic bundle; resolves with the bundle id */
+export async function sendTransferBatch(
+  config: Config,
+  chainId: number,
+  network: string,
+  transfers: FeeTransfer[],
+  decimalsByToken: Map<string, number>
+): Promise<string> {
+  const calls = transfers.map((transfer): BatchCall => {
+    if (isNativeToken(transfer.token, network)) {
+      return { to: transfer.to as HexAddress, value: parseEther(transfer.amount) };
+    }
+    const tokenAddr = transfer.tokenAddress || getTokenAddress(network, transfer.token);
+    return {
+      to: tokenAddr as HexAddress,
+      data: encodeFunctionData({
+        abi: ERC20_ABI,
+        functionName: 'transfer',
+        args: [transfer.to as HexAddress, parseUnits(transfer.amount, decimalsByToken.get(tokenAddr.toLowerCase()))],
+      }),
+    };
+  });
+
+  const { id } = await sendBatch(config, { chainId, calls, forceAtomic: true });
+  return id;
+}
+
+/**
+ * Wait for a bundle to be included (wallet_getCallsStatus). Resolves with its
+ * receipts: one when the wallet ran the batch as a single transaction, or one
+ * per call. Throws TransferFailedError when the bundle failed or never landed.
+ */
+export async function waitForTransferBatch(config: Config, id: string): Promise<TransactionReceipt[]> {
+  let result;
+  try {
+    result = await waitForCallsStatus(config, { id, timeout: BATCH_TIMEOUT_MS });
+  } catch (err) {
+    if (err instanceof WaitForCallsStatusTimeoutError) throw new TransferFailedError('dropped', id);
+    throw err;
+  }
+
+  const receipts = (result.receipts ?? []) as unknown as TransactionReceipt[];
+  if (result.status !== 'success' || receipts.length === 0 || receipts.some(r => r.status !== 'success')) {
+    throw new TransferFailedError('reverted', receipts.find(r => r.status !== 'success')?.transactionHash ?? id);
+  }
+  return receipts;
+}
@@ -1,4 +1,6 @@
-// ERC20 Token Contract ABI (minimal - just transfer function)
+import { findNetworkName, getNetwork, type HexAddress } from './networks';
+
+// ERC20 Token Contract ABI (minimal - transfer, approval, balance and token metadata)
 export const ERC20_ABI = [
   {
     name: 'transfer',
@@ -10,6 +12,26 @@ export const ERC20_ABI = [
     ],
     outputs: [{ name: '', type: 'bool' }]
   },
+  {
+    name: 'approve',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'spender', type: 'address' },
+      { name: 'amount', type: 'uint256' }
+    ],
+    outputs: [{ name: '', type: 'bool' }]
+  },
+  {
+    name: 'allowance',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' }
+    ],
+    outputs: [{ name: '', type: 'uint256' }]
+  },
   {
     name: 'decimals',
     type: 'function',
@@ -23,288 +45,191 @@ export const ERC20_ABI = [
     stateMutability: 'view',
     inputs: [{ name: 'account', type: 'address' }],
     outputs: [{ name: '', type: 'uint256' }]
+  },
+  {
+    name: 'symbol',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'string' }]
+  },
+  {
+    name: 'name',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'string' }]
   }
 ] as const;
 
-// Network configurations
-export const NETWORK_CONFIGS = {
-  sepolia: {
-    chainId: 11155111,
-    name: 'Sepolia',
-    rpcUrl: process.env.NEXT_PUBLIC_SEPOLIA_RPC_URL || 'https://sepolia.infura.io/v3/',
-  },
-  mainnet: {
-    chainId: 1,
-    name: 'Ethereum Mainnet',
-    rpcUrl: process.env.NEXT_PUBLIC_MAINNET_RPC_URL || '',
-  },
-  polygon: {
-    chainId: 137,
-    name: 'Polygon',
-    rpcUrl: process.env.NEXT_PUBLIC_POLYGON_RPC_URL || 'https://polygon-rpc.com',
-  },
-  base: {
-    chainId: 8453,
-    name: 'Base',
-    rpcUrl: process.env.NEXT_PUBLIC_BASE_RPC_URL || '',
+const ROUTER_LEG_COMPONENTS = [
+  { name: 'token', type: 'address' },
+  { name: 'to', type: 'address' },
+  { name: 'amount', type: 'uint256' }
+] as const;
+
+// PayAgentRouter ABI (contracts/src/PayAgentRouter.sol) - settle(), its permit variants and event
+export const PAYAGENT_ROUTER_ABI = [
+  {
+    name: 'settle',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'requestId', type: 'bytes32' },
+      { name: 'payment', type: 'tuple', components: ROUTER_LEG_COMPONENTS },
+      { name: 'platformFee', type: 'tuple', components: ROUTER_LEG_COMPONENTS },
+      { name: 'creatorReward', type: 'tuple', components: ROUTER_LEG_COMPONENTS }
+    ],
+    outputs: []
   },
-  bnb: {
-    chainId: 56,
-    name: 'BNB Chain',
-    rpcUrl: process.env.NEXT_PUBLIC_BNB_RPC_URL || 'https://bsc-dataseed.binance.org/',
+  {
+    name: 'settleWithPermit',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'requestId', type: 'bytes32' },
+      { name: 'payment', type: 'tuple', components: ROUTER_LEG_COMPONENTS },
+      { name: 'platformFee', type: 'tuple', components: ROUTER_LEG_COMPONENTS },
+      { name: 'creatorReward', type: 'tuple', components: ROUTER_LEG_COMPONENTS },
+      { name: 'deadline', type: 'uint256' },
+      { name: 'v', type: 'uint8' },
+      { name: 'r', type: 'bytes32' },
+      { name: 's', type: 'bytes32' }
+    ],
+    outputs: []
   },
-  bnbTestnet: {
-    chainId: 97,
-    name: 'BNB Testnet',
-    rpcUrl: process.env.NEXT_PUBLIC_BNB_TESTNET_RPC_URL || 'https://data-seed-prebsc-1-s1.binance.org:8545/',
+  {
+    name: 'settleWithPermit2',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'requestId', type: 'bytes32' },
+      { name: 'payment', type: 'tuple', components: ROUTER_LEG_COMPONENTS },
+      { name: 'platformFee', type: 'tuple', components: ROUTER_LEG_COMPONENTS },
+      { name: 'creatorReward', type: 'tuple', components: ROUTER_LEG_COMPONENTS },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' },
+      { name: 'signature', type: 'bytes' }
+    ],
+    outputs: []
   },
-} as const;
-
-// USDC Contract Addresses per network
-export const USDC_ADDRESSES = {
-  // Use your custom test USDC on Sepolia
-  sepolia: (process.env.NEXT_PUBLIC_SEPOLIA_USDC_ADDRESS || '0x3402d41aa8e34e0df605c12109de2f8f4ff33a87') as `0x${string}`,
-  mainnet: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' as `0x${string}`,
-  polygon: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174' as `0x${string}`,
-  base: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as `0x${string}`,
-  // BNB Testnet USDC - you may need to deploy or find a test token
-  bnbTestnet: (process.env.NEXT_PUBLIC_BNB_TESTNET_USDC_ADDRESS || '0x64544969ed7EBf5f083679233325356EbE738930') as `0x${string}`,
-} as const;
-
-// USDT Contract Addresses per network
-export const USDT_ADDRESSES = {
-  // Use your custom test USDT on Sepolia
-  sepolia: (process.env.NEXT_PUBLIC_SEPOLIA_USDT_ADDRESS || '0xF9E0643Ba46eeaf4e1059775567f67F5c867bbfc') as `0x${string}`,
-  mainnet: '0xdAC17F958D2ee523a2206206994597C13D831ec7' as `0x${string}`,
-  polygon: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F' as `0x${string}`,
-  base: '0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2' as `0x${string}`,
-  // BNB Testnet USDT - you may need to deploy or find a test token
-  bnbTestnet: (process.env.NEXT_PUBLIC_BNB_TESTNET_USDT_ADDRESS || '0x337610d27c682E347C9cD60BD4b3b107C9d34dDd') as `0x${string}`,
-} as const;
-
-// BNB/WBNB Contract Addresses per network (ERC20 wrapped BNB)
-export const BNB_ADDRESSES = {
-  // WBNB on Sepolia
-  sepolia: (process.env.NEXT_PUBLIC_SEPOLIA_BNB_ADDRESS || '0xceB2b022295a3FcdeC12ac82C2Ba21227e425720') as `0x${string}`,
-  // Original BNB token on Ethereum mainnet (from Binance ICO)
-  mainnet: '0xB8c77482e45F1F44dE1745F52C74426C631bDD52' as `0x${string}`,
-} as const;
-
-// LCX Token Contract Addresses per network
-export const LCX_ADDRESSES = {
-  // LCX on Sepolia
-  sepolia: (process.env.NEXT_PUBLIC_SEPOLIA_LCX_ADDRESS || '0x98d99c88D31C27C5a591Fe7F023F9DB0B37E4B3b') as `0x${string}`,
-  // LCX on Ethereum mainnet
-  mainnet: '0x037A54AaB062628C9Bbae1FDB1583c195585Fe41' as `0x${string}`,
-  // LCX on Base mainnet
-  base: '0xd7468c14ae76C3Fc308aEAdC223D5D1F71d3c171' as `0x${string}`,
-} as const;
+  {
+    name: 'PaymentSettled',
+    type: 'event',
+    inputs: [
+      { name: 'requestId', type: 'bytes32', indexed: true },
+      { name: 'payer', type: 'address', indexed: true },
+      { name: 'payment', type: 'tuple', indexed: false, components: ROUTER_LEG_COMPONENTS },
+      { name: 'platformFee', type: 'tuple', indexed: false, components: ROUTER_LEG_COMPONENTS },
+      { name: 'creatorReward', type: 'tuple', indexed: false, components: ROUTER_LEG_COMPONENTS }
+    ]
+  }
+] as const;
 
-// Token decimals
-export const TOKEN_DECIMALS: Record<string, number> = {
-  USDC: 6,
-  USDT: 6,
-  DAI: 18,
-  ETH: 18,
-  BNB: 18,
-  LCX: 18,
-};
+// Uniswap Permit2, deployed at the same address on every chain
+export const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3' as const;
 
-/**
- * Get chain ID from network name
- */
-export function getChainId(network: string): number {
-  const networkLower = network.toLowerCase();
-  
-  // Check for Sepolia first (testnet)
-  if (networkLower.includes('sepolia')) return NETWORK_CONFIGS.sepolia.chainId;
-  
-  // Check for BNB Testnet specifically
-  if (networkLower.includes('bnb') && networkLower.includes('test')) return NETWORK_CONFIGS.bnbTestnet.chainId;
-  
-  // Check for BNB Chain mainnet
-  if (networkLower.includes('bnb')) return NETWORK_CONFIGS.bnb.chainId;
-  
-  // Check for Base (before "mainnet" check since "base-mainnet" contains "mainnet")
-  if (networkLower.includes('base')) return NETWORK_CONFIGS.base.chainId;
-  
-  // Check for Ethereum mainnet
-  if (networkLower === 'ethereum' || networkLower.includes('mainnet')) return NETWORK_CONFIGS.mainnet.chainId;
-  
-  // Other networks
-  if (networkLower.includes('polygon')) return NETWORK_CONFIGS.polygon.chainId;
-  
-  // If just "ETH" without specifier, default to Sepolia for testing
-  if (networkLower.includes('eth')) return NETWORK_CONFIGS.sepolia.chainId;
-  
-  // Default to Sepolia for testing
-  return NETWORK_CONFIGS.sepolia.chainId;
-}
+// EIP-2612 reads used to sign a permit for the PayAgent router
+export const ERC20_PERMIT_ABI = [
+  {
+    name: 'nonces',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }]
+  },
+  {
+    name: 'version',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'string' }]
+  }
+] as const;
 
-/**
- * Get USDC contract address for a network
- */
-export function getUsdcAddress(network: string): `0x${string}` | null {
-  const networkLower = network.toLowerCase();
-  
-  // Check for Sepolia first (testnet)
-  if (networkLower.includes('sepolia')) return USDC_ADDRESSES.sepolia;
-  
-  // Check for BNB Testnet
-  if (networkLower.includes('bnb') && networkLower.includes('test')) return USDC_ADDRESSES.bnbTestnet;
-  
-  // Check for Base (before mainnet check)
-  if (networkLower.includes('base')) return USDC_ADDRESSES.base;
-  
-  // Check for Ethereum mainnet
-  if (networkLower === 'ethereum' || networkLower.includes('mainnet')) return USDC_ADDRESSES.mainnet;
-  
-  // Other networks
-  if (networkLower.includes('polygon')) return USDC_ADDRESSES.polygon;
-  
-  // If just "ETH" without specifier, default to Sepolia for testing
-  if (networkLower.includes('eth')) return USDC_ADDRESSES.sepolia;
-  
-  // Default to Sepolia for testing
-  return USDC_ADDRESSES.sepolia;
-}
+// EIP-3009 (USDC-style) reads used to sign gasless transferWithAuthorization messages
+export const EIP3009_ABI = [
+  {
+    name: 'version',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'string' }]
+  },
+  {
+    name: 'authorizationState',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'authorizer', type: 'address' },
+      { name: 'nonce', type: 'bytes32' }
+    ],
+    outputs: [{ name: '', type: 'bool' }]
+  }
+] as const;
 
 /**
- * Get USDT contract address for a network
+ * Transfer helpers on top of the network registry (./networks).
+ * Unknown networks throw UnknownNetworkError; there is no default chain.
  */
-export function getUsdtAddress(network: string): `0x${string}` | null {
-  const networkLower = network.toLowerCase();
-  
-  if (networkLower.includes('sepolia')) return USDT_ADDRESSES.sepolia;
-  if (networkLower.includes('bnb') && networkLower.includes('test')) return USDT_ADDRESSES.bnbTestnet;
-  if (networkLower.includes('base')) return USDT_ADDRESSES.base;
-  if (networkLower === 'ethereum' || networkLower.includes('mainnet')) return USDT_ADDRESSES.mainnet;
-  if (networkLower.includes('polygon')) return USDT_ADDRESSES.polygon;
-  if (networkLower.includes('eth')) return USDT_ADDRESSES.sepolia;
-  
-  return USDT_ADDRESSES.sepolia;
-}
 
 /**
- * Get BNB/WBNB contract address for a network (ERC20 wrapped BNB)
+ * Get chain ID from network name
  */
-export function getBnbAddress(network: string): `0x${string}` | null {
-  const networkLower = network.toLowerCase();
-  
-  if (networkLower.includes('sepolia')) return BNB_ADDRESSES.sepolia;
-  if (networkLower.includes('mainnet')) return BNB_ADDRESSES.mainnet;
-  if (networkLower.includes('eth')) return BNB_ADDRESSES.sepolia;
-  
-  return BNB_ADDRESSES.sepolia;
+export function getChainId(network: string): number {
+  return getNetwork(network).chainId;
 }
 
 /**
- * Get LCX contract address for a network
+ * Get token contract address; null for the network's native token
  */
-export function getLcxAddress(network: string): `0x${string}` | null {
-  const networkLower = network.toLowerCase();
-  
-  if (networkLower.includes('sepolia')) return LCX_ADDRESSES.sepolia;
-  if (networkLower.includes('base')) return LCX_ADDRESSES.base;
-  if (networkLower === 'ethereum' || networkLower.includes('mainnet')) return LCX_ADDRESSES.mainnet;
-  if (networkLower.includes('eth')) return LCX_ADDRESSES.sepolia;
-  
-  return LCX_ADDRESSES.sepolia;
+export function getTokenAddress(network: string, token: string): HexAddress | null {
+  const config = getNetwork(network);
+  const symbol = token.toUpperCase();
+  if (symbol === config.nativeToken) return null;
+  const address = config.tokens[symbol];
+  if (!address) throw new Error(`${symbol} is not supported on ${config.displayName}`);
+  return address;
 }
 
 /**
- * Get token contract address
+ * Check if token is the native token on the given network
  */
-export function getTokenAddress(network: string, token: string): `0x${string}` | null {
-  const tokenUpper = token.toUpperCase();
-  const networkLower = network.toLowerCase();
-  
-  // USDC
-  if (tokenUpper === 'USDC') {
-    return getUsdcAddress(network);
-  }
-  
-  // USDT
-  if (tokenUpper === 'USDT') {
-    return getUsdtAddress(network);
-  }
-  
-  // BNB - native on BNB chains, ERC20 (WBNB) on Ethereum/Sepolia
-  if (tokenUpper === 'BNB') {
-    // On BNB Chain/Testnet, BNB is native (no contract)
-    if (networkLower.includes('bnb')) {
-      return null;
-    }
-    // On Sepolia/Ethereum, BNB is wrapped (WBNB)
-    return getBnbAddress(network);
-  }
-  
-  // LCX
-  if (tokenUpper === 'LCX') {
-    return getLcxAddress(network);
-  }
-  
-  // Native token ETH
-  if (tokenUpper === 'ETH') {
-    return null;
-  }
-  
-  return null;
+export function isNativeToken(token: string, network: string): boolean {
+  return token.toUpperCase() === getNetwork(network).nativeToken;
 }
 
 /**
- * Check if token is a native token on the given network
+ * Registry decimals for a known token on a network. Payments scale amounts
+ * with the decimals read from the contract instead (see ./tokenMetadata).
  */
-export function isNativeToken(token: string, network?: string): boolean {
-  const tokenUpper = token.toUpperCase();
-  const networkLower = network?.toLowerCase() || '';
-  
-  // ETH is always native on Ethereum networks
-  if (tokenUpper === 'ETH') return true;
-  
-  // BNB is native on BNB Chain/Testnet, but ERC20 on Sepolia
-  if (tokenUpper === 'BNB' && networkLower.includes('bnb')) return true;
-  
-  return false;
+export function getTokenDecimals(network: string, token: string): number {
+  const config = getNetwork(network);
+  const decimals = config.tokenDecimals[token.toUpperCase()];
+  if (decimals === undefined) throw new Error(`${token.toUpperCase()} is not supported on ${config.displayName}`);
+  return decimals;
 }
 
 /**
- * Get token decimals
+ * PayAgent router deployed on a network (from GET /api/chains), or null
  */
-export function getTokenDecimals(token: string): number {
-  return TOKEN_DECIMALS[token.toUpperCase()] || 18;
+export function getRouterAddress(network: string): HexAddress | null {
+  const name = findNetworkName(network);
+  return name ? getNetwork(name).router : null;
 }
 
 /**
- * Get network display name
+ * Block explorer link for a transaction, or undefined when the network is unknown
  */
-export function getNetworkName(network: string): string {
-  const networkLower = network.toLowerCase();
-  
-  if (networkLower.includes('sepolia')) return 'Sepolia (ETH Testnet)';
-  if (networkLower.includes('bnb') && networkLower.includes('test')) return 'BNB Testnet';
-  if (networkLower.includes('bnb')) return 'BNB Chain';
-  if (networkLower.includes('base')) return 'Base';
-  if (networkLower === 'ethereum' || networkLower.includes('mainnet')) return 'Ethereum Mainnet';
-  if (networkLower.includes('polygon')) return 'Polygon';
-  if (networkLower.includes('eth')) return 'Sepolia (ETH Testnet)';
-  
-  return network;
+export function getTxUrl(network: string, txHash: string): string | undefined {
+  const name = findNetworkName(network);
+  return name ? `${getNetwork(name).explorer}/tx/${txHash}` : undefined;
 }
 
 /**
- * Get block explorer URL for a network
+ * Block explorer page for a token contract, or undefined when the network is unknown
  */
-export function getExplorerUrl(network: string): string {
-  const networkLower = network.toLowerCase();
-  
-  if (networkLower.includes('sepolia')) return 'https://sepolia.etherscan.io';
-  if (networkLower.includes('bnb') && networkLower.includes('test')) return 'https://testnet.bscscan.com';
-  if (networkLower.includes('bnb')) return 'https://bscscan.com';
-  if (networkLower.includes('base')) return 'https://basescan.org';
-  if (networkLower === 'ethereum' || networkLower.includes('mainnet')) return 'https://etherscan.io';
-  if (networkLower.includes('polygon')) return 'https://polygonscan.com';
-  
-  return 'https://sepolia.etherscan.io';
+export function getTokenUrl(network: string, tokenAddress: string): string | undefined {
+  const name = findNetworkName(network);
+  return name ? `${getNetwork(name).explorer}/token/${tokenAddress}` : undefined;
 }
-
@@ -0,0 +1,56 @@
+import { getAddress, toCoinType, type PublicClient } from 'viem';
+import { normalize } from 'viem/ens';
+import { base } from 'viem/chains';
+import type { HexAddress } from './networks';
+
+/**
+ * ENS and Basename (alice.base.eth) resolution.
+ *
+ * Every lookup goes through a mainnet client: Basenames resolve from L1 via
+ * CCIP-read, and Base primary names are the ENSIP-19 reverse record for the
+ * Base coin type. Links store the address a name resolved to when they were
+ * created (plus the name itself), so resolution is only used for display and
+ * to spot names that have moved since.
+ */
+
+export interface EnsIdentity {
+  /** Primary name, verified by forward resolution; null when the address has none */
+  name: string | null;
+  avatar: string | null;
+}
+
+const BASE_COIN_TYPE = toCoinType(base.id);
+
+/** Looks like an ENS name (alice.eth, alice.base.eth); not a guarantee that it resolves */
+export function isEnsName(value: string): boolean {
+  return /^[^\s.]+(\.[^\s.]+)*\.eth$/i.test(value.trim());
+}
+
+/**
+ * Address an ENS name points to, or null when it is unregistered, has no
+ * address record or can't be normalised.
+ */
+export async function resolveEnsAddress(client: PublicClient, name: string): Promise<HexAddress | null> {
+  let normalized: string;
+  try {
+    normalized = normalize(name.trim());
+  } catch {
+    return null;
+  }
+  const address = await client.getEnsAddress({ name: normalized });
+  return address ? getAddress(address) : null;
+}
+
+/**
+ * Primary name and avatar of an address: its mainnet ENS name first, then its
+ * Base primary name. viem checks that the name resolves back to the address.
+ */
+export async function lookupEnsIdentity(client: PublicClient, address: HexAddress): Promise<EnsIdentity> {
+  const name =
+    (await client.getEnsName({ address })) ??
+    (await client.getEnsName({ address, coinType: BASE_COIN_TYPE }).catch(() => null));
+  if (!name) return { name: null, avatar: null };
+
+  const avatar = await client.getEnsAvatar({ name: normalize(name) }).catch(() => null);
+  return { name, avatar };
+}
@@ -0,0 +1,124 @@
+import type { Config } from 'wagmi';
+import { signTypedData } from 'wagmi/actions';
+import { bytesToHex, parseUnits, zeroAddress, zeroHash, type PublicClient } from 'viem';
+import { EIP3009_ABI, ERC20_ABI, getTokenAddress, isNativeToken } from './contracts';
+import type { FeeTransfer, TransferAuthorization } from './api';
+import type { HexAddress } from './networks';
+import { viemParams } from './viemParams';
+
+/**
+ * Gasless payments via EIP-3009 (transferWithAuthorization).
+ *
+ * The payer signs one EIP-712 authorization per transfer instead of sending
+ * transactions; POST /api/request/:id/relay submits them from the backend's
+ * relayer wallet, which pays the gas. USDC and other FiatToken contracts
+ * support it; the payer still needs the token balance, but no native token.
+ */
+
+// How long a signed authorization stays valid; the relayer submits right away
+const AUTHORIZATION_TTL_SECONDS = 60 * 60;
+
+const AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' },
+  ],
+} as const;
+
+interface TokenDomain {
+  name: string;
+  version: string;
+}
+
+/** EIP-712 domain name and version of a token, or null when it has no EIP-3009 support */
+async function readTokenDomain(client: PublicClient, token: HexAddress): Promise<TokenDomain | null> {
+  try {
+    const [name, version] = await Promise.all([
+      client.readContract(viemParams({ address: token, abi: ERC20_ABI, functionName: 'name' })),
+      client.readContract(viemParams({ address: token, abi: EIP3009_ABI, functionName: 'version' })),
+      // Only EIP-3009 tokens have authorizationState; plain ERC-20s revert here
+      client.readContract(viemParams({
+        address: token,
+        abi: EIP3009_ABI,
+        functionName: 'authorizationState',
+        args: [zeroAddress, zeroHash],
+      })),
+    ]);
+    return { name, version };
+  } catch {
+    return null;
+  }
+}
+
+const transferToken = (transfer: FeeTransfer, network: string) =>
+  (transfer.tokenAddress || getTokenAddress(network, transfer.token)).toLowerCase() as HexAddress;
+
+/**
+ * Whether every transfer can be sent gaslessly: no native-token legs, and
+ * every token contract supports EIP-3009.
+ */
+export async function supportsGaslessTransfers(client: PublicClient, network: string, transfers: FeeTransfer[]): Promise<boolean> {
+  if (transfers.length === 0 || transfers.some(transfer => isNativeToken(transfer.token, network))) return false;
+  const tokens = [...new Set(transfers.map(transfer => transferToken(transfer, network)))];
+  const domains = await Promise.all(tokens.map(token => readTokenDomain(client, token)));
+  return domains.every(Boolean);
+}
+
+/**
+ * Ask the wallet to sign a transferWithAuthorization for every transfer, in
+ * order. ERC-20 amounts are scaled with `decimalsByToken` (lowercase contract -> decimals).
+ */
+export async function signTransferAuthorizations(
+  config: Config,
+  client: PublicClient,
+  chainId: number,
+  network: string,
+  payer: HexAddress,
+  transfers: FeeTransfer[],
+  decimalsByToken: Map<string, number>
+): Promise<TransferAuthorization[]> {
+  const domains = new Map<HexAddress, TokenDomain>();
+  const validBefore = BigInt(Math.floor(Date.now() / 1000) + AUTHORIZATION_TTL_SECONDS);
+  const authorizations: TransferAuthorization[] = [];
+
+  for (const transfer of transfers) {
+    const token = transferToken(transfer, network);
+    if (!domains.has(token)) {
+      const domain = await readTokenDomain(client, token);
+      if (!domain) throw new Error(`${transfer.token} does not support gasless transfers`);
+      domains.set(token, domain);
+    }
+
+    const message = {
+      from: payer,
+      to: transfer.to as HexAddress,
+      value: parseUnits(transfer.amount, decimalsByToken.get(token)),
+      validAfter: 0n,
+      validBefore,
+      nonce: bytesToHex(crypto.getRandomValues(new Uint8Array(32))),
+    };
+    const signature = await signTypedData(config, {
+      account: payer,
+      domain: { ...domains.get(token), chainId, verifyingContract: token },
+      types: AUTHORIZATION_TYPES,
+      primaryType: 'TransferWithAuthorization',
+      message,
+    });
+
+    authorizations.push({
+      token,
+      from: payer,
+      to: message.to,
+      value: message.value.toString(),
+      validAfter: message.validAfter.toString(),
+      validBefore: message.validBefore.toString(),
+      nonce: message.nonce,
+      signature,
+    });
+  }
+  return authorizations;
+}
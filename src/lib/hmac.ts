@@ -0,0 +1,97 @@
+/**
+ * Browser-side HMAC-SHA256 request signing for agent endpoints.
+ *
+ * Produces the same headers as the JS SDK and the curl recipe in the docs,
+ * verified by backend/middleware/auth.js:
+ *
+ *   x-api-key-id: pk_live_...
+ *   x-timestamp:  unix epoch seconds
+ *   x-signature:  hex HMAC-SHA256(apiSecret, timestamp\nMETHOD\npath\nSHA256(body))
+ *
+ * `path` is the request path without query string, and `body` is the exact
+ * string sent on the wire ('' for no body). Uses WebCrypto SubtleCrypto, so it
+ * needs a secure context (https or localhost). The secret stays in the page:
+ * only use it with credentials the user pasted in themselves.
+ *
+ * Conformance tests live in backend/test.js (section "Browser HMAC Signer").
+ */
+
+export interface HmacCredentials {
+  apiKeyId: string;
+  apiSecret: string;
+}
+
+export interface HmacHeaders {
+  'x-api-key-id': string;
+  'x-timestamp': string;
+  'x-signature': string;
+}
+
+export interface SignableRequest {
+  method: string;
+  /** Path or absolute URL; query string and fragment are not signed */
+  path: string;
+  /** Exact request body as sent; omit or '' for requests without a body */
+  body?: string;
+  /** Unix epoch seconds (default: now). The backend accepts ±300s of drift. */
+  timestamp?: number;
+}
+
+const encoder = new TextEncoder();
+
+function subtle(): SubtleCrypto {
+  const impl = globalThis.crypto?.subtle;
+  if (!impl) {
+    throw new Error('WebCrypto is unavailable. Request signing needs a secure context (https or localhost).');
+  }
+  return impl;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Hex SHA-256 of a UTF-8 string */
+export async function sha256Hex(data: string): Promise<string> {
+  return toHex(await subtle().digest('SHA-256', encoder.encode(data)));
+}
+
+/** Hex HMAC-SHA256 of a UTF-8 string, keyed with the UTF-8 bytes of `secret` */
+export async function hmacSha256Hex(secret: string, data: string): Promise<string> {
+  const key = await subtle().importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toHex(await subtle().sign('HMAC', key, encoder.encode(data)));
+}
+
+/**
+ * The path the backend signs (req.originalUrl without the query string),
+ * percent-encoded the way fetch() will send it.
+ */
+export function canonicalPath(pathOrUrl: string): string {
+  return new URL(pathOrUrl, 'http://localhost').pathname;
+}
+
+/**
+ * String-to-sign: timestamp\nMETHOD\npath\nSHA256(body)
+ */
+export async function buildStringToSign(timestamp: string, method: string, path: string, body = ''): Promise<string> {
+  return `${timestamp}\n${method.toUpperCase()}\n${canonicalPath(path)}\n${await sha256Hex(body)}`;
+}
+
+/**
+ * Sign one request and return the auth headers to send with it.
+ */
+export async function signRequest(credentials: HmacCredentials, request: SignableRequest): Promise<HmacHeaders> {
+  const timestamp = String(request.timestamp ?? Math.floor(Date.now() / 1000));
+  const stringToSign = await buildStringToSign(timestamp, request.method, request.path, request.body);
+  return {
+    'x-api-key-id': credentials.apiKeyId,
+    'x-timestamp': timestamp,
+    'x-signature': await hmacSha256Hex(credentials.apiSecret, stringToSign),
+  };
+}
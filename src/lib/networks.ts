@@ -0,0 +1,261 @@
+/**
+ * Frontend network registry.
+ *
+ * Mirrors SUPPORTED_CHAINS and NETWORK_ALIASES in backend/lib/chainRegistry.js.
+ * The bundled table below is used until GET /api/chains has been loaded
+ * (see hooks/use-networks), after which the backend's values win. Lookups
+ * throw UnknownNetworkError instead of guessing a chain.
+ *
+ * backend/test.js (section "Frontend Network Registry") fails when the
+ * bundled table drifts from the backend registry.
+ */
+
+export type CanonicalNetwork = 'sepolia' | 'ethereum' | 'base' | 'polygon' | 'bnb';
+
+export type HexAddress = `0x${string}`;
+
+export interface NetworkConfig {
+  name: CanonicalNetwork;
+  displayName: string;
+  chainId: number;
+  isTestnet: boolean;
+  explorer: string;
+  nativeToken: string;
+  /** ERC-20 contracts by symbol; the native token has no entry */
+  tokens: Record<string, HexAddress>;
+  tokenDecimals: Record<string, number>;
+  /** PayAgent router contract, when one is deployed (only known from /api/chains) */
+  router: HexAddress | null;
+}
+
+/** One entry of GET /api/chains */
+export interface ChainDetails {
+  name: string;
+  displayName: string;
+  chainId: number;
+  isTestnet: boolean;
+  explorer: string;
+  nativeToken: string;
+  tokens: Record<string, string>;
+  tokenDecimals: Record<string, number>;
+  router?: string | null;
+}
+
+/** A token whose contract differs between the frontend and backend registries */
+export interface TokenDrift {
+  network: CanonicalNetwork;
+  token: string;
+  frontend: string | null;
+  backend: string | null;
+}
+
+export class UnknownNetworkError extends Error {
+  readonly network: string;
+
+  constructor(network: string) {
+    super(`Unsupported network: ${network}`);
+    this.name = 'UnknownNetworkError';
+    this.network = network;
+  }
+}
+
+// ============ Bundled Registry ============
+
+export const BUNDLED_NETWORKS: Record<CanonicalNetwork, NetworkConfig> = {
+  sepolia: {
+    name: 'sepolia',
+    displayName: 'Sepolia (ETH Testnet)',
+    chainId: 11155111,
+    isTestnet: true,
+    explorer: 'https://sepolia.etherscan.io',
+    nativeToken: 'ETH',
+    tokens: {
+      USDC: '0x3402d41aa8e34e0df605c12109de2f8f4ff33a87',
+      USDT: '0xF9E0643Ba46eeaf4e1059775567f67F5c867bbfc',
+      LCX: '0x98d99c88D31C27C5a591Fe7F023F9DB0B37E4B3b',
+    },
+    tokenDecimals: { USDC: 6, USDT: 6, LCX: 18, ETH: 18 },
+    router: null,
+  },
+  ethereum: {
+    name: 'ethereum',
+    displayName: 'Ethereum Mainnet',
+    chainId: 1,
+    isTestnet: false,
+    explorer: 'https://etherscan.io',
+    nativeToken: 'ETH',
+    tokens: {
+      USDC: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+      USDT: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+      LCX: '0x037A54AaB062628C9Bbae1FDB1583c195585Fe41',
+    },
+    tokenDecimals: { USDC: 6, USDT: 6, LCX: 18, ETH: 18 },
+    router: null,
+  },
+  base: {
+    name: 'base',
+    displayName: 'Base Mainnet',
+    chainId: 8453,
+    isTestnet: false,
+    explorer: 'https://basescan.org',
+    nativeToken: 'ETH',
+    tokens: {
+      USDC: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+      USDT: '0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2',
+      LCX: '0xd7468c14ae76C3Fc308aEAdC223D5D1F71d3c171',
+    },
+    tokenDecimals: { USDC: 6, USDT: 6, LCX: 18, ETH: 18 },
+    router: null,
+  },
+  polygon: {
+    name: 'polygon',
+    displayName: 'Polygon PoS',
+    chainId: 137,
+    isTestnet: false,
+    explorer: 'https://polygonscan.com',
+    nativeToken: 'POL',
+    tokens: {
+      USDC: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+      USDT: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
+    },
+    tokenDecimals: { USDC: 6, USDT: 6, POL: 18 },
+    router: null,
+  },
+  bnb: {
+    name: 'bnb',
+    displayName: 'BNB Smart Chain',
+    chainId: 56,
+    isTestnet: false,
+    explorer: 'https://bscscan.com',
+    nativeToken: 'BNB',
+    tokens: {
+      USDC: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d',
+      USDT: '0x55d398326f99059fF775485246999027B3197955',
+    },
+    tokenDecimals: { USDC: 18, USDT: 18, BNB: 18 },
+    router: null,
+  },
+};
+
+/** Alternative names accepted for each network, as in the backend */
+export const NETWORK_ALIASES: Record<string, CanonicalNetwork> = {
+  'sepolia': 'sepolia',
+  'eth-sepolia': 'sepolia',
+  'sepolia-testnet': 'sepolia',
+  'ethereum': 'ethereum',
+  'mainnet': 'ethereum',
+  'eth-mainnet': 'ethereum',
+  'eth': 'ethereum',
+  'base': 'base',
+  'base-mainnet': 'base',
+  'polygon': 'polygon',
+  'polygon-mainnet': 'polygon',
+  'matic': 'polygon',
+  'bnb': 'bnb',
+  'bsc': 'bnb',
+  'bnb-chain': 'bnb',
+  'bsc-mainnet': 'bnb',
+};
+
+let registry: Record<CanonicalNetwork, NetworkConfig> = { ...BUNDLED_NETWORKS };
+
+// ============ Lookups ============
+
+/** Canonical name for a network or alias, or null when unsupported */
+export function findNetworkName(network: string | null | undefined): CanonicalNetwork | null {
+  if (!network) return null;
+  return NETWORK_ALIASES[network.trim().toLowerCase()] ?? null;
+}
+
+/** Canonical name for a network or alias; throws UnknownNetworkError when unsupported */
+export function resolveNetwork(network: string): CanonicalNetwork {
+  const name = findNetworkName(network);
+  if (!name) throw new UnknownNetworkError(network);
+  return name;
+}
+
+/** Full config for a network or alias; throws UnknownNetworkError when unsupported */
+export function getNetwork(network: string): NetworkConfig {
+  return registry[resolveNetwork(network)];
+}
+
+/** All supported networks, in registry order */
+export function listNetworks(): NetworkConfig[] {
+  return Object.values(registry);
+}
+
+/** Display name for any network string; unknown values are shown as-is */
+export function networkDisplayName(network: string): string {
+  const name = findNetworkName(network);
+  return name ? registry[name].displayName : network;
+}
+
+/** Whether a token can be paid on a network (native or a known contract) */
+export function supportsToken(network: NetworkConfig, token: string): boolean {
+  const symbol = token.toUpperCase();
+  return symbol === network.nativeToken || symbol in network.tokens;
+}
+
+/** Registry symbol of a token contract on a network, or null when it is not a known token */
+export function findTokenSymbol(network: NetworkConfig, address: string): string | null {
+  const target = address.toLowerCase();
+  return Object.keys(network.tokens).find(symbol => network.tokens[symbol].toLowerCase() === target) ?? null;
+}
+
+// ============ Hydration ============
+
+/**
+ * Token contracts that differ between a frontend table and /api/chains,
+ * compared case-insensitively. Tokens missing on one side are reported
+ * with null on that side; backend networks the frontend does not know are skipped.
+ */
+export function findTokenDrift(
+  frontend: Record<CanonicalNetwork, NetworkConfig>,
+  backend: ChainDetails[]
+): TokenDrift[] {
+  const drift: TokenDrift[] = [];
+  for (const chain of backend) {
+    const name = findNetworkName(chain.name);
+    if (!name) continue;
+    const local = frontend[name].tokens;
+    const symbols = new Set([...Object.keys(local), ...Object.keys(chain.tokens)]);
+    for (const token of symbols) {
+      const a = local[token] ?? null;
+      const b = chain.tokens[token] ?? null;
+      if (a?.toLowerCase() !== b?.toLowerCase()) {
+        drift.push({ network: name, token, frontend: a, backend: b });
+      }
+    }
+  }
+  return drift;
+}
+
+/**
+ * Replace the bundled configs with the backend's /api/chains response.
+ * Drift against the bundled table is logged and returned so it gets fixed here.
+ */
+export function hydrateNetworks(chains: ChainDetails[]): TokenDrift[] {
+  const drift = findTokenDrift(BUNDLED_NETWORKS, chains);
+  for (const d of drift) {
+    console.warn(`[networks] ${d.token} on ${d.network}: frontend ${d.frontend ?? 'missing'}, backend ${d.backend ?? 'missing'}`);
+  }
+
+  const next = { ...registry };
+  for (const chain of chains) {
+    const name = findNetworkName(chain.name);
+    if (!name) continue;
+    next[name] = {
+      name,
+      displayName: chain.displayName,
+      chainId: chain.chainId,
+      isTestnet: chain.isTestnet,
+      explorer: chain.explorer,
+      nativeToken: chain.nativeToken.toUpperCase(),
+      tokens: chain.tokens as Record<string, HexAddress>,
+      tokenDecimals: chain.tokenDecimals,
+      router: (chain.router ?? null) as HexAddress | null,
+    };
+  }
+  registry = next;
+  return drift;
+}
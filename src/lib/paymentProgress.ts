@@ -0,0 +1,90 @@
+import type { PublicClient } from 'viem';
+import type { FeeInfoResponse } from './api';
+
+/**
+ * Local record of a multi-transfer payment in progress.
+ *
+ * Transfers (payment, platform fee, creator reward) are sent one by one, so a
+ * payer can be interrupted between them: a rejected fee transfer, a closed tab,
+ * a reload. The hashes sent so far are stored in localStorage with the fee
+ * quote they were built from, then checked against chain receipts on reload so
+ * a resumed payment only sends what is still missing. Nothing here is trusted
+ * by the backend; /api/verify still checks every hash on-chain.
+ */
+
+export interface PaymentProgress {
+  requestId: string;
+  network: string;
+  /** Lowercase payer wallet */
+  payer: string;
+  /** Fee quote the transfers were sent with; resuming reuses it instead of re-quoting */
+  feeInfo: FeeInfoResponse;
+  /** Hash per transfer index, null for transfers not sent (or no longer valid) */
+  hashes: (string | null)[];
+  updatedAt: number;
+}
+
+const STORAGE_PREFIX = 'payagent:payment:';
+
+const storageKey = (requestId: string) => `${STORAGE_PREFIX}${requestId}`;
+
+/** Number of transfers already sent */
+export const sentCount = (progress: PaymentProgress) => progress.hashes.filter(Boolean).length;
+
+/** Saved progress for a request, only if it was made by `payer` */
+export function loadPaymentProgress(requestId: string, payer: string): PaymentProgress | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = window.localStorage.getItem(storageKey(requestId));
+    if (!raw) return null;
+    const progress = JSON.parse(raw) as PaymentProgress;
+    if (progress.requestId !== requestId || progress.payer !== payer.toLowerCase()) return null;
+    if (!Array.isArray(progress.hashes) || !progress.feeInfo?.transfers?.length) return null;
+    return progress;
+  } catch {
+    return null;
+  }
+}
+
+export function savePaymentProgress(progress: Omit<PaymentProgress, 'updatedAt'>): void {
+  if (typeof window === 'undefined') return;
+  const record: PaymentProgress = { ...progress, payer: progress.payer.toLowerCase(), updatedAt: Date.now() };
+  try {
+    window.localStorage.setItem(storageKey(progress.requestId), JSON.stringify(record));
+  } catch {
+    // Storage full or disabled: the payment still works, it just can't be resumed
+  }
+}
+
+export function clearPaymentProgress(requestId: string): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.removeItem(storageKey(requestId));
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * Re-check saved hashes with `client` (connected to the payment network).
+ * Mined-and-successful and still-pending transfers are kept; reverted or
+ * unknown (dropped) ones are cleared so they are sent again. The reconciled
+ * record is saved back, or removed when nothing valid is left.
+ */
+export async function reconcilePaymentProgress(client: PublicClient, progress: PaymentProgress): Promise<PaymentProgress | null> {
+  const hashes = await Promise.all(progress.hashes.map(async (hash) => {
+    if (!hash) return null;
+    const receipt = await client.getTransactionReceipt({ hash: hash as `0x${string}` }).catch(() => null);
+    if (receipt) return receipt.status === 'success' ? hash : null;
+    const pending = await client.getTransaction({ hash: hash as `0x${string}` }).catch(() => null);
+    return pending ? hash : null;
+  }));
+
+  const reconciled = { ...progress, hashes };
+  if (sentCount(reconciled) === 0) {
+    clearPaymentProgress(progress.requestId);
+    return null;
+  }
+  savePaymentProgress(reconciled);
+  return reconciled;
+}
@@ -0,0 +1,133 @@
+import type { Config } from 'wagmi';
+import { signTypedData } from 'wagmi/actions';
+import { bytesToBigInt, parseSignature, type PublicClient } from 'viem';
+import { ERC20_ABI, ERC20_PERMIT_ABI, PERMIT2_ADDRESS } from './contracts';
+import type { HexAddress } from './networks';
+import type { TokenAllowance } from './routerPayment';
+import { viemParams } from './viemParams';
+
+/**
+ * Signature-based approvals for router payments (routerPayment.ts).
+ *
+ * Instead of an approve() transaction before settle(), the payer signs an
+ * EIP-2612 permit (tokens that implement it) or a Permit2 PermitTransferFrom
+ * (any token the payer has approved Permit2 for) covering the whole ERC-20
+ * total, and the router pulls the exact amounts in the settle transaction.
+ * Both cover a single token, so mixed-token payments (LCX fee) still approve.
+ */
+
+// A signed permit only has to survive until the settle transaction is mined
+const PERMIT_TTL_SECONDS = 30 * 60;
+
+export type PermitKind = 'permit' | 'permit2';
+
+export type SignedPermit =
+  | { kind: 'permit'; deadline: bigint; v: number; r: HexAddress; s: HexAddress }
+  | { kind: 'permit2'; nonce: bigint; deadline: bigint; signature: HexAddress };
+
+interface PermitDomain {
+  name: string;
+  version: string;
+}
+
+/** EIP-712 name/version of an EIP-2612 token, or null when it has no permit */
+async function readPermitDomain(client: PublicClient, token: HexAddress, owner: HexAddress): Promise<PermitDomain | null> {
+  try {
+    const [name] = await Promise.all([
+      client.readContract(viemParams({ address: token, abi: ERC20_ABI, functionName: 'name' })),
+      client.readContract(viemParams({ address: token, abi: ERC20_PERMIT_ABI, functionName: 'nonces', args: [owner] })),
+    ]);
+    // Most permit tokens expose version(); the OpenZeppelin default is "1"
+    const version = await client
+      .readContract(viemParams({ address: token, abi: ERC20_PERMIT_ABI, functionName: 'version' }))
+      .catch(() => '1');
+    return { name, version };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * How the payer can authorize the router without an approve() transaction,
+ * or null. `allowances` is the settlement's: the router permits one token only.
+ */
+export async function findPermitKind(
+  client: PublicClient,
+  payer: HexAddress,
+  allowances: TokenAllowance[]
+): Promise<PermitKind | null> {
+  if (allowances.length !== 1) return null;
+  const [{ token, amount }] = allowances;
+  if (await readPermitDomain(client, token, payer)) return 'permit';
+
+  const permit2Allowance = await client.readContract(viemParams({
+    address: token,
+    abi: ERC20_ABI,
+    functionName: 'allowance',
+    args: [payer, PERMIT2_ADDRESS],
+  }));
+  return permit2Allowance >= amount ? 'permit2' : null;
+}
+
+/** Sign a permit of `kind` letting `router` pull `allowance.amount` of the token in one settle() */
+export async function signRouterPermit(
+  config: Config,
+  client: PublicClient,
+  chainId: number,
+  kind: PermitKind,
+  payer: HexAddress,
+  router: HexAddress,
+  allowance: TokenAllowance
+): Promise<SignedPermit> {
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_TTL_SECONDS);
+
+  if (kind === 'permit') {
+    const domain = await readPermitDomain(client, allowance.token, payer);
+    if (!domain) throw new Error(`${allowance.symbol} does not support permit`);
+    const nonce = await client.readContract(viemParams({
+      address: allowance.token,
+      abi: ERC20_PERMIT_ABI,
+      functionName: 'nonces',
+      args: [payer],
+    }));
+    const signature = await signTypedData(config, {
+      account: payer,
+      domain: { ...domain, chainId, verifyingContract: allowance.token },
+      types: {
+        Permit: [
+          { name: 'owner', type: 'address' },
+          { name: 'spender', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+        ],
+      },
+      primaryType: 'Permit',
+      message: { owner: payer, spender: router, value: allowance.amount, nonce, deadline },
+    });
+    const { r, s, v, yParity } = parseSignature(signature);
+    return { kind, deadline, v: Number(v ?? BigInt(yParity + 27)), r, s };
+  }
+
+  // Permit2 nonces are unordered: any unused value works
+  const nonce = bytesToBigInt(crypto.getRandomValues(new Uint8Array(31)));
+  const signature = await signTypedData(config, {
+    account: payer,
+    domain: { name: 'Permit2', chainId, verifyingContract: PERMIT2_ADDRESS },
+    types: {
+      PermitTransferFrom: [
+        { name: 'permitted', type: 'TokenPermissions' },
+        { name: 'spender', type: 'address' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+      ],
+      TokenPermissions: [
+        { name: 'token', type: 'address' },
+        { name: 'amount', type: 'uint256' },
+      ],
+    },
+    primaryType: 'PermitTransferFrom',
+    message: { permitted: { token: allowance.token, amount: allowance.amount }, spender: router, nonce, deadline },
+  });
+  return { kind, nonce, deadline, signature };
+}
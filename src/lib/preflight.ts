@@ -0,0 +1,144 @@
+import { parseUnits, type PublicClient } from 'viem';
+import { ERC20_ABI, getTokenAddress, isNativeToken } from './contracts';
+import { getNetwork, type HexAddress } from './networks';
+import { readTokenMetadata } from './tokenMetadata';
+import { viemParams } from './viemParams';
+
+/**
+ * Pre-flight check for a payment: can the payer's wallet complete every
+ * transfer in the sequence (payment, platform fee, creator reward) plus gas?
+ *
+ * Transfers are sent one after another, so a shortfall on any asset would
+ * leave a partial payment behind. Amounts are summed per asset and compared
+ * with on-chain balances; gas for all transfers is added to the native token.
+ * Gasless (relayed) payments skip the gas part.
+ */
+
+/** One transfer from GET /api/request/:id/fee */
+export interface PreflightTransfer {
+  token: string;
+  tokenAddress: string | null;
+  amount: string;
+  to: string;
+}
+
+export interface AssetRequirement {
+  symbol: string;
+  /** null for the native token */
+  tokenAddress: HexAddress | null;
+  decimals: number;
+  balance: bigint;
+  /** Sum of the transfers in this asset, plus gas for the native token */
+  required: bigint;
+  /** Gas cost included in `required` (native token only, otherwise 0) */
+  gas: bigint;
+  sufficient: boolean;
+}
+
+export interface PreflightResult {
+  assets: AssetRequirement[];
+  /** false when some estimate failed and a default gas limit was used instead */
+  gasEstimated: boolean;
+  ok: boolean;
+}
+
+// Used when estimation reverts (typically because a balance is already short)
+const DEFAULT_GAS = { native: 21_000n, erc20: 100_000n };
+
+// Headroom on the current gas price, for price moves while the payer confirms
+const GAS_PRICE_BUFFER_PERCENT = 120n;
+
+export interface PreflightOptions {
+  /** The relayer pays the gas (lib/gasless): only token balances are checked */
+  gasless?: boolean;
+}
+
+/**
+ * Check balances and estimate gas for every transfer, sent from `payer`
+ * with `client` (connected to the payment network).
+ */
+export async function runPreflight(
+  client: PublicClient,
+  network: string,
+  payer: HexAddress,
+  transfers: PreflightTransfer[],
+  { gasless = false }: PreflightOptions = {}
+): Promise<PreflightResult> {
+  const config = getNetwork(network);
+  const native: AssetRequirement = {
+    symbol: config.nativeToken,
+    tokenAddress: null,
+    decimals: 18,
+    balance: 0n,
+    required: 0n,
+    gas: 0n,
+    sufficient: true,
+  };
+  const assets = new Map<string, AssetRequirement>([['native', native]]);
+
+  let gasUnits = 0n;
+  let gasEstimated = true;
+
+  for (const transfer of transfers) {
+    const to = transfer.to as HexAddress;
+    if (isNativeToken(transfer.token, network)) {
+      const value = parseUnits(transfer.amount, 18);
+      native.required += value;
+      if (gasless) continue;
+      try {
+        gasUnits += await client.estimateGas({ account: payer, to, value });
+      } catch {
+        gasUnits += DEFAULT_GAS.native;
+        gasEstimated = false;
+      }
+      continue;
+    }
+
+    const address = (transfer.tokenAddress || getTokenAddress(network, transfer.token)).toLowerCase() as HexAddress;
+    let asset = assets.get(address);
+    if (!asset) {
+      const { decimals } = await readTokenMetadata(client, config.chainId, address);
+      asset = { symbol: transfer.token, tokenAddress: address, decimals, balance: 0n, required: 0n, gas: 0n, sufficient: true };
+      assets.set(address, asset);
+    }
+    const amount = parseUnits(transfer.amount, asset.decimals);
+    asset.required += amount;
+    if (gasless) continue;
+    try {
+      gasUnits += await client.estimateContractGas({
+        address,
+        abi: ERC20_ABI,
+        functionName: 'transfer',
+        args: [to, amount],
+        account: payer,
+      });
+    } catch {
+      gasUnits += DEFAULT_GAS.erc20;
+      gasEstimated = false;
+    }
+  }
+
+  if (gasUnits > 0n) {
+    const gasPrice = await client.getGasPrice();
+    native.gas = (gasUnits * gasPrice * GAS_PRICE_BUFFER_PERCENT) / 100n;
+    native.required += native.gas;
+  }
+
+  native.balance = await client.getBalance({ address: payer });
+  for (const asset of assets.values()) {
+    if (asset.tokenAddress) {
+      asset.balance = await client.readContract(viemParams({
+        address: asset.tokenAddress,
+        abi: ERC20_ABI,
+        functionName: 'balanceOf',
+        args: [payer],
+      }));
+    }
+    asset.sufficient = asset.balance >= asset.required;
+  }
+
+  // Tokens first, in transfer order; native (gas) last, unless nothing is needed of it
+  const list = [...assets.values()].filter(a => a.tokenAddress);
+  if (!gasless || native.required > 0n) list.push(native);
+  return { assets: list, gasEstimated, ok: list.every(a => a.sufficient) };
+}
@@ -0,0 +1,94 @@
+import { getAddress, isAddress, zeroAddress, type PublicClient } from 'viem';
+import { PERMIT2_ADDRESS } from './contracts';
+import { findTokenSymbol, getNetwork, listNetworks, type HexAddress } from './networks';
+
+/**
+ * Safety checks on the receiver of a new payment link.
+ *
+ * Errors are addresses that can never be right (malformed, the zero address,
+ * a token or PayAgent contract): funds sent there are lost, so the link is not
+ * created. Warnings are addresses that are probably, but not certainly, wrong;
+ * the creator confirms them before creating the link.
+ */
+
+export interface ReceiverCheck {
+  errors: string[];
+  warnings: string[];
+}
+
+// EIP-7702 delegated EOAs carry code (0xef0100 + delegate) but are still wallets
+const EIP7702_DELEGATION_PREFIX = '0xef0100';
+
+/** Known contracts that can't be paid into: every registry token, the routers and Permit2 */
+function findKnownContract(address: string): string | null {
+  const target = address.toLowerCase();
+  for (const network of listNetworks()) {
+    const symbol = findTokenSymbol(network, target);
+    if (symbol) return `the ${symbol} token contract on ${network.displayName}`;
+    if (network.router?.toLowerCase() === target) return `the PayAgent router on ${network.displayName}`;
+  }
+  if (PERMIT2_ADDRESS.toLowerCase() === target) return 'the Permit2 contract';
+  return null;
+}
+
+/**
+ * Checks that need no RPC: format, EIP-55 checksum, known-bad addresses and
+ * whether the receiver is the creator's connected wallet.
+ */
+export function checkReceiverAddress(
+  receiver: string,
+  creatorWallet: string | null | undefined,
+  tokenAddress?: string | null
+): ReceiverCheck {
+  const result: ReceiverCheck = { errors: [], warnings: [] };
+  if (!isAddress(receiver, { strict: false })) {
+    result.errors.push('Enter a wallet address (0x followed by 40 hex characters) or an ENS name');
+    return result;
+  }
+
+  // All-lowercase / all-uppercase addresses carry no checksum; mixed case must match EIP-55
+  const hex = receiver.slice(2);
+  const mixedCase = hex !== hex.toLowerCase() && hex !== hex.toUpperCase();
+  if (mixedCase && !isAddress(receiver, { strict: true })) {
+    result.warnings.push("The address's capitalisation doesn't match its EIP-55 checksum, which usually means a mistyped character. Copy it again from the wallet.");
+  }
+
+  const lower = receiver.toLowerCase();
+  if (lower === zeroAddress) {
+    result.errors.push('The zero address can\'t receive payments');
+  } else if (tokenAddress && lower === tokenAddress.toLowerCase()) {
+    result.errors.push('This is the contract of the requested token, not a wallet');
+  } else {
+    const known = findKnownContract(lower);
+    if (known) result.errors.push(`This is ${known}, not a wallet`);
+  }
+
+  if (creatorWallet && lower !== creatorWallet.toLowerCase()) {
+    result.warnings.push(`Payments will go to ${getAddress(lower)}, not to your connected wallet`);
+  }
+  return result;
+}
+
+/**
+ * All receiver checks, plus contract detection on the link's network: a
+ * contract may not be able to receive (or move) the token.
+ */
+export async function checkReceiver(
+  client: PublicClient,
+  network: string,
+  receiver: string,
+  creatorWallet: string | null | undefined,
+  token: string,
+  tokenAddress?: string | null
+): Promise<ReceiverCheck> {
+  const result = checkReceiverAddress(receiver, creatorWallet, tokenAddress);
+  if (result.errors.length > 0) return result;
+
+  const code = await client.getCode({ address: receiver.toLowerCase() as HexAddress });
+  if (code && code !== '0x' && !code.startsWith(EIP7702_DELEGATION_PREFIX)) {
+    result.warnings.push(
+      `This address is a contract on ${getNetwork(network).displayName}. Make sure it can receive ${token} (a Safe can); tokens sent to a contract that can't move them are lost.`
+    );
+  }
+  return result;
+}
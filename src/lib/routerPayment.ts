@@ -0,0 +1,100 @@
+import { keccak256, parseEther, parseUnits, toHex, zeroAddress, type ContractFunctionArgs, type PublicClient } from 'viem';
+import { ERC20_ABI, PAYAGENT_ROUTER_ABI, getTokenAddress, isNativeToken } from './contracts';
+import type { FeeTransfer } from './api';
+import type { HexAddress } from './networks';
+import { viemParams } from './viemParams';
+
+/**
+ * Payments through the PayAgent router (contracts/src/PayAgentRouter.sol).
+ *
+ * The router moves the payment, platform share and creator reward in one
+ * settle() call and emits PaymentSettled, which /api/verify decodes. ERC-20
+ * legs are pulled with transferFrom, so the router needs an allowance first.
+ */
+
+export interface RouterLeg {
+  /** Zero address for the native token */
+  token: HexAddress;
+  to: HexAddress;
+  amount: bigint;
+}
+
+/** Amount of an ERC-20 the router pulls from the payer */
+export interface TokenAllowance {
+  token: HexAddress;
+  symbol: string;
+  amount: bigint;
+}
+
+export interface RouterSettlement {
+  /** settle() arguments: keccak256 of the link id, then payment, platform fee and creator reward */
+  args: ContractFunctionArgs<typeof PAYAGENT_ROUTER_ABI, 'payable', 'settle'>;
+  /** msg.value: the sum of the native legs */
+  value: bigint;
+  /** Allowance the router needs per ERC-20 contract */
+  allowances: TokenAllowance[];
+}
+
+/** Router requestId for a link id, as checked by the backend */
+export const routerRequestId = (requestId: string): HexAddress => keccak256(toHex(requestId));
+
+/** Whether a transfer list has the three legs settle() takes */
+export const canSettleThroughRouter = (transfers: FeeTransfer[]) => transfers.length === 3;
+
+/**
+ * Build the settle() call for the transfers of GET /api/request/:id/fee,
+ * scaling ERC-20 amounts with `decimalsByToken` (lowercase contract -> decimals).
+ */
+export function buildSettlement(
+  requestId: string,
+  transfers: FeeTransfer[],
+  network: string,
+  decimalsByToken: Map<string, number>
+): RouterSettlement {
+  if (!canSettleThroughRouter(transfers)) {
+    throw new Error(`The router settles exactly 3 transfers, got ${transfers.length}`);
+  }
+
+  let value = 0n;
+  const allowances = new Map<string, TokenAllowance>();
+  const [payment, platformFee, creatorReward] = transfers.map((transfer): RouterLeg => {
+    const to = transfer.to as HexAddress;
+    if (isNativeToken(transfer.token, network)) {
+      const amount = parseEther(transfer.amount);
+      value += amount;
+      return { token: zeroAddress, to, amount };
+    }
+    const token = (transfer.tokenAddress || getTokenAddress(network, transfer.token)).toLowerCase() as HexAddress;
+    const amount = parseUnits(transfer.amount, decimalsByToken.get(token));
+    const allowance = allowances.get(token) ?? { token, symbol: transfer.token, amount: 0n };
+    allowance.amount += amount;
+    allowances.set(token, allowance);
+    return { token, to, amount };
+  });
+
+  return {
+    args: [routerRequestId(requestId), payment, platformFee, creatorReward],
+    value,
+    allowances: [...allowances.values()],
+  };
+}
+
+/** Allowances the payer still has to grant the router before settle() */
+export async function findMissingApprovals(
+  client: PublicClient,
+  payer: HexAddress,
+  router: HexAddress,
+  allowances: TokenAllowance[]
+): Promise<TokenAllowance[]> {
+  const missing: TokenAllowance[] = [];
+  for (const allowance of allowances) {
+    const current = await client.readContract(viemParams({
+      address: allowance.token,
+      abi: ERC20_ABI,
+      functionName: 'allowance',
+      args: [payer, router],
+    }));
+    if (current < allowance.amount) missing.push(allowance);
+  }
+  return missing;
+}
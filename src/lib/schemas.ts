@@ -0,0 +1,507 @@
+import { z } from 'zod';
+import { NETWORK_ALIASES } from './networks';
+
+/**
+ * Runtime schemas for PayAgent API responses.
+ *
+ * Every response is parsed here before it reaches a view, and normalized to
+ * one canonical shape:
+ * - timestamps are epoch milliseconds (the backend mixes ISO strings and numbers)
+ * - wallet and token addresses are lowercase
+ * - network names are canonical ids (`mainnet` / `eth` -> `ethereum`)
+ *
+ * The matching TypeScript types live next to the endpoint helpers in ./api.
+ * Zod cannot infer required keys without strictNullChecks, so the helpers
+ * name their result type explicitly.
+ */
+
+// ============ Normalizers ============
+
+/**
+ * Canonical network id for a backend network string.
+ * Comma-separated lists (multi-network links) are normalized per entry.
+ */
+export function canonicalNetworkId(network: string): string {
+  return network
+    .split(',')
+    .map(n => n.trim().toLowerCase())
+    .filter(Boolean)
+    .map(n => NETWORK_ALIASES[n] || n)
+    .join(',');
+}
+
+/** Epoch ms from a number, numeric string or ISO date string; null when absent */
+function toEpochMs(value: string | number | null | undefined, ctx: z.RefinementCtx): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const ms = typeof value === 'number'
+    ? value
+    : /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (!Number.isFinite(ms)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid timestamp: ${value}` });
+    return z.NEVER;
+  }
+  return ms;
+}
+
+const optionalTimestamp = z
+  .union([z.number(), z.string(), z.null(), z.undefined()])
+  .transform(toEpochMs);
+
+const timestamp = optionalTimestamp.refine((v): v is number => v !== null, 'Missing timestamp');
+
+const address = z.string().transform(a => a.trim().toLowerCase());
+const optionalAddress = z
+  .string()
+  .nullish()
+  .transform(a => (a ? a.trim().toLowerCase() : null));
+
+const network = z.string().transform(canonicalNetworkId);
+
+/** Per-network receiver overrides of a multi-network link, keyed by canonical network */
+const receivers = z
+  .record(z.string(), address)
+  .nullish()
+  .transform(r => (r ? Object.fromEntries(Object.entries(r).map(([n, a]) => [canonicalNetworkId(n), a])) : null));
+const tokenSymbol = z.string().transform(t => t.trim().toUpperCase());
+
+/** Amounts stay decimal strings to avoid float rounding */
+const amount = z.union([z.string(), z.number()]).transform(String);
+
+/** Numeric columns may come back from Postgres as strings */
+const numeric = z.union([z.number(), z.string()]).transform(Number);
+
+const nullableString = z.string().nullish().transform(s => s ?? null);
+
+/** Counter columns default to 0 */
+const count = z.union([z.number(), z.string()]).nullish().transform(v => Number(v ?? 0));
+
+// ============ Payments ============
+
+/** Quote locking the token amount of a fiat-denominated link or another accepted token */
+export const priceQuoteSchema = z.object({
+  id: z.string(),
+  currency: tokenSymbol,
+  fiatAmount: amount,
+  token: tokenSymbol,
+  network,
+  amount,
+  price: numeric,
+  tolerance: numeric,
+  createdAt: timestamp,
+  expiresAt: timestamp,
+});
+
+const currency = z.string().nullish().transform(c => (c ? c.trim().toUpperCase() : null));
+const quote = priceQuoteSchema.nullish().transform(q => q ?? null);
+
+export const paymentRequestSchema = z.object({
+  id: z.string(),
+  token: tokenSymbol,
+  tokenAddress: optionalAddress,
+  amount,
+  currency,
+  quote,
+  receiver: address,
+  receiverName: nullableString,
+  receivers,
+  payer: optionalAddress,
+  description: z.string().nullish().transform(d => d ?? ''),
+  network,
+  status: z.enum(['PENDING', 'PAID', 'EXPIRED', 'CANCELLED']),
+  createdAt: timestamp,
+  expiresAt: optionalTimestamp,
+  txHash: nullableString,
+  paidAt: optionalTimestamp,
+  creatorWallet: optionalAddress,
+  creatorAgentId: nullableString,
+  payerAgentId: nullableString,
+  isExpired: z.boolean().optional(),
+  isPaid: z.boolean().optional(),
+});
+
+/** x402 `payment` block returned with 402 Payment Required for unpaid requests */
+const x402PaymentSchema = z.object({
+  id: z.string(),
+  amount,
+  currency,
+  quote,
+  token: tokenSymbol,
+  tokenAddress: optionalAddress,
+  network,
+  receiver: address,
+  receiverName: nullableString,
+  receivers,
+  description: z.string().nullish().transform(d => d ?? ''),
+  expiresAt: optionalTimestamp,
+  createdAt: optionalTimestamp,
+});
+
+export const paymentResponseSchema = z.union([
+  z.object({ status: z.literal('PAID'), request: paymentRequestSchema }).transform(
+    ({ request }) => ({ status: 'PAID' as const, request })
+  ),
+  z.object({ payment: x402PaymentSchema }).transform(
+    ({ payment }) => ({
+      status: 'PENDING' as const,
+      request: {
+        id: payment.id,
+        token: payment.token,
+        tokenAddress: payment.tokenAddress,
+        amount: payment.amount,
+        currency: payment.currency,
+        quote: payment.quote,
+        receiver: payment.receiver,
+        receiverName: payment.receiverName,
+        receivers: payment.receivers,
+        payer: null,
+        description: payment.description,
+        network: payment.network,
+        status: 'PENDING' as const,
+        createdAt: payment.createdAt ?? Date.now(),
+        expiresAt: payment.expiresAt,
+        txHash: null,
+        paidAt: null,
+        creatorWallet: null,
+        creatorAgentId: null,
+        payerAgentId: null,
+      },
+    })
+  ),
+]);
+
+export const createPaymentLinkResponseSchema = z.object({
+  success: z.boolean(),
+  request: z.object({ id: z.string(), link: z.string() }),
+});
+
+export const verifyPaymentResponseSchema = z.object({
+  success: z.boolean(),
+  status: z.string(),
+  request: paymentRequestSchema,
+  verification: z
+    .object({
+      valid: z.boolean(),
+      txHash: z.string().optional(),
+      amount: z.string().optional(),
+      receiver: address.optional(),
+      blockNumber: z.number().optional(),
+    })
+    .optional(),
+  batchId: z.string().optional(),
+});
+
+const feeTransferSchema = z.object({
+  description: z.string(),
+  token: tokenSymbol,
+  tokenAddress: optionalAddress,
+  amount,
+  to: address,
+});
+
+export const feeInfoResponseSchema = z.object({
+  success: z.boolean(),
+  alreadyPaid: z.boolean().optional(),
+  message: z.string().optional(),
+  payment: z
+    .object({
+      token: tokenSymbol,
+      amount,
+      network,
+      to: address,
+      description: z.string().nullish().transform(d => d ?? ''),
+    })
+    .optional(),
+  fee: z
+    .object({
+      feeToken: tokenSymbol,
+      feeTotal: numeric,
+      platformShare: numeric,
+      creatorReward: numeric,
+      feeDeductedFromPayment: z.boolean(),
+      lcxPriceUsd: numeric.nullable(),
+      payerLcxBalance: numeric,
+    })
+    .optional(),
+  quote: priceQuoteSchema.nullish(),
+  transfers: z.array(feeTransferSchema).optional(),
+  creatorReceives: amount.optional(),
+  relayer: z.object({ address }).nullable().optional(),
+});
+
+export const priceQuoteResponseSchema = z.object({
+  success: z.boolean(),
+  quote: priceQuoteSchema,
+});
+
+export const relayPaymentResponseSchema = z.object({
+  success: z.boolean(),
+  network,
+  txHashes: z.array(z.string()),
+});
+
+export const getAllPaymentsResponseSchema = z.object({
+  success: z.boolean(),
+  requests: z.array(paymentRequestSchema),
+  count: z.number(),
+});
+
+export const deletePaymentResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  id: z.string(),
+});
+
+// ============ Platform ============
+
+const tokenTotals = z.record(z.string(), numeric).default({});
+
+export const platformStatsSchema = z.object({
+  totalAgents: z.number(),
+  totalPayments: z.number(),
+  feesByToken: tokenTotals,
+  paymentsByToken: tokenTotals,
+  agentPaymentsByToken: tokenTotals,
+  humanPayments: z.number(),
+  agentPayments: z.number(),
+});
+
+export const chainsResponseSchema = z.object({
+  success: z.boolean(),
+  chains: z.array(z.object({
+    name: z.string(),
+    displayName: z.string(),
+    chainId: z.number(),
+    isTestnet: z.boolean(),
+    explorer: z.string(),
+    nativeToken: tokenSymbol,
+    tokens: z.record(z.string(), address),
+    tokenDecimals: z.record(z.string(), z.number()),
+    router: address.nullable().optional(),
+  })),
+});
+
+export const tokenPricesSchema = z.object({
+  LCX: z.number(),
+  ETH: z.number(),
+  POL: z.number(),
+  BNB: z.number(),
+  USDC: z.number(),
+  USDT: z.number(),
+});
+
+const rewardEntrySchema = z.object({
+  feeId: z.string(),
+  paymentId: z.string(),
+  creatorReward: numeric,
+  feeToken: tokenSymbol,
+  feeTotal: numeric,
+  platformShare: numeric,
+  paymentAmount: numeric,
+  paymentToken: tokenSymbol,
+  paymentTxHash: nullableString,
+  creatorRewardTxHash: nullableString,
+  network: network.nullish().transform(n => n ?? undefined),
+  description: z.string().nullish().transform(d => d ?? undefined),
+  createdAt: timestamp,
+});
+
+export const rewardsResponseSchema = z.object({
+  success: z.boolean(),
+  rewards: z.object({
+    human: z.array(rewardEntrySchema),
+    agent: z.array(rewardEntrySchema),
+  }),
+  totals: z.object({
+    humanRewardsCount: z.number(),
+    agentRewardsCount: z.number(),
+    humanRewardsTotal: numeric,
+    agentRewardsTotal: numeric,
+  }),
+});
+
+// ============ Agents ============
+
+export const agentSummarySchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  email: z.string(),
+  wallet_address: optionalAddress,
+  status: z.string(),
+  verification_status: z.string(),
+  x_username: nullableString,
+  created_at: timestamp,
+  total_payments_sent: count,
+  total_payments_received: count,
+});
+
+export const agentProfileSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  email: z.string(),
+  wallet_address: optionalAddress,
+  chain: network.nullish().transform(n => n ?? 'sepolia'),
+  status: z.string(),
+  created_at: timestamp,
+  verification_status: z.string(),
+  x_username: nullableString,
+  api_key_expires_at: optionalTimestamp,
+  total_payments_sent: count,
+  total_payments_received: count,
+  total_fees_paid: count,
+  deleted_at: optionalTimestamp,
+});
+
+/** app/api/session — status, login and refresh responses */
+export const sessionStatusSchema = z.object({
+  authenticated: z.boolean(),
+  wallet_address: address.optional(),
+  expires_at: optionalTimestamp.transform(t => t ?? undefined),
+  agent: z
+    .object({
+      id: z.string(),
+      username: z.string(),
+      email: z.string(),
+      wallet_address: optionalAddress,
+      status: z.string(),
+      verification_status: z.string(),
+      x_username: nullableString,
+      api_key_expires_at: optionalTimestamp,
+    })
+    .nullish(),
+});
+
+export const rotateApiKeyResponseSchema = z.object({
+  api_key_id: z.string(),
+  api_secret: z.string(),
+  expires_at: timestamp,
+});
+
+const apiLogEntrySchema = z.object({
+  id: z.string(),
+  agent_id: z.string(),
+  endpoint: z.string(),
+  method: z.string(),
+  ip_address: nullableString,
+  user_agent: nullableString,
+  status_code: z.number().nullish().transform(s => s ?? null),
+  response_time_ms: z.number().nullish().transform(s => s ?? null),
+  error: nullableString,
+  created_at: timestamp,
+});
+
+export const agentLogsResponseSchema = z.object({
+  success: z.boolean(),
+  logs: z.array(apiLogEntrySchema),
+  total: z.number(),
+  limit: z.number(),
+  offset: z.number(),
+});
+
+export const ipHistoryEntrySchema = z.object({
+  id: z.string(),
+  agent_id: z.string(),
+  ip_address: z.string(),
+  first_seen_at: timestamp,
+  last_seen_at: timestamp,
+  request_count: z.number(),
+  is_vpn: z.boolean().default(false),
+});
+
+// ============ Webhooks ============
+
+export const webhookSchema = z.object({
+  id: z.string(),
+  agent_id: z.string(),
+  url: z.string(),
+  events: z.array(z.string()).nullish().transform(e => e ?? []),
+  active: z.boolean().nullish().transform(a => a ?? true),
+  failure_count: count,
+  last_failure_at: optionalTimestamp,
+  last_success_at: optionalTimestamp,
+  created_at: timestamp,
+});
+
+export const webhookListResponseSchema = z.object({
+  success: z.boolean(),
+  webhooks: z.array(webhookSchema),
+});
+
+export const webhookResponseSchema = z.object({
+  success: z.boolean(),
+  webhook: webhookSchema,
+});
+
+/** Create is the only response that carries the raw signing secret */
+export const createWebhookResponseSchema = z.object({
+  success: z.boolean(),
+  webhook: webhookSchema.extend({ secret: z.string() }),
+});
+
+export const webhookTestResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  responseStatus: z.number(),
+  responseBody: z.string().nullish().transform(b => b ?? ''),
+  durationMs: z.number().nullish().transform(d => d ?? null),
+});
+
+const webhookDeliverySchema = z.object({
+  id: z.string(),
+  webhook_id: z.string(),
+  event_id: z.string(),
+  event: z.string(),
+  attempt: z.number(),
+  status_code: z.number().nullish().transform(s => s ?? null),
+  success: z.boolean(),
+  latency_ms: z.number().nullish().transform(l => l ?? null),
+  response_snippet: nullableString,
+  error: nullableString,
+  redelivery: z.boolean().nullish().transform(r => r ?? false),
+  created_at: timestamp,
+});
+
+export const webhookDeliveriesResponseSchema = z.object({
+  success: z.boolean(),
+  deliveries: z.array(webhookDeliverySchema),
+  total: z.number(),
+  limit: z.number(),
+  offset: z.number(),
+});
+
+export const webhookRedeliverResponseSchema = z.object({
+  success: z.boolean(),
+  delivery: webhookDeliverySchema,
+});
+
+export const webhookBulkRedeliverResponseSchema = z.object({
+  success: z.boolean(),
+  queued: z.number(),
+  event_ids: z.array(z.string()),
+  limit: z.number(),
+});
+
+// ============ AI Chat ============
+
+const chatReplyFields = {
+  message: z.string(),
+  action: z.string().nullish().transform(a => a ?? null),
+  result: z.record(z.string(), z.unknown()).nullish().transform(r => r ?? null),
+  error: nullableString,
+};
+
+/** Gate replies (e.g. provide_wallet) only set action_required; it becomes the action */
+export const chatReplySchema = z
+  .object({ ...chatReplyFields, action_required: z.string().optional() })
+  .transform(({ action_required, ...reply }) => ({ ...reply, action: reply.action ?? action_required ?? null }));
+
+const chatMessageSchema = z.object({
+  id: z.string(),
+  role: z.enum(['user', 'assistant', 'system']),
+  ...chatReplyFields,
+  created_at: timestamp,
+});
+
+export const chatHistoryResponseSchema = z.object({
+  success: z.boolean(),
+  messages: z.array(chatMessageSchema),
+});
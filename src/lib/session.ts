@@ -0,0 +1,153 @@
+import { NextResponse, type NextRequest } from 'next/server';
+
+/**
+ * Server-side dashboard session helpers for the app/api/session/* route handlers.
+ *
+ * The backend JWT lives only in an httpOnly cookie scoped to /api/session, so
+ * browser code never sees it. Authenticated calls go through the session proxy,
+ * which attaches the JWT and refreshes it shortly before it expires.
+ *
+ * Server-only: do not import from client components.
+ */
+
+const API_BASE_URL = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+export const SESSION_COOKIE = 'payagent_session';
+const SESSION_COOKIE_PATH = '/api/session';
+
+/** Refresh the backend JWT when less than this much lifetime is left */
+const REFRESH_WINDOW_MS = 10 * 60 * 1000;
+
+/** Response header carrying the (possibly refreshed) session expiry in epoch ms */
+export const SESSION_EXPIRES_HEADER = 'x-session-expires-at';
+
+export interface SessionClaims {
+  wallet_address: string;
+  agent_id?: string;
+  exp: number;
+}
+
+export interface Session {
+  token: string;
+  claims: SessionClaims;
+  /** Epoch ms */
+  expiresAt: number;
+  /** Set when the token was rotated during this request */
+  refreshed?: boolean;
+}
+
+/**
+ * Decode JWT claims without verifying the signature.
+ * The backend verifies every token it receives; this is only for expiry bookkeeping.
+ */
+function decodeClaims(token: string): SessionClaims | null {
+  try {
+    const payload = token.split('.')[1];
+    const json = Buffer.from(payload.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf8');
+    const claims = JSON.parse(json);
+    if (typeof claims.wallet_address !== 'string' || typeof claims.exp !== 'number') return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+/** Parse a backend JWT into a session; null if its claims are unusable */
+export function toSession(token: string): Session | null {
+  const claims = decodeClaims(token);
+  if (!claims) return null;
+  return { token, claims, expiresAt: claims.exp * 1000 };
+}
+
+/**
+ * Call the PayAgent backend from a route handler.
+ * Forwards the caller's IP so backend logs and anomaly checks see the real client.
+ */
+export function backendFetch(req: NextRequest, path: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const forwardedFor = req.headers.get('x-forwarded-for');
+  if (forwardedFor) headers.set('x-forwarded-for', forwardedFor);
+  if (init.body && !headers.has('content-type')) headers.set('content-type', 'application/json');
+  return fetch(`${API_BASE_URL}${path}`, { ...init, headers, cache: 'no-store' });
+}
+
+/** Current session from the cookie, or null if absent, malformed or expired */
+export function readSession(req: NextRequest): Session | null {
+  const token = req.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+  const session = toSession(token);
+  if (!session || session.expiresAt <= Date.now()) return null;
+  return session;
+}
+
+/** A usable session, or the response a route handler sends instead */
+export type SessionLookup = { session: Session; error?: undefined } | { session?: undefined; error: NextResponse };
+
+/** 401 for a missing, expired or revoked session; drops the cookie if one was sent */
+function notAuthenticated(req: NextRequest): NextResponse {
+  const res = sessionError(401, 'Not authenticated. Sign in with your wallet.', 'NOT_AUTHENTICATED');
+  if (req.cookies.has(SESSION_COOKIE)) clearSessionCookie(res);
+  return res;
+}
+
+/** 502 when the backend can't be reached or answers with something unreadable */
+export function backendUnavailable(): NextResponse {
+  return sessionError(502, 'The PayAgent backend is unavailable. Try again shortly.', 'BAD_GATEWAY');
+}
+
+/**
+ * Current session, rotated via POST /api/auth/refresh when it is close to expiry.
+ * Errors with a 401 when there is no usable session (including a rejected refresh)
+ * and a 502 when the refresh request fails or returns an unreadable body.
+ */
+export async function getFreshSession(req: NextRequest): Promise<SessionLookup> {
+  const session = readSession(req);
+  if (!session) return { error: notAuthenticated(req) };
+  if (session.expiresAt - Date.now() > REFRESH_WINDOW_MS) return { session };
+
+  let res: Response;
+  let data: { token?: unknown };
+  try {
+    res = await backendFetch(req, '/api/auth/refresh', {
+      method: 'POST',
+      headers: { authorization: `Bearer ${session.token}` },
+    });
+    if (!res.ok) {
+      // Revoked or already expired — keep using the old token only if it is still valid
+      return res.status === 401 ? { error: notAuthenticated(req) } : { session };
+    }
+    data = await res.json();
+  } catch (err) {
+    console.error('Session refresh failed:', err);
+    return { error: backendUnavailable() };
+  }
+
+  const refreshed = typeof data?.token === 'string' ? toSession(data.token) : null;
+  return { session: refreshed ? { ...refreshed, refreshed: true } : session };
+}
+
+/** Store the session JWT in the httpOnly cookie */
+export function setSessionCookie(res: NextResponse, session: Session) {
+  res.cookies.set(SESSION_COOKIE, session.token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: SESSION_COOKIE_PATH,
+    maxAge: Math.max(0, Math.floor((session.expiresAt - Date.now()) / 1000)),
+  });
+}
+
+export function clearSessionCookie(res: NextResponse) {
+  res.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: SESSION_COOKIE_PATH,
+    maxAge: 0,
+  });
+}
+
+/** JSON response in the backend's error shape */
+export function sessionError(status: number, error: string, code: string) {
+  return NextResponse.json({ error, code }, { status });
+}
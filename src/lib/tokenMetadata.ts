@@ -0,0 +1,71 @@
+import type { PublicClient } from 'viem';
+import { ERC20_ABI } from './contracts';
+import type { HexAddress } from './networks';
+import { viemParams } from './viemParams';
+
+/**
+ * On-chain ERC-20 metadata discovery.
+ *
+ * Links can request any ERC-20 by contract address, so decimals are never
+ * taken from a table or defaulted: they are read from the contract and every
+ * parseUnits call uses them. Results are cached per chain and contract for the
+ * session; failed reads are not cached.
+ */
+
+export interface TokenMetadata {
+  chainId: number;
+  /** Lowercase contract address */
+  address: HexAddress;
+  decimals: number;
+  /** null when the contract has no string symbol() / name() (e.g. bytes32 tokens) */
+  symbol: string | null;
+  name: string | null;
+}
+
+export class TokenMetadataError extends Error {
+  readonly address: string;
+
+  constructor(address: string, chainId: number) {
+    super(`${address} is not an ERC-20 token on chain ${chainId} (decimals() could not be read)`);
+    this.name = 'TokenMetadataError';
+    this.address = address;
+  }
+}
+
+const cache = new Map<string, Promise<TokenMetadata>>();
+
+
+async function readOptionalString(client: PublicClient, address: HexAddress, functionName: 'symbol' | 'name'): Promise<string | null> {
+  try {
+    const value = await client.readContract(viemParams({ abi: ERC20_ABI, address, functionName }));
+    return value.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+async function fetchTokenMetadata(client: PublicClient, chainId: number, address: HexAddress): Promise<TokenMetadata> {
+  const [decimals, symbol, name] = await Promise.all([
+    client.readContract(viemParams({ abi: ERC20_ABI, address, functionName: 'decimals' })).catch(() => null),
+    readOptionalString(client, address, 'symbol'),
+    readOptionalString(client, address, 'name'),
+  ]);
+  if (decimals === null) throw new TokenMetadataError(address, chainId);
+  return { chainId, address, decimals: Number(decimals), symbol, name };
+}
+
+/**
+ * decimals, symbol and name of an ERC-20, read with `client` (which must be
+ * connected to `chainId`). Throws TokenMetadataError when decimals() fails.
+ */
+export function readTokenMetadata(client: PublicClient, chainId: number, address: string): Promise<TokenMetadata> {
+  const normalized = address.toLowerCase() as HexAddress;
+  const key = `${chainId}:${normalized}`;
+  let pending = cache.get(key);
+  if (!pending) {
+    pending = fetchTokenMetadata(client, chainId, normalized);
+    pending.catch(() => cache.delete(key));
+    cache.set(key, pending);
+  }
+  return pending;
+}
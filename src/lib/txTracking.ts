@@ -0,0 +1,171 @@
+import {
+  WaitForTransactionReceiptTimeoutError,
+  type PublicClient,
+  type ReplacementReturnType,
+  type TransactionReceipt,
+} from 'viem';
+
+/**
+ * Follows a submitted transfer until it has enough confirmations.
+ *
+ * A wallet hash only means "broadcast". The transfer can still revert, be
+ * dropped from the mempool, be replaced with a different transaction from the
+ * same nonce, or be reorged out after it was mined. Sped-up (repriced)
+ * transfers are followed under their new hash.
+ */
+
+/** Confirmations required per transfer; NEXT_PUBLIC_PAYMENT_CONFIRMATIONS overrides the default of 1 */
+export const REQUIRED_CONFIRMATIONS = Math.max(1, Number(process.env.NEXT_PUBLIC_PAYMENT_CONFIRMATIONS) || 1);
+
+// A transfer not mined after this long is dropped if the node no longer knows it, else left pending
+const RECEIPT_TIMEOUT_MS = 10 * 60 * 1000;
+
+export type TransferFailure = 'reverted' | 'dropped' | 'replaced' | 'cancelled';
+
+export class TransferFailedError extends Error {
+  readonly reason: TransferFailure;
+  readonly hash: string;
+
+  constructor(reason: TransferFailure, hash: string) {
+    const messages: Record<TransferFailure, string> = {
+      reverted: 'The transaction reverted on-chain',
+      dropped: 'The transaction was dropped before it was confirmed',
+      replaced: 'The transaction was replaced by a different one from your wallet',
+      cancelled: 'The transaction was cancelled from your wallet',
+    };
+    super(messages[reason]);
+    this.name = 'TransferFailedError';
+    this.reason = reason;
+    this.hash = hash;
+  }
+}
+
+/** Not mined after RECEIPT_TIMEOUT_MS but still known to the node: keep the hash and wait for it later */
+export class TransferPendingError extends Error {
+  readonly hash: string;
+
+  constructor(hash: string) {
+    super('The transaction is still waiting to be mined. It is not sent again when you resume');
+    this.name = 'TransferPendingError';
+    this.hash = hash;
+  }
+}
+
+export interface TransferStatus {
+  /** Current hash; changes when the transfer is sped up */
+  hash: string;
+  state: 'pending' | 'confirming' | 'confirmed' | 'failed';
+  confirmations: number;
+  required: number;
+  failure?: TransferFailure;
+}
+
+export interface TransferTracker {
+  /** Resolves once the transfer is mined successfully */
+  mined: Promise<TransactionReceipt>;
+  /** Resolves once it has `required` confirmations and is still in the chain */
+  confirmed: Promise<TransactionReceipt>;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Mempool or chain still has the transaction (same check as reconcilePaymentProgress)
+const isKnown = (client: PublicClient, hash: `0x${string}`) =>
+  client.getTransaction({ hash }).then(() => true, () => false);
+
+async function waitForMined(
+  client: PublicClient,
+  hash: `0x${string}`,
+  report: (status: Omit<TransferStatus, 'required'>) => void
+): Promise<TransactionReceipt> {
+  let replacement: ReplacementReturnType | null = null;
+  let receipt: TransactionReceipt;
+  try {
+    receipt = await client.waitForTransactionReceipt({
+      hash,
+      timeout: RECEIPT_TIMEOUT_MS,
+      onReplaced: (r) => { replacement = r; },
+    });
+  } catch (err) {
+    if (!(err instanceof WaitForTransactionReceiptTimeoutError)) throw err;
+    throw (await isKnown(client, hash)) ? new TransferPendingError(hash) : new TransferFailedError('dropped', hash);
+  }
+
+  // A repriced (sped-up) transfer does the same thing; anything else is not our transfer
+  if (replacement && replacement.reason !== 'repriced') {
+    throw new TransferFailedError(replacement.reason === 'cancelled' ? 'cancelled' : 'replaced', hash);
+  }
+  if (receipt.status === 'reverted') {
+    throw new TransferFailedError('reverted', receipt.transactionHash);
+  }
+  report({ hash: receipt.transactionHash, state: 'confirming', confirmations: 1 });
+  return receipt;
+}
+
+async function waitForConfirmations(
+  client: PublicClient,
+  mined: TransactionReceipt,
+  required: number,
+  report: (status: Omit<TransferStatus, 'required'>) => void
+): Promise<TransactionReceipt> {
+  const hash = mined.transactionHash;
+  let confirmations = 1;
+  while (confirmations < required) {
+    await sleep(client.pollingInterval);
+    const head = await client.getBlockNumber({ cacheTime: 0 });
+    const next = Number(head - mined.blockNumber) + 1;
+    if (next !== confirmations) {
+      confirmations = next;
+      report({ hash, state: 'confirming', confirmations: Math.min(confirmations, required) });
+    }
+  }
+
+  // Still in the canonical chain, in the same block?
+  const receipt = await client.getTransactionReceipt({ hash }).catch(() => null);
+  if (receipt?.blockHash === mined.blockHash) return receipt;
+
+  // Reorged out: count again from the block it was re-mined in, or wait while it is back in the mempool
+  if (receipt) {
+    if (receipt.status === 'reverted') throw new TransferFailedError('reverted', hash);
+    report({ hash, state: 'confirming', confirmations: 1 });
+    return waitForConfirmations(client, receipt, required, report);
+  }
+  if (!(await isKnown(client, hash))) throw new TransferFailedError('dropped', hash);
+  report({ hash, state: 'pending', confirmations: 0 });
+  return waitForConfirmations(client, await waitForMined(client, hash, report), required, report);
+}
+
+/**
+ * Track a submitted transfer. `onUpdate` is called on every state change,
+ * including the final 'failed' state (the promises reject with TransferFailedError).
+ */
+export function trackTransfer(
+  client: PublicClient,
+  hash: string,
+  onUpdate: (status: TransferStatus) => void,
+  required = REQUIRED_CONFIRMATIONS
+): TransferTracker {
+  let current = hash;
+  const report = (status: Omit<TransferStatus, 'required'>) => {
+    current = status.hash;
+    onUpdate({ ...status, required });
+  };
+  const fail = (err: unknown): never => {
+    if (err instanceof TransferFailedError) {
+      report({ hash: err.hash, state: 'failed', confirmations: 0, failure: err.reason });
+    }
+    throw err;
+  };
+
+  report({ hash, state: 'pending', confirmations: 0 });
+  const mined = waitForMined(client, hash as `0x${string}`, report).catch(fail);
+  const confirmed = mined
+    .then(receipt => waitForConfirmations(client, receipt, required, report).catch(fail))
+    .then(receipt => {
+      report({ hash: current, state: 'confirmed', confirmations: required });
+      return receipt;
+    });
+  // Callers may stop at `mined` after a failure; don't leave `confirmed` unhandled
+  confirmed.catch(() => undefined);
+  return { mined, confirmed };
+}
@@ -0,0 +1,20 @@
+/**
+ * viem's parameter types make some optional parameters required when
+ * strictNullChecks is off (as in this repo): authorizationList on contract
+ * reads and writes, kzg on deployments, and the account and chain of wallet
+ * writes. viemParams sets the ones a call leaves out to undefined, which viem
+ * treats the same as absent.
+ *
+ * No path aliases here: scripts/ imports this file under plain Node.
+ */
+
+type UnsetParams = {
+  authorizationList: undefined;
+  kzg: undefined;
+  account: undefined;
+  chain: undefined;
+};
+
+export function viemParams<const T extends object>(params: T): Omit<UnsetParams, keyof T> & T {
+  return { authorizationList: undefined, kzg: undefined, account: undefined, chain: undefined, ...params };
+}
@@ -0,0 +1,340 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  MessageSquare, Loader2, Shield, Wallet, Send, Trash2, Link2, Copy, Check, ExternalLink, Bot
+} from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useAccount } from "wagmi";
+import {
+  getChatHistory, sendChatMessage, clearChatHistory,
+  type ChatMessage, type ChatReply, type ChatChainSelection, type ChatCreatedLink
+} from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { useWalletSession } from "@/hooks/use-wallet-session";
+
+const SUGGESTIONS = [
+  'Create a 10 USDC payment link',
+  'List my payments',
+  'Check the status of REQ-...',
+];
+
+interface ListedPayment {
+  id: string;
+  status: string;
+  amount: string;
+  token: string;
+}
+
+const formatTime = (timestamp: number) => {
+  return new Date(timestamp).toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const statusColor = (status: string) => {
+  if (status === 'PAID') return 'bg-emerald-100 text-emerald-700';
+  if (status === 'PENDING') return 'bg-yellow-100 text-yellow-700';
+  return 'bg-gray-100 text-gray-700';
+};
+
+const isChainSelection = (reply: ChatReply): reply is ChatReply & { result: ChatChainSelection } =>
+  reply.action === 'select_chain' && Array.isArray(reply.result?.chains);
+
+const isCreatedLink = (reply: ChatReply): reply is ChatReply & { result: ChatCreatedLink } =>
+  reply.action === 'create_link' && typeof reply.result?.linkId === 'string';
+
+const listedPayments = (reply: ChatReply): ListedPayment[] | null =>
+  reply.action === 'list_payments' && Array.isArray(reply.result?.payments)
+    ? reply.result.payments as ListedPayment[]
+    : null;
+
+function CreatedLinkCard({ link }: { link: ChatCreatedLink }) {
+  const [copied, setCopied] = useState(false);
+  const url = `${window.location.origin}${link.link}`;
+
+  const copy = () => {
+    navigator.clipboard.writeText(url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-border p-3 space-y-2 mt-2">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Link2 className="h-4 w-4 text-blue-600" />
+          <span className="text-sm font-semibold">{link.amount} {link.token}</span>
+        </div>
+        <Badge variant="secondary" className="text-[10px] capitalize">{link.network}</Badge>
+      </div>
+      <code className="block text-xs bg-gray-50 px-2 py-1 rounded border break-all">{url}</code>
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] text-muted-foreground font-mono">{link.linkId}</span>
+        <div className="flex gap-1">
+          <Button variant="ghost" size="sm" className="gap-1 h-7 text-xs" onClick={copy}>
+            {copied ? <Check className="h-3 w-3 text-emerald-600" /> : <Copy className="h-3 w-3" />} Copy
+          </Button>
+          <Button variant="ghost" size="sm" className="gap-1 h-7 text-xs" asChild>
+            <a href={link.link} target="_blank" rel="noopener noreferrer">
+              <ExternalLink className="h-3 w-3" /> Open
+            </a>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function AgentChat() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { address: walletAddress } = useAccount();
+
+  const { status: sessionStatus, agent, signIn, withSession } = useWalletSession();
+  const isLoggedIn = sessionStatus === 'signed-in';
+  const loginLoading = sessionStatus === 'signing-in';
+  const [draft, setDraft] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const { data: messages, isLoading, isError } = useQuery<ChatMessage[]>({
+    queryKey: ['chatHistory'],
+    queryFn: ({ signal }) => withSession(() => getChatHistory(signal)),
+    enabled: isLoggedIn,
+    staleTime: 30000,
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: (message: string) => withSession(() => sendChatMessage(message)),
+    onSuccess: (reply, message) => {
+      const now = Date.now();
+      queryClient.setQueryData<ChatMessage[]>(['chatHistory'], (prev = []) => [
+        ...prev,
+        { id: `local-user-${now}`, role: 'user', message, action: null, result: null, error: null, created_at: now },
+        { id: `local-assistant-${now}`, role: 'assistant', ...reply, created_at: now },
+      ]);
+      if (isCreatedLink(reply)) {
+        queryClient.invalidateQueries({ queryKey: ['paymentLinks'] });
+        queryClient.invalidateQueries({ queryKey: ['paymentRequests'] });
+      }
+    },
+    onError: (err: Error, message) => {
+      setDraft(current => current || message);
+      toast({ title: 'Message failed', description: err.message, variant: 'destructive' });
+    }
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: () => withSession(() => clearChatHistory()),
+    onSuccess: () => {
+      queryClient.setQueryData<ChatMessage[]>(['chatHistory'], []);
+      toast({ title: 'Conversation cleared' });
+    },
+    onError: (err: Error) => {
+      toast({ title: 'Failed to clear conversation', description: err.message, variant: 'destructive' });
+    }
+  });
+
+  const send = (text: string) => {
+    const message = text.trim();
+    if (!message || sendMutation.isPending) return;
+    setDraft('');
+    sendMutation.mutate(message);
+  };
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [messages, sendMutation.isPending]);
+
+  const lastMessageId = messages?.[messages.length - 1]?.id;
+
+  const renderReply = (entry: ChatMessage) => {
+    // Chain options only act on the latest prompt; older ones are history
+    const canPick = entry.id === lastMessageId && !sendMutation.isPending;
+    const payments = listedPayments(entry);
+
+    return (
+      <>
+        <p className="text-sm whitespace-pre-wrap">{entry.message}</p>
+        {entry.error && <p className="text-xs text-red-600 mt-1">{entry.error}</p>}
+
+        {isChainSelection(entry) && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {entry.result.chains.map(chain => (
+              <Button
+                key={chain.name}
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs gap-1"
+                disabled={!canPick}
+                onClick={() => send(chain.name)}
+              >
+                {chain.displayName}
+                {chain.isTestnet && <Badge variant="secondary" className="text-[9px] px-1 py-0">testnet</Badge>}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {isCreatedLink(entry) && <CreatedLinkCard link={entry.result} />}
+
+        {payments && payments.length > 0 && (
+          <div className="bg-white rounded-lg border border-border divide-y mt-2">
+            {payments.map(payment => (
+              <div key={payment.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                <code className="text-xs">{payment.id}</code>
+                <span className="text-xs">{payment.amount} {payment.token}</span>
+                <Badge className={`${statusColor(payment.status)} border-0 text-[10px]`}>{payment.status}</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {entry.action === 'provide_wallet' && (
+          <Button variant="outline" size="sm" className="h-7 text-xs mt-2" onClick={() => router.push('/agents')}>
+            Open Agents
+          </Button>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <>
+      <main className="flex-1 p-6 lg:p-8">
+            <div className="max-w-4xl mx-auto space-y-6">
+              {/* Header */}
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground mb-1">Agents</p>
+                  <h1 className="text-2xl font-heading font-bold text-foreground flex items-center gap-2">
+                    <MessageSquare className="h-6 w-6" /> Chat
+                  </h1>
+                </div>
+                {isLoggedIn && messages && messages.length > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-1"
+                    disabled={clearMutation.isPending}
+                    onClick={() => clearMutation.mutate()}
+                  >
+                    {clearMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                    Clear
+                  </Button>
+                )}
+              </div>
+
+              {/* Wallet Login */}
+              {!isLoggedIn ? (
+                <div className="bg-white rounded-xl border border-border p-6 space-y-4">
+                  <h3 className="font-medium text-sm flex items-center gap-2"><Shield className="h-4 w-4" /> Sign in with your wallet to chat with your agent</h3>
+                  {!walletAddress ? (
+                    <p className="text-sm text-muted-foreground">Connect your wallet first using the button in the navbar.</p>
+                  ) : (
+                    <Button
+                      size="sm"
+                      disabled={loginLoading}
+                      onClick={signIn}
+                      className="gap-2"
+                    >
+                      {loginLoading ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Wallet className="h-4 w-4" />
+                      )}
+                      Sign in with Wallet
+                    </Button>
+                  )}
+                </div>
+              ) : !agent ? (
+                <div className="bg-white rounded-xl border border-border p-6 space-y-4">
+                  <h3 className="font-medium text-sm flex items-center gap-2"><Bot className="h-4 w-4" /> No agent registered to this wallet</h3>
+                  <p className="text-sm text-muted-foreground">The chat runs as your agent. Register one from the Agents page first.</p>
+                  <Button size="sm" variant="outline" onClick={() => router.push('/agents')}>Open Agents</Button>
+                </div>
+              ) : (
+                <div className="bg-white rounded-xl border border-border flex flex-col h-[calc(100vh-14rem)] min-h-[420px]">
+                  {/* Transcript */}
+                  <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    {isLoading ? (
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" /> Loading conversation...
+                      </div>
+                    ) : isError ? (
+                      <p className="text-sm text-red-600">Failed to load the conversation.</p>
+                    ) : !messages || messages.length === 0 ? (
+                      <div className="text-center py-10 space-y-4">
+                        <p className="text-sm text-muted-foreground">
+                          Ask in plain language — the same requests your agent can make over <code>/api/chat</code>.
+                        </p>
+                        <div className="flex flex-wrap justify-center gap-2">
+                          {SUGGESTIONS.map(suggestion => (
+                            <Button key={suggestion} variant="outline" size="sm" className="text-xs" onClick={() => setDraft(suggestion)}>
+                              {suggestion}
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                    ) : (
+                      messages.filter(entry => entry.role !== 'system').map(entry => (
+                        <div key={entry.id} className={`flex ${entry.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                          <div
+                            className={`max-w-[80%] rounded-xl px-4 py-2 ${
+                              entry.role === 'user' ? 'bg-blue-600 text-white' : 'bg-slate-100 text-foreground'
+                            }`}
+                          >
+                            {entry.role === 'user'
+                              ? <p className="text-sm whitespace-pre-wrap">{entry.message}</p>
+                              : renderReply(entry)}
+                            <p className={`text-[10px] mt-1 ${entry.role === 'user' ? 'text-blue-100' : 'text-muted-foreground'}`}>
+                              {formatTime(entry.created_at)}
+                            </p>
+                          </div>
+                        </div>
+                      ))
+                    )}
+
+                    {sendMutation.isPending && (
+                      <>
+                        <div className="flex justify-end">
+                          <div className="max-w-[80%] rounded-xl px-4 py-2 bg-blue-600 text-white">
+                            <p className="text-sm whitespace-pre-wrap">{sendMutation.variables}</p>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <Loader2 className="h-3 w-3 animate-spin" /> Thinking...
+                        </div>
+                      </>
+                    )}
+                    <div ref={bottomRef} />
+                  </div>
+
+                  {/* Composer */}
+                  <form
+                    className="border-t border-border p-3 flex gap-2"
+                    onSubmit={(e) => { e.preventDefault(); send(draft); }}
+                  >
+                    <Input
+                      placeholder="e.g. Create a 25 USDC link on Base for design work"
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      disabled={sendMutation.isPending}
+                      className="text-sm"
+                    />
+                    <Button type="submit" size="sm" className="gap-1" disabled={!draft.trim() || sendMutation.isPending}>
+                      {sendMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                      Send
+                    </Button>
+                  </form>
+                </div>
+              )}
+            </div>
+      </main>
+    </>
+  );
+}
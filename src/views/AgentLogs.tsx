@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -9,16 +9,15 @@ import {
   FileText, Globe, ChevronLeft, ChevronRight, Loader2, ArrowLeft, Shield, Wallet
 } from "lucide-react";
 import { useRouter } from "next/navigation";
-import { useAccount, useSignMessage } from "wagmi";
+import { useAccount } from "wagmi";
 import {
   getAgentLogs, getAgentIpHistory,
-  type AgentLogsResponse, type IpHistoryEntry,
-  walletLogin, isJwtValid, clearJwt
+  type AgentLogsResponse, type IpHistoryEntry
 } from "@/lib/api";
-import { useToast } from "@/hooks/use-toast";
+import { useWalletSession } from "@/hooks/use-wallet-session";
 
-const formatDate = (dateStr: string) => {
-  return new Date(dateStr).toLocaleString('en-US', {
+const formatDate = (timestamp: number) => {
+  return new Date(timestamp).toLocaleString('en-US', {
     month: 'short',
     day: 'numeric',
     hour: '2-digit',
@@ -37,54 +36,24 @@ const statusColor = (code: number | null) => {
 
 export default function AgentLogs() {
   const router = useRouter();
-  const { toast } = useToast();
   const { address: walletAddress } = useAccount();
-  const { signMessageAsync } = useSignMessage();
 
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
-  const [loginLoading, setLoginLoading] = useState(false);
+  const { status: sessionStatus, signIn, withSession } = useWalletSession();
+  const isLoggedIn = sessionStatus === 'signed-in';
+  const loginLoading = sessionStatus === 'signing-in';
   const [page, setPage] = useState(1);
   const limit = 25;
 
-  // Check for existing valid JWT session
-  useEffect(() => {
-    setIsLoggedIn(isJwtValid());
-  }, [walletAddress]);
-
-  useEffect(() => {
-    if (!walletAddress) {
-      clearJwt();
-      setIsLoggedIn(false);
-    }
-  }, [walletAddress]);
-
-  const handleWalletLogin = async () => {
-    if (!walletAddress) return;
-
-    setLoginLoading(true);
-    try {
-      await walletLogin(walletAddress, async (message: string) => {
-        return await signMessageAsync({ account: walletAddress as `0x${string}`, message });
-      });
-      setIsLoggedIn(true);
-      toast({ title: 'Signed in', description: 'Authenticated via wallet signature.' });
-    } catch (err: any) {
-      toast({ title: 'Login failed', description: err.message || 'Unknown error', variant: 'destructive' });
-    } finally {
-      setLoginLoading(false);
-    }
-  };
-
   const { data: logsData, isLoading: logsLoading, isError: logsError } = useQuery<AgentLogsResponse>({
     queryKey: ['agentLogs', page],
-    queryFn: () => getAgentLogs(page, limit),
+    queryFn: () => withSession(() => getAgentLogs(page, limit)),
     enabled: isLoggedIn,
     staleTime: 5000,
   });
 
   const { data: ipHistory, isLoading: ipLoading } = useQuery<IpHistoryEntry[]>({
     queryKey: ['agentIpHistory'],
-    queryFn: () => getAgentIpHistory(),
+    queryFn: () => withSession(() => getAgentIpHistory()),
     enabled: isLoggedIn,
     staleTime: 10000,
   });
@@ -120,7 +89,7 @@ export default function AgentLogs() {
                     <Button
                       size="sm"
                       disabled={loginLoading}
-                      onClick={handleWalletLogin}
+                      onClick={signIn}
                       className="gap-2"
                     >
                       {loginLoading ? (
@@ -194,7 +163,7 @@ export default function AgentLogs() {
                     ) : logsError ? (
                       <div className="text-sm text-red-600 py-4 text-center">
                         Failed to load logs. Your session may have expired.
-                        <Button variant="ghost" size="sm" className="ml-2" onClick={() => { clearJwt(); setIsLoggedIn(false); }}>
+                        <Button variant="ghost" size="sm" className="ml-2" onClick={signIn}>
                           Sign in again
                         </Button>
                       </div>
@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect, useMemo } from "react";
+import { useState, useCallback, useMemo } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -8,16 +8,17 @@ import {
   RotateCcw, Power, Trash2, ShieldCheck, Clock, FileText, Copy, Check, AlertTriangle, Wallet
 } from "lucide-react";
 import { useRouter } from "next/navigation";
-import { useAccount, useSignMessage } from "wagmi";
+import { useAccount } from "wagmi";
 import {
   getAgentByWallet, type AgentProfile,
   getAgentsList, type AgentSummary,
   getAllPaymentRequests, getRewards,
-  getPrices, toUsd, formatUsd, type TokenPrices,
-  rotateApiKey, deactivateAgent, deleteAgent,
-  walletLogin, isJwtValid, clearJwt
+  getPrices, toUsd, formatUsd, linkTokenAmount, type TokenPrices,
+  rotateApiKey, deactivateAgent, deleteAgent
 } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
+import { useWalletSession } from "@/hooks/use-wallet-session";
+import { AgentWebhooks } from "@/components/AgentWebhooks";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
 
@@ -26,9 +27,9 @@ const truncateAddress = (addr: string | null) => {
   return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
 };
 
-const formatDate = (dateStr: string | null) => {
-  if (!dateStr) return 'N/A';
-  return new Date(dateStr).toLocaleDateString('en-US', {
+const formatDate = (timestamp: number | null) => {
+  if (!timestamp) return 'N/A';
+  return new Date(timestamp).toLocaleDateString('en-US', {
     month: 'short',
     day: 'numeric',
     year: 'numeric',
@@ -42,59 +43,23 @@ export default function AgentsDashboard() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { address: walletAddress } = useAccount();
-  const { signMessageAsync } = useSignMessage();
 
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
-  const [loginLoading, setLoginLoading] = useState(false);
+  const { status: sessionStatus, signIn, signOut, withSession } = useWalletSession();
+  const isLoggedIn = sessionStatus === 'signed-in';
+  const loginLoading = sessionStatus === 'signing-in';
   const [newCredentials, setNewCredentials] = useState<{ api_key_id: string; api_secret: string } | null>(null);
   const [copiedField, setCopiedField] = useState<string | null>(null);
   const [confirmDelete, setConfirmDelete] = useState(false);
 
-  // Auto-login when wallet is connected and JWT is still valid
-  useEffect(() => {
-    if (isJwtValid()) {
-      setIsLoggedIn(true);
-    } else {
-      setIsLoggedIn(false);
-    }
-  }, [walletAddress]);
-
-  // Clear session on wallet disconnect
-  useEffect(() => {
-    if (!walletAddress) {
-      clearJwt();
-      setIsLoggedIn(false);
-    }
-  }, [walletAddress]);
-
-  const handleWalletLogin = async () => {
-    if (!walletAddress) return;
-
-    setLoginLoading(true);
-    try {
-      await walletLogin(walletAddress, async (message: string) => {
-        return await signMessageAsync({ account: walletAddress as `0x${string}`, message });
-      });
-      setIsLoggedIn(true);
-      queryClient.invalidateQueries({ queryKey: ['agentByWallet'] });
-      toast({ title: 'Signed in', description: 'Dashboard authenticated via wallet signature.' });
-    } catch (err: any) {
-      toast({ title: 'Login failed', description: err.message, variant: 'destructive' });
-    } finally {
-      setLoginLoading(false);
-    }
-  };
-
-  const handleSessionExpired = () => {
-    clearJwt();
-    setIsLoggedIn(false);
-    toast({ title: 'Session expired', description: 'Please sign in again with your wallet.', variant: 'destructive' });
+  const handleSignOut = async () => {
+    await signOut();
+    toast({ title: 'Signed out', description: 'Your dashboard session has been revoked.' });
   };
 
   // Wallet-scoped data
   const { data: allAgents } = useQuery<AgentSummary[]>({
     queryKey: ['agentsList'],
-    queryFn: getAgentsList,
+    queryFn: ({ signal }) => getAgentsList(signal),
     staleTime: 30000,
   });
 
@@ -114,12 +79,12 @@ export default function AgentsDashboard() {
 
   const { data: prices } = useQuery({
     queryKey: ['prices'],
-    queryFn: getPrices,
+    queryFn: ({ signal }) => getPrices(signal),
     staleTime: 60000,
     refetchInterval: 300000,
   });
 
-  const priceData: TokenPrices = prices ?? { LCX: 0, ETH: 0, USDC: 1, USDT: 1 };
+  const priceData: TokenPrices = prices ?? { LCX: 0, ETH: 0, POL: 0, BNB: 0, USDC: 1, USDT: 1 };
 
   // Filter agents to this wallet only
   const myAgents = useMemo(() =>
@@ -135,7 +100,7 @@ export default function AgentsDashboard() {
 
   // Compute agent payment value in USD (wallet-scoped)
   const agentPaymentValueUsd = useMemo(() =>
-    agentPayments.reduce((sum, p) => sum + toUsd(parseFloat(p.amount), p.token, priceData), 0),
+    agentPayments.reduce((sum, p) => sum + toUsd(parseFloat(linkTokenAmount(p) ?? '0'), p.token, priceData), 0),
     [agentPayments, priceData]
   );
 
@@ -164,41 +129,37 @@ export default function AgentsDashboard() {
   });
 
   const rotateMutation = useMutation({
-    mutationFn: () => rotateApiKey(),
+    mutationFn: () => withSession(() => rotateApiKey()),
     onSuccess: (data) => {
       setNewCredentials({ api_key_id: data.api_key_id, api_secret: data.api_secret });
       toast({ title: 'API Key Rotated', description: `New credentials generated. Expires: ${formatDate(data.expires_at)}` });
       queryClient.invalidateQueries({ queryKey: ['agentByWallet'] });
     },
     onError: (err: Error) => {
-      if (err.message === 'SESSION_EXPIRED') return handleSessionExpired();
       toast({ title: 'Failed to rotate key', description: err.message, variant: 'destructive' });
     }
   });
 
   const deactivateMutation = useMutation({
-    mutationFn: () => deactivateAgent(),
+    mutationFn: () => withSession(() => deactivateAgent()),
     onSuccess: () => {
       toast({ title: 'Agent Deactivated', description: 'Your agent has been deactivated.' });
       queryClient.invalidateQueries({ queryKey: ['agentByWallet'] });
     },
     onError: (err: Error) => {
-      if (err.message === 'SESSION_EXPIRED') return handleSessionExpired();
       toast({ title: 'Failed to deactivate', description: err.message, variant: 'destructive' });
     }
   });
 
   const deleteMutation = useMutation({
-    mutationFn: () => deleteAgent(),
+    mutationFn: () => withSession(() => deleteAgent()),
     onSuccess: () => {
       toast({ title: 'Agent Deleted', description: 'Agent deleted. Payment history is preserved.' });
       queryClient.invalidateQueries({ queryKey: ['agentByWallet'] });
       setConfirmDelete(false);
-      clearJwt();
-      setIsLoggedIn(false);
+      signOut();
     },
     onError: (err: Error) => {
-      if (err.message === 'SESSION_EXPIRED') return handleSessionExpired();
       toast({ title: 'Failed to delete', description: err.message, variant: 'destructive' });
     }
   });
@@ -294,9 +255,9 @@ export default function AgentsDashboard() {
                       <p className="text-muted-foreground text-xs">API Key Expires</p>
                       <p className="font-mono text-xs">
                         {agentProfile.api_key_expires_at ? (
-                          <span className={new Date(agentProfile.api_key_expires_at) < new Date() ? 'text-red-600 font-bold' : ''}>
+                          <span className={agentProfile.api_key_expires_at < Date.now() ? 'text-red-600 font-bold' : ''}>
                             {formatDate(agentProfile.api_key_expires_at)}
-                            {new Date(agentProfile.api_key_expires_at) < new Date() && ' (EXPIRED)'}
+                            {agentProfile.api_key_expires_at < Date.now() && ' (EXPIRED)'}
                           </span>
                         ) : 'N/A'}
                       </p>
@@ -317,9 +278,7 @@ export default function AgentsDashboard() {
 
                   {/* Key Expiry Warning */}
                   {agentProfile.api_key_expires_at && (() => {
-                    const expiresAt = new Date(agentProfile.api_key_expires_at);
-                    const now = new Date();
-                    const daysLeft = Math.ceil((expiresAt.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+                    const daysLeft = Math.ceil((agentProfile.api_key_expires_at - Date.now()) / (1000 * 60 * 60 * 24));
                     const isExpired = daysLeft <= 0;
                     const isExpiringSoon = daysLeft > 0 && daysLeft <= 3;
 
@@ -364,7 +323,7 @@ export default function AgentsDashboard() {
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={handleWalletLogin}
+                        onClick={signIn}
                         disabled={loginLoading}
                         className="gap-2"
                       >
@@ -377,9 +336,14 @@ export default function AgentsDashboard() {
                       </Button>
                     ) : (
                       <div className="space-y-3">
-                        <p className="text-xs text-emerald-600 flex items-center gap-1">
-                          <ShieldCheck className="h-3 w-3" /> Authenticated via wallet signature
-                        </p>
+                        <div className="flex items-center justify-between">
+                          <p className="text-xs text-emerald-600 flex items-center gap-1">
+                            <ShieldCheck className="h-3 w-3" /> Authenticated via wallet signature
+                          </p>
+                          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleSignOut}>
+                            Sign out
+                          </Button>
+                        </div>
 
                         {newCredentials && (
                           <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-3 space-y-2">
@@ -453,6 +417,8 @@ export default function AgentsDashboard() {
                       </div>
                     )}
                   </div>
+
+                  {isLoggedIn && <AgentWebhooks />}
                 </div>
               ) : walletAddress ? (
                 <div className="bg-white rounded-xl border border-border p-6 text-center text-sm text-muted-foreground">
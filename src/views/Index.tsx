@@ -21,8 +21,9 @@ import {
 } from "lucide-react";
 import { useAccount } from "wagmi";
 import { useConnectModal } from "@rainbow-me/rainbowkit";
-import { getAllPaymentRequests, getRewards, getPrices, toUsd, formatUsd, type TokenPrices } from "@/lib/api";
-import { getExplorerUrl } from "@/lib/contracts";
+import { getAllPaymentRequests, getRewards, getPrices, toUsd, formatUsd, linkTokenAmount, formatLinkAmount, type TokenPrices } from "@/lib/api";
+import { getTxUrl } from "@/lib/contracts";
+import { AddressIdentity } from "@/components/AddressIdentity";
 
 const formatDate = (timestamp: number) => {
   const now = Date.now();
@@ -74,12 +75,12 @@ const Index = () => {
 
   const { data: prices } = useQuery({
     queryKey: ['prices'],
-    queryFn: getPrices,
+    queryFn: ({ signal }) => getPrices(signal),
     staleTime: 60000,
     refetchInterval: 300000,
   });
 
-  const priceData: TokenPrices = prices ?? { LCX: 0, ETH: 0, USDC: 1, USDT: 1 };
+  const priceData: TokenPrices = prices ?? { LCX: 0, ETH: 0, POL: 0, BNB: 0, USDC: 1, USDT: 1 };
 
   // Filter to human-only data (creatorAgentId is null = created by human via frontend)
   const allRequests = data?.requests ?? [];
@@ -91,7 +92,7 @@ const Index = () => {
 
   // Convert received amounts to USD (use ALL paid links, not just the 5 shown)
   const totalReceivedUsd = useMemo(() => 
-    allPaidLinks.reduce((acc, t) => acc + toUsd(parseFloat(t.amount), t.token, priceData), 0),
+    allPaidLinks.reduce((acc, t) => acc + toUsd(parseFloat(linkTokenAmount(t) ?? '0'), t.token, priceData), 0),
     [allPaidLinks, priceData]
   );
 
@@ -216,12 +217,13 @@ const Index = () => {
                                     {txn.description?.trim() || 'Payment received'}
                                   </p>
                                   <p className="text-xs text-muted-foreground">{formatDate(txn.paidAt!)}</p>
+                                  {txn.payer && <AddressIdentity address={txn.payer} className="mt-1" />}
                                 </div>
                               </div>
                               <div className="flex items-center gap-3">
                                 <div className="text-right">
                                   <p className="text-sm font-semibold text-emerald-600">
-                                    +{txn.amount} {txn.token}
+                                    +{linkTokenAmount(txn) ?? txn.amount} {txn.token}
                                   </p>
                                   <div className="flex items-center gap-1 justify-end">
                                     <CheckCircle2 className="h-3 w-3 text-emerald-600" />
@@ -230,7 +232,7 @@ const Index = () => {
                                 </div>
                                 {txn.txHash && (
                                   <a
-                                    href={`${getExplorerUrl(txn.network)}/tx/${txn.txHash}`}
+                                    href={getTxUrl(txn.network, txn.txHash)}
                                     target="_blank"
                                     rel="noopener noreferrer"
                                     className="p-1.5 rounded-md hover:bg-blue-50 transition-colors"
@@ -277,11 +279,14 @@ const Index = () => {
                             <PaymentLinkItem 
                               key={link.id} 
                               id={link.id}
-                              title={`${link.amount} ${link.token}`}
+                              title={formatLinkAmount(link)}
                               amount={link.amount}
                               token={link.token}
+                              currency={link.currency}
+                              quote={link.quote}
                               status={link.status}
                               link={`${window.location.origin}/pay/${link.id}`}
+                              receiver={link.receiver}
                               onDelete={handleDelete}
                             />
                           ))}
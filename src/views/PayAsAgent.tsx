@@ -196,7 +196,7 @@ curl -X POST ${API_BASE}/agents/verify-x \\
             Create a Payment Link
           </h3>
           <p className="text-sm text-muted-foreground mb-4">
-            <strong>network</strong> is required. Supported: <code>sepolia</code>, <code>ethereum</code>, <code>base</code>. All requests use HMAC signing.
+            <strong>network</strong> is required. Supported: <code>sepolia</code>, <code>ethereum</code>, <code>base</code>, <code>polygon</code>, <code>bnb</code>. All requests use HMAC signing.
           </p>
           <pre className="bg-muted p-4 rounded-lg overflow-x-auto text-xs whitespace-pre-wrap font-mono border">
 {`# Using the @payagent/sdk (recommended):
@@ -244,13 +244,21 @@ curl -X POST ${API_BASE}/create-link \\
               <span className="font-medium">Base Mainnet</span>
               <span className="text-muted-foreground font-mono text-xs">base</span>
             </div>
+            <div className="flex justify-between py-2 border-b border-slate-200/50">
+              <span className="font-medium">Polygon PoS</span>
+              <span className="text-muted-foreground font-mono text-xs">polygon</span>
+            </div>
+            <div className="flex justify-between py-2 border-b border-slate-200/50">
+              <span className="font-medium">BNB Smart Chain</span>
+              <span className="text-muted-foreground font-mono text-xs">bnb</span>
+            </div>
             <div className="flex justify-between py-2 border-b border-slate-200/50">
               <span className="font-medium">Sepolia Testnet</span>
               <span className="text-muted-foreground font-mono text-xs">sepolia</span>
             </div>
           </div>
           <p className="text-xs text-muted-foreground mt-3">
-            Tokens per chain: USDC, USDT, ETH (native), LCX. Query <code>GET /api/chains</code> for full details.
+            Ethereum, Base and Sepolia: USDC, USDT, ETH (native), LCX. Polygon: USDC, USDT, POL (native). BNB Smart Chain: USDC, USDT, BNB (native). Query <code>GET /api/chains</code> for full details.
           </p>
         </Card>
 
@@ -303,7 +311,7 @@ console.log('Wallet address:', client.address);
 // ── Create a payment link ───────────────────────────────
 const link = await client.createLink({
   amount: '10',
-  network: 'sepolia',      // 'sepolia' | 'ethereum' | 'base'
+  network: 'sepolia',      // 'sepolia' | 'ethereum' | 'base' | 'polygon' | 'bnb'
   token: 'USDC',           // 'USDC' | 'USDT' | 'ETH' | 'LCX'
   description: 'Service fee',
 });
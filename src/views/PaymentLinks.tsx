@@ -8,8 +8,9 @@ import { toast } from "sonner";
 import { CreateLinkModal } from "@/components/CreateLinkModal";
 import { useAccount } from "wagmi";
 import { useConnectModal } from "@rainbow-me/rainbowkit";
-import { getAllPaymentRequests, deletePaymentRequest, PaymentRequest } from "@/lib/api";
-import { getExplorerUrl } from "@/lib/contracts";
+import { getAllPaymentRequests, deletePaymentRequest, formatLinkAmount, PaymentRequest } from "@/lib/api";
+import { getTxUrl } from "@/lib/contracts";
+import { AddressIdentity } from "@/components/AddressIdentity";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 
 type FilterTab = 'all' | 'human' | 'agent';
@@ -303,7 +304,7 @@ const PaymentLinks = () => {
                           <div className="flex-1 min-w-0">
                             <div className="flex items-center gap-2 mb-1">
                               <h3 className="font-semibold text-foreground">
-                                {link.amount} {link.token}
+                                {formatLinkAmount(link)}
                               </h3>
                               {getStatusBadge(link)}
                               {getOriginBadge(link)}
@@ -314,7 +315,7 @@ const PaymentLinks = () => {
                               </p>
                             )}
                             <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
-                              <span>To: <code className="font-mono">{truncateAddress(link.receiver)}</code></span>
+                              <span className="flex items-center gap-1.5">To: <AddressIdentity address={link.receiver} /></span>
                               <span>{link.network.split('(')[0].trim()}</span>
                               <span>{formatDate(link.createdAt)}</span>
                             </div>
@@ -357,7 +358,7 @@ const PaymentLinks = () => {
                         </div>
                         {link.status === 'PAID' && link.txHash && (
                           <a 
-                            href={`${getExplorerUrl(link.network)}/tx/${link.txHash}`} 
+                            href={getTxUrl(link.network, link.txHash)} 
                             target="_blank" 
                             rel="noopener noreferrer" 
                             className="text-blue-600 hover:underline flex items-center gap-1"
@@ -3,20 +3,48 @@ import { useRouter } from "next/navigation";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
-import { Copy, CheckCircle2, Circle, Loader2, AlertCircle, Wallet, Clock, ExternalLink, ArrowRight, Shield, Info } from "lucide-react";
+import { Copy, CheckCircle2, Circle, Loader2, AlertCircle, AlertTriangle, Wallet, Clock, ExternalLink, ArrowRight, Shield, ShieldCheck, Info } from "lucide-react";
 import { ConnectButton } from '@rainbow-me/rainbowkit';
-import { useAccount, useWriteContract, useSwitchChain, useSendTransaction } from 'wagmi';
-import { parseUnits, parseEther } from 'viem';
-import { getPaymentRequest, verifyPayment, getFeeInfo, type PaymentRequest, type FeeInfoResponse, type FeeTransfer } from "@/lib/api";
-import { ERC20_ABI, getTokenAddress, getChainId, getTokenDecimals, isNativeToken as checkIsNativeToken, getExplorerUrl } from "@/lib/contracts";
+import { useAccount, useWriteContract, useSwitchChain, useSendTransaction, usePublicClient, useConfig } from 'wagmi';
+import { parseUnits, parseEther, formatUnits } from 'viem';
+import { getPaymentRequest, verifyPayment, getFeeInfo, relayPayment, linkNetworks, linkReceiver, linkTokens, linkNeedsQuote, formatFiat, formatLinkAmount, formatQuoteValue, ApiError, type PaymentRequest, type FeeInfoResponse, type FeeTransfer, type VerifyPaymentData } from "@/lib/api";
+import { ERC20_ABI, PAYAGENT_ROUTER_ABI, getTokenAddress, getChainId, getRouterAddress, isNativeToken as checkIsNativeToken, getTxUrl, getTokenUrl } from "@/lib/contracts";
+import { findNetworkName, networkDisplayName } from "@/lib/networks";
+import { readTokenMetadata, TokenMetadataError } from "@/lib/tokenMetadata";
+import { viemParams } from "@/lib/viemParams";
+import { buildSettlement, canSettleThroughRouter, findMissingApprovals } from "@/lib/routerPayment";
+import { findPermitKind, signRouterPermit, type SignedPermit } from "@/lib/permitPayment";
+import { canBatchTransfers, sendTransferBatch, waitForTransferBatch } from "@/lib/batchPayment";
+import { signTransferAuthorizations } from "@/lib/gasless";
+import { loadPaymentProgress, savePaymentProgress, clearPaymentProgress, reconcilePaymentProgress, sentCount, type PaymentProgress } from "@/lib/paymentProgress";
+import { trackTransfer, TransferFailedError, TransferPendingError, REQUIRED_CONFIRMATIONS, type TransferStatus, type TransferTracker } from "@/lib/txTracking";
+import { useNetworks } from "@/hooks/use-networks";
+import { useTokenMetadata } from "@/hooks/use-token-metadata";
+import { usePaymentPreflight } from "@/hooks/use-payment-preflight";
+import { useAtomicBatch } from "@/hooks/use-atomic-batch";
+import { useGasless } from "@/hooks/use-gasless";
+import { useEnsAddress } from "@/hooks/use-ens";
+import { usePriceQuote } from "@/hooks/use-price-quote";
+import { AddressIdentity } from "@/components/AddressIdentity";
 
 type PaymentStep = "select-network" | "success";
 
+function isWalletRejection(err: unknown): boolean {
+  const msg = err instanceof Error ? err.message : String(err);
+  return msg.includes('User rejected') || msg.includes('denied transaction') || msg.includes('ACTION_REJECTED');
+}
+
 // Parse raw wallet/viem errors into user-friendly messages
 function formatTransferError(err: unknown): string {
+  if (err instanceof TokenMetadataError) return err.message;
+  if (err instanceof TransferFailedError || err instanceof TransferPendingError) return `${err.message}.`;
+  // Relayer rejections (gasless mode) explain themselves
+  if (err instanceof ApiError && err.status === 400) return err.message;
   const msg = err instanceof Error ? err.message : String(err);
-  if (msg.includes('User rejected') || msg.includes('denied transaction') || msg.includes('ACTION_REJECTED'))
+  if (isWalletRejection(err))
     return 'You declined the transaction in your wallet.';
   if (msg.includes('insufficient funds') || msg.includes('exceeds balance') || msg.includes('INSUFFICIENT_FUNDS'))
     return 'Insufficient balance to complete this payment.';
@@ -27,10 +55,38 @@ function formatTransferError(err: unknown): string {
   return 'Transaction failed. Please try again.';
 }
 
+// Contract being paid: the link's custom token, else the registry contract of `token` (null for native tokens)
+function paymentTokenContract(request: PaymentRequest, network: string, token: string): string | null {
+  if (request.tokenAddress) return request.tokenAddress;
+  if (!findNetworkName(network) || checkIsNativeToken(token, network)) return null;
+  try {
+    return getTokenAddress(network, token);
+  } catch {
+    return null;
+  }
+}
+
+const shortAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+function transferStatusLabel(status: TransferStatus): string {
+  switch (status.state) {
+    case 'pending': return 'Pending';
+    case 'confirming': return `${status.confirmations}/${status.required} confirmations`;
+    case 'confirmed': return 'Confirmed';
+    case 'failed': return status.failure ? status.failure[0].toUpperCase() + status.failure.slice(1) : 'Failed';
+  }
+}
+
+const formatBalance = (value: bigint, decimals: number) =>
+  Number(formatUnits(value, decimals)).toLocaleString(undefined, { maximumFractionDigits: 6 });
+
 export default function PaymentView({ linkId }: { linkId: string }) {
   const router = useRouter();
   const { address, isConnected, chain } = useAccount();
   const { switchChain } = useSwitchChain();
+
+  // Load chain and token details from /api/chains before building transfers
+  useNetworks();
   
   // Payment request data
   const [paymentRequest, setPaymentRequest] = useState<PaymentRequest | null>(null);
@@ -40,20 +96,73 @@ export default function PaymentView({ linkId }: { linkId: string }) {
   // UI state
   const [step, setStep] = useState<PaymentStep>("select-network");
   const [selectedNetwork, setSelectedNetwork] = useState("");
+  const [selectedToken, setSelectedToken] = useState("");
   const [processingPayment, setProcessingPayment] = useState(false);
   const [isNativeToken, setIsNativeToken] = useState(false);
   const [expiryTimeRemaining, setExpiryTimeRemaining] = useState<number | null>(null);
+  const [quoteTimeRemaining, setQuoteTimeRemaining] = useState<number | null>(null);
 
   // Fee state
   const [feeInfo, setFeeInfo] = useState<FeeInfoResponse | null>(null);
   const [feeLoading, setFeeLoading] = useState(false);
   const [feeError, setFeeError] = useState<string | null>(null);
-  const [transferProgress, setTransferProgress] = useState<{ current: number; total: number; hashes: string[] }>({ current: 0, total: 0, hashes: [] });
+  const [transferProgress, setTransferProgress] = useState<{ current: number; total: number; statuses: TransferStatus[] }>({ current: 0, total: 0, statuses: [] });
   const [transferError, setTransferError] = useState<string | null>(null);
+  // Transfers already sent by an interrupted attempt; only the rest are sent on resume
+  const [resumable, setResumable] = useState<PaymentProgress | null>(null);
+  // Verification that failed after every transfer was sent; retried with the same hashes
+  const [pendingVerification, setPendingVerification] = useState<{ data: VerifyPaymentData; error: string } | null>(null);
+  // Payer's choice to sign EIP-3009 authorizations and let the relayer pay gas
+  const [payWithoutGas, setPayWithoutGas] = useState(false);
   
   // Wagmi hooks
-  const { writeContract } = useWriteContract();
+  const { writeContract, writeContractAsync } = useWriteContract();
   const { sendTransaction } = useSendTransaction();
+  const config = useConfig();
+
+  // Network the payer pays on: their pick on a multi-network link, else the link's first
+  const paymentNetwork = paymentRequest ? selectedNetwork || linkNetworks(paymentRequest)[0] : null;
+  // Token the payer pays in: their pick on a link accepting several, else the link's first
+  const paymentToken = paymentRequest ? selectedToken || linkTokens(paymentRequest)[0] : null;
+
+  // Fiat-denominated links, and links paid in another accepted token, pay the token amount
+  // of a quote locked for a few minutes; it is held while a payment built from it is being sent
+  const quoted = !!paymentRequest && !!paymentToken && linkNeedsQuote(paymentRequest, paymentToken);
+  const priceQuote = usePriceQuote(paymentRequest, paymentNetwork, paymentToken, processingPayment || !!resumable);
+  const quote = quoted ? priceQuote.data ?? null : null;
+  const quoteId = quote?.id ?? null;
+  const quoteExpired = !!quote && quoteTimeRemaining !== null && quoteTimeRemaining <= 0;
+  // Waiting for a (new) quote; a resumed payment keeps the one it was built from
+  const quotePending = quoted && !resumable && (!quote || quoteExpired);
+  // Token amount shown to the payer: from the fee quote once loaded
+  const tokenAmount = feeInfo?.payment?.amount ?? (quoted ? quote?.amount : paymentRequest?.amount);
+
+  // Token contract check (decimals, symbol, name read on-chain)
+  const paymentTokenAddress = paymentRequest && paymentNetwork ? paymentTokenContract(paymentRequest, paymentNetwork, paymentToken) : null;
+  const tokenCheck = useTokenMetadata(paymentNetwork, paymentTokenAddress);
+  const publicClient = usePublicClient({ chainId: findNetworkName(paymentNetwork) ? getChainId(paymentNetwork) : undefined });
+
+  // Links created with an ENS name store the address it resolved to; warn if the name has moved since
+  const receiverName = useEnsAddress(paymentRequest?.status === 'PENDING' ? paymentRequest.receiverName : null);
+  const receiverNameMoved = !!paymentRequest?.receiverName && receiverName.isSuccess &&
+    receiverName.data?.toLowerCase() !== paymentRequest.receiver.toLowerCase();
+
+  // Gasless mode (EIP-3009): offered when the server relays and every transfer token supports it
+  const gaslessAvailable = useGasless(paymentNetwork, feeInfo) && !resumable;
+  const gasless = gaslessAvailable && payWithoutGas;
+
+  // Balances and gas for the transfers still to send, checked before paying
+  const remainingTransfers = resumable ? feeInfo?.transfers?.filter((_, i) => !resumable.hashes[i]) : feeInfo?.transfers;
+  const preflight = usePaymentPreflight(paymentNetwork, address, remainingTransfers, { gasless });
+
+  // One settle() call through the PayAgent router when it is deployed on the link's network
+  const routerAddress = paymentNetwork ? getRouterAddress(paymentNetwork) : null;
+  const routerPayment = !!routerAddress && !gasless && !resumable && !!feeInfo?.transfers && canSettleThroughRouter(feeInfo.transfers);
+
+  // Otherwise a single-prompt atomic batch (EIP-5792) when the wallet supports it
+  const atomicBatch = useAtomicBatch(paymentNetwork);
+  const batchPayment = atomicBatch && !gasless && !routerPayment && !resumable && !!feeInfo?.transfers && !!paymentNetwork && canBatchTransfers(feeInfo.transfers, paymentNetwork);
+  const preflightBlocked = preflight.isLoading || (!!preflight.data && !preflight.data.ok);
 
   // Fetch payment request data
   useEffect(() => {
@@ -68,51 +177,22 @@ export default function PaymentView({ linkId }: { linkId: string }) {
         setLoading(true);
         const response = await getPaymentRequest(linkId);
         
-        if (response.status === 'PAID' && response.request) {
-          setPaymentRequest(response.request);
+        setPaymentRequest(response.request);
+        if (response.status === 'PAID') {
+          clearPaymentProgress(response.request.id);
           setStep('success');
-          setLoading(false);
-          return;
-        }
-
-        if (response.payment) {
-          let expiresAtTimestamp: number | null = null;
-          if (response.payment.expiresAt) {
-            expiresAtTimestamp = typeof response.payment.expiresAt === 'string' 
-              ? new Date(response.payment.expiresAt).getTime()
-              : response.payment.expiresAt;
-          }
-          
-          const request: PaymentRequest = {
-            id: response.payment.id,
-            token: response.payment.token,
-            amount: response.payment.amount,
-            receiver: response.payment.receiver,
-            payer: null,
-            description: response.payment.description,
-            network: response.payment.network,
-            status: 'PENDING',
-            createdAt: response.payment.createdAt ? new Date(response.payment.createdAt).getTime() : Date.now(),
-            expiresAt: expiresAtTimestamp,
-            txHash: null,
-            paidAt: null,
-            creatorWallet: null,
-            creatorAgentId: null,
-            payerAgentId: null,
-          };
-          setPaymentRequest(request);
-        } else if (response.request) {
-          const req = response.request;
-          if (req.expiresAt && typeof req.expiresAt === 'string') {
-            req.expiresAt = new Date(req.expiresAt).getTime();
-          }
-          setPaymentRequest(req);
         }
         
         setLoading(false);
       } catch (err) {
         console.error('Error fetching payment request:', err);
-        setError(err instanceof Error ? err.message : 'Failed to load payment request');
+        if (err instanceof ApiError && err.isNetworkError) {
+          setError("Can't reach PayAgent right now. Check your connection and try again.");
+        } else if (err instanceof ApiError && err.isNotFound) {
+          setError('Payment request not found');
+        } else {
+          setError(err instanceof Error ? err.message : 'Failed to load payment request');
+        }
         setLoading(false);
       }
     };
@@ -120,25 +200,47 @@ export default function PaymentView({ linkId }: { linkId: string }) {
     fetchPaymentRequest();
   }, [linkId]);
 
-  // Auto-select if only one network
+  // Start on the link's first network; the payer can pick another on multi-network links
   useEffect(() => {
     if (paymentRequest && paymentRequest.network) {
-      const networks = paymentRequest.network.split(',').map(n => n.trim());
-      if (networks.length === 1) {
-        setSelectedNetwork(networks[0]);
-      }
+      const networks = linkNetworks(paymentRequest);
+      setSelectedNetwork(current => (networks.includes(current) ? current : networks[0]));
+      const tokens = linkTokens(paymentRequest);
+      setSelectedToken(current => (tokens.includes(current) ? current : tokens[0]));
     }
   }, [paymentRequest]);
 
-  // Fetch fee info when wallet connects
+  // Fetch the fee quote for the selected network and token when the wallet connects, or pick up
+  // an interrupted payment by this wallet (on the network and in the token it was started with)
   useEffect(() => {
-    if (!isConnected || !address || !paymentRequest || paymentRequest.status === 'PAID') return;
+    if (!isConnected || !address || !paymentRequest || !paymentNetwork || !paymentToken || paymentRequest.status === 'PAID') return;
 
     const fetchFee = async () => {
       try {
         setFeeLoading(true);
         setFeeError(null);
-        const info = await getFeeInfo(paymentRequest.id, address);
+        // Never pay with a quote built for another network or token
+        setFeeInfo(null);
+
+        const saved = loadPaymentProgress(paymentRequest.id, address);
+        const savedToken = saved?.feeInfo.payment?.token ?? paymentToken;
+        if (saved && (saved.network !== paymentNetwork || savedToken !== paymentToken)) {
+          setSelectedNetwork(saved.network);
+          setSelectedToken(savedToken);
+          return;
+        }
+        const progress = saved && publicClient ? await reconcilePaymentProgress(publicClient, saved) : null;
+        setResumable(progress);
+        if (progress) {
+          // Keep the quote the sent transfers were built from
+          setFeeInfo(progress.feeInfo);
+          return;
+        }
+
+        // Quoted payments are quoted first; the fee is built from the quote
+        if (quoted && !quoteId) return;
+
+        const info = await getFeeInfo(paymentRequest.id, address, { network: paymentNetwork, token: paymentToken, quoteId: quoteId ?? undefined });
         setFeeInfo(info);
       } catch (err) {
         console.error('Error fetching fee info:', err);
@@ -149,7 +251,7 @@ export default function PaymentView({ linkId }: { linkId: string }) {
     };
 
     fetchFee();
-  }, [isConnected, address, paymentRequest?.id]);
+  }, [isConnected, address, paymentRequest?.id, paymentNetwork, paymentToken, publicClient, quoted, quoteId]);
 
   // Expiry countdown timer
   useEffect(() => {
@@ -159,9 +261,7 @@ export default function PaymentView({ linkId }: { linkId: string }) {
     }
 
     const calculateTimeRemaining = () => {
-      const expiresAt = new Date(paymentRequest.expiresAt!).getTime();
-      const now = Date.now();
-      return Math.max(0, Math.floor((expiresAt - now) / 1000));
+      return Math.max(0, Math.floor((paymentRequest.expiresAt! - Date.now()) / 1000));
     };
 
     setExpiryTimeRemaining(calculateTimeRemaining());
@@ -175,6 +275,25 @@ export default function PaymentView({ linkId }: { linkId: string }) {
     return () => clearInterval(timer);
   }, [paymentRequest?.expiresAt]);
 
+  // Quote countdown; the quote hook requotes when it reaches zero
+  useEffect(() => {
+    if (!quote) {
+      setQuoteTimeRemaining(null);
+      return;
+    }
+
+    const calculateTimeRemaining = () => Math.max(0, Math.floor((quote.expiresAt - Date.now()) / 1000));
+    setQuoteTimeRemaining(calculateTimeRemaining());
+
+    const timer = setInterval(() => {
+      const remaining = calculateTimeRemaining();
+      setQuoteTimeRemaining(remaining);
+      if (remaining <= 0) clearInterval(timer);
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [quote]);
+
   const formatExpiryTime = (seconds: number) => {
     if (seconds <= 0) return "Expired";
     const days = Math.floor(seconds / 86400);
@@ -187,6 +306,42 @@ export default function PaymentView({ linkId }: { linkId: string }) {
     return `${secs}s`;
   };
 
+  // Every transfer is on-chain: the saved hashes are only dropped once the backend marks the link paid,
+  // otherwise they stay so the payer retries verification instead of paying twice
+  const submitVerification = async (data: VerifyPaymentData) => {
+    toast.dismiss();
+    toast.loading("All transfers confirmed. Verifying payment...");
+    try {
+      const result = await verifyPayment(data);
+      if (!result.success || result.status !== 'PAID') {
+        throw new Error(`The link is still ${result.status.toLowerCase()}.`);
+      }
+      clearPaymentProgress(data.requestId);
+      setResumable(null);
+      setPendingVerification(null);
+      setPaymentRequest(result.request);
+      setStep("success");
+      toast.dismiss();
+      toast.success("Payment verified successfully!");
+    } catch (verifyErr) {
+      console.error('Verification error:', verifyErr);
+      const reason = verifyErr instanceof Error ? verifyErr.message : String(verifyErr);
+      setPendingVerification({ data, error: reason });
+      toast.dismiss();
+      toast.error("Your transfers are on-chain but the payment could not be verified yet.");
+    }
+  };
+
+  const handleRetryVerification = async () => {
+    if (!pendingVerification) return;
+    setProcessingPayment(true);
+    try {
+      await submitVerification(pendingVerification.data);
+    } finally {
+      setProcessingPayment(false);
+    }
+  };
+
   const handlePayWithWallet = async () => {
     if (!isConnected || !address) {
       toast.error("Please connect your wallet first");
@@ -203,142 +358,348 @@ export default function PaymentView({ linkId }: { linkId: string }) {
       return;
     }
 
+    if (preflight.data && !preflight.data.ok) {
+      toast.error("Your wallet can't cover every transfer and gas yet.");
+      return;
+    }
+
+    if (quotePending || (quoted && !resumable && feeInfo.quote?.id !== quote.id)) {
+      toast.error("The price quote is being refreshed, try again in a moment.");
+      return;
+    }
+
     try {
       setProcessingPayment(true);
       setTransferError(null);
 
-      const network = paymentRequest.network.split(',')[0].trim().toLowerCase();
+      const network = paymentNetwork;
       const requiredChainId = getChainId(network);
 
       if (chain?.id !== requiredChainId) {
-        toast.loading(`Please switch to ${network} network...`);
+        toast.loading(`Please switch to ${networkDisplayName(network)}...`);
         try {
           await switchChain({ chainId: requiredChainId });
           toast.dismiss();
         } catch (switchError) {
           console.error('Network switch error:', switchError);
           toast.dismiss();
-          toast.error(`Please switch to ${network} network in your wallet`);
+          toast.error(`Please switch to ${networkDisplayName(network)} in your wallet`);
           setProcessingPayment(false);
           return;
         }
       }
 
       const transfers = feeInfo.transfers;
-      const totalTransfers = transfers.length;
-      const txHashes: string[] = [];
-      setTransferProgress({ current: 0, total: totalTransfers, hashes: [] });
+      if (!publicClient) throw new Error(`No RPC client for ${network}`);
 
-      for (let i = 0; i < totalTransfers; i++) {
-        const transfer = transfers[i];
-        const transferNum = i + 1;
-        setTransferProgress({ current: transferNum, total: totalTransfers, hashes: txHashes });
+      // Scale every ERC-20 amount with the decimals read from its contract
+      const decimalsByToken = new Map<string, number>();
+      for (const transfer of transfers) {
+        if (checkIsNativeToken(transfer.token, network)) continue;
+        const tokenAddr = transfer.tokenAddress || getTokenAddress(network, transfer.token);
+        const { decimals } = await readTokenMetadata(publicClient, requiredChainId, tokenAddr);
+        decimalsByToken.set(tokenAddr.toLowerCase(), decimals);
+      }
 
-        toast.dismiss();
-        toast.loading(`Transaction ${transferNum}/${totalTransfers}: ${transfer.description}. Please confirm in wallet...`);
+      const totalTransfers = transfers.length;
+      const statuses: TransferStatus[] = [];
+      const trackers: TransferTracker[] = [];
 
-        const isNative = checkIsNativeToken(transfer.token.toUpperCase(), network);
-        setIsNativeToken(isNative);
+      // Hash per transfer, persisted as soon as the wallet returns it so a reload can resume
+      const sent: (string | null)[] = transfers.map((_, i) => resumable?.hashes[i] ?? null);
+      const saveSent = () => {
+        const progress = { requestId: paymentRequest.id, network, payer: address, feeInfo, hashes: [...sent] };
+        savePaymentProgress(progress);
+        setResumable(sent.some(Boolean) ? { ...progress, payer: address.toLowerCase(), updatedAt: Date.now() } : null);
+      };
+      const forgetSent = (index: number) => {
+        sent[index] = null;
+        if (sent.some(Boolean)) saveSent();
+        else {
+          clearPaymentProgress(paymentRequest.id);
+          setResumable(null);
+        }
+      };
 
-        try {
-          let txHash: string;
-
-          if (isNative) {
-            txHash = await new Promise<string>((resolve, reject) => {
-              sendTransaction(
-                {
-                  to: transfer.to as `0x${string}`,
-                  value: parseEther(transfer.amount),
-                },
-                {
-                  onSuccess: (hash) => resolve(hash),
-                  onError: (error) => reject(error),
-                }
-              );
-            });
-          } else {
-            const tokenAddr = transfer.tokenAddress || getTokenAddress(network, transfer.token);
-            if (!tokenAddr) {
-              throw new Error(`${transfer.token} not supported on ${network}`);
-            }
+      const renderStatus = (index: number, status: TransferStatus) => {
+        statuses[index] = status;
+        setTransferProgress(progress => ({ ...progress, statuses: [...statuses] }));
+      };
+      const showStatus = (index: number) => (status: TransferStatus) => {
+        renderStatus(index, status);
+        // Follow sped-up transfers under their new hash
+        if (status.state !== 'failed' && sent[index] !== status.hash) {
+          sent[index] = status.hash;
+          saveSent();
+        }
+      };
+      setTransferProgress({ current: 0, total: totalTransfers, statuses: [] });
 
-            const decimals = getTokenDecimals(transfer.token);
-            const amountInWei = parseUnits(transfer.amount, decimals);
-
-            txHash = await new Promise<string>((resolve, reject) => {
-              writeContract(
-                {
-                  address: tokenAddr as `0x${string}`,
-                  abi: ERC20_ABI,
-                  functionName: 'transfer',
-                  args: [transfer.to as `0x${string}`, amountInWei],
-                } as any,
-                {
-                  onSuccess: (hash: string) => resolve(hash),
-                  onError: (error: Error) => reject(error),
-                }
-              );
-            });
+      // One wallet prompt for every transfer when the wallet can batch them atomically (EIP-5792)
+      let batchId: string | null = null;
+      if (batchPayment) {
+        toast.dismiss();
+        toast.loading(`Confirm all ${totalTransfers} transfers in one wallet prompt...`);
+        try {
+          batchId = await sendTransferBatch(config, requiredChainId, network, transfers, decimalsByToken);
+        } catch (batchErr) {
+          console.error('Batch send error:', batchErr);
+          toast.dismiss();
+          if (isWalletRejection(batchErr)) {
+            const friendlyMsg = formatTransferError(batchErr);
+            setTransferError(friendlyMsg);
+            toast.error(friendlyMsg);
+            setProcessingPayment(false);
+            return;
           }
+          // Nothing was sent: fall back to one prompt per transfer
+        }
+      }
 
-          txHashes.push(txHash);
-          setTransferProgress({ current: transferNum, total: totalTransfers, hashes: [...txHashes] });
-
+      if (gasless) {
+        setTransferProgress(progress => ({ ...progress, current: totalTransfers }));
+        try {
+          toast.dismiss();
+          toast.loading(`Sign ${totalTransfers} transfer authorization${totalTransfers === 1 ? '' : 's'} in your wallet (no gas needed)...`);
+          const authorizations = await signTransferAuthorizations(config, publicClient, requiredChainId, network, address, transfers, decimalsByToken);
+          toast.dismiss();
+          toast.loading("Submitting your payment through the relayer...");
+          const { txHashes: relayed } = await relayPayment(paymentRequest.id, authorizations, { network, token: paymentToken, quoteId: feeInfo.quote?.id });
+          relayed.forEach((hash, i) => { sent[i] = hash; });
+          saveSent();
+          relayed.forEach((hash, i) => trackers.push(trackTransfer(publicClient, hash, showStatus(i))));
+          toast.dismiss();
+          toast.loading("Payment relayed. Waiting for it to be mined...");
+          await Promise.all(trackers.map(tracker => tracker.mined));
+        } catch (relayErr) {
+          console.error('Gasless payment error:', relayErr);
           toast.dismiss();
-          toast.success(`Transaction ${transferNum}/${totalTransfers} submitted!`);
+          if (relayErr instanceof TransferFailedError) {
+            sent.forEach((hash, i) => { if (hash === relayErr.hash) forgetSent(i); });
+          }
+          const friendlyMsg = formatTransferError(relayErr);
+          setTransferError(`Gasless payment: ${friendlyMsg}`);
+          toast.error(friendlyMsg);
+          setProcessingPayment(false);
+          return;
+        }
+      } else if (routerPayment) {
+        const settlement = buildSettlement(paymentRequest.id, transfers, network, decimalsByToken);
+        setTransferProgress(progress => ({ ...progress, current: totalTransfers }));
+        try {
+          // The router pulls ERC-20 legs with transferFrom: a signed permit, else approve() where the allowance is short
+          const approvals = await findMissingApprovals(publicClient, address, routerAddress, settlement.allowances);
+          const permitKind = approvals.length > 0 ? await findPermitKind(publicClient, address, settlement.allowances) : null;
+          let permit: SignedPermit | null = null;
+          if (permitKind) {
+            toast.dismiss();
+            toast.loading(`Sign a ${permitKind === 'permit2' ? 'Permit2' : 'permit'} for ${approvals[0].symbol} in your wallet (no approval transaction)...`);
+            permit = await signRouterPermit(config, publicClient, requiredChainId, permitKind, address, routerAddress, approvals[0]);
+          }
+          for (const approval of permit ? [] : approvals) {
+            toast.dismiss();
+            toast.loading(`Approve ${approval.symbol} for the PayAgent router in your wallet...`);
+            const approveHash = await writeContractAsync(viemParams({
+              address: approval.token,
+              abi: ERC20_ABI,
+              functionName: 'approve',
+              args: [routerAddress, approval.amount],
+            }));
+            toast.dismiss();
+            toast.loading(`Waiting for the ${approval.symbol} approval to be mined...`);
+            await trackTransfer(publicClient, approveHash, () => undefined, 1).mined;
+          }
 
-          if (i < totalTransfers - 1) {
-            await new Promise(resolve => setTimeout(resolve, 2000));
+          toast.dismiss();
+          toast.loading("Confirm the payment in your wallet...");
+          const settleCall = { address: routerAddress, abi: PAYAGENT_ROUTER_ABI, value: settlement.value };
+          let settleHash: `0x${string}`;
+          if (permit?.kind === 'permit') {
+            settleHash = await writeContractAsync(viemParams({
+              ...settleCall,
+              functionName: 'settleWithPermit',
+              args: [...settlement.args, permit.deadline, permit.v, permit.r, permit.s],
+            }));
+          } else if (permit?.kind === 'permit2') {
+            settleHash = await writeContractAsync(viemParams({
+              ...settleCall,
+              functionName: 'settleWithPermit2',
+              args: [...settlement.args, permit.nonce, permit.deadline, permit.signature],
+            }));
+          } else {
+            settleHash = await writeContractAsync(viemParams({ ...settleCall, functionName: 'settle', args: settlement.args }));
           }
-        } catch (txErr) {
-          console.error(`Transfer ${transferNum} error:`, txErr);
+          // One transaction carries every transfer
+          transfers.forEach((_, i) => { sent[i] = settleHash; });
+          saveSent();
+          const tracker = trackTransfer(publicClient, settleHash, status => renderStatus(0, status));
+          trackers.push(tracker);
           toast.dismiss();
-
-          const friendlyMsg = formatTransferError(txErr);
-          const completedNote = txHashes.length > 0
-            ? ` (${txHashes.length} of ${totalTransfers} completed)`
-            : '';
-          setTransferError(`${friendlyMsg}${completedNote}`);
-
+          toast.loading("Payment submitted. Waiting for it to be mined...");
+          await tracker.mined;
+        } catch (routerErr) {
+          console.error('Router payment error:', routerErr);
+          toast.dismiss();
+          if (routerErr instanceof TransferFailedError) {
+            sent.forEach((hash, i) => { if (hash === routerErr.hash) forgetSent(i); });
+          }
+          const friendlyMsg = formatTransferError(routerErr);
+          setTransferError(friendlyMsg);
           toast.error(friendlyMsg);
           setProcessingPayment(false);
           return;
         }
+      } else if (batchId) {
+        setTransferProgress(progress => ({ ...progress, current: totalTransfers }));
+        toast.dismiss();
+        toast.loading("Batch submitted. Waiting for it to be included...");
+        try {
+          const receipts = await waitForTransferBatch(config, batchId);
+          // One receipt for the whole batch, or one per call
+          transfers.forEach((_, i) => { sent[i] = (receipts[i] ?? receipts[receipts.length - 1]).transactionHash; });
+          saveSent();
+          const bundleHashes = [...new Set(receipts.map(receipt => receipt.transactionHash))];
+          bundleHashes.forEach((hash, k) => trackers.push(trackTransfer(publicClient, hash, status => renderStatus(k, status))));
+        } catch (batchErr) {
+          console.error('Batch error:', batchErr);
+          toast.dismiss();
+          const friendlyMsg = formatTransferError(batchErr);
+          setTransferError(`Batch payment: ${friendlyMsg} No transfer was made.`);
+          toast.error(friendlyMsg);
+          setProcessingPayment(false);
+          return;
+        }
+      } else {
+        for (let i = 0; i < totalTransfers; i++) {
+          const transfer = transfers[i];
+          const transferNum = i + 1;
+          setTransferProgress(progress => ({ ...progress, current: transferNum }));
+
+          const isNative = checkIsNativeToken(transfer.token, network);
+          setIsNativeToken(isNative);
+
+          try {
+            let txHash: string;
+
+            if (sent[i]) {
+              // Sent before the interruption: only wait for it
+              txHash = sent[i];
+            } else if (isNative) {
+              toast.dismiss();
+              toast.loading(`Transaction ${transferNum}/${totalTransfers}: ${transfer.description}. Please confirm in wallet...`);
+              txHash = await new Promise<string>((resolve, reject) => {
+                sendTransaction(
+                  {
+                    to: transfer.to as `0x${string}`,
+                    value: parseEther(transfer.amount),
+                  },
+                  {
+                    onSuccess: (hash) => resolve(hash),
+                    onError: (error) => reject(error),
+                  }
+                );
+              });
+            } else {
+              toast.dismiss();
+              toast.loading(`Transaction ${transferNum}/${totalTransfers}: ${transfer.description}. Please confirm in wallet...`);
+              const tokenAddr = transfer.tokenAddress || getTokenAddress(network, transfer.token);
+              const amountInWei = parseUnits(transfer.amount, decimalsByToken.get(tokenAddr.toLowerCase()));
+
+              txHash = await new Promise<string>((resolve, reject) => {
+                writeContract(
+                  {
+                    address: tokenAddr as `0x${string}`,
+                    abi: ERC20_ABI,
+                    functionName: 'transfer',
+                    args: [transfer.to as `0x${string}`, amountInWei],
+                  } as any,
+                  {
+                    onSuccess: (hash: string) => resolve(hash),
+                    onError: (error: Error) => reject(error),
+                  }
+                );
+              });
+            }
+
+            if (!sent[i]) {
+              sent[i] = txHash;
+              saveSent();
+            }
+
+            // Don't send the next transfer until this one is mined successfully
+            const tracker = trackTransfer(publicClient, txHash, showStatus(i));
+            trackers.push(tracker);
+            toast.dismiss();
+            toast.loading(`Transaction ${transferNum}/${totalTransfers} submitted. Waiting for it to be mined...`);
+            await tracker.mined;
+
+            toast.dismiss();
+            toast.success(`Transaction ${transferNum}/${totalTransfers} mined!`);
+          } catch (txErr) {
+            console.error(`Transfer ${transferNum} error:`, txErr);
+            toast.dismiss();
+
+            // A reverted or dropped transfer has to be sent again on resume; a pending one is kept
+            if (txErr instanceof TransferFailedError) forgetSent(i);
+
+            const friendlyMsg = formatTransferError(txErr);
+            const sentSoFar = sent.filter(Boolean).length;
+            const completedNote = sentSoFar > 0
+              ? ` (${sentSoFar} of ${totalTransfers} completed)`
+              : '';
+            setTransferError(`Transaction ${transferNum}: ${friendlyMsg}${completedNote}`);
+
+            toast.error(friendlyMsg);
+            setProcessingPayment(false);
+            return;
+          }
+        }
       }
 
+      // Verify only once every transfer has its confirmations
       toast.dismiss();
-      toast.loading("All transfers complete. Verifying payment...");
-
+      toast.loading(`Waiting for ${REQUIRED_CONFIRMATIONS} confirmation${REQUIRED_CONFIRMATIONS === 1 ? '' : 's'}...`);
+      let confirmedHashes: string[];
       try {
-        const result = await verifyPayment({
-          requestId: paymentRequest.id,
-          txHash: txHashes[0],
-          feeTxHash: txHashes[1] || undefined,
-          creatorRewardTxHash: txHashes[2] || undefined,
-          payerWallet: address || undefined,
-          // Pass actual fee info so backend doesn't re-calculate (payer's LCX balance changed after payment)
-          feeToken: feeInfo?.fee?.feeToken,
-          feeTotal: feeInfo?.fee?.feeTotal,
-          platformShare: feeInfo?.fee?.platformShare,
-          creatorReward: feeInfo?.fee?.creatorReward,
-        });
-
-        if (result.success && result.status === 'PAID') {
-          setPaymentRequest(result.request);
-          setStep("success");
-          toast.dismiss();
-          toast.success("Payment verified successfully!");
-        } else {
-          setStep("success");
-          toast.dismiss();
-          toast.success("Payment submitted! Verification in progress.");
-        }
-      } catch (verifyErr) {
-        console.error('Verification error:', verifyErr);
+        const receipts = await Promise.all(trackers.map(tracker => tracker.confirmed));
+        confirmedHashes = receipts.map(receipt => receipt.transactionHash);
+      } catch (confirmErr) {
+        console.error('Confirmation error:', confirmErr);
         toast.dismiss();
-        toast.success("Payment submitted! Blockchain verification may take a moment.");
-        setStep("success");
+        if (confirmErr instanceof TransferFailedError) {
+          sent.forEach((hash, i) => { if (hash === confirmErr.hash) forgetSent(i); });
+        }
+        const friendlyMsg = formatTransferError(confirmErr);
+        setTransferError(`${friendlyMsg} Payment was not verified.`);
+        toast.error(friendlyMsg);
+        setProcessingPayment(false);
+        return;
       }
+
+      // Hash per transfer (several transfers share one hash in a single-transaction batch)
+      const txHashes = routerPayment
+        ? transfers.map(() => confirmedHashes[0])
+        : batchId ? [...sent] : confirmedHashes;
+
+      await submitVerification({
+        requestId: paymentRequest.id,
+        network,
+        token: paymentToken,
+        // The quote the transfers were built from (kept by a resumed payment)
+        quoteId: feeInfo.quote?.id,
+        // A batch sends its hashes and lets the backend find the payment among them
+        txHash: batchId ? undefined : txHashes[0],
+        txHashes: batchId ? confirmedHashes : undefined,
+        batchId: batchId || undefined,
+        feeTxHash: txHashes[1] || undefined,
+        creatorRewardTxHash: txHashes[2] || undefined,
+        payerWallet: address || undefined,
+        // Pass actual fee info so backend doesn't re-calculate (payer's LCX balance changed after payment)
+        feeToken: feeInfo?.fee?.feeToken,
+        feeTotal: feeInfo?.fee?.feeTotal,
+        platformShare: feeInfo?.fee?.platformShare,
+        creatorReward: feeInfo?.fee?.creatorReward,
+      });
     } catch (err) {
       console.error('Error initiating payment:', err);
       toast.dismiss();
@@ -365,24 +726,11 @@ export default function PaymentView({ linkId }: { linkId: string }) {
     return colors[network.toUpperCase()] || "#2563EB";
   };
 
-  const getNetworkDisplayName = (network: string) => {
-    const networkLower = network.toLowerCase();
-    if (networkLower.includes('sepolia')) return "Sepolia (Ethereum Testnet)";
-    if (networkLower.includes('eth testnet')) return "Sepolia (Ethereum Testnet)";
-    const names: Record<string, string> = {
-      ETH: "Ethereum Mainnet",
-      BASE: "BASE Chain",
-      SOL: "Solana",
-      BNB: "BNB Chain",
-      POLYGON: "Polygon",
-      ARBITRUM: "Arbitrum",
-      SEPOLIA: "Sepolia (Ethereum Testnet)"
-    };
-    return names[network.toUpperCase()] || network;
-  };
-
-  const networks = paymentRequest?.network.split(',').map(n => n.trim()) || [];
-  const selectedWalletAddress = paymentRequest?.receiver || "";
+  const networks = paymentRequest ? linkNetworks(paymentRequest) : [];
+  const tokens = paymentRequest ? linkTokens(paymentRequest) : [];
+  const selectedWalletAddress = paymentRequest && paymentNetwork ? linkReceiver(paymentRequest, paymentNetwork) : "";
+  // The ENS name belongs to the link's main receiver, not to per-network overrides
+  const paysNamedReceiver = !!paymentRequest?.receiverName && selectedWalletAddress === paymentRequest.receiver;
 
   // Loading state
   if (loading) {
@@ -482,12 +830,31 @@ export default function PaymentView({ linkId }: { linkId: string }) {
                   <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-3">Payment Request</p>
                   <div className="flex items-center justify-center gap-2.5 mb-1.5">
                     <p className="text-3xl font-heading font-bold text-foreground tabular-nums">
-                      {paymentRequest.amount}
+                      {paymentRequest.currency ? formatFiat(paymentRequest.amount, paymentRequest.currency) : paymentRequest.amount}
                     </p>
                     <Badge className="text-sm px-3 py-1 bg-blue-600 hover:bg-blue-600 border-0">
-                      {paymentRequest.token}
+                      {paymentRequest.currency ? `in ${paymentToken}` : linkTokens(paymentRequest)[0]}
                     </Badge>
                   </div>
+                  {quoted && (
+                    <p className="text-xs text-muted-foreground flex items-center justify-center gap-1.5 tabular-nums">
+                      {priceQuote.isError ? (
+                        <span className="text-red-600">Couldn't get a price quote. Reload to try again.</span>
+                      ) : !quote || quoteExpired ? (
+                        <>
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                          Getting a price quote...
+                        </>
+                      ) : (
+                        <>
+                          = {quote.amount} {paymentToken} at {formatQuoteValue(quote.price, quote.currency)} per {paymentToken}
+                          {processingPayment || resumable
+                            ? " · locked"
+                            : ` · refreshes in ${formatExpiryTime(quoteTimeRemaining ?? 0)}`}
+                        </>
+                      )}
+                    </p>
+                  )}
                   {paymentRequest.description && (
                     <p className="text-sm text-muted-foreground mt-1">
                       {paymentRequest.description}
@@ -506,9 +873,11 @@ export default function PaymentView({ linkId }: { linkId: string }) {
                   <div>
                     <p className="text-xs text-muted-foreground mb-1.5">Transfer To</p>
                     <div className="flex items-center gap-2">
-                      <code className="text-xs font-mono font-medium text-foreground bg-white px-2.5 py-2 rounded-lg border border-border flex-1 break-all">
-                        {selectedWalletAddress}
-                      </code>
+                      <AddressIdentity
+                        address={selectedWalletAddress}
+                        full
+                        className="bg-white px-2.5 py-2 rounded-lg border border-border flex-1"
+                      />
                       <Button
                         variant="outline"
                         size="icon"
@@ -518,6 +887,11 @@ export default function PaymentView({ linkId }: { linkId: string }) {
                         <Copy className="h-3.5 w-3.5" />
                       </Button>
                     </div>
+                    {paysNamedReceiver && (
+                      <p className="text-[10px] text-muted-foreground mt-1.5">
+                        Created for <span className="font-medium">{paymentRequest.receiverName}</span>
+                      </p>
+                    )}
                   </div>
 
                   {/* Network */}
@@ -525,17 +899,75 @@ export default function PaymentView({ linkId }: { linkId: string }) {
                     <p className="text-xs text-muted-foreground mb-1.5">Network</p>
                     <div className="flex items-center gap-2 bg-white px-3 py-2.5 rounded-lg border border-border">
                       <div className="w-6 h-6 rounded-full flex items-center justify-center" style={{
-                        backgroundColor: `${getNetworkColor(paymentRequest.network.split(',')[0].trim())}15`
+                        backgroundColor: `${getNetworkColor(paymentNetwork)}15`
                       }}>
-                        <Circle className="h-3 w-3" fill={getNetworkColor(paymentRequest.network.split(',')[0].trim())} stroke="none" />
+                        <Circle className="h-3 w-3" fill={getNetworkColor(paymentNetwork)} stroke="none" />
                       </div>
                       <span className="font-medium text-sm text-foreground">
-                        {getNetworkDisplayName(paymentRequest.network.split(',')[0].trim())}
+                        {networkDisplayName(paymentNetwork)}
                       </span>
                     </div>
                   </div>
                 </div>
 
+                {/* Receiver Name Check */}
+                {paysNamedReceiver && receiverNameMoved && (
+                  <div className="flex items-start gap-2.5 bg-amber-50 p-3 rounded-xl border border-amber-200">
+                    <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 shrink-0" />
+                    <p className="text-xs text-amber-800">
+                      <span className="font-semibold">{paymentRequest.receiverName}</span>{" "}
+                      {receiverName.data ? <>now points to <span className="font-mono">{shortAddress(receiverName.data)}</span></> : "no longer resolves"},
+                      not to the address this link was created for. The payment still goes to {shortAddress(paymentRequest.receiver)};
+                      check with the requester before paying.
+                    </p>
+                  </div>
+                )}
+
+                {/* Token Contract Check */}
+                {paymentTokenAddress && (
+                  tokenCheck.isError ? (
+                    <div className="flex items-start gap-2.5 bg-red-50 p-3 rounded-xl border border-red-200">
+                      <AlertCircle className="h-4 w-4 text-red-500 mt-0.5 shrink-0" />
+                      <p className="text-xs text-red-700">
+                        Couldn't read the token contract {shortAddress(paymentTokenAddress)} on {networkDisplayName(paymentNetwork)}.
+                        Don't pay until the requester confirms the token.
+                      </p>
+                    </div>
+                  ) : !tokenCheck.data ? (
+                    <div className="flex items-center gap-2 bg-slate-50 p-3 rounded-xl border border-border">
+                      <Loader2 className="h-3.5 w-3.5 animate-spin text-blue-600" />
+                      <p className="text-xs text-muted-foreground">Checking token contract...</p>
+                    </div>
+                  ) : tokenCheck.data.verifiedSymbol ? (
+                    <div className="flex items-start gap-2.5 bg-emerald-50 p-3 rounded-xl border border-emerald-200">
+                      <ShieldCheck className="h-4 w-4 text-emerald-600 mt-0.5 shrink-0" />
+                      <p className="text-xs text-emerald-800">
+                        <span className="font-semibold">Verified token</span> · {tokenCheck.data.name ?? tokenCheck.data.verifiedSymbol} ({tokenCheck.data.verifiedSymbol}) at{" "}
+                        <a href={getTokenUrl(paymentNetwork, paymentTokenAddress)} target="_blank" rel="noopener noreferrer" className="font-mono underline">
+                          {shortAddress(paymentTokenAddress)}
+                        </a>
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="flex items-start gap-2.5 bg-amber-50 p-3 rounded-xl border border-amber-200">
+                      <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 shrink-0" />
+                      <div className="text-xs text-amber-800 space-y-1">
+                        <p>
+                          <span className="font-semibold">Unknown token</span> · {tokenCheck.data.name ?? "Unnamed token"} ({tokenCheck.data.symbol ?? "no symbol"}) at{" "}
+                          <a href={getTokenUrl(paymentNetwork, paymentTokenAddress)} target="_blank" rel="noopener noreferrer" className="font-mono underline">
+                            {shortAddress(paymentTokenAddress)}
+                          </a>
+                        </p>
+                        <p>
+                          This contract is not on PayAgent's verified token list
+                          {tokenCheck.data.symbol && tokenCheck.data.symbol.toUpperCase() !== paymentToken && <>, and the link calls it {paymentToken}</>}.
+                          Only pay if you trust it.
+                        </p>
+                      </div>
+                    </div>
+                  )
+                )}
+
                 {/* Network Selection - Only if multiple */}
                 {networks.length > 1 && (
                   <div>
@@ -547,10 +979,12 @@ export default function PaymentView({ linkId }: { linkId: string }) {
                         <button 
                           key={network} 
                           onClick={() => setSelectedNetwork(network)} 
-                          className={`w-full p-3 rounded-xl border-2 transition-all ${
-                            selectedNetwork === network 
+                          // An interrupted payment has to be finished on the network it started on
+                          disabled={processingPayment || !!resumable}
+                          className={`w-full p-3 rounded-xl border-2 transition-all disabled:cursor-not-allowed ${
+                            paymentNetwork === network 
                               ? "border-blue-500 bg-blue-50" 
-                              : "border-border hover:border-blue-300 hover:bg-blue-50/50"
+                              : "border-border hover:border-blue-300 hover:bg-blue-50/50 disabled:opacity-50"
                           }`}
                         >
                           <div className="flex items-center gap-2.5">
@@ -560,7 +994,7 @@ export default function PaymentView({ linkId }: { linkId: string }) {
                               <Circle className="h-4 w-4" fill={getNetworkColor(network)} stroke="none" />
                             </div>
                             <span className="font-medium text-sm text-foreground">
-                              {getNetworkDisplayName(network)}
+                              {networkDisplayName(network)}
                             </span>
                           </div>
                         </button>
@@ -569,6 +1003,32 @@ export default function PaymentView({ linkId }: { linkId: string }) {
                   </div>
                 )}
 
+                {/* Token Selection - Only if the link accepts several */}
+                {tokens.length > 1 && (
+                  <div>
+                    <p className="text-xs text-muted-foreground font-semibold uppercase tracking-wider mb-3">
+                      Pay With
+                    </p>
+                    <div className="grid grid-cols-3 gap-2">
+                      {tokens.map(token => (
+                        <button
+                          key={token}
+                          onClick={() => setSelectedToken(token)}
+                          // An interrupted payment has to be finished in the token it started in
+                          disabled={processingPayment || !!resumable}
+                          className={`p-2.5 rounded-xl border-2 text-sm font-medium transition-all disabled:cursor-not-allowed ${
+                            paymentToken === token
+                              ? "border-blue-500 bg-blue-50 text-foreground"
+                              : "border-border text-foreground hover:border-blue-300 hover:bg-blue-50/50 disabled:opacity-50"
+                          }`}
+                        >
+                          {token}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Wallet Payment */}
                 <div className="space-y-3">
                   {!isConnected ? (
@@ -637,7 +1097,7 @@ export default function PaymentView({ linkId }: { linkId: string }) {
                           <div className="space-y-2.5 text-sm tabular-nums">
                             <div className="flex justify-between items-center">
                               <span className="text-muted-foreground">Payment</span>
-                              <span className="font-semibold">{paymentRequest.amount} {paymentRequest.token}</span>
+                              <span className="font-semibold">{tokenAmount} {paymentToken}</span>
                             </div>
                             
                             <div className="border-t border-border" />
@@ -651,19 +1111,19 @@ export default function PaymentView({ linkId }: { linkId: string }) {
                                 <div className="border-t border-border" />
                                 <div className="flex justify-between items-center">
                                   <span className="font-semibold text-foreground">Creator Receives</span>
-                                  <span className="font-bold text-blue-600 text-base">{feeInfo.creatorReceives} {paymentRequest.token}</span>
+                                  <span className="font-bold text-blue-600 text-base">{feeInfo.creatorReceives} {paymentToken}</span>
                                 </div>
                               </>
                             ) : (
                               <>
                                 <div className="flex justify-between items-center">
-                                  <span className="text-muted-foreground">Fee (LCX)</span>
-                                  <span className="font-medium text-emerald-600">{feeInfo.fee.feeTotal} LCX</span>
+                                  <span className="text-muted-foreground">Fee ({feeInfo.fee.feeToken})</span>
+                                  <span className="font-medium text-emerald-600">{feeInfo.fee.feeTotal} {feeInfo.fee.feeToken}</span>
                                 </div>
                                 <div className="border-t border-border" />
                                 <div className="flex justify-between items-center">
                                   <span className="font-semibold text-foreground">Creator Receives</span>
-                                  <span className="font-bold text-blue-600 text-base">{paymentRequest.amount} {paymentRequest.token}</span>
+                                  <span className="font-bold text-blue-600 text-base">{tokenAmount} {paymentToken}</span>
                                 </div>
                               </>
                             )}
@@ -673,10 +1133,75 @@ export default function PaymentView({ linkId }: { linkId: string }) {
                             <div className="flex items-start gap-1.5 mt-3 pt-3 border-t border-border">
                               <Info className="h-3.5 w-3.5 text-blue-500 mt-0.5 shrink-0" />
                               <p className="text-xs text-muted-foreground">
-                                You will approve <span className="font-semibold text-foreground">{feeInfo.transfers.length} transactions</span> in your wallet.
+                                {gasless ? (
+                                  <>You will <span className="font-semibold text-foreground">sign {feeInfo.transfers.length} authorizations</span>; the PayAgent relayer sends them and pays the gas.</>
+                                ) : routerPayment ? (
+                                  <>All {feeInfo.transfers.length} transfers are settled in <span className="font-semibold text-foreground">one transaction</span> through the PayAgent router (plus a permit signature or a one-time token approval if needed).</>
+                                ) : batchPayment ? (
+                                  <>Your wallet supports batching: you will approve all <span className="font-semibold text-foreground">{feeInfo.transfers.length} transfers</span> in a single prompt.</>
+                                ) : (
+                                  <>You will approve <span className="font-semibold text-foreground">{feeInfo.transfers.length} transactions</span> in your wallet.</>
+                                )}
                               </p>
                             </div>
                           )}
+
+                          {gaslessAvailable && (
+                            <div className="flex items-center justify-between gap-3 mt-3 pt-3 border-t border-border">
+                              <Label htmlFor="pay-without-gas" className="text-xs text-muted-foreground">
+                                <span className="font-semibold text-foreground">Pay without gas</span> — sign instead of sending transactions; no gas token needed
+                              </Label>
+                              <Switch
+                                id="pay-without-gas"
+                                checked={payWithoutGas}
+                                disabled={processingPayment}
+                                onCheckedChange={setPayWithoutGas}
+                              />
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Balance Check */}
+                      {feeInfo?.transfers?.length > 0 && !feeLoading && !processingPayment && (
+                        <div className="bg-slate-50 p-4 rounded-xl border border-border">
+                          <p className="text-xs text-muted-foreground font-semibold uppercase tracking-wider mb-2.5">Your Balance</p>
+                          {preflight.isLoading ? (
+                            <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                              <Loader2 className="h-3.5 w-3.5 animate-spin text-blue-600" />
+                              Checking balances and gas...
+                            </p>
+                          ) : preflight.isError ? (
+                            <p className="text-xs text-amber-700">
+                              Couldn't check your balances. Make sure you can cover every transfer and gas before paying.
+                            </p>
+                          ) : preflight.data ? (
+                            <div className="space-y-2">
+                              {preflight.data.assets.map(asset => (
+                                <div key={asset.tokenAddress ?? "native"} className="flex justify-between items-start gap-3 text-sm tabular-nums">
+                                  <span className="flex items-center gap-1.5 text-muted-foreground">
+                                    {asset.sufficient
+                                      ? <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />
+                                      : <AlertCircle className="h-3.5 w-3.5 text-red-500" />}
+                                    {asset.symbol}
+                                  </span>
+                                  <span className={`text-right ${asset.sufficient ? "text-foreground" : "text-red-600 font-medium"}`}>
+                                    You have {formatBalance(asset.balance, asset.decimals)}, need {formatBalance(asset.required, asset.decimals)}
+                                    {asset.gas > 0n && (
+                                      <span className="block text-[11px] text-muted-foreground font-normal">
+                                        incl. ~{formatBalance(asset.gas, asset.decimals)} gas{!preflight.data.gasEstimated && " (rough)"}
+                                      </span>
+                                    )}
+                                  </span>
+                                </div>
+                              ))}
+                              {!preflight.data.ok && (
+                                <p className="text-xs text-red-600 pt-2 border-t border-border">
+                                  Top up the assets marked above first. All {feeInfo.transfers.length} transfers must go through, otherwise the payment is left incomplete.
+                                </p>
+                              )}
+                            </div>
+                          ) : null}
                         </div>
                       )}
 
@@ -695,12 +1220,21 @@ export default function PaymentView({ linkId }: { linkId: string }) {
                               style={{ width: `${(transferProgress.current / transferProgress.total) * 100}%` }}
                             />
                           </div>
-                          {transferProgress.hashes.length > 0 && (
+                          {transferProgress.statuses.length > 0 && (
                             <div className="text-xs text-muted-foreground space-y-0.5">
-                              {transferProgress.hashes.map((h, i) => (
+                              {transferProgress.statuses.map((status, i) => (
                                 <div key={i} className="flex items-center gap-1">
-                                  <CheckCircle2 className="h-3 w-3 text-green-500" />
-                                  <span>Tx {i + 1}: {h.slice(0, 10)}...{h.slice(-6)}</span>
+                                  {status.state === 'confirmed' ? (
+                                    <CheckCircle2 className="h-3 w-3 text-green-500" />
+                                  ) : status.state === 'failed' ? (
+                                    <AlertCircle className="h-3 w-3 text-red-500" />
+                                  ) : (
+                                    <Loader2 className="h-3 w-3 animate-spin text-blue-600" />
+                                  )}
+                                  <span>Tx {i + 1}: {status.hash.slice(0, 10)}...{status.hash.slice(-6)}</span>
+                                  <span className={`ml-auto tabular-nums ${status.state === 'failed' ? 'text-red-600' : ''}`}>
+                                    {transferStatusLabel(status)}
+                                  </span>
                                 </div>
                               ))}
                             </div>
@@ -719,7 +1253,7 @@ export default function PaymentView({ linkId }: { linkId: string }) {
                                 variant="outline"
                                 size="sm"
                                 className="mt-2.5 text-xs rounded-lg h-8 border-red-200 text-red-600 hover:bg-red-50"
-                                onClick={() => { setTransferError(null); setTransferProgress({ current: 0, total: 0, hashes: [] }); }}
+                                onClick={() => { setTransferError(null); setTransferProgress({ current: 0, total: 0, statuses: [] }); }}
                               >
                                 Retry Payment
                               </Button>
@@ -728,11 +1262,62 @@ export default function PaymentView({ linkId }: { linkId: string }) {
                         </div>
                       )}
 
+                      {/* Sent but not verified */}
+                      {pendingVerification && !processingPayment && (
+                        <div className="bg-red-50 p-4 rounded-xl border border-red-200">
+                          <div className="flex items-start gap-2.5">
+                            <AlertCircle className="h-4 w-4 text-red-500 mt-0.5 shrink-0" />
+                            <div className="flex-1">
+                              <p className="text-sm font-medium text-red-700">
+                                Every transfer is on-chain, but the payment could not be verified: {pendingVerification.error}
+                              </p>
+                              <p className="text-xs text-red-600 mt-1">Don't pay again. Retrying resubmits the transfers already sent.</p>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="mt-2.5 text-xs rounded-lg h-8 border-red-200 text-red-600 hover:bg-red-50"
+                                onClick={handleRetryVerification}
+                              >
+                                Retry Verification
+                              </Button>
+                            </div>
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Interrupted payment */}
+                      {resumable && !processingPayment && !transferError && !pendingVerification && (
+                        <div className="bg-amber-50 p-4 rounded-xl border border-amber-200">
+                          <div className="flex items-start gap-2.5">
+                            <Info className="h-4 w-4 text-amber-600 mt-0.5 shrink-0" />
+                            <div className="text-sm text-amber-800 space-y-1">
+                              <p className="font-medium">
+                                Payment in progress: {sentCount(resumable)} of {resumable.hashes.length} transfers already sent from this wallet.
+                              </p>
+                              <p className="text-xs">Resuming only sends the remaining transfers, then verifies the payment.</p>
+                              {resumable.hashes.map((hash, i) => hash && (
+                                <a
+                                  key={i}
+                                  href={getTxUrl(resumable.network, hash)}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="flex items-center gap-1 text-xs font-mono hover:underline"
+                                >
+                                  <CheckCircle2 className="h-3 w-3 text-green-500" />
+                                  Tx {i + 1}: {hash.slice(0, 10)}...{hash.slice(-6)}
+                                  <ExternalLink className="h-3 w-3" />
+                                </a>
+                              ))}
+                            </div>
+                          </div>
+                        </div>
+                      )}
+
                       {/* Pay Button */}
                       <Button 
                         className="w-full h-12 text-sm font-semibold rounded-xl gap-2 bg-blue-600 hover:bg-blue-700"
                         onClick={handlePayWithWallet}
-                        disabled={processingPayment || feeLoading || !feeInfo || (expiryTimeRemaining !== null && expiryTimeRemaining <= 0)}
+                        disabled={processingPayment || !!pendingVerification || feeLoading || !feeInfo || (!!paymentTokenAddress && !tokenCheck.data) || preflightBlocked || quotePending || (expiryTimeRemaining !== null && expiryTimeRemaining <= 0)}
                       >
                         {processingPayment && transferProgress.total > 0 ? (
                           <>
@@ -754,10 +1339,37 @@ export default function PaymentView({ linkId }: { linkId: string }) {
                             <AlertCircle className="h-4 w-4" />
                             Link Expired
                           </>
+                        ) : quotePending ? (
+                          <>
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            {quote ? "Refreshing Quote..." : "Getting Quote..."}
+                          </>
+                        ) : preflight.isLoading ? (
+                          <>
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            Checking Balances...
+                          </>
+                        ) : preflightBlocked ? (
+                          <>
+                            <AlertCircle className="h-4 w-4" />
+                            Insufficient Balance
+                          </>
+                        ) : resumable && sentCount(resumable) === resumable.hashes.length ? (
+                          <>
+                            <CheckCircle2 className="h-4 w-4" />
+                            Verify Payment
+                            <ArrowRight className="h-4 w-4" />
+                          </>
+                        ) : resumable ? (
+                          <>
+                            <Wallet className="h-4 w-4" />
+                            Resume Payment ({sentCount(resumable)}/{resumable.hashes.length} sent)
+                            <ArrowRight className="h-4 w-4" />
+                          </>
                         ) : (
                           <>
                             <Wallet className="h-4 w-4" />
-                            Pay {paymentRequest.amount} {paymentRequest.token}
+                            Pay {tokenAmount} {paymentToken}
                             <ArrowRight className="h-4 w-4" />
                           </>
                         )}
@@ -789,7 +1401,11 @@ export default function PaymentView({ linkId }: { linkId: string }) {
                 <div className="bg-slate-50 p-4 rounded-xl border border-border space-y-2.5 text-sm">
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Amount</span>
-                    <span className="font-bold text-foreground tabular-nums">{paymentRequest.amount} {paymentRequest.token}</span>
+                    <span className="font-bold text-foreground tabular-nums">
+                      {paymentRequest.currency
+                        ? `${formatFiat(paymentRequest.amount, paymentRequest.currency)}${paymentRequest.quote ? ` (${paymentRequest.quote.amount} ${paymentRequest.quote.token})` : ""}`
+                        : formatLinkAmount(paymentRequest)}
+                    </span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">To</span>
@@ -803,7 +1419,7 @@ export default function PaymentView({ linkId }: { linkId: string }) {
                       <Badge variant="secondary" className="text-xs rounded-md">{selectedNetwork || paymentRequest.network}</Badge>
                       {paymentRequest.txHash && (
                         <a
-                          href={`${getExplorerUrl(paymentRequest.network)}/tx/${paymentRequest.txHash}`}
+                          href={getTxUrl(paymentRequest.network.split(',')[0], paymentRequest.txHash)}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="text-blue-600 hover:text-blue-700"
@@ -819,7 +1435,7 @@ export default function PaymentView({ linkId }: { linkId: string }) {
                       <span className="text-muted-foreground">Tx Hash</span>
                       <div className="flex items-center gap-1.5">
                         <a
-                          href={`${getExplorerUrl(paymentRequest.network)}/tx/${paymentRequest.txHash}`}
+                          href={getTxUrl(paymentRequest.network.split(',')[0], paymentRequest.txHash)}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="text-xs font-mono text-blue-600 hover:underline"
@@ -10,8 +10,8 @@ import { getRewards, getPrices, toUsd, formatUsd, type RewardEntry, type TokenPr
 
 type RewardTab = 'human' | 'agent';
 
-const formatDate = (dateStr: string) => {
-  const date = new Date(dateStr);
+const formatDate = (timestamp: number) => {
+  const date = new Date(timestamp);
   return date.toLocaleDateString('en-US', {
     month: 'short',
     day: 'numeric',
@@ -43,12 +43,12 @@ const Rewards = () => {
 
   const { data: prices } = useQuery({
     queryKey: ['prices'],
-    queryFn: getPrices,
+    queryFn: ({ signal }) => getPrices(signal),
     staleTime: 60000,
     refetchInterval: 300000,
   });
 
-  const priceData: TokenPrices = prices ?? { LCX: 0, ETH: 0, USDC: 1, USDT: 1 };
+  const priceData: TokenPrices = prices ?? { LCX: 0, ETH: 0, POL: 0, BNB: 0, USDC: 1, USDT: 1 };
 
   const humanRewards = rewardsData?.rewards?.human ?? [];
   const agentRewards = rewardsData?.rewards?.agent ?? [];
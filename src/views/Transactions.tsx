@@ -7,16 +7,12 @@ import { ArrowDownLeft, Download, Loader2, ExternalLink, CheckCircle2, Wallet }
 import { useToast } from "@/hooks/use-toast";
 import { useAccount } from "wagmi";
 import { useConnectModal } from "@rainbow-me/rainbowkit";
-import { getAllPaymentRequests, getRewards, getPrices, toUsd, formatUsd, PaymentRequest, type RewardEntry, type TokenPrices } from "@/lib/api";
-import { getExplorerUrl } from "@/lib/contracts";
+import { getAllPaymentRequests, getRewards, getPrices, toUsd, formatUsd, linkTokenAmount, PaymentRequest, type RewardEntry, type TokenPrices } from "@/lib/api";
+import { getTxUrl } from "@/lib/contracts";
+import { AddressIdentity } from "@/components/AddressIdentity";
 
 type FilterTab = 'all' | 'human' | 'agent';
 
-const truncateAddress = (addr: string) => {
-  if (!addr) return '';
-  return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
-};
-
 const formatDate = (timestamp: number) => {
   const date = new Date(timestamp);
   return date.toLocaleDateString('en-US', {
@@ -55,12 +51,12 @@ const Transactions = () => {
 
   const { data: prices } = useQuery({
     queryKey: ['prices'],
-    queryFn: getPrices,
+    queryFn: ({ signal }) => getPrices(signal),
     staleTime: 60000,
     refetchInterval: 300000,
   });
 
-  const priceData: TokenPrices = prices ?? { LCX: 0, ETH: 0, USDC: 1, USDT: 1 };
+  const priceData: TokenPrices = prices ?? { LCX: 0, ETH: 0, POL: 0, BNB: 0, USDC: 1, USDT: 1 };
 
   // Build a lookup: paymentId → RewardEntry (fee info)
   const feeByPaymentId = useMemo(() => {
@@ -97,7 +93,7 @@ const Transactions = () => {
     const totals: Record<string, { amount: number; usd: number }> = {};
     transactions.forEach(t => {
       const token = t.token;
-      const amt = parseFloat(t.amount || '0');
+      const amt = parseFloat(linkTokenAmount(t) || '0');
       if (!totals[token]) totals[token] = { amount: 0, usd: 0 };
       totals[token].amount += amt;
       totals[token].usd += toUsd(amt, token, priceData);
@@ -132,7 +128,7 @@ const Transactions = () => {
       const fee = feeByPaymentId[t.id];
       return [
         formatDate(t.paidAt!),
-        t.amount,
+        linkTokenAmount(t) ?? t.amount,
         t.token,
         fee ? fee.feeTotal : '',
         fee ? fee.feeToken : '',
@@ -286,9 +282,7 @@ const Transactions = () => {
                                   </div>
                                 </TableCell>
                                 <TableCell className="hidden md:table-cell">
-                                  <code className="text-xs font-mono text-muted-foreground">
-                                    {truncateAddress(transaction.receiver)}
-                                  </code>
+                                  <AddressIdentity address={transaction.receiver} />
                                 </TableCell>
                                 <TableCell className="hidden lg:table-cell">
                                   <span className="text-xs text-muted-foreground">
@@ -298,10 +292,10 @@ const Transactions = () => {
                                 <TableCell className="text-right">
                                   <div>
                                     <span className="text-sm font-semibold text-emerald-600">
-                                      +{transaction.amount} {transaction.token}
+                                      +{linkTokenAmount(transaction) ?? transaction.amount} {transaction.token}
                                     </span>
                                     <p className="text-xs text-muted-foreground">
-                                      {formatUsd(toUsd(parseFloat(transaction.amount), transaction.token, priceData))}
+                                      {formatUsd(toUsd(parseFloat(linkTokenAmount(transaction) ?? '0'), transaction.token, priceData))}
                                     </p>
                                   </div>
                                 </TableCell>
@@ -338,7 +332,7 @@ const Transactions = () => {
                                 <TableCell>
                                   {transaction.txHash && (
                                     <a
-                                      href={`${getExplorerUrl(transaction.network)}/tx/${transaction.txHash}`}
+                                      href={getTxUrl(transaction.network, transaction.txHash)}
                                       target="_blank"
                                       rel="noopener noreferrer"
                                       className="p-2 rounded-md hover:bg-blue-50 inline-flex"